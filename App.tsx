@@ -9,7 +9,15 @@ import ErrorBoundary from './components/ErrorBoundary';
 import { useAuth } from './hooks/useAuth';
 import { FamilyDataProvider, useFamilyData } from './hooks/useFamilyData';
 import { ModalStateProvider, useModalState } from './hooks/useModalState';
+import { ConflictResolverProvider, useConflictResolver } from './hooks/useConflictResolver';
+import { ParentLockProvider, useParentLock } from './hooks/useParentLock';
 import { useSupabaseSync } from './hooks/useSupabaseSync';
+import { useMutationOutbox } from './hooks/useMutationOutbox';
+import { useReminders } from './hooks/useReminders';
+import { usePresence } from './hooks/usePresence';
+import { usePermissions } from './hooks/usePermissions';
+import { CurrentMemberProvider, findCurrentMember } from './hooks/useCurrentMember';
+import { ReplayResult } from './services/mutationOutbox';
 import { uiLogger, dataLogger } from './utils/logger';
 import {
   FamilyMember,
@@ -33,13 +41,20 @@ import ChoresTab from './components/ChoresTab';
 import RoutinesTab from './components/RoutinesTab';
 import CalendarTab from './components/CalendarTab';
 import BottomNavigation from './components/BottomNavigation';
+import OutboxStatusBar from './components/OutboxStatusBar';
+import PresenceAvatars from './components/PresenceAvatars';
 import EditMemberModal from './components/EditMemberModal';
+import PointsHistoryModal from './components/PointsHistoryModal';
 import AddRewardModal from './components/AddRewardModal';
 import EventModal from './components/EventModal';
 import AddChoreModal from './components/AddChoreModal';
 import EditChoreModal from './components/EditChoreModal';
 import ManageChoreTypesModal from './components/ManageChoreTypesModal';
 import ManageRoutinesModal from './components/ManageRoutinesModal';
+import ConflictResolutionModal from './components/ConflictResolutionModal';
+import ParentPinModal from './components/ParentPinModal';
+import KidModeModal from './components/KidModeModal';
+import KidModeIndicator from './components/KidModeIndicator';
 
 // Constants from types.ts
 const AVAILABLE_COLORS = [...DEFAULT_COLORS];
@@ -59,6 +74,7 @@ const AppContent: React.FC = () => {
   const {
     isCheckingAuth,
     showSetupWizard,
+    user,
     currentFamilyId,
     handleSetupComplete: handleAuthSetupComplete
   } = useAuth();
@@ -70,6 +86,7 @@ const AppContent: React.FC = () => {
     chores,
     events,
     rewards,
+    rewardRedemptions,
     routines,
     choreTypes,
     familyDetails,
@@ -79,33 +96,72 @@ const AppContent: React.FC = () => {
     setChores,
     setEvents,
     setRewards,
+    setRewardRedemptions,
     setRoutines,
     setChoreTypes,
     setFamilyDetails,
     setDailyRoutineProgress,
     loadData,
     getMemberById,
-    getMemberByName,
     handleSaveMember,
     handleDeleteMember,
+    handleAdjustPoints,
     handleCompleteChore,
+    handleUncompleteChore,
     handleSaveChore,
     handleDeleteChore,
+    handleRequestReward,
+    handleDecideRedemption,
+    handleRequestMemberClaim,
+    handleDecideMemberClaim,
+    handleSetMembershipRole,
     handleRoutineStepToggle,
     handleNewPhotoSelected,
     saveFamilyDetails
   } = useFamilyData();
 
+  // The member linked to the signed-in account ("me"), once a parent has confirmed the claim
+  const me = findCurrentMember(familyMembers, user?.id);
+  const canClaimProfiles = dataService.backend !== 'local' && !!user;
+
   // Real-time data synchronization
   const { handleRealtimeDataUpdate } = useSupabaseSync({
+    familyMembers,
+    chores,
+    events,
+    rewards,
+    routines,
+    choreTypes,
+    rewardRedemptions,
+    dailyRoutineProgress,
+    progressDate: currentDate,
     setFamilyMembers,
     setChores,
     setEvents,
     setRewards,
     setRoutines,
-    setChoreTypes
+    setChoreTypes,
+    setRewardRedemptions,
+    setDailyRoutineProgress
   });
 
+  // Offline outbox - refresh synced tables so optimistic records pick up their server IDs
+  const handleOutboxReplayed = useCallback((result: ReplayResult) => {
+    result.tables.forEach(table => handleRealtimeDataUpdate(table, 'UPDATE', null));
+  }, [handleRealtimeDataUpdate]);
+
+  const outbox = useMutationOutbox({ onReplayed: handleOutboxReplayed });
+
+  // Event and chore reminders, delivered as notifications on this device; only mine once linked
+  const reminders = useReminders(events, chores, me?.id);
+
+  const handleOutboxDiscard = useCallback(async (entryId: string) => {
+    const entry = outbox.entries.find(e => e.id === entryId);
+    await outbox.discard(entryId);
+    if (entry) {
+      await handleRealtimeDataUpdate(entry.table, 'DELETE', null);
+    }
+  }, [outbox, handleRealtimeDataUpdate]);
 
   // Handle setup completion - wrapper around hook version to also load data
   const handleSetupComplete = useCallback(async (newFamilyId: string) => {
@@ -127,6 +183,9 @@ const AppContent: React.FC = () => {
     openAddMember,
     openEditMember,
     closeMemberModal,
+    pointsHistoryMember,
+    openPointsHistory,
+    closePointsHistory,
     isEventModalOpen,
     openEventModal,
     closeEventModal,
@@ -145,11 +204,45 @@ const AppContent: React.FC = () => {
     isManageRoutinesOpen,
     openManageRoutines,
     closeManageRoutines,
+    isKidModeSettingsOpen,
+    openKidModeSettings,
+    closeKidModeSettings,
     isPerformanceMonitorOpen,
     openPerformanceMonitor,
     closePerformanceMonitor
   } = useModalState();
 
+  // Edits that clashed with a save from another device wait here for the user to merge them
+  const { pendingConflict, resolvePendingConflict } = useConflictResolver();
+
+  // Kid mode: on a shared device, deletes and point changes wait for the parent PIN. Opening
+  // management modals is guarded inside useModalState.
+  const {
+    kidMode,
+    isLocked,
+    setKidMode,
+    lock,
+    requireParent,
+    withParent,
+    isPinPromptOpen,
+    submitPin,
+    cancelPinPrompt
+  } = useParentLock();
+
+  // Who else in the family is online, and what they're looking at
+  const presence = usePresence({
+    familyId: dataService.backend === 'local' ? null : currentFamilyId,
+    user,
+    familyMembers,
+    activeTab,
+    editingChoreId: isEditChoreModalOpen && editingChore ? editingChore.id : null
+  });
+
+  // What the signed-in account's family role lets it change; actions it can't take are hidden
+  const { role, can } = usePermissions({
+    familyId: dataService.backend === 'local' ? null : currentFamilyId,
+    enabled: !isCheckingAuth && !showSetupWizard && !isLoading
+  });
 
   // Load data when setup is complete AND auth check is done
   useEffect(() => {
@@ -186,14 +279,14 @@ const AppContent: React.FC = () => {
 
   const handleMemberSave = async (member: FamilyMember | NewFamilyMember) => {
     try {
-      await handleSaveMember(member);
+      await handleSaveMember(member, editingMember);
       closeMemberModal();
     } catch (error) {
       uiLogger.error('Error in member save handler', error as Error);
     }
   };
 
-  const handleMemberDelete = async (id: number) => {
+  const handleMemberDelete = async (id: string) => {
     try {
       await handleDeleteMember(id);
     } catch (error) {
@@ -234,7 +327,7 @@ const AppContent: React.FC = () => {
 
   const DEFAULT_NEW_CHORE_STATE: NewChore = {
     title: '',
-    assignedTo: '',
+    assignedTo: [],
     completed: false,
     points: 10,
     dueDate: new Date().toISOString().split('T')[0],
@@ -263,9 +356,18 @@ const AppContent: React.FC = () => {
               setIsEditingFamily={setIsEditingFamily}
               onNewPhotoSelected={handleNewPhotoSelected}
               saveFamilyDetails={handleSaveFamilyDetails}
-              onEditMember={handleEditMember}
-              onDeleteMember={handleMemberDelete}
-              onAddMember={handleAddMember}
+              canEditFamily={can('familyDetails.edit')}
+              onEditMember={can('familyMember.edit') ? handleEditMember : undefined}
+              onDeleteMember={can('familyMember.delete') ? withParent(handleMemberDelete) : undefined}
+              onAddMember={can('familyMember.create') ? handleAddMember : undefined}
+              onShowPointsHistory={openPointsHistory}
+              onRequestMemberClaim={canClaimProfiles ? handleRequestMemberClaim : undefined}
+              onDecideMemberClaim={canClaimProfiles && can('memberClaim.approve') ? withParent(handleDecideMemberClaim) : undefined}
+              onSetMembershipRole={canClaimProfiles && can('membership.role') ? withParent(handleSetMembershipRole) : undefined}
+              getSyncStatus={outbox.getSyncStatus}
+              reminders={reminders}
+              kidMode={kidMode}
+              onOpenKidMode={openKidModeSettings}
             />
           </ErrorBoundary>
         );
@@ -275,13 +377,19 @@ const AppContent: React.FC = () => {
             <ChoresTab
               chores={chores}
               familyMembers={familyMembers}
-              onAddChore={handleAddChore}
+              onAddChore={can('chore.create') ? handleAddChore : undefined}
               onCompleteChore={handleCompleteChore}
-              onEditChore={handleEditChore}
-              onManageChoreTypes={openManageChoreTypes}
+              onUncompleteChore={handleUncompleteChore}
+              onEditChore={can('chore.edit') ? handleEditChore : undefined}
+              onManageChoreTypes={can('choreType.manage') ? openManageChoreTypes : undefined}
               rewards={rewards}
-              onAddReward={openAddRewardModal}
-              getMemberByName={getMemberByName}
+              rewardRedemptions={rewardRedemptions}
+              onAddReward={can('reward.manage') ? openAddRewardModal : undefined}
+              onRequestReward={handleRequestReward}
+              onDecideRedemption={can('reward.approve') ? withParent(handleDecideRedemption) : undefined}
+              getMemberById={getMemberById}
+              onShowPointsHistory={openPointsHistory}
+              getSyncStatus={outbox.getSyncStatus}
             />
           </ErrorBoundary>
         );
@@ -294,8 +402,7 @@ const AppContent: React.FC = () => {
               dailyRoutineProgress={dailyRoutineProgress}
               onToggleRoutineStep={handleRoutineStepToggle}
               currentDate={currentDate}
-              onManageRoutines={openManageRoutines}
-              getMemberById={getMemberById}
+              onManageRoutines={can('routine.manage') ? openManageRoutines : undefined}
             />
           </ErrorBoundary>
         );
@@ -305,9 +412,11 @@ const AppContent: React.FC = () => {
             <CalendarTab
               events={events}
               familyMembers={familyMembers}
-              onAddEvent={openEventModal}
+              onAddEvent={can('event.create') ? openEventModal : undefined}
+              canEditEvents={can('event.edit')}
               currentLocation={familyDetails.address || null}
               onEventsUpdated={setEvents}
+              getSyncStatus={outbox.getSyncStatus}
             />
           </ErrorBoundary>
         );
@@ -333,11 +442,27 @@ const AppContent: React.FC = () => {
 
   return (
     <RealtimeProvider 
-      familyId={currentFamilyId} 
+      familyId={dataService.backend === 'local' ? undefined : currentFamilyId ?? undefined} 
       onDataUpdate={handleRealtimeDataUpdate}
     >
+      <CurrentMemberProvider userId={user?.id ?? null} me={me} role={role}>
       <div className="h-screen overflow-hidden flex flex-col" style={{backgroundColor: '#A8D8D8'}}>
         <div className="flex-1 px-6 py-6 overflow-y-auto">
+          <KidModeIndicator
+            kidMode={kidMode}
+            isLocked={isLocked}
+            onUnlock={requireParent}
+            onLock={lock}
+          />
+          <PresenceAvatars others={presence.others} familyMembers={familyMembers} />
+          <OutboxStatusBar
+            entries={outbox.entries}
+            pendingCount={outbox.pendingCount}
+            failedCount={outbox.failedCount}
+            syncNow={outbox.syncNow}
+            retry={outbox.retry}
+            discard={handleOutboxDiscard}
+          />
           {renderTab()}
         </div>
 
@@ -359,6 +484,15 @@ const AppContent: React.FC = () => {
           />
         )}
 
+        {pointsHistoryMember && (
+          <PointsHistoryModal
+            isOpen={!!pointsHistoryMember}
+            onClose={closePointsHistory}
+            member={familyMembers.find(m => m.id === pointsHistoryMember.id) ?? pointsHistoryMember}
+            onAdjustPoints={can('points.adjust') ? withParent(handleAdjustPoints) : undefined}
+          />
+        )}
+
         {isAddChoreModalOpen && (
         <AddChoreModal
           isOpen={isAddChoreModalOpen}
@@ -374,11 +508,12 @@ const AppContent: React.FC = () => {
         <EditChoreModal
           isOpen={isEditChoreModalOpen}
           onClose={closeChoreModals}
-          onSaveChore={handleSaveChore}
-          onDeleteChore={handleDeleteChore}
+          onSaveChore={(chore, scope) => handleSaveChore(chore, scope, editingChore)}
+          onDeleteChore={can('chore.delete') ? withParent(handleDeleteChore) : undefined}
           chore={editingChore}
           familyMembers={familyMembers}
           choreTypes={choreTypes}
+          otherEditors={[...new Set(presence.others.filter(p => p.editingChoreId === editingChore.id).map(p => p.name))]}
         />
       )}
 
@@ -401,9 +536,16 @@ const AppContent: React.FC = () => {
           isOpen={isManageChoreTypesOpen}
           onClose={closeManageChoreTypes}
           choreTypes={choreTypes}
-          onSaveChoreType={async (choreType) => {
-            const updatedTypes = await dataService.updateChoreTypes([...choreTypes, choreType]);
+          chores={chores}
+          onSaveChoreTypes={async (types, reassignments) => {
+            const updatedTypes = await dataService.updateChoreTypes(types, reassignments);
             setChoreTypes(updatedTypes);
+            const keptIds = new Set(updatedTypes.map(type => type.id));
+            setChores(prev => prev.map(chore =>
+              chore.choreTypeId && !keptIds.has(chore.choreTypeId)
+                ? { ...chore, choreTypeId: reassignments[chore.choreTypeId] ?? null }
+                : chore
+            ));
           }}
         />
       )}
@@ -415,8 +557,14 @@ const AppContent: React.FC = () => {
           routines={routines}
           familyMembers={familyMembers}
           onSaveRoutine={async (routine) => {
-            const updatedRoutines = await dataService.updateRoutines([...routines, routine]);
-            setRoutines(updatedRoutines);
+            if (routines.some(r => r.id === routine.id)) {
+              await dataService.updateRoutine(routine);
+              setRoutines(prev => prev.map(r => (r.id === routine.id ? routine : r)));
+            } else {
+              const { id: _id, ...newRoutine } = routine;
+              const created = await dataService.addRoutine(newRoutine);
+              setRoutines(prev => [...prev, created]);
+            }
           }}
           onDeleteRoutine={async (routineId) => {
             await dataService.deleteRoutine(routineId);
@@ -453,12 +601,37 @@ const AppContent: React.FC = () => {
         />
       )}
 
+      {pendingConflict && (
+        <ConflictResolutionModal
+          conflict={pendingConflict}
+          familyMembers={familyMembers}
+          choreTypes={choreTypes}
+          onResolve={resolvePendingConflict}
+        />
+      )}
+
+      {isKidModeSettingsOpen && (
+        <KidModeModal
+          isOpen={isKidModeSettingsOpen}
+          onClose={closeKidModeSettings}
+          kidMode={kidMode}
+          onSetKidMode={setKidMode}
+          onSavePin={can('parentPin.manage') ? (pin, currentPin) => dataService.setParentPin(pin, currentPin) : undefined}
+        />
+      )}
+
+      {/* Rendered last so it sits above any modal that asked for it */}
+      {isPinPromptOpen && (
+        <ParentPinModal onSubmit={submitPin} onCancel={cancelPinPrompt} />
+      )}
+
       {/* Performance Monitor (Ctrl+Shift+P) */}
       <PerformanceMonitor
         isOpen={isPerformanceMonitorOpen}
         onClose={closePerformanceMonitor}
       />
       </div>
+      </CurrentMemberProvider>
     </RealtimeProvider>
   );
 };
@@ -467,11 +640,15 @@ const queryClient = new QueryClient();
 
 const App: React.FC = () => (
   <QueryClientProvider client={queryClient}>
-    <FamilyDataProvider>
-      <ModalStateProvider>
-        <AppContent />
-      </ModalStateProvider>
-    </FamilyDataProvider>
+    <ConflictResolverProvider>
+      <FamilyDataProvider>
+        <ParentLockProvider>
+          <ModalStateProvider>
+            <AppContent />
+          </ModalStateProvider>
+        </ParentLockProvider>
+      </FamilyDataProvider>
+    </ConflictResolverProvider>
   </QueryClientProvider>
 );
 
@@ -0,0 +1,133 @@
+// Data Service Contract
+// Backend-agnostic interface implemented by every data adapter (Supabase, local)
+
+import {
+  FamilyMember,
+  NewFamilyMember,
+  Chore,
+  NewChore,
+  ChoreCompletionResult,
+  RecurrenceRule,
+  PointTransaction,
+  EventItem,
+  Reward,
+  NewReward,
+  RewardRedemption,
+  FamilyDetails,
+  ChoreType,
+  Routine,
+  DailyRoutineProgress,
+  RoutineStepResult,
+  FamilyRole,
+  MemberClaim,
+  FamilyMembership,
+  TabId
+} from './types';
+
+export type DataBackend = 'supabase' | 'local';
+
+export interface ServiceInfo {
+  type: DataBackend;
+  version: string;
+  status: 'active';
+}
+
+export interface FamilySummary {
+  id: string;
+  name: string;
+  address?: string;
+}
+
+export interface IDataService {
+  initialize(): Promise<void>;
+  setCurrentFamilyId(familyId: string): void;
+
+  // Family
+  getFamilyDetails(): Promise<FamilyDetails>;
+  // Updates check the entity's updatedAt and throw UpdateConflictError if the row changed since;
+  // they resolve with the saved entity and its new updatedAt
+  saveFamilyDetails(details: FamilyDetails): Promise<FamilyDetails>;
+  getFamilyPhoto(): Promise<string | null>;
+  saveFamilyPhoto(photoDataUrl: string): Promise<void>;
+  createNewFamily(familyName: string, familyAddress?: string): Promise<FamilySummary | null>;
+  joinFamilyWithInviteCode(inviteCode: string): Promise<FamilySummary | null>;
+  // The signed-in account's role in the current family; decides what it may change
+  getCurrentUserRole(): Promise<FamilyRole>;
+  // Every account in the current family; only parents may change a role, and one parent always stays
+  getFamilyMemberships(): Promise<FamilyMembership[]>;
+  setMembershipRole(membershipId: string, role: FamilyRole): Promise<FamilyMembership>;
+
+  // Parent PIN guarding management actions in kid mode, stored hashed per family
+  hasParentPin(): Promise<boolean>;
+  // Pass null to remove the PIN; changing an existing PIN needs the current one
+  setParentPin(pin: string | null, currentPin?: string): Promise<void>;
+  verifyParentPin(pin: string): Promise<boolean>;
+
+  // Linking signed-in accounts to family members; a claim waits for a parent unless a parent made it
+  getMemberClaims(): Promise<MemberClaim[]>;
+  requestMemberClaim(memberId: string): Promise<MemberClaim>;
+  decideMemberClaim(claimId: string, approve: boolean): Promise<MemberClaim>;
+
+  // Family members
+  getFamilyMembers(): Promise<FamilyMember[]>;
+  addFamilyMember(member: NewFamilyMember): Promise<FamilyMember>;
+  updateFamilyMember(member: FamilyMember): Promise<FamilyMember>;
+  deleteFamilyMember(id: string): Promise<void>;
+
+  // Points ledger
+  getPointTransactions(memberId?: string): Promise<PointTransaction[]>;
+  adjustMemberPoints(memberId: string, amount: number, reason: string): Promise<PointTransaction>;
+
+  // Chores
+  getChores(): Promise<Chore[]>;
+  addChore(chore: NewChore): Promise<Chore>;
+  updateChore(chore: Chore): Promise<Chore>;
+  deleteChore(id: string): Promise<void>;
+  completeChore(choreId: string, memberId?: string): Promise<ChoreCompletionResult>;
+  uncompleteChore(choreId: string, memberId?: string): Promise<ChoreCompletionResult>;
+  // Recurring chores: occurrences are generated as ordinary chores up to a rolling window end
+  generateRecurringChores(untilDate: string): Promise<Chore[]>;
+  addChoreSeries(chore: NewChore, recurrence: RecurrenceRule): Promise<Chore[]>;
+  // "This and all future": replaces `chore` and later occurrences; a null rule stops the series after it
+  updateChoreSeries(chore: Chore, recurrence: RecurrenceRule | null): Promise<Chore[]>;
+  deleteChoreSeries(chore: Chore): Promise<void>;
+  getChoreTypes(): Promise<ChoreType[]>;
+  /**
+   * Save the full list of types: new IDs are inserted, known ones updated in place and missing ones
+   * deleted. Chores on a deleted type move to the type in `reassignments`, otherwise lose their type.
+   */
+  updateChoreTypes(choreTypes: ChoreType[], reassignments?: Record<string, string | null>): Promise<ChoreType[]>;
+
+  // Events
+  getEvents(): Promise<EventItem[]>;
+  addEvent(event: Omit<EventItem, 'id'>): Promise<EventItem>;
+  updateEvent(event: EventItem): Promise<EventItem>;
+  deleteEvent(id: string): Promise<void>;
+
+  // Rewards
+  getRewards(): Promise<Reward[]>;
+  addReward(reward: NewReward): Promise<Reward>;
+  updateReward(reward: Reward): Promise<void>;
+  deleteReward(id: string): Promise<void>;
+  getRewardRedemptions(): Promise<RewardRedemption[]>;
+  requestRewardRedemption(rewardId: string, memberId: string): Promise<RewardRedemption>;
+  decideRewardRedemption(redemptionId: string, approve: boolean, note?: string): Promise<RewardRedemption>;
+
+  // Routines
+  getRoutines(): Promise<Routine[]>;
+  addRoutine(routine: Omit<Routine, 'id'>): Promise<Routine>;
+  updateRoutine(routine: Routine): Promise<void>;
+  // Bulk save matched by id: unknown routines are added, missing ones deleted, the rest updated in place
+  updateRoutines(routines: Routine[]): Promise<Routine[]>;
+  deleteRoutine(id: string): Promise<void>;
+  getDailyRoutineProgress(date: string): Promise<DailyRoutineProgress[]>;
+  upsertDailyRoutineProgress(progress: DailyRoutineProgress): Promise<void>;
+  // Checks or un-checks a step, crediting or reversing the routine's completion points
+  setRoutineStep(memberId: string, routineId: string, date: string, stepId: string, done: boolean): Promise<RoutineStepResult>;
+
+  // App settings
+  getActiveTab(): Promise<TabId | null>;
+  saveActiveTab(tabId: TabId): Promise<void>;
+
+  getServiceInfo(): Promise<ServiceInfo>;
+}
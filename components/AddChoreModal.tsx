@@ -1,15 +1,19 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Chore, FamilyMember, ChoreType } from '../types';
+import { Chore, NewChore, FamilyMember, ChoreType } from '../types';
 import { convertToHexColor } from '../utils/colorUtils';
 import { getIcon } from '../utils/iconUtils';
 import Modal from './ui/Modal';
 import Button from './ui/Button';
 import FormField from './ui/FormField';
+import ChoreModeFields from './ChoreModeFields';
+import RecurrenceFields from './RecurrenceFields';
+import ReminderFields from './ReminderFields';
+import { CHORE_REMINDER_OPTIONS } from '../utils/reminders';
 
 interface AddChoreModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSaveChore: (choreData: Omit<Chore, 'id' | 'completed'> | Chore) => void;
+  onSaveChore: (choreData: NewChore) => void;
   familyMembers: FamilyMember[];
   defaultNewChoreState: Omit<Chore, 'id' | 'completed'>;
   choreTypes: ChoreType[];
@@ -26,23 +30,23 @@ const AddChoreModal: React.FC<AddChoreModalProps> = ({
   const [newChore, setNewChore] = useState(defaultNewChoreState);
   const [selectedChoreTypeId, setSelectedChoreTypeId] = useState<string>('');
 
-  const toggleAssignedTo = useCallback((memberName: string) => {
+  const toggleAssignedTo = useCallback((memberId: string) => {
     setNewChore(prev => ({
       ...prev,
-      assignedTo: prev.assignedTo.includes(memberName)
-        ? prev.assignedTo.filter(name => name !== memberName)
-        : [...prev.assignedTo, memberName]
+      assignedTo: prev.assignedTo.includes(memberId)
+        ? prev.assignedTo.filter(id => id !== memberId)
+        : [...prev.assignedTo, memberId]
     }));
   }, []);
 
-  const getMemberColor = useCallback((memberName: string) => {
-    const member = familyMembers.find(m => m.name === memberName);
+  const getMemberColor = useCallback((memberId: string) => {
+    const member = familyMembers.find(m => m.id === memberId);
     return convertToHexColor(member?.color);
   }, [familyMembers]);
 
   useEffect(() => {
     if (isOpen) {
-      const initialAssignee = familyMembers.length > 0 ? familyMembers[0].name : 
+      const initialAssignee = familyMembers.length > 0 ? familyMembers[0].id : 
         (Array.isArray(defaultNewChoreState.assignedTo) && defaultNewChoreState.assignedTo.length > 0 
           ? defaultNewChoreState.assignedTo[0] 
           : '');
@@ -94,7 +98,7 @@ const AddChoreModal: React.FC<AddChoreModalProps> = ({
       alert("Please assign the chore to at least one family member.");
       return;
     }
-    onSaveChore(newChore);
+    onSaveChore({ ...newChore, completed: false });
   }, [newChore, onSaveChore]);
 
   return (
@@ -153,7 +157,7 @@ const AddChoreModal: React.FC<AddChoreModalProps> = ({
             />
           </FormField>
 
-          <FormField label="Due Date" htmlFor="choreDueDate" required>
+          <FormField label={newChore.recurrence ? 'First Due Date' : 'Due Date'} htmlFor="choreDueDate" required>
             <input
               id="choreDueDate"
               type="date"
@@ -164,20 +168,34 @@ const AddChoreModal: React.FC<AddChoreModalProps> = ({
           </FormField>
         </div>
 
+        <RecurrenceFields
+          value={newChore.recurrence}
+          onChange={(recurrence) => handleChange('recurrence', recurrence)}
+          startDate={newChore.dueDate}
+          idPrefix="choreRecurrence"
+        />
+
+        <ReminderFields
+          value={newChore.reminders}
+          onChange={(reminders) => handleChange('reminders', reminders)}
+          options={CHORE_REMINDER_OPTIONS}
+          idPrefix="choreReminders"
+        />
+
         <FormField label="Assign To" htmlFor="assignTo">
           <div
             id="assignTo"
             className="grid grid-cols-2 gap-2 rounded-lg border border-slate-200 bg-slate-100/50 p-2 sm:grid-cols-3"
           >
             {familyMembers.map(member => {
-              const isSelected = newChore.assignedTo.includes(member.name);
-              const memberColor = getMemberColor(member.name);
+              const isSelected = newChore.assignedTo.includes(member.id);
+              const memberColor = getMemberColor(member.id);
 
               return (
                 <button
-                  key={`${member.id}-${member.name}`}
+                  key={member.id}
                   type="button"
-                  onClick={() => toggleAssignedTo(member.name)}
+                  onClick={() => toggleAssignedTo(member.id)}
                   className={`w-full rounded-lg p-2 text-left text-xs transition-all sm:text-sm ${
                     isSelected
                       ? 'font-semibold text-white shadow-md'
@@ -202,6 +220,14 @@ const AddChoreModal: React.FC<AddChoreModalProps> = ({
           </div>
         </FormField>
 
+        {newChore.assignedTo.length > 1 && (
+          <ChoreModeFields
+            completionMode={newChore.completionMode ?? 'any'}
+            pointsMode={newChore.pointsMode ?? 'duplicate'}
+            onChange={(modes) => setNewChore(prev => ({ ...prev, ...modes }))}
+          />
+        )}
+
         {newChore.icon && (
           <div className="flex items-center gap-2 text-sm text-slate-600">
             <span className="font-medium">Icon:</span>
@@ -0,0 +1,115 @@
+import React, { useMemo } from 'react';
+import { Repeat, CalendarDays } from 'lucide-react';
+import { EventItem, FamilyMember } from '../types';
+import { addDays, getLocalDateString } from '../utils/recurrence';
+import { expandEvents, getEventDate, getEventEnd, getEventLastDate, startOfLocalDay } from '../utils/eventUtils';
+import { getDayInfo } from '../utils/calendarLayout';
+import type { OutboxStatus } from '../services/mutationOutbox';
+
+interface CalendarAgendaViewProps {
+  fromDate: Date;
+  dayCount: number;
+  events: EventItem[];
+  familyMembers: FamilyMember[];
+  onEditEvent: (event: EventItem) => void;
+  getSyncStatus?: (table: string, entityId: string) => OutboxStatus | null;
+}
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+const formatShortDate = (date: Date) => date.toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' });
+
+const describeTiming = (event: EventItem) => {
+  const lastDate = getEventLastDate(event);
+  if (event.allDay) {
+    return lastDate === getEventDate(event) ? 'All day' : `All day, until ${formatShortDate(startOfLocalDay(lastDate))}`;
+  }
+  const end = getEventEnd(event);
+  const endLabel = lastDate === getEventDate(event) ? formatTime(end) : `${formatShortDate(end)} ${formatTime(end)}`;
+  return `${formatTime(new Date(event.date))} - ${endLabel}`;
+};
+
+// Upcoming events listed by day; events already under way are listed on the first day
+const CalendarAgendaView: React.FC<CalendarAgendaViewProps> = ({
+  fromDate,
+  dayCount,
+  events,
+  familyMembers,
+  onEditEvent,
+  getSyncStatus
+}) => {
+  const groups = useMemo(() => {
+    const from = getLocalDateString(fromDate);
+    const to = addDays(from, dayCount - 1);
+    const byDate = new Map<string, EventItem[]>();
+    expandEvents(events, from, to)
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .forEach(event => {
+        const date = getEventDate(event) < from ? from : getEventDate(event);
+        byDate.set(date, [...(byDate.get(date) ?? []), event]);
+      });
+    return [...byDate.entries()].sort(([a], [b]) => a.localeCompare(b));
+  }, [fromDate, dayCount, events]);
+
+  if (groups.length === 0) {
+    return (
+      <div className="flex h-full flex-col items-center justify-center text-slate-500">
+        <CalendarDays size={32} className="mb-2 text-slate-400" />
+        <p className="text-sm">Nothing planned for the next {dayCount} days</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto pr-1">
+      {groups.map(([date, dayEvents]) => {
+        const dayInfo = getDayInfo(startOfLocalDay(date));
+        return (
+          <section key={date} className="mb-4">
+            <h3 className={`sticky top-0 z-10 mb-2 bg-slate-50/90 py-1 text-sm font-semibold ${dayInfo.isCurrentDay ? 'text-teal-700' : 'text-slate-600'}`}>
+              {dayInfo.isCurrentDay ? 'Today, ' : ''}
+              {dayInfo.fullDate.toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'long' })}
+            </h3>
+            <ul className="space-y-2">
+              {dayEvents.map(event => {
+                const attendeeNames = event.attendees
+                  .map(id => familyMembers.find(member => member.id === id)?.name)
+                  .filter(Boolean);
+                const syncStatus = getSyncStatus?.('events', event.seriesId ?? event.id);
+                return (
+                  <li key={event.id}>
+                    <button
+                      type="button"
+                      onClick={() => onEditEvent(event)}
+                      className="flex w-full items-stretch gap-3 rounded-xl bg-white/70 p-2 text-left shadow-sm hover:bg-teal-50"
+                      aria-label={`Edit ${event.title}`}
+                    >
+                      <span className={`w-1.5 shrink-0 rounded-full ${event.color || 'bg-slate-200'}`} />
+                      <span className="min-w-0 flex-1">
+                        <span className="flex items-center text-sm font-medium text-slate-700">
+                          {event.seriesId && <Repeat size={12} className="mr-1 shrink-0 text-teal-600" aria-label="Repeats" />}
+                          <span className="truncate">{event.title}</span>
+                          {syncStatus && (
+                            <span
+                              className={`ml-2 h-2 w-2 shrink-0 rounded-full ${syncStatus === 'failed' ? 'bg-red-500' : 'bg-amber-400'}`}
+                              title={syncStatus === 'failed' ? 'Sync failed' : 'Pending sync'}
+                            />
+                          )}
+                        </span>
+                        <span className="block text-xs text-slate-500">
+                          {describeTiming(event)}
+                          {attendeeNames.length > 0 && ` • ${attendeeNames.join(', ')}`}
+                        </span>
+                      </span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CalendarAgendaView;
@@ -0,0 +1,104 @@
+import React, { useMemo } from 'react';
+import { Repeat } from 'lucide-react';
+import { EventItem } from '../types';
+import { getLocalDateString } from '../utils/recurrence';
+import { expandEvents, getEventDate, getEventLastDate, isSpanningEvent } from '../utils/eventUtils';
+import { WeekDayInfo } from '../utils/calendarLayout';
+
+interface CalendarMonthViewProps {
+  days: WeekDayInfo[];
+  month: number; // 0-11; days from the neighbouring months are dimmed
+  events: EventItem[];
+  onSelectDay: (date: Date) => void;
+  onEditEvent: (event: EventItem) => void;
+}
+
+const MAX_CHIPS = 3;
+const WEEKDAY_HEADINGS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// Month grid with a chip per event; days with more than fit link through to the day view
+const CalendarMonthView: React.FC<CalendarMonthViewProps> = ({ days, month, events, onSelectDay, onEditEvent }) => {
+  const eventsByDate = useMemo(() => {
+    const byDate = new Map<string, EventItem[]>();
+    if (days.length === 0) return byDate;
+    const dates = days.map(day => getLocalDateString(day.fullDate));
+    expandEvents(events, dates[0], dates[dates.length - 1])
+      // All-day and multi-day events first, then by start time
+      .sort((a, b) => Number(isSpanningEvent(b)) - Number(isSpanningEvent(a)) || a.date.localeCompare(b.date))
+      .forEach(event => {
+        const first = getEventDate(event);
+        const last = getEventLastDate(event);
+        dates.filter(date => date >= first && date <= last).forEach(date => {
+          byDate.set(date, [...(byDate.get(date) ?? []), event]);
+        });
+      });
+    return byDate;
+  }, [days, events]);
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="grid grid-cols-7 gap-1 sm:gap-2 mb-1">
+        {WEEKDAY_HEADINGS.map(heading => (
+          <div key={heading} className="text-center text-xs sm:text-sm font-semibold text-slate-600">{heading}</div>
+        ))}
+      </div>
+      <div className="grid flex-1 grid-cols-7 gap-1 sm:gap-2 auto-rows-fr overflow-y-auto">
+        {days.map(dayInfo => {
+          const date = getLocalDateString(dayInfo.fullDate);
+          const dayEvents = eventsByDate.get(date) ?? [];
+          const inMonth = dayInfo.fullDate.getMonth() === month;
+          const hiddenCount = dayEvents.length - MAX_CHIPS;
+          return (
+            <div
+              key={date}
+              className={`flex min-h-[72px] min-w-0 flex-col rounded-lg border p-1
+                ${dayInfo.isCurrentDay ? 'bg-teal-50/60 border-teal-400/70' : 'bg-slate-50/50 border-slate-200/30'}
+                ${inMonth ? '' : 'opacity-50'}
+              `}
+            >
+              <button
+                type="button"
+                onClick={() => onSelectDay(dayInfo.fullDate)}
+                className={`self-end rounded-full px-1.5 text-xs sm:text-sm hover:bg-teal-100 ${dayInfo.isCurrentDay ? 'text-teal-600 font-bold' : 'text-slate-500'}`}
+                aria-label={`Show ${dayInfo.fullDate.toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'long' })}`}
+              >
+                {dayInfo.date}
+              </button>
+              <div className="mt-0.5 space-y-0.5">
+                {dayEvents.slice(0, MAX_CHIPS).map(event => (
+                  <button
+                    key={event.id}
+                    type="button"
+                    onClick={() => onEditEvent(event)}
+                    className={`block w-full truncate rounded px-1 text-left text-[10px] font-medium text-slate-600 ${event.color || 'bg-slate-200'}`}
+                    title={event.title}
+                    aria-label={`Edit ${event.title}`}
+                  >
+                    {event.seriesId && <Repeat size={8} className="inline mr-0.5 align-baseline" aria-label="Repeats" />}
+                    {!isSpanningEvent(event) && (
+                      <span className="mr-1 text-slate-500">
+                        {new Date(event.date).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                      </span>
+                    )}
+                    {event.title}
+                  </button>
+                ))}
+                {hiddenCount > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => onSelectDay(dayInfo.fullDate)}
+                    className="block w-full px-1 text-left text-[10px] font-medium text-teal-700 hover:underline"
+                  >
+                    +{hiddenCount} more
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CalendarMonthView;
@@ -0,0 +1,253 @@
+import React, { useMemo } from 'react';
+import { Edit3, Repeat } from 'lucide-react';
+import { EventItem, FamilyMember } from '../types';
+import { getLocalDateString } from '../utils/recurrence';
+import { getEventDate, getEventEnd, getEventLastDate } from '../utils/eventUtils';
+import { HourRange, WEEK_HOURS, WeekDayInfo, layoutAllDayLane, processEvents } from '../utils/calendarLayout';
+import type { OutboxStatus } from '../services/mutationOutbox';
+import { uiLogger } from '../utils/logger';
+
+interface CalendarTimeGridProps {
+  days: WeekDayInfo[];
+  events: EventItem[];
+  familyMembers: FamilyMember[];
+  hours?: HourRange;
+  minHeight?: number; // px; lets a tall grid (e.g. 24 hours) scroll instead of squashing
+  onEditEvent: (event: EventItem) => void;
+  getSyncStatus?: (table: string, entityId: string) => OutboxStatus | null;
+}
+
+const LANE_ROW_HEIGHT = 22; // px
+
+const formatHour = (hour: number) => {
+  const h = hour % 24;
+  return `${h % 12 === 0 ? 12 : h % 12}${h < 12 ? 'am' : 'pm'}`;
+};
+
+// Utility to get an offset Tailwind color class for the avatar
+function getOffsetColorClass(colorClass: string | undefined): string {
+  if (!colorClass) return 'bg-slate-200';
+  // Try to match bg-<color>-<shade>
+  const match = colorClass.match(/^(bg-)?([a-z]+)-(\d{3})$/);
+  if (!match) return colorClass;
+  const [, , base, shadeStr] = match;
+  const shade = parseInt(shadeStr, 10);
+  // Always go lighter
+  let newShade = shade - 100;
+  if (newShade < 50) newShade = 50;
+  return `bg-${base}-${newShade}`;
+}
+
+// Tooltip component for avatar hover (right side, themed)
+const AvatarTooltip: React.FC<{ name: string; email?: string }> = ({ name, email }) => (
+  <div className="absolute left-full top-1/2 -translate-y-1/2 ml-2 px-3 py-2 rounded-xl bg-teal-600 text-white text-xs shadow-xl border border-teal-300 whitespace-nowrap z-50 pointer-events-none opacity-0 group-hover:opacity-100 transition-opacity">
+    <div className="font-semibold">{name}</div>
+    {email && <div className="text-teal-100 text-[10px]">{email}</div>}
+  </div>
+);
+
+// Time grid for one or more days: an all-day lane on top, timed events placed by the shared layout
+const CalendarTimeGrid: React.FC<CalendarTimeGridProps> = ({
+  days,
+  events,
+  familyMembers,
+  hours = WEEK_HOURS,
+  minHeight,
+  onEditEvent,
+  getSyncStatus
+}) => {
+  const rowCount = hours.end - hours.start;
+  // One label per row plus the closing hour
+  const timeSlots = Array.from({ length: rowCount + 1 }, (_, i) => formatHour(hours.start + i));
+  const laneEvents = useMemo(() => layoutAllDayLane(events, days), [events, days]);
+  const laneHeight = laneEvents.length > 0 ? (Math.max(...laneEvents.map(item => item.row)) + 1) * LANE_ROW_HEIGHT + 4 : 0;
+
+  return (
+    <div className="flex h-full" style={minHeight ? { minHeight } : undefined}>
+      {/* Time Gutter */}
+      <div className="w-10 sm:w-16 flex flex-col mr-2 sm:mr-4">
+        <div className="h-10 sm:h-14 flex items-center justify-end pr-1 sm:pr-2">
+          <span className="text-xs text-slate-500 font-medium"></span>
+        </div>
+        {laneHeight > 0 && (
+          <div className="flex items-center justify-end pr-1 sm:pr-2" style={{ height: laneHeight }}>
+            <span className="text-[9px] sm:text-[10px] text-slate-500">All day</span>
+          </div>
+        )}
+        {timeSlots.map(time => (
+          <div key={time} className="flex-1 flex items-start justify-end pr-1 sm:pr-2 pt-0.5 sm:pt-1">
+            <span className="text-[10px] sm:text-xs text-slate-500">{time}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Main Calendar Days */}
+      <div className="flex-1 flex gap-1 sm:gap-2 overflow-x-auto"> {/* Ensure overflow-x-auto */}
+        {days.map((dayInfo, dayIndex) => (
+          <div
+            key={getLocalDateString(dayInfo.fullDate)}
+            className={`
+              ${dayInfo.isCurrentDay ? 'flex-[2_1_0%] sm:flex-[3_1_0%] min-w-[120px]' : 'flex-[1_1_0%] min-w-[80px]'}
+              flex flex-col rounded-lg sm:rounded-xl border
+              ${dayInfo.isCurrentDay ? 'bg-teal-50/60 border-teal-400/70' : 'bg-slate-50/50 border-slate-200/30'}
+            `}
+          >
+            {/* Day Header */}
+            <div className={`h-10 sm:h-14 flex flex-col items-center justify-center border-b
+              ${dayInfo.isCurrentDay ? 'border-teal-300/50' : 'border-slate-200/50'}
+              ${dayInfo.isCurrentDay ? 'bg-teal-100/40' : ''}
+            `}>
+              <span className={`font-semibold text-xs sm:text-sm ${dayInfo.isCurrentDay ? 'text-teal-700' : 'text-slate-600'}`}>{dayInfo.dayName}</span>
+              <span className={`text-sm sm:text-lg ${dayInfo.isCurrentDay ? 'text-teal-600 font-bold' : 'text-slate-500'}`}>{dayInfo.date}</span>
+            </div>
+
+            {/* All-day lane: bars continue across the days an event covers */}
+            {laneHeight > 0 && (
+              <div className={`relative border-b ${dayInfo.isCurrentDay ? 'border-teal-300/50' : 'border-slate-200/50'}`} style={{ height: laneHeight }}>
+                {laneEvents
+                  .filter(item => item.firstDay <= dayIndex && item.lastDay >= dayIndex)
+                  .map(({ event, row, firstDay, lastDay }) => {
+                    const startsHere = dayIndex === firstDay && getEventDate(event) === getLocalDateString(dayInfo.fullDate);
+                    const endsHere = dayIndex === lastDay && getEventLastDate(event) === getLocalDateString(dayInfo.fullDate);
+                    return (
+                      <button
+                        key={event.id}
+                        type="button"
+                        onClick={() => onEditEvent(event)}
+                        className={`absolute text-left text-[10px] font-medium text-slate-600 px-1 truncate ${event.color || 'bg-slate-200'}
+                          ${startsHere ? 'rounded-l-md left-0.5' : '-left-1 sm:-left-1.5'} ${endsHere ? 'rounded-r-md right-0.5' : '-right-1 sm:-right-1.5'}`}
+                        style={{ top: row * LANE_ROW_HEIGHT + 2, height: LANE_ROW_HEIGHT - 4 }}
+                        title={event.title}
+                        aria-label={`Edit ${event.title}`}
+                      >
+                        {/* The title is repeated where the bar starts and at the start of each week */}
+                        {(startsHere || dayIndex === firstDay) && (
+                          <>
+                            {event.seriesId && <Repeat size={8} className="inline mr-0.5 align-baseline" aria-label="Repeats" />}
+                            {event.title}
+                          </>
+                        )}
+                      </button>
+                    );
+                  })}
+              </div>
+            )}
+
+            {/* Day Content Area */}
+            <div className="flex-1 relative p-1 sm:p-2">
+              {/* Time slot grid lines */}
+              <div className="absolute inset-0 sm:inset-x-2 sm:inset-y-0 grid pointer-events-none" style={{ gridTemplateRows: `repeat(${rowCount}, minmax(0, 1fr))` }}>
+                {Array.from({ length: rowCount }).map((_, i) => (
+                  <div key={i} className={`border-b ${dayInfo.isCurrentDay ? 'border-teal-100/60' : 'border-slate-100/50'} last:border-b-0`}></div>
+                ))}
+              </div>
+
+              {/* Events for this day */}
+              {processEvents(events, dayInfo.fullDate, hours).map((event) => {
+                // Find attendee info
+                const attendeeMembers = (event.attendees || [])
+                  .map((id: string) => familyMembers.find(m => m.id === id))
+                  .filter(Boolean);
+                const maxAvatars = 3;
+                const extraCount = attendeeMembers.length > maxAvatars ? attendeeMembers.length - maxAvatars : 0;
+                // Debug log
+                if (attendeeMembers.length > 0) {
+                  uiLogger.debug('Event attendees', { eventTitle: event.title, attendeeCount: attendeeMembers.length });
+                }
+                return (
+                  <div
+                    key={event.id}
+                    className={`absolute rounded-md sm:rounded-lg p-1 shadow-sm z-10 overflow-hidden flex flex-col group/event`}
+                    style={{
+                      top: event.position.top,
+                      left: event.position.left,
+                      width: event.position.width,
+                      height: event.position.height,
+                      minHeight: '24px',
+                      maxHeight: '100%',
+                    }}
+                    title={`${event.title} (${event.time})`}
+                  >
+                    {/* Edit button, visible on hover */}
+                    <button
+                      className="absolute top-1 right-1 opacity-0 group-hover/event:opacity-100 bg-white/80 hover:bg-teal-500 hover:text-white text-slate-600 rounded-full p-1 shadow transition-opacity z-20"
+                      style={{ transition: 'opacity 0.2s' }}
+                      onClick={e => { e.stopPropagation(); onEditEvent(event); }}
+                      aria-label="Edit event"
+                    >
+                      <Edit3 size={14} />
+                    </button>
+                    {(() => {
+                      // Compact sync indicator - events are too small for the full badge
+                      const syncStatus = getSyncStatus?.('events', event.seriesId ?? event.id);
+                      if (!syncStatus) return null;
+                      return (
+                        <span
+                          className={`absolute top-1 left-1 w-2 h-2 rounded-full z-20 ${syncStatus === 'failed' ? 'bg-red-500' : 'bg-amber-400'}`}
+                          title={syncStatus === 'failed' ? 'Sync failed' : 'Pending sync'}
+                        />
+                      );
+                    })()}
+                    <div className={`w-full h-full rounded-md sm:rounded-lg p-1 ${event.color || 'bg-slate-200'}`}>
+                      <div
+                        className="text-[10px] font-medium text-slate-600 leading-none break-words"
+                        style={{
+                          lineHeight: '1.1',
+                          maxHeight: '100%',
+                          overflow: 'hidden',
+                          textOverflow: 'ellipsis',
+                          display: '-webkit-box',
+                          WebkitLineClamp: 2,
+                          WebkitBoxOrient: 'vertical' as const
+                        }}
+                      >
+                        {event.seriesId && <Repeat size={8} className="inline mr-0.5 align-baseline" aria-label="Repeats" />}
+                        {event.title}
+                      </div>
+                      <div className="text-[9px] text-slate-600 leading-none mt-0.5">
+                        {(() => {
+                          const d = new Date(event.date);
+                          const start = d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+                          if (event.endDate || event.endTime) {
+                            return `${start} - ${getEventEnd(event).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+                          }
+                          return start;
+                        })()}
+                      </div>
+                      {/* Attendees Avatars */}
+                      {attendeeMembers.length > 0 && (
+                        <div className="flex items-center mt-1 space-x-1">
+                          {attendeeMembers.slice(0, maxAvatars).map((member, idx) => (
+                            <div
+                              key={member.id}
+                              className={`w-5 h-5 rounded-full flex items-center justify-center text-[10px] font-bold text-slate-700 shadow-sm ${getOffsetColorClass(member.color)} relative group`}
+                              style={{ zIndex: 10 - idx }}
+                            >
+                              {member.photo ? (
+                                <img src={member.photo} alt={member.name} className="w-full h-full object-cover rounded-full" />
+                              ) : (
+                                member.name?.[0] || '?'
+                              )}
+                              <AvatarTooltip name={member.name} email={member.email} />
+                            </div>
+                          ))}
+                          {extraCount > 0 && (
+                            <div className="w-5 h-5 rounded-full bg-slate-300 flex items-center justify-center text-[10px] font-bold text-slate-700 shadow-sm" style={{ zIndex: 0 }}>
+                              +{extraCount}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default CalendarTimeGrid;
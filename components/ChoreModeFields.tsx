@@ -0,0 +1,65 @@
+import React from 'react';
+import { ChoreCompletionMode, ChorePointsMode } from '../types';
+import FormField from './ui/FormField';
+
+interface ChoreModeFieldsProps {
+  completionMode: ChoreCompletionMode;
+  pointsMode: ChorePointsMode;
+  onChange: (modes: { completionMode?: ChoreCompletionMode; pointsMode?: ChorePointsMode }) => void;
+}
+
+const COMPLETION_OPTIONS: { value: ChoreCompletionMode; label: string; hint: string }[] = [
+  { value: 'any', label: 'Any one', hint: 'Done when anyone finishes it' },
+  { value: 'each', label: 'Each person', hint: 'Everyone has to do it' }
+];
+
+const POINTS_OPTIONS: { value: ChorePointsMode; label: string; hint: string }[] = [
+  { value: 'duplicate', label: 'Full points each', hint: 'Every finisher earns the full points' },
+  { value: 'split', label: 'Split', hint: 'Points are shared between assignees' }
+];
+
+const optionClass = (selected: boolean) =>
+  `flex-1 rounded-lg p-2 text-left text-xs transition-all sm:text-sm ${
+    selected ? 'bg-teal-500 text-white font-semibold shadow-md' : 'bg-slate-200 text-slate-600 hover:bg-slate-300'
+  }`;
+
+// Completion/points settings, only meaningful when a chore has more than one assignee
+const ChoreModeFields: React.FC<ChoreModeFieldsProps> = ({ completionMode, pointsMode, onChange }) => (
+  <div className="grid gap-4 sm:grid-cols-2">
+    <FormField label="Who needs to do it?" htmlFor="choreCompletionMode">
+      <div id="choreCompletionMode" className="flex gap-2">
+        {COMPLETION_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onChange({ completionMode: option.value })}
+            className={optionClass(completionMode === option.value)}
+            title={option.hint}
+            aria-pressed={completionMode === option.value}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </FormField>
+
+    <FormField label="Points" htmlFor="chorePointsMode">
+      <div id="chorePointsMode" className="flex gap-2">
+        {POINTS_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onChange({ pointsMode: option.value })}
+            className={optionClass(pointsMode === option.value)}
+            title={option.hint}
+            aria-pressed={pointsMode === option.value}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </FormField>
+  </div>
+);
+
+export default ChoreModeFields;
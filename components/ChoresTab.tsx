@@ -1,19 +1,34 @@
-import React from 'react';
-import { Chore, FamilyMember, Reward } from '../types';
-import { CheckSquare, Plus, Star, Award, Check, Settings, Gift, AlertTriangle, Edit3, Calendar, Wifi, WifiOff } from 'lucide-react';
+import React, { useState } from 'react';
+import { Chore, FamilyMember, Reward, RewardRedemption } from '../types';
+import { CheckSquare, Plus, Star, Award, Check, Settings, Gift, AlertTriangle, Edit3, Calendar, Wifi, WifiOff, Repeat } from 'lucide-react';
 import { useRealtimeChores } from '../hooks/useRealtimeData';
 import { getIcon } from '../utils/iconUtils';
+import { SyncStatusBadge } from './ui/SyncStatusBadge';
+import RedeemRewardModal from './RedeemRewardModal';
+import RewardRequestsPanel from './RewardRequestsPanel';
+import MemberFilter from './MemberFilter';
+import { useMemberFilter } from '../hooks/useCurrentMember';
+import type { OutboxStatus } from '../services/mutationOutbox';
+import { getChoreAssignments, getCompletionMode, isAssignmentComplete } from '../utils/choreUtils';
+import { describeRecurrence } from '../utils/recurrence';
 
 interface ChoresTabProps {
   chores: Chore[];
   familyMembers: FamilyMember[];
-  getMemberByName: (name: string) => FamilyMember | undefined;
-  onCompleteChore: (choreId: number) => void;
+  getMemberById: (id: string) => FamilyMember | undefined;
+  onCompleteChore: (choreId: string, memberId?: string) => void;
+  onUncompleteChore?: (choreId: string, memberId?: string) => void;
   onEditChore?: (chore: Chore) => void;
   rewards: Reward[];
-  onAddChore: () => void;
-  onManageChoreTypes: () => void; 
-  onAddReward: () => void; 
+  rewardRedemptions?: RewardRedemption[];
+  // Header actions are hidden when their handler is left out
+  onAddChore?: () => void;
+  onManageChoreTypes?: () => void;
+  onAddReward?: () => void;
+  onRequestReward?: (rewardId: string, memberId: string) => Promise<void>;
+  onDecideRedemption?: (redemptionId: string, approve: boolean) => Promise<void>;
+  onShowPointsHistory?: (member: FamilyMember) => void;
+  getSyncStatus?: (table: string, entityId: string) => OutboxStatus | null;
 }
 
 const getTodayDateString = () => {
@@ -26,67 +41,139 @@ const getTodayDateString = () => {
 
 const isOverdue = (dueDate: string) => new Date(dueDate) < new Date();
 
+interface AssigneeAvatarsProps {
+  chore: Chore;
+  getMemberById: (id: string) => FamilyMember | undefined;
+  onCompleteChore: (choreId: string, memberId?: string) => void;
+  sizeClass: string;
+  textClass: string;
+}
+
+// One avatar per assignee; tapping an avatar completes the chore as that member
+const AssigneeAvatars: React.FC<AssigneeAvatarsProps> = ({ chore, getMemberById, onCompleteChore, sizeClass, textClass }) => {
+  const assignments = getChoreAssignments(chore);
+
+  if (assignments.length === 0) {
+    return (
+      <div className={`${sizeClass} rounded-full bg-gray-300 flex items-center justify-center mr-2 sm:mr-3 flex-shrink-0`}>
+        <span className={`text-white font-semibold ${textClass}`}>?</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex -space-x-2 mr-2 sm:mr-3 flex-shrink-0">
+      {assignments.map(assignment => {
+        const member = getMemberById(assignment.memberId);
+        const done = isAssignmentComplete(chore, assignment.memberId);
+        const canComplete = !done && assignments.length > 1;
+        return (
+          <button
+            key={assignment.memberId}
+            type="button"
+            disabled={!canComplete}
+            onClick={() => onCompleteChore(chore.id, assignment.memberId)}
+            className={`${sizeClass} rounded-full ${member?.color || 'bg-gray-300'} flex items-center justify-center border-2 border-white relative
+              ${done && getCompletionMode(chore) === 'each' ? 'ring-2 ring-teal-400' : ''}
+              ${canComplete ? 'hover:scale-110 transition-transform' : 'cursor-default'}`}
+            title={canComplete ? `Mark done by ${member?.name || 'member'}` : member?.name}
+          >
+            <span className={`text-white font-semibold ${textClass}`}>{member?.initial || '?'}</span>
+            {done && getCompletionMode(chore) === 'each' && (
+              <Check size={10} className="absolute -bottom-1 -right-1 bg-teal-500 text-white rounded-full" />
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+const describeProgress = (chore: Chore): string | null => {
+  if (getCompletionMode(chore) !== 'each' || chore.assignedTo.length <= 1) return null;
+  const done = getChoreAssignments(chore).filter(a => a.completedAt).length;
+  return `${done}/${chore.assignedTo.length} done`;
+};
+
 const ChoresTab: React.FC<ChoresTabProps> = ({ 
   chores, 
   familyMembers, 
-  getMemberByName, 
+  getMemberById, 
   onCompleteChore,
+  onUncompleteChore,
   onEditChore,
   rewards, 
+  rewardRedemptions = [],
   onAddChore, 
   onManageChoreTypes,
-  onAddReward 
+  onAddReward,
+  onRequestReward,
+  onDecideRedemption,
+  onShowPointsHistory,
+  getSyncStatus
 }) => {
   // Real-time chores monitoring
   const { isConnected: isRealtimeConnected } = useRealtimeChores((eventType, record) => {
     uiLogger.debug('Real-time chore update', { eventType, recordId: record?.id });
   });
 
+  const [redeemingReward, setRedeemingReward] = useState<Reward | null>(null);
+  const [filterMemberId, setFilterMemberId] = useMemberFilter();
+
   const todayDate = getTodayDateString();
-  const filteredChores = chores;
-  const todaysChores = chores.filter(chore => chore.dueDate === todayDate);
-  const overdueChores = chores.filter(chore => isOverdue(chore.dueDate) && !chore.completed);
+  const filteredChores = filterMemberId
+    ? chores.filter(chore => chore.assignedTo.includes(filterMemberId))
+    : chores;
+  const todaysChores = filteredChores.filter(chore => chore.dueDate === todayDate);
+  const overdueChores = filteredChores.filter(chore => isOverdue(chore.dueDate) && !chore.completed);
 
-  const calculatePoints = (memberName: string) => {
-    return chores
-      .filter(chore => chore.assignedTo === memberName && chore.completed)
-      .reduce((total, chore) => total + chore.points, 0);
-  };
   
   return (
     <div className="h-full flex flex-col overflow-hidden">
       <div className="flex-shrink-0 flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4 sm:mb-6 gap-3">
         <h2 className="text-xl sm:text-2xl font-light text-slate-600">Family Chores & Rewards</h2>
         <div className="flex flex-wrap gap-2 sm:gap-3">
-          <button 
-            onClick={onManageChoreTypes}
-            className="bg-slate-100/60 hover:bg-slate-200/80 backdrop-blur-sm text-slate-600 rounded-xl px-3 py-2 sm:px-4 sm:py-3 shadow-md transition-colors flex items-center gap-2 min-h-[40px] sm:min-h-[48px]"
-            aria-label="Manage Chore Types"
-          >
-            <Settings size={18} />
-            <span className="text-xs sm:text-sm font-medium">Types</span>
-          </button>
-          <button 
-            onClick={onAddReward} 
-            className="bg-purple-400 hover:bg-purple-500 text-white rounded-xl px-3 py-2 sm:px-4 sm:py-3 shadow-lg transition-colors flex items-center gap-2 min-h-[40px] sm:min-h-[48px]"
-            aria-label="Add New Reward"
-          >
-            <Gift size={18} />
-            <span className="text-xs sm:text-sm font-medium">Add Reward</span>
-          </button>
-          <button 
-            onClick={onAddChore}
-            className="bg-teal-500 hover:bg-teal-600 text-white rounded-xl px-3 py-2 sm:px-4 sm:py-3 shadow-lg transition-colors flex items-center gap-2 min-h-[40px] sm:min-h-[48px]"
-            aria-label="Add New Chore"
-          >
-            <Plus size={18} />
-            <span className="text-xs sm:text-sm font-medium">Add Chore</span>
-          </button>
+          {onManageChoreTypes && (
+            <button 
+              onClick={onManageChoreTypes}
+              className="bg-slate-100/60 hover:bg-slate-200/80 backdrop-blur-sm text-slate-600 rounded-xl px-3 py-2 sm:px-4 sm:py-3 shadow-md transition-colors flex items-center gap-2 min-h-[40px] sm:min-h-[48px]"
+              aria-label="Manage Chore Types"
+            >
+              <Settings size={18} />
+              <span className="text-xs sm:text-sm font-medium">Types</span>
+            </button>
+          )}
+          {onAddReward && (
+            <button 
+              onClick={onAddReward} 
+              className="bg-purple-400 hover:bg-purple-500 text-white rounded-xl px-3 py-2 sm:px-4 sm:py-3 shadow-lg transition-colors flex items-center gap-2 min-h-[40px] sm:min-h-[48px]"
+              aria-label="Add New Reward"
+            >
+              <Gift size={18} />
+              <span className="text-xs sm:text-sm font-medium">Add Reward</span>
+            </button>
+          )}
+          {onAddChore && (
+            <button 
+              onClick={onAddChore}
+              className="bg-teal-500 hover:bg-teal-600 text-white rounded-xl px-3 py-2 sm:px-4 sm:py-3 shadow-lg transition-colors flex items-center gap-2 min-h-[40px] sm:min-h-[48px]"
+              aria-label="Add New Chore"
+            >
+              <Plus size={18} />
+              <span className="text-xs sm:text-sm font-medium">Add Chore</span>
+            </button>
+          )}
         </div>
       </div>
 
       {/* Smart Alerts */}
       <div className="flex-shrink-0 mb-4 space-y-2">
+        <MemberFilter
+          familyMembers={familyMembers}
+          selectedMemberId={filterMemberId}
+          onSelect={setFilterMemberId}
+        />
+
         {overdueChores.length > 0 && (
           <div className="bg-red-50 border border-red-200 rounded-xl p-3 flex items-center gap-2">
             <AlertTriangle size={18} className="text-red-500" />
@@ -115,24 +202,35 @@ const ChoresTab: React.FC<ChoresTabProps> = ({
             </h3>
             <div className="flex-1 overflow-y-auto space-y-2 sm:space-y-3 pr-1">
               {todaysChores.length > 0 ? todaysChores.map(chore => {
-                const member = getMemberByName(chore.assignedTo);
                 const choreIsOverdue = isOverdue(chore.dueDate) && !chore.completed;
+                const progress = describeProgress(chore);
                 return (
                   <div key={chore.id} className={`bg-slate-100/80 rounded-xl p-3 sm:p-4 shadow-sm flex-shrink-0 
                     ${choreIsOverdue ? 'border-l-4 border-l-red-400 bg-red-50' : ''}`}>
                     <div className="flex items-center justify-between">
                       <div className="flex items-center">
-                        <div className={`w-8 h-8 sm:w-10 sm:h-10 rounded-full ${member?.color || 'bg-gray-300'} flex items-center justify-center mr-2 sm:mr-3 flex-shrink-0`}>
-                          <span className="text-white font-semibold text-sm sm:text-base">{member?.initial || '?'}</span>
-                        </div>
+                        <AssigneeAvatars
+                          chore={chore}
+                          getMemberById={getMemberById}
+                          onCompleteChore={onCompleteChore}
+                          sizeClass="w-8 h-8 sm:w-10 sm:h-10"
+                          textClass="text-sm sm:text-base"
+                        />
                         <div className="flex-grow">
                           <div className={`font-medium text-sm sm:text-base ${chore.completed ? 'line-through text-slate-500' : 'text-slate-800'}`}>
                             {chore.icon && <span className="mr-1.5 text-base sm:text-lg align-middle">{getIcon(chore.icon)}</span>}
                             {chore.title}
+                            {chore.recurrence && (
+                              <span title={describeRecurrence(chore.recurrence)}>
+                                <Repeat className="inline ml-1.5 text-teal-500 align-middle" size={14} />
+                              </span>
+                            )}
                           </div>
                           <div className="text-xs sm:text-sm text-slate-600 flex items-center gap-2">
                             <Star className="text-yellow-400 mr-1" size={12} />
                             {chore.points} points
+                            {progress && <span>• {progress}</span>}
+                            <SyncStatusBadge status={getSyncStatus?.('chores', chore.id) ?? null} />
                             {choreIsOverdue && (
                               <span className="flex items-center text-red-600">
                                 <AlertTriangle size={12} className="mr-1" />
@@ -178,24 +276,35 @@ const ChoresTab: React.FC<ChoresTabProps> = ({
             </h3>
             <div className="flex-1 overflow-y-auto space-y-2 sm:space-y-3 pr-1">
               {filteredChores.map(chore => {
-                const member = getMemberByName(chore.assignedTo);
                 const choreIsOverdue = isOverdue(chore.dueDate) && !chore.completed;
+                const progress = describeProgress(chore);
                 return (
                   <div key={chore.id} className={`bg-slate-100/80 rounded-xl p-3 sm:p-4 shadow-sm flex-shrink-0
                     ${choreIsOverdue ? 'border-l-4 border-l-red-400 bg-red-50' : ''}`}>
                     <div className="flex items-center justify-between">
                       <div className="flex items-center">
-                        <div className={`w-6 h-6 sm:w-8 sm:h-8 rounded-full ${member?.color || 'bg-gray-300'} flex items-center justify-center mr-2 sm:mr-3 flex-shrink-0`}>
-                          <span className="text-white text-xs sm:text-sm font-semibold">{member?.initial || '?'}</span>
-                        </div>
+                        <AssigneeAvatars
+                          chore={chore}
+                          getMemberById={getMemberById}
+                          onCompleteChore={onCompleteChore}
+                          sizeClass="w-6 h-6 sm:w-8 sm:h-8"
+                          textClass="text-xs sm:text-sm"
+                        />
                         <div className="flex-grow">
                           <div className={`text-xs sm:text-sm font-medium ${chore.completed ? 'line-through text-slate-500' : 'text-slate-800'}`}>
                             {chore.icon && <span className="mr-1.5 text-sm sm:text-base align-middle">{getIcon(chore.icon)}</span>}
                             {chore.title}
+                            {chore.recurrence && (
+                              <span title={describeRecurrence(chore.recurrence)}>
+                                <Repeat className="inline ml-1 text-teal-500 align-middle" size={12} />
+                              </span>
+                            )}
                           </div>
                           <div className="text-[10px] sm:text-xs text-slate-600 flex items-center gap-2">
                             <span>Due: {chore.dueDate}</span>
                             <span>• {chore.points} pts</span>
+                            {progress && <span>• {progress}</span>}
+                            <SyncStatusBadge status={getSyncStatus?.('chores', chore.id) ?? null} />
                             {choreIsOverdue && (
                               <span className="flex items-center text-red-600">
                                 <AlertTriangle size={10} className="mr-1" />
@@ -207,7 +316,15 @@ const ChoresTab: React.FC<ChoresTabProps> = ({
                       </div>
                       <div className="flex items-center gap-1 ml-2">
                         {chore.completed ? (
-                          <div className="text-teal-600 text-xs sm:text-sm font-medium px-2 py-1 sm:px-3 sm:py-2 min-h-[36px] sm:min-h-[44px] flex items-center flex-shrink-0">✓ Done</div>
+                          <button
+                            onClick={() => onUncompleteChore?.(chore.id)}
+                            disabled={!onUncompleteChore}
+                            className="text-teal-600 hover:text-slate-500 text-xs sm:text-sm font-medium px-2 py-1 sm:px-3 sm:py-2 rounded-lg hover:bg-slate-100 transition-colors min-h-[36px] sm:min-h-[44px] flex items-center flex-shrink-0 disabled:hover:bg-transparent disabled:hover:text-teal-600"
+                            title={onUncompleteChore ? 'Mark as not done' : undefined}
+                            aria-label={`Mark ${chore.title} as not done`}
+                          >
+                            ✓ Done
+                          </button>
                         ) : (
                           <>
                             {onEditChore && (
@@ -244,17 +361,22 @@ const ChoresTab: React.FC<ChoresTabProps> = ({
           </h3>
           <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
             {familyMembers
-              .sort((a, b) => calculatePoints(b.name) - calculatePoints(a.name))
+              .sort((a, b) => b.points - a.points)
               .map((member, index) => {
-                const points = calculatePoints(member.name);
-                const completedChores = chores.filter(c => c.assignedTo === member.name && c.completed).length;
-                const pendingChores = chores.filter(c => c.assignedTo === member.name && !c.completed).length;
+                const points = member.points; // Ledger balance, so it matches the points history
+                const assignedChores = chores.filter(c => c.assignedTo.includes(member.id));
+                const completedChores = assignedChores.filter(c => isAssignmentComplete(c, member.id)).length;
+                const pendingChores = assignedChores.length - completedChores;
                 const isTopPerformer = index === 0 && points > 0;
                 
                 return (
-                  <div key={member.id} className={`bg-white rounded-xl p-3 shadow-sm border-2 ${
-                    isTopPerformer ? 'border-yellow-300 bg-yellow-50' : 'border-transparent'
-                  }`}>
+                  <div
+                    key={member.id}
+                    onClick={() => onShowPointsHistory?.(member)}
+                    className={`bg-white rounded-xl p-3 shadow-sm border-2 ${
+                      isTopPerformer ? 'border-yellow-300 bg-yellow-50' : 'border-transparent'
+                    } ${onShowPointsHistory ? 'cursor-pointer hover:shadow-md transition-shadow' : ''}`}
+                  >
                     <div className="flex items-center justify-between mb-2">
                       <div className="flex items-center">
                         <div className={`w-8 h-8 rounded-full ${member.color} flex items-center justify-center mr-2 shadow-sm relative`}>
@@ -299,11 +421,35 @@ const ChoresTab: React.FC<ChoresTabProps> = ({
                 <div className="text-2xl sm:text-3xl mb-1">{getIcon(reward.icon)}</div>
                 <div className="text-xs sm:text-sm font-medium text-slate-600">{reward.title}</div>
                 <div className="text-xs text-purple-600">{reward.cost} pts</div>
+                <SyncStatusBadge status={getSyncStatus?.('rewards', reward.id) ?? null} className="mt-1" />
+                {onRequestReward && reward.available !== false && (
+                  <button
+                    onClick={() => setRedeemingReward(reward)}
+                    className="mt-2 px-3 py-1 text-xs font-medium text-purple-600 bg-purple-100 hover:bg-purple-200 rounded-full transition-colors"
+                  >
+                    Redeem
+                  </button>
+                )}
               </div>
             ))}
           </div>
+          <RewardRequestsPanel
+            redemptions={rewardRedemptions}
+            getMemberById={getMemberById}
+            onDecideRedemption={onDecideRedemption}
+          />
         </div>
       </div>
+
+      {redeemingReward && onRequestReward && (
+        <RedeemRewardModal
+          isOpen={!!redeemingReward}
+          onClose={() => setRedeemingReward(null)}
+          reward={redeemingReward}
+          familyMembers={familyMembers}
+          onRequestReward={onRequestReward}
+        />
+      )}
     </div>
   );
 };
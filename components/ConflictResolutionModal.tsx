@@ -0,0 +1,128 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import { ChoreType, FamilyMember, RecurrenceRule } from '../types';
+import { ConflictField, ConflictPick, UpdateConflictError, getConflictingFields } from '../services/updateConflicts';
+import { describeRecurrence } from '../utils/recurrence';
+import { CHORE_REMINDER_OPTIONS, describeReminderOffset } from '../utils/reminders';
+
+interface ConflictResolutionModalProps {
+  conflict: UpdateConflictError;
+  familyMembers: FamilyMember[];
+  choreTypes: ChoreType[];
+  onResolve: (picks: Record<string, ConflictPick> | null) => void;
+}
+
+const ENTITY_TITLES: Record<UpdateConflictError['entity'], string> = {
+  chore: 'chore',
+  event: 'event',
+  familyMember: 'family member',
+  familyDetails: 'family details'
+};
+
+const formatDateTime = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : date.toLocaleString([], { weekday: 'short', day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' });
+};
+
+const pickClass = (selected: boolean) =>
+  `flex-1 rounded-lg border p-2 text-left text-xs transition-all sm:text-sm ${
+    selected ? 'border-teal-500 bg-teal-50 text-slate-800 shadow-sm' : 'border-slate-200 bg-white text-slate-500 hover:bg-slate-50'
+  }`;
+
+// Shows both versions of each field that differs and lets the user choose one per field
+const ConflictResolutionModal: React.FC<ConflictResolutionModalProps> = ({
+  conflict, familyMembers, choreTypes, onResolve
+}) => {
+  const fields = useMemo(() => getConflictingFields(conflict), [conflict]);
+  const [picks, setPicks] = useState<Record<string, ConflictPick>>({});
+
+  useEffect(() => {
+    setPicks(Object.fromEntries(fields.map(field => [field.key, 'mine' as ConflictPick])));
+  }, [fields]);
+
+  const formatValue = (field: ConflictField, value: unknown): string => {
+    if (value === undefined || value === null || value === '') return 'None';
+    switch (field.key) {
+      case 'assignedTo':
+      case 'attendees':
+        return (value as string[]).length === 0
+          ? 'Nobody'
+          : (value as string[]).map(id => familyMembers.find(m => m.id === id)?.name ?? 'Unknown').join(', ');
+      case 'choreTypeId':
+        return choreTypes.find(t => t.id === value)?.name ?? 'Unknown type';
+      case 'date':
+      case 'endDate':
+        return conflict.entity === 'event' ? formatDateTime(value as string) : String(value);
+      case 'recurrence':
+        return describeRecurrence(value as RecurrenceRule);
+      case 'exceptions':
+        return `${(value as unknown[]).length} changed`;
+      case 'reminders': {
+        const offsets = value as number[];
+        if (offsets.length === 0) return 'None';
+        const options = conflict.entity === 'chore' ? CHORE_REMINDER_OPTIONS : undefined;
+        return offsets.map(offset => describeReminderOffset(offset, options)).join(', ');
+      }
+      default:
+        return typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value);
+    }
+  };
+
+  const getValue = (version: unknown, key: string) => (version as Record<string, unknown>)[key];
+
+  return (
+    <Modal
+      isOpen
+      onClose={() => onResolve(null)}
+      title={`Merge changes to this ${ENTITY_TITLES[conflict.entity]}`}
+      size="lg"
+      dismissible={false}
+      footer={
+        <div className="flex justify-between gap-3">
+          <Button variant="ghost" onClick={() => onResolve(null)}>
+            Discard my changes
+          </Button>
+          <Button onClick={() => onResolve(picks)}>
+            Save merged version
+          </Button>
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        <div className="flex items-center gap-2 rounded-xl border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+          <AlertTriangle size={18} className="text-amber-500" />
+          <span>Someone else saved changes while you were editing. Choose which version to keep for each field.</span>
+        </div>
+
+        {fields.map(field => (
+          <div key={field.key}>
+            <p className="mb-1 text-sm font-medium text-slate-700">{field.label}</p>
+            <div className="flex gap-2" role="radiogroup" aria-label={field.label}>
+              {(['mine', 'theirs'] as ConflictPick[]).map(pick => (
+                <button
+                  key={pick}
+                  type="button"
+                  role="radio"
+                  aria-checked={picks[field.key] === pick}
+                  onClick={() => setPicks(prev => ({ ...prev, [field.key]: pick }))}
+                  className={pickClass(picks[field.key] === pick)}
+                >
+                  <span className="block text-[0.65rem] uppercase tracking-wide text-slate-400">
+                    {pick === 'mine' ? 'Your version' : 'Saved version'}
+                  </span>
+                  {formatValue(field, getValue(pick === 'mine' ? conflict.local : conflict.remote, field.key))}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </Modal>
+  );
+};
+
+export default ConflictResolutionModal;
@@ -1,51 +1,89 @@
-import React, { useState, useEffect } from 'react';
-import { Chore, FamilyMember, ChoreType } from '../types';
-import { Calendar, User, Star, AlertTriangle, Trash2 } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { Chore, FamilyMember, ChoreType, RecurrenceEditScope } from '../types';
+import { Calendar, Star, AlertTriangle, Trash2, Repeat, Users } from 'lucide-react';
 import Modal from './ui/Modal';
 import Button from './ui/Button';
 import FormField from './ui/FormField';
+import ChoreModeFields from './ChoreModeFields';
+import RecurrenceFields from './RecurrenceFields';
+import ReminderFields from './ReminderFields';
+import { CHORE_REMINDER_OPTIONS } from '../utils/reminders';
+import { describeRecurrence } from '../utils/recurrence';
+import { convertToHexColor } from '../utils/colorUtils';
 
 interface EditChoreModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSaveChore: (chore: Chore) => void;
-  onDeleteChore: (choreId: number) => void;
+  onSaveChore: (chore: Chore, scope?: RecurrenceEditScope) => void;
+  onDeleteChore?: (choreId: string, scope?: RecurrenceEditScope) => void; // Leave out to hide Delete
   chore: Chore;
   familyMembers: FamilyMember[];
   choreTypes: ChoreType[];
+  otherEditors?: string[]; // Names of people editing this chore on other devices
 }
 
 const isOverdue = (dueDate: string) => new Date(dueDate) < new Date();
 
+// "Sam", "Sam and Alex", "Sam, Alex and Jo"
+const formatEditors = (names: string[]) =>
+  names.length === 1 ? names[0] : `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+
+const SCOPE_OPTIONS: { value: RecurrenceEditScope; label: string }[] = [
+  { value: 'this', label: 'This chore only' },
+  { value: 'future', label: 'This and future chores' }
+];
+
+const scopeClass = (selected: boolean) =>
+  `flex-1 rounded-lg p-2 text-left text-xs transition-all sm:text-sm ${
+    selected ? 'bg-teal-500 text-white font-semibold shadow-md' : 'bg-slate-200 text-slate-600 hover:bg-slate-300'
+  }`;
+
 const EditChoreModal: React.FC<EditChoreModalProps> = ({
-  isOpen, onClose, onSaveChore, onDeleteChore, chore, familyMembers, choreTypes
+  isOpen, onClose, onSaveChore, onDeleteChore, chore, familyMembers, choreTypes, otherEditors = []
 }) => {
   const [editedChore, setEditedChore] = useState<Chore>(chore);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [scope, setScope] = useState<RecurrenceEditScope>('this');
+  const isRecurring = !!chore.seriesId;
 
   useEffect(() => {
     if (isOpen) {
       setEditedChore(chore);
+      setScope('this');
     }
   }, [isOpen, chore]);
 
+  const toggleAssignedTo = useCallback((memberId: string) => {
+    setEditedChore(prev => ({
+      ...prev,
+      assignedTo: prev.assignedTo.includes(memberId)
+        ? prev.assignedTo.filter(id => id !== memberId)
+        : [...prev.assignedTo, memberId]
+    }));
+  }, []);
+
   const handleSave = () => {
-    onSaveChore(editedChore);
+    if (editedChore.assignedTo.length === 0) {
+      alert("Please assign the chore to at least one family member.");
+      return;
+    }
+    // Drop completion state for members who are no longer assigned
+    onSaveChore({
+      ...editedChore,
+      // A single occurrence keeps its series' rule; only 'future' edits change it
+      recurrence: scope === 'future' ? editedChore.recurrence : chore.recurrence,
+      assignments: editedChore.assignments?.filter(a => editedChore.assignedTo.includes(a.memberId))
+    }, isRecurring ? scope : undefined);
     onClose();
   };
 
-  const handleDelete = () => {
-    onDeleteChore(chore.id);
+  const handleDelete = (deleteScope: RecurrenceEditScope = 'this') => {
+    onDeleteChore?.(chore.id, isRecurring ? deleteScope : undefined);
     onClose();
     setShowDeleteConfirm(false);
   };
 
   const choreIsOverdue = isOverdue(editedChore.dueDate) && !editedChore.completed;
-  // assignedTo is an array, but we only use the first member for single assignment
-  const assignedMemberName = Array.isArray(editedChore.assignedTo)
-    ? editedChore.assignedTo[0] || ''
-    : editedChore.assignedTo || '';
-  const assignedMember = familyMembers.find(m => m.name === assignedMemberName);
 
   return (
     <>
@@ -56,12 +94,14 @@ const EditChoreModal: React.FC<EditChoreModalProps> = ({
         size="lg"
         footer={
           <div className="flex justify-between gap-3">
-            <Button variant="ghost" onClick={() => setShowDeleteConfirm(true)} className="text-red-600" type="button">
-              <span className="flex items-center gap-2">
-                <Trash2 size={16} />
-                Delete
-              </span>
-            </Button>
+            {onDeleteChore ? (
+              <Button variant="ghost" onClick={() => setShowDeleteConfirm(true)} className="text-red-600" type="button">
+                <span className="flex items-center gap-2">
+                  <Trash2 size={16} />
+                  Delete
+                </span>
+              </Button>
+            ) : <span />}
             <div className="flex gap-2">
               <Button variant="ghost" onClick={onClose}>
                 Cancel
@@ -75,6 +115,14 @@ const EditChoreModal: React.FC<EditChoreModalProps> = ({
       >
         <div className="space-y-4">
           <div className="space-y-3">
+            {otherEditors.length > 0 && (
+              <div className="flex items-center gap-2 rounded-xl border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800" role="status">
+                <Users size={18} className="text-amber-500" />
+                <span>
+                  {formatEditors(otherEditors)} {otherEditors.length === 1 ? 'is' : 'are'} editing this chore
+                </span>
+              </div>
+            )}
             {choreIsOverdue && (
               <div className="flex items-center gap-2 rounded-xl border border-red-200 bg-red-50 p-3 text-sm text-red-700">
                 <AlertTriangle size={18} className="text-red-500" />
@@ -90,6 +138,40 @@ const EditChoreModal: React.FC<EditChoreModalProps> = ({
             )}
           </div>
 
+          {isRecurring && (
+            <div className="space-y-3 rounded-xl border border-teal-200 bg-teal-50/60 p-3">
+              {chore.recurrence && (
+                <p className="flex items-center text-sm text-teal-700">
+                  <Repeat size={14} className="mr-1.5" />
+                  {describeRecurrence(chore.recurrence)}
+                </p>
+              )}
+              <FormField label="Apply changes to" htmlFor="choreEditScope">
+                <div id="choreEditScope" className="flex gap-2">
+                  {SCOPE_OPTIONS.map(option => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setScope(option.value)}
+                      className={scopeClass(scope === option.value)}
+                      aria-pressed={scope === option.value}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              </FormField>
+              {scope === 'future' && (
+                <RecurrenceFields
+                  value={editedChore.recurrence}
+                  onChange={(recurrence) => setEditedChore(prev => ({ ...prev, recurrence }))}
+                  startDate={editedChore.dueDate}
+                  idPrefix="editChoreRecurrence"
+                />
+              )}
+            </div>
+          )}
+
           <FormField label="Title" htmlFor="choreTitle" required>
             <input
               id="choreTitle"
@@ -101,25 +183,45 @@ const EditChoreModal: React.FC<EditChoreModalProps> = ({
             />
           </FormField>
 
-          <div className="grid gap-4 sm:grid-cols-2">
-            <FormField label="Assigned To" htmlFor="choreAssigned">
-              <div className="flex items-center gap-2">
-                <User size={16} className="text-slate-500" />
-                <select
-                  id="choreAssigned"
-                  value={assignedMemberName}
-                  onChange={(e) => setEditedChore(prev => ({ ...prev, assignedTo: [e.target.value] }))}
-                  className="w-full rounded-lg border border-slate-200 bg-slate-50 p-3 text-sm text-slate-700 focus:border-teal-400 focus:outline-none"
-                >
-                  {familyMembers.map(member => (
-                    <option key={member.id} value={member.name}>
-                      {member.name}
-                    </option>
-                  ))}
-                </select>
-              </div>
-            </FormField>
+          <FormField label="Assigned To" htmlFor="choreAssigned">
+            <div
+              id="choreAssigned"
+              className="grid grid-cols-2 gap-2 rounded-lg border border-slate-200 bg-slate-50 p-2 sm:grid-cols-3"
+            >
+              {familyMembers.map(member => {
+                const isSelected = editedChore.assignedTo.includes(member.id);
+                const memberColor = convertToHexColor(member.color);
+
+                return (
+                  <button
+                    key={member.id}
+                    type="button"
+                    onClick={() => toggleAssignedTo(member.id)}
+                    className={`w-full rounded-lg p-2 text-left text-xs transition-all sm:text-sm ${
+                      isSelected
+                        ? 'font-semibold text-white shadow-md'
+                        : 'bg-slate-200 text-slate-600 hover:bg-slate-300'
+                    }`}
+                    style={isSelected ? { backgroundColor: memberColor, border: `2px solid ${memberColor}` } : {}}
+                    aria-label={`${isSelected ? 'Unassign' : 'Assign'} ${member.name}`}
+                    aria-pressed={isSelected}
+                  >
+                    {member.name}
+                  </button>
+                );
+              })}
+            </div>
+          </FormField>
+
+          {editedChore.assignedTo.length > 1 && (
+            <ChoreModeFields
+              completionMode={editedChore.completionMode ?? 'any'}
+              pointsMode={editedChore.pointsMode ?? 'duplicate'}
+              onChange={(modes) => setEditedChore(prev => ({ ...prev, ...modes }))}
+            />
+          )}
 
+          <div className="grid gap-4 sm:grid-cols-2">
             <FormField label="Due Date" htmlFor="choreDueDate">
               <div className="flex items-center gap-2">
                 <Calendar size={16} className="text-slate-500" />
@@ -148,6 +250,13 @@ const EditChoreModal: React.FC<EditChoreModalProps> = ({
               />
             </div>
           </FormField>
+
+          <ReminderFields
+            value={editedChore.reminders}
+            onChange={(reminders) => setEditedChore(prev => ({ ...prev, reminders }))}
+            options={CHORE_REMINDER_OPTIONS}
+            idPrefix="editChoreReminders"
+          />
         </div>
       </Modal>
 
@@ -158,18 +267,25 @@ const EditChoreModal: React.FC<EditChoreModalProps> = ({
         size="sm"
         dismissible={false}
         footer={
-          <div className="flex justify-end gap-2">
+          <div className="flex flex-wrap justify-end gap-2">
             <Button variant="ghost" onClick={() => setShowDeleteConfirm(false)}>
               Cancel
             </Button>
-            <Button variant="primary" onClick={handleDelete} className="bg-red-500 hover:bg-red-600 focus-visible:ring-red-500">
-              Delete
+            {isRecurring && (
+              <Button variant="primary" onClick={() => handleDelete('future')} className="bg-red-500 hover:bg-red-600 focus-visible:ring-red-500">
+                This and Future
+              </Button>
+            )}
+            <Button variant="primary" onClick={() => handleDelete('this')} className="bg-red-500 hover:bg-red-600 focus-visible:ring-red-500">
+              {isRecurring ? 'This Chore Only' : 'Delete'}
             </Button>
           </div>
         }
       >
         <p className="text-sm text-slate-600">
-          Are you sure you want to delete "{editedChore.title}"? This action cannot be undone.
+          {isRecurring
+            ? `"${editedChore.title}" repeats. Delete just this one, or this and every later one? Later chores that are already done are kept.`
+            : `Are you sure you want to delete "${editedChore.title}"? This action cannot be undone.`}
         </p>
       </Modal>
     </>
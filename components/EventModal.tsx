@@ -1,27 +1,51 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { EventItem, FamilyMember } from '../types';
+import { EventItem, FamilyMember, RecurrenceEditScope } from '../types';
+import { Repeat } from 'lucide-react';
 import { convertToHexColor } from '../utils/colorUtils';
+import { addDays, describeRecurrence, getLocalDateString } from '../utils/recurrence';
+import { getEventEnd, getEventLastDate, startOfLocalDay, toTimeString } from '../utils/eventUtils';
 import DatePicker from 'react-datepicker';
 import 'react-datepicker/dist/react-datepicker.css';
 import './react-datepicker-custom.css';
 import Modal from './ui/Modal';
 import Button from './ui/Button';
 import FormField from './ui/FormField';
+import RecurrenceFields from './RecurrenceFields';
+import ReminderFields from './ReminderFields';
+import { EVENT_REMINDER_OPTIONS } from '../utils/reminders';
 
 interface EventModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSaveEvent: (eventData: Omit<EventItem, 'time'>) => void;
+  onSaveEvent: (eventData: Omit<EventItem, 'time'>, scope?: RecurrenceEditScope) => void;
+  onSkipOccurrence?: (occurrence: EventItem) => void; // Only offered for occurrences of recurring events
   familyMembers: FamilyMember[];
   eventColors: string[];
   defaultNewEventState: Omit<EventItem, 'id' | 'time'>;
   eventToEdit?: EventItem | null;
 }
 
+const SCOPE_OPTIONS: { value: RecurrenceEditScope; label: string }[] = [
+  { value: 'this', label: 'This event only' },
+  { value: 'future', label: 'This and future events' }
+];
+
+const scopeClass = (selected: boolean) =>
+  `flex-1 rounded-lg p-2 text-left text-xs transition-all sm:text-sm ${
+    selected ? 'bg-teal-500 text-white font-semibold shadow-md' : 'bg-slate-200 text-slate-600 hover:bg-slate-300'
+  }`;
+
+// The end shown in the picker: the last day for all-day events, otherwise the end timestamp
+const getPickerEnd = (event: EventItem | null) => {
+  if (!event || (!event.endDate && !event.endTime && !event.allDay)) return null;
+  return event.allDay ? startOfLocalDay(getEventLastDate(event)) : getEventEnd(event);
+};
+
 const EventModal: React.FC<EventModalProps> = ({
   isOpen,
   onClose,
   onSaveEvent,
+  onSkipOccurrence,
   familyMembers,
   eventColors,
   defaultNewEventState,
@@ -33,14 +57,6 @@ const EventModal: React.FC<EventModalProps> = ({
     const d = new Date(dateStr);
     return isNaN(d.getTime()) ? null : d;
   };
-  // Helper to parse HH:mm string to Date (today)
-  const parseTime = (timeStr: string | undefined) => {
-    if (!timeStr) return null;
-    const [h, m] = timeStr.split(':').map(Number);
-    const d = new Date();
-    d.setHours(h || 0, m || 0, 0, 0);
-    return d;
-  };
 
   const [eventState, setEventState] = useState<any>({
     ...defaultNewEventState,
@@ -49,13 +65,16 @@ const EventModal: React.FC<EventModalProps> = ({
     endTime: eventToEdit?.endTime || '',
   });
   const [pickerDate, setPickerDate] = useState<Date | null>(parseDate(eventToEdit?.date || defaultNewEventState.date));
-  const [pickerEndTime, setPickerEndTime] = useState<Date | null>(parseTime(eventToEdit?.endTime || ''));
+  const [pickerEnd, setPickerEnd] = useState<Date | null>(getPickerEnd(eventToEdit));
+  const [scope, setScope] = useState<RecurrenceEditScope>('this');
+  const isOccurrence = !!eventToEdit?.seriesId;
 
   useEffect(() => {
     if (isOpen) {
       setEventState(eventToEdit ? { ...eventToEdit } : { ...defaultNewEventState });
       setPickerDate(parseDate(eventToEdit?.date || defaultNewEventState.date));
-      setPickerEndTime(parseTime(eventToEdit?.endTime || ''));
+      setPickerEnd(getPickerEnd(eventToEdit));
+      setScope('this');
     }
   }, [isOpen, defaultNewEventState, eventToEdit]);
 
@@ -68,33 +87,59 @@ const EventModal: React.FC<EventModalProps> = ({
     handleChange('date', date ? date.toISOString() : '');
   };
 
-  const handleEndTimeChange = (date: Date | null) => {
-    setPickerEndTime(date);
-    // Store as HH:mm string
-    handleChange('endTime', date ? date.toTimeString().slice(0,5) : '');
-  };
 
-  const toggleAttendee = useCallback((memberName: string) => {
+  const toggleAttendee = useCallback((memberId: string) => {
     setEventState(prev => ({
       ...prev,
-      attendees: prev.attendees.includes(memberName)
-        ? prev.attendees.filter(name => name !== memberName)
-        : [...prev.attendees, memberName]
+      attendees: prev.attendees.includes(memberId)
+        ? prev.attendees.filter((id: string) => id !== memberId)
+        : [...prev.attendees, memberId]
     }));
   }, []);
 
-  const getMemberColor = useCallback((memberName: string) => {
-    const member = familyMembers.find(m => m.name === memberName);
+  const getMemberColor = useCallback((memberId: string) => {
+    const member = familyMembers.find(m => m.id === memberId);
     return convertToHexColor(member?.color);
   }, [familyMembers]);
 
+  // All-day events run from local midnight to the midnight after the last day picked
+  const getTiming = useCallback(() => {
+    if (!pickerDate) return null;
+    if (eventState.allDay) {
+      const firstDay = getLocalDateString(pickerDate);
+      const lastDay = pickerEnd ? getLocalDateString(pickerEnd) : firstDay;
+      return {
+        date: startOfLocalDay(firstDay).toISOString(),
+        endDate: startOfLocalDay(addDays(lastDay, 1)).toISOString(),
+        endTime: ''
+      };
+    }
+    return {
+      date: pickerDate.toISOString(),
+      endDate: pickerEnd ? pickerEnd.toISOString() : null,
+      // Same-day ends are also kept in the legacy HH:mm field
+      endTime: pickerEnd && getLocalDateString(pickerEnd) === getLocalDateString(pickerDate) ? toTimeString(pickerEnd) : ''
+    };
+  }, [eventState.allDay, pickerDate, pickerEnd]);
+
   const handleSave = useCallback(() => {
-    if (eventState.title.trim() && eventState.date) {
-      onSaveEvent(eventState); // endTime is included in eventState, but only date is persisted
+    const timing = getTiming();
+    if (eventState.title.trim() && timing) {
+      if (timing.endDate && timing.endDate <= timing.date) {
+        alert("The event has to end after it starts.");
+        return;
+      }
+      const event = { ...eventState, ...timing };
+      if (isOccurrence) {
+        // A single occurrence keeps its series' rule; only 'future' edits change it
+        onSaveEvent({ ...event, recurrence: scope === 'future' ? event.recurrence : eventToEdit?.recurrence }, scope);
+      } else {
+        onSaveEvent(event);
+      }
     } else {
       alert("Please fill in all required fields: Title and Date/Time.");
     }
-  }, [eventState, onSaveEvent]);
+  }, [eventState, getTiming, onSaveEvent, isOccurrence, scope, eventToEdit]);
 
   return (
     <Modal
@@ -103,13 +148,22 @@ const EventModal: React.FC<EventModalProps> = ({
       title={eventToEdit ? 'Edit Event' : 'Add New Event'}
       size="xl"
       footer={
-        <div className="flex justify-end gap-2">
-          <Button variant="ghost" onClick={onClose}>
-            Cancel
-          </Button>
-          <Button onClick={handleSave}>
-            Save Event
-          </Button>
+        <div className="flex justify-between gap-2">
+          <div>
+            {isOccurrence && onSkipOccurrence && eventToEdit && (
+              <Button variant="ghost" onClick={() => onSkipOccurrence(eventToEdit)} className="text-red-600">
+                Skip this date
+              </Button>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave}>
+              Save Event
+            </Button>
+          </div>
         </div>
       }
     >
@@ -125,17 +179,27 @@ const EventModal: React.FC<EventModalProps> = ({
           />
         </FormField>
 
+        <label className="flex items-center gap-2 text-sm text-slate-600">
+          <input
+            type="checkbox"
+            checked={!!eventState.allDay}
+            onChange={(e) => handleChange('allDay', e.target.checked)}
+            className="h-4 w-4 rounded border-slate-300 text-teal-500 focus:ring-teal-400"
+          />
+          All day
+        </label>
+
         <div className="grid gap-4 sm:grid-cols-2">
-          <FormField label="Start Date & Time" htmlFor="eventStart" required>
+          <FormField label={eventState.allDay ? 'Start Date' : 'Start Date & Time'} htmlFor="eventStart" required>
             <DatePicker
               id="eventStart"
               selected={pickerDate}
               onChange={handleDateChange}
-              showTimeSelect
+              showTimeSelect={!eventState.allDay}
               timeIntervals={15}
-              dateFormat="yyyy-MM-dd h:mm aa"
+              dateFormat={eventState.allDay ? 'yyyy-MM-dd' : 'yyyy-MM-dd h:mm aa'}
               className="w-full rounded-lg border border-slate-200 bg-slate-100/50 p-3 text-sm text-slate-700 focus:border-teal-400 focus:outline-none"
-              placeholderText="Select date and time"
+              placeholderText={eventState.allDay ? 'Select date' : 'Select date and time'}
               minDate={new Date()}
               autoComplete="off"
               popperPlacement="bottom"
@@ -144,18 +208,19 @@ const EventModal: React.FC<EventModalProps> = ({
             />
           </FormField>
 
-          <FormField label="End Time" htmlFor="eventEnd">
+          <FormField label={eventState.allDay ? 'End Date' : 'End Date & Time'} htmlFor="eventEnd">
             <DatePicker
               id="eventEnd"
-              selected={pickerEndTime}
-              onChange={handleEndTimeChange}
-              showTimeSelect
-              showTimeSelectOnly
+              selected={pickerEnd}
+              onChange={(date: Date | null) => setPickerEnd(date)}
+              showTimeSelect={!eventState.allDay}
               timeIntervals={15}
-              timeCaption="End Time"
-              dateFormat="HH:mm"
+              dateFormat={eventState.allDay ? 'yyyy-MM-dd' : 'yyyy-MM-dd h:mm aa'}
               className="w-full rounded-lg border border-slate-200 bg-slate-100/50 p-3 text-sm text-slate-700 focus:border-teal-400 focus:outline-none"
-              placeholderText="Select end time"
+              placeholderText={eventState.allDay ? 'Same day' : 'One hour after the start'}
+              minDate={pickerDate ?? new Date()}
+              openToDate={pickerEnd ?? pickerDate ?? undefined}
+              isClearable
               autoComplete="off"
               popperPlacement="bottom"
               calendarClassName="rounded-xl border border-slate-200 shadow-lg"
@@ -164,20 +229,68 @@ const EventModal: React.FC<EventModalProps> = ({
           </FormField>
         </div>
 
+        {isOccurrence ? (
+          <div className="space-y-3 rounded-xl border border-teal-200 bg-teal-50/60 p-3">
+            {eventToEdit?.recurrence && (
+              <p className="flex items-center text-sm text-teal-700">
+                <Repeat size={14} className="mr-1.5" />
+                {describeRecurrence(eventToEdit.recurrence)}
+              </p>
+            )}
+            <FormField label="Apply changes to" htmlFor="eventEditScope">
+              <div id="eventEditScope" className="flex gap-2">
+                {SCOPE_OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setScope(option.value)}
+                    className={scopeClass(scope === option.value)}
+                    aria-pressed={scope === option.value}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </FormField>
+            {scope === 'future' && (
+              <RecurrenceFields
+                value={eventState.recurrence}
+                onChange={(recurrence) => handleChange('recurrence', recurrence)}
+                startDate={pickerDate ? getLocalDateString(pickerDate) : ''}
+                idPrefix="editEventRecurrence"
+              />
+            )}
+          </div>
+        ) : (
+          <RecurrenceFields
+            value={eventState.recurrence}
+            onChange={(recurrence) => handleChange('recurrence', recurrence)}
+            startDate={pickerDate ? getLocalDateString(pickerDate) : ''}
+            idPrefix="eventRecurrence"
+          />
+        )}
+
+        <ReminderFields
+          value={eventState.reminders}
+          onChange={(reminders) => handleChange('reminders', reminders)}
+          options={EVENT_REMINDER_OPTIONS}
+          idPrefix="eventReminders"
+        />
+
         <FormField label="Attendees" htmlFor="eventAttendees">
           <div
             id="eventAttendees"
             className="grid grid-cols-2 gap-2 rounded-lg border border-slate-200 bg-slate-100/50 p-2 sm:grid-cols-3"
           >
             {familyMembers.map(member => {
-              const isSelected = eventState.attendees.includes(member.name);
-              const memberColor = getMemberColor(member.name);
+              const isSelected = eventState.attendees.includes(member.id);
+              const memberColor = getMemberColor(member.id);
 
               return (
                 <button
                   key={member.id}
                   type="button"
-                  onClick={() => toggleAttendee(member.name)}
+                  onClick={() => toggleAttendee(member.id)}
                   className={`w-full rounded-lg p-2 text-left text-xs transition-all sm:text-sm ${
                     isSelected
                       ? 'font-semibold text-white shadow-md'
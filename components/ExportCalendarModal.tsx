@@ -0,0 +1,104 @@
+import React, { useState, useEffect } from 'react';
+import { Download } from 'lucide-react';
+import { EventItem, FamilyMember } from '../types';
+import { buildICalendar } from '../utils/icalendar';
+import { convertToHexColor } from '../utils/colorUtils';
+import { uiLogger } from '../utils/logger';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+
+interface ExportCalendarModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  events: EventItem[];
+  familyMembers: FamilyMember[];
+}
+
+const optionClass = (selected: boolean) =>
+  `w-full rounded-lg p-2 text-left text-xs transition-all sm:text-sm ${
+    selected ? 'bg-teal-500 text-white font-semibold shadow-md' : 'bg-slate-200 text-slate-600 hover:bg-slate-300'
+  }`;
+
+const toFileName = (name: string) => `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'family'}-calendar.ics`;
+
+// Download the family calendar, or one member's events, as an .ics file
+const ExportCalendarModal: React.FC<ExportCalendarModalProps> = ({ isOpen, onClose, events, familyMembers }) => {
+  const [memberId, setMemberId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) setMemberId(null);
+  }, [isOpen]);
+
+  const member = familyMembers.find(m => m.id === memberId);
+  const eventCount = memberId ? events.filter(event => event.attendees.includes(memberId)).length : events.length;
+
+  const handleDownload = () => {
+    const calendarName = member ? `${member.name}'s Calendar` : 'Family Calendar';
+    try {
+      const content = buildICalendar(events, familyMembers, { calendarName, memberId });
+      const url = URL.createObjectURL(new Blob([content], { type: 'text/calendar;charset=utf-8' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = toFileName(member?.name ?? 'family');
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+      uiLogger.info('Calendar exported', { memberId, eventCount });
+      onClose();
+    } catch (error) {
+      uiLogger.error('Calendar export failed', error as Error);
+      alert('Failed to export the calendar. Please try again.');
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Export Calendar"
+      size="sm"
+      footer={
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleDownload} disabled={eventCount === 0}>
+            <span className="flex items-center gap-2">
+              <Download size={16} />
+              Download .ics
+            </span>
+          </Button>
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-slate-600">
+          Save events as an iCalendar file to open in other calendar apps. Recurring events keep their repeat rules.
+        </p>
+        <div className="grid grid-cols-2 gap-2" role="group" aria-label="Whose events">
+          <button type="button" onClick={() => setMemberId(null)} className={optionClass(memberId === null)} aria-pressed={memberId === null}>
+            Whole family
+          </button>
+          {familyMembers.map(m => (
+            <button
+              key={m.id}
+              type="button"
+              onClick={() => setMemberId(m.id)}
+              className={optionClass(memberId === m.id)}
+              style={memberId === m.id ? { backgroundColor: convertToHexColor(m.color) } : {}}
+              aria-pressed={memberId === m.id}
+            >
+              {m.name}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-slate-500">
+          {eventCount === 0 ? 'No events to export.' : `${eventCount} event${eventCount === 1 ? '' : 's'} will be exported.`}
+        </p>
+      </div>
+    </Modal>
+  );
+};
+
+export default ExportCalendarModal;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { ShieldCheck, Loader2 } from 'lucide-react';
+import { FamilyMember, FamilyMembership, FamilyRole } from '../types';
+import { useCurrentMember } from '../hooks/useCurrentMember';
+import { useFamilyMemberships } from '../hooks/useFamilyQueries';
+import { uiLogger } from '../utils/logger';
+
+interface FamilyRolesPanelProps {
+  familyMembers: FamilyMember[];
+  // Leave out for accounts that may not change roles
+  onSetRole?: (membershipId: string, role: FamilyRole) => Promise<void>;
+}
+
+const ROLE_OPTIONS: { value: FamilyRole; label: string }[] = [
+  { value: 'parent', label: 'Parent' },
+  { value: 'other', label: 'Other adult' },
+  { value: 'child', label: 'Child' }
+];
+
+// Lets parents choose what each signed-in account may change; everyone joins as a child
+const FamilyRolesPanel: React.FC<FamilyRolesPanelProps> = ({ familyMembers, onSetRole }) => {
+  const { userId } = useCurrentMember();
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { data: memberships = [] } = useFamilyMemberships(!!onSetRole);
+
+  if (!onSetRole || memberships.length === 0) return null;
+
+  const describeAccount = (membership: FamilyMembership) => {
+    const member = familyMembers.find(m => m.userId === membership.userId);
+    if (membership.userId === userId) return member ? `${member.name} (you)` : 'You';
+    return member?.name ?? 'Account not linked to a profile yet';
+  };
+
+  const handleChange = async (membership: FamilyMembership, role: FamilyRole) => {
+    if (role === membership.role) return;
+    setBusyId(membership.id);
+    try {
+      await onSetRole(membership.id, role);
+    } catch (error) {
+      uiLogger.error('Error changing membership role', error as Error, { membershipId: membership.id });
+      alert((error as Error).message || 'Could not change that role. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white/70 p-4">
+      <h4 className="flex items-center text-sm font-semibold text-slate-700">
+        <ShieldCheck size={16} className="mr-2 text-teal-500" />
+        Accounts and roles
+      </h4>
+      <p className="mt-1 text-sm text-slate-500">
+        Parents manage the family, other adults can plan chores and events, and children can tick things off.
+      </p>
+      <ul className="mt-2 space-y-2">
+        {memberships.map(membership => (
+          <li key={membership.id} className="flex items-center justify-between gap-2 rounded-lg bg-white/80 px-3 py-2">
+            <span className="min-w-0 truncate text-sm text-slate-600">{describeAccount(membership)}</span>
+            <div className="flex flex-shrink-0 items-center gap-2">
+              {busyId === membership.id && <Loader2 size={14} className="animate-spin text-slate-400" />}
+              <select
+                value={membership.role}
+                onChange={event => handleChange(membership, event.target.value as FamilyRole)}
+                disabled={busyId !== null}
+                className="rounded-lg border border-slate-200 bg-white px-2 py-1 text-sm text-slate-600 disabled:opacity-50"
+                aria-label={`Role for ${describeAccount(membership)}`}
+              >
+                {ROLE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default FamilyRolesPanel;
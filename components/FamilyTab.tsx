@@ -1,9 +1,15 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { FamilyMember, FamilyDetails } from '../types';
-import { Users, Plus, Edit3, Trash2, UserPlus, Home, Loader2, QrCode } from 'lucide-react';
+import { FamilyMember, FamilyDetails, MemberClaim, FamilyRole } from '../types';
+import { Users, Plus, Edit3, Trash2, UserPlus, Home, Loader2, QrCode, Bell, BellOff, Lock, Unlock } from 'lucide-react';
 import { convertToHexColor } from '../utils/colorUtils';
 import QRCodeShareModal from './QRCodeShareModal';
+import MemberClaimsPanel from './MemberClaimsPanel';
+import FamilyRolesPanel from './FamilyRolesPanel';
+import { SyncStatusBadge } from './ui/SyncStatusBadge';
+import type { OutboxStatus } from '../services/mutationOutbox';
+import type { UseRemindersReturn } from '../hooks/useReminders';
 import { useAddressAutocomplete } from '../hooks/useAddressAutocomplete';
+import { useCurrentMember } from '../hooks/useCurrentMember';
 import { formatNominatimAddress, AddressSuggestion } from '../utils/addressUtils';
 
 const calculateAge = (dobString?: string): number | null => {
@@ -44,9 +50,19 @@ interface FamilyTabProps {
   setIsEditingFamily: React.Dispatch<React.SetStateAction<boolean>>;
   onNewPhotoSelected: (photoDataUrl: string) => void;
   saveFamilyDetails: () => Promise<void> | void;
-  onEditMember: (member: FamilyMember) => void;
-  onDeleteMember: (memberId: number) => void;
-  onAddMember: () => void;
+  canEditFamily?: boolean;
+  // Member actions are hidden when their handler is left out
+  onEditMember?: (member: FamilyMember) => void;
+  onDeleteMember?: (memberId: string) => void;
+  onAddMember?: () => void;
+  onShowPointsHistory?: (member: FamilyMember) => void;
+  onRequestMemberClaim?: (memberId: string) => Promise<MemberClaim>;
+  onDecideMemberClaim?: (claimId: string, approve: boolean) => Promise<void>;
+  onSetMembershipRole?: (membershipId: string, role: FamilyRole) => Promise<void>;
+  getSyncStatus?: (table: string, entityId: string) => OutboxStatus | null;
+  reminders?: UseRemindersReturn;
+  kidMode?: boolean;
+  onOpenKidMode?: () => void;
 }
 
 const FamilyTab: React.FC<FamilyTabProps> = ({
@@ -58,9 +74,18 @@ const FamilyTab: React.FC<FamilyTabProps> = ({
   setIsEditingFamily,
   onNewPhotoSelected,
   saveFamilyDetails,
+  canEditFamily = true,
   onEditMember,
   onDeleteMember,
-  onAddMember
+  onAddMember,
+  onShowPointsHistory,
+  onRequestMemberClaim,
+  onDecideMemberClaim,
+  onSetMembershipRole,
+  getSyncStatus,
+  reminders,
+  kidMode = false,
+  onOpenKidMode
 }) => {
   const {
     suggestions: addressSuggestions,
@@ -74,6 +99,7 @@ const FamilyTab: React.FC<FamilyTabProps> = ({
     setShowSuggestions,
     setCurrentAddressInput: setAutocompleteAddress
   } = useAddressAutocomplete(familyDetails.address || '');
+  const { isMe } = useCurrentMember();
 
   const photoContainerRef = useRef<HTMLDivElement | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
@@ -373,6 +399,30 @@ const FamilyTab: React.FC<FamilyTabProps> = ({
                     <h3 className="text-xl font-semibold text-slate-700">{familyDisplayName || 'Our Family'}</h3>
                   </div>
                   <div className="flex gap-2 self-start">
+                    {reminders && reminders.permission !== 'unsupported' && (
+                      <button
+                        onClick={() => (reminders.enabled ? reminders.disable() : reminders.enable())}
+                        disabled={!reminders.enabled && reminders.permission === 'denied'}
+                        className="inline-flex items-center gap-2 rounded-xl border border-slate-200 px-3 py-2 text-sm font-medium text-slate-600 transition hover:border-slate-300 hover:bg-slate-50 shadow-sm disabled:opacity-50"
+                        title={reminders.permission === 'denied'
+                          ? 'Notifications are blocked for this app in your browser or device settings'
+                          : 'Event and chore reminders on this device'}
+                        aria-pressed={reminders.enabled}
+                      >
+                        {reminders.enabled ? <Bell size={16} /> : <BellOff size={16} />}
+                        {reminders.enabled ? 'Reminders on' : 'Reminders off'}
+                      </button>
+                    )}
+                    {onOpenKidMode && (
+                      <button
+                        onClick={onOpenKidMode}
+                        className="inline-flex items-center gap-2 rounded-xl border border-slate-200 px-3 py-2 text-sm font-medium text-slate-600 transition hover:border-slate-300 hover:bg-slate-50 shadow-sm"
+                        title="Lock management actions on this device behind a parent PIN"
+                      >
+                        {kidMode ? <Lock size={16} /> : <Unlock size={16} />}
+                        {kidMode ? 'Kid mode on' : 'Kid mode'}
+                      </button>
+                    )}
                     <button
                       onClick={() => setIsShareModalOpen(true)}
                       className="inline-flex items-center gap-2 rounded-xl border border-slate-200 px-3 py-2 text-sm font-medium text-slate-600 transition hover:border-slate-300 hover:bg-slate-50 shadow-sm"
@@ -380,13 +430,15 @@ const FamilyTab: React.FC<FamilyTabProps> = ({
                       <QrCode size={16} />
                       Share
                     </button>
-                    <button
-                      onClick={() => setIsEditingFamily(true)}
-                      className="inline-flex items-center gap-2 rounded-xl border border-slate-200 px-3 py-2 text-sm font-medium text-slate-600 transition hover:border-slate-300 hover:bg-slate-50 shadow-sm"
-                    >
-                      <Edit3 size={16} />
-                      Edit
-                    </button>
+                    {canEditFamily && (
+                      <button
+                        onClick={() => setIsEditingFamily(true)}
+                        className="inline-flex items-center gap-2 rounded-xl border border-slate-200 px-3 py-2 text-sm font-medium text-slate-600 transition hover:border-slate-300 hover:bg-slate-50 shadow-sm"
+                      >
+                        <Edit3 size={16} />
+                        Edit
+                      </button>
+                    )}
                   </div>
                 </div>
 
@@ -504,15 +556,25 @@ const FamilyTab: React.FC<FamilyTabProps> = ({
                 <p className="text-xs uppercase tracking-wide text-slate-400">Family members</p>
                 <h3 className="text-xl font-semibold text-slate-700">{totalMembers} member{totalMembers === 1 ? '' : 's'}</h3>
               </div>
-              <button
-                onClick={onAddMember}
-                className="inline-flex items-center gap-2 rounded-xl bg-teal-500 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-teal-600"
-              >
-                <UserPlus size={16} />
-                Add Member
-              </button>
+              {onAddMember && (
+                <button
+                  onClick={onAddMember}
+                  className="inline-flex items-center gap-2 rounded-xl bg-teal-500 px-4 py-2 text-sm font-semibold text-white shadow-sm transition hover:bg-teal-600"
+                >
+                  <UserPlus size={16} />
+                  Add Member
+                </button>
+              )}
             </div>
 
+            <MemberClaimsPanel
+              familyMembers={familyMembers}
+              onRequestClaim={onRequestMemberClaim}
+              onDecideClaim={onDecideMemberClaim}
+            />
+
+            <FamilyRolesPanel familyMembers={familyMembers} onSetRole={onSetMembershipRole} />
+
             {familyMembers.length > 0 ? (
               <div className="grid max-h-full grid-cols-1 gap-4 overflow-y-auto pr-1 sm:grid-cols-2 xl:grid-cols-3">
                 {familyMembers.map(member => {
@@ -537,25 +599,37 @@ const FamilyTab: React.FC<FamilyTabProps> = ({
                             {member.initial}
                           </span>
                           <div>
-                            <h4 className="text-base font-semibold text-slate-700">{member.name}</h4>
+                            <h4 className="flex items-center gap-2 text-base font-semibold text-slate-700">
+                              {member.name}
+                              {isMe(member.id) && (
+                                <span className="rounded-full bg-teal-500 px-2 py-0.5 text-[0.65rem] font-semibold uppercase tracking-wide text-white">
+                                  You
+                                </span>
+                              )}
+                            </h4>
                             <p className="text-sm text-slate-500 capitalize">{member.role || 'Family member'}</p>
+                            <SyncStatusBadge status={getSyncStatus?.('family_members', member.id) ?? null} className="mt-1" />
                           </div>
                         </div>
                         <div className="flex gap-1 opacity-0 transition group-hover:opacity-100">
-                          <button
-                            onClick={() => onEditMember(member)}
-                            className="rounded-lg border border-slate-200 bg-white p-2 text-slate-500 hover:border-teal-400 hover:text-teal-500"
-                            aria-label={`Edit ${member.name}`}
-                          >
-                            <Edit3 size={14} />
-                          </button>
-                          <button
-                            onClick={() => onDeleteMember(Number(member.id))}
-                            className="rounded-lg border border-slate-200 bg-white p-2 text-slate-500 hover:border-red-400 hover:text-red-500"
-                            aria-label={`Delete ${member.name}`}
-                          >
-                            <Trash2 size={14} />
-                          </button>
+                          {onEditMember && (
+                            <button
+                              onClick={() => onEditMember(member)}
+                              className="rounded-lg border border-slate-200 bg-white p-2 text-slate-500 hover:border-teal-400 hover:text-teal-500"
+                              aria-label={`Edit ${member.name}`}
+                            >
+                              <Edit3 size={14} />
+                            </button>
+                          )}
+                          {onDeleteMember && (
+                            <button
+                              onClick={() => onDeleteMember(member.id)}
+                              className="rounded-lg border border-slate-200 bg-white p-2 text-slate-500 hover:border-red-400 hover:text-red-500"
+                              aria-label={`Delete ${member.name}`}
+                            >
+                              <Trash2 size={14} />
+                            </button>
+                          )}
                         </div>
                       </div>
 
@@ -571,6 +645,14 @@ const FamilyTab: React.FC<FamilyTabProps> = ({
                         )}
                         <p>
                           <span className="font-medium text-slate-500">Points:</span> {member.points}
+                          {onShowPointsHistory && (
+                            <button
+                              onClick={() => onShowPointsHistory(member)}
+                              className="ml-2 text-xs font-medium text-teal-600 hover:text-teal-700 hover:underline"
+                            >
+                              History
+                            </button>
+                          )}
                         </p>
                       </div>
                     </div>
@@ -582,13 +664,15 @@ const FamilyTab: React.FC<FamilyTabProps> = ({
                 <Users size={32} className="mb-3" />
                 <p className="mb-2 text-sm">You haven’t added any family members yet.</p>
                 <p className="mb-4 text-sm text-slate-400">Invite everyone to build chore schedules, routines, and rewards together.</p>
-                <button
-                  onClick={onAddMember}
-                  className="inline-flex items-center gap-2 rounded-xl bg-teal-500 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-teal-600"
-                >
-                  <UserPlus size={16} />
-                  Add your first member
-                </button>
+                {onAddMember && (
+                  <button
+                    onClick={onAddMember}
+                    className="inline-flex items-center gap-2 rounded-xl bg-teal-500 px-4 py-2 text-sm font-medium text-white shadow-sm transition hover:bg-teal-600"
+                  >
+                    <UserPlus size={16} />
+                    Add your first member
+                  </button>
+                )}
               </div>
             )}
           </section>
@@ -0,0 +1,250 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Upload, Repeat, AlertTriangle } from 'lucide-react';
+import { EventItem, FamilyMember } from '../types';
+import { parseICalendar, toEventFields, ParsedICalEvent } from '../utils/icalendar';
+import { describeRecurrence } from '../utils/recurrence';
+import { convertToHexColor } from '../utils/colorUtils';
+import { uiLogger } from '../utils/logger';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import FormField from './ui/FormField';
+
+interface ImportCalendarModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  existingEvents: EventItem[];
+  familyMembers: FamilyMember[];
+  eventColors: string[];
+  onImportEvents: (events: Omit<EventItem, 'id'>[]) => Promise<void>;
+}
+
+// Attendees in the file that match a family member's name or nickname
+const matchAttendees = (event: ParsedICalEvent, members: FamilyMember[]) =>
+  members
+    .filter(member => event.attendeeNames.some(name => {
+      const attendee = name.trim().toLowerCase();
+      return [member.name, member.nickname].some(candidate =>
+        candidate && (attendee === candidate.toLowerCase() || attendee.split(/\s+/)[0] === candidate.toLowerCase())
+      );
+    }))
+    .map(member => member.id);
+
+const formatWhen = (event: ParsedICalEvent) => {
+  const dateOptions: Intl.DateTimeFormatOptions = { weekday: 'short', day: 'numeric', month: 'short' };
+  if (event.allDay) return `${new Date(event.date).toLocaleDateString([], dateOptions)} • All day`;
+  const start = new Date(event.date).toLocaleString([], { ...dateOptions, hour: 'numeric', minute: '2-digit' });
+  if (event.endTime) return `${start} - ${event.endTime}`;
+  return event.endDate ? `${start} - ${new Date(event.endDate).toLocaleString([], { ...dateOptions, hour: 'numeric', minute: '2-digit' })}` : start;
+};
+
+// Preview the events in an .ics file and add the chosen ones to the family calendar
+const ImportCalendarModal: React.FC<ImportCalendarModalProps> = ({
+  isOpen,
+  onClose,
+  existingEvents,
+  familyMembers,
+  eventColors,
+  onImportEvents
+}) => {
+  const [parsed, setParsed] = useState<ParsedICalEvent[]>([]);
+  const [fileWarnings, setFileWarnings] = useState<string[]>([]);
+  const [selectedUids, setSelectedUids] = useState<Set<string>>(new Set());
+  const [attendees, setAttendees] = useState<string[]>([]);
+  const [color, setColor] = useState(eventColors[0]);
+  const [isImporting, setIsImporting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setParsed([]);
+      setFileWarnings([]);
+      setSelectedUids(new Set());
+      setAttendees([]);
+      setColor(eventColors[0]);
+    }
+  }, [isOpen, eventColors]);
+
+  // Events imported before are recognised by their UID and not added twice
+  const importedUids = useMemo(
+    () => new Set(existingEvents.map(event => event.icalUid).filter((uid): uid is string => !!uid)),
+    [existingEvents]
+  );
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const result = parseICalendar(await file.text());
+      setParsed(result.events);
+      setFileWarnings(result.warnings);
+      setSelectedUids(new Set(result.events.filter(event => !importedUids.has(event.uid)).map(event => event.uid)));
+      if (result.events.length === 0 && result.warnings.length === 0) setFileWarnings(['No events found in this file']);
+    } catch (error) {
+      uiLogger.error('Failed to read calendar file', error as Error, { fileName: file.name });
+      setParsed([]);
+      setFileWarnings(['Could not read this file']);
+    }
+  };
+
+  const toggleEvent = (uid: string) => {
+    setSelectedUids(prev => {
+      const next = new Set(prev);
+      if (next.has(uid)) next.delete(uid);
+      else next.add(uid);
+      return next;
+    });
+  };
+
+  const toggleAttendee = (memberId: string) => {
+    setAttendees(prev => prev.includes(memberId) ? prev.filter(id => id !== memberId) : [...prev, memberId]);
+  };
+
+  const handleImport = async () => {
+    const events = parsed
+      .filter(event => selectedUids.has(event.uid))
+      .map(event => toEventFields(event, [...new Set([...attendees, ...matchAttendees(event, familyMembers)])], color));
+    setIsImporting(true);
+    try {
+      await onImportEvents(events);
+      onClose();
+    } catch (error) {
+      uiLogger.error('Calendar import failed', error as Error);
+      alert('Failed to import some events. Please try again.');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Import Calendar"
+      size="lg"
+      footer={
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={selectedUids.size === 0 || isImporting}>
+            {isImporting ? 'Importing...' : `Import ${selectedUids.size} Event${selectedUids.size === 1 ? '' : 's'}`}
+          </Button>
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        <FormField label="iCalendar file" htmlFor="icsFile">
+          <label
+            htmlFor="icsFile"
+            className="flex cursor-pointer items-center justify-center gap-2 rounded-lg border-2 border-dashed border-slate-300 bg-slate-50 p-4 text-sm text-slate-600 hover:border-teal-400 hover:text-teal-700"
+          >
+            <Upload size={18} />
+            Choose an .ics file
+          </label>
+          <input
+            id="icsFile"
+            type="file"
+            accept=".ics,text/calendar"
+            className="sr-only"
+            onChange={(e) => {
+              handleFile(e.target.files?.[0]);
+              e.target.value = ''; // Let the same file be picked again
+            }}
+          />
+        </FormField>
+
+        {fileWarnings.map(warning => (
+          <div key={warning} className="flex items-center gap-2 rounded-lg border border-amber-200 bg-amber-50 p-2 text-xs text-amber-700">
+            <AlertTriangle size={14} />
+            {warning}
+          </div>
+        ))}
+
+        {parsed.length > 0 && (
+          <>
+            <ul className="max-h-64 space-y-1 overflow-y-auto rounded-lg border border-slate-200 p-2">
+              {parsed.map(event => {
+                const alreadyImported = importedUids.has(event.uid);
+                const matched = matchAttendees(event, familyMembers)
+                  .map(id => familyMembers.find(member => member.id === id)?.name)
+                  .filter(Boolean);
+                return (
+                  <li key={event.uid}>
+                    <label className={`flex items-start gap-2 rounded-lg p-2 text-sm ${alreadyImported ? 'opacity-50' : 'hover:bg-slate-50'}`}>
+                      <input
+                        type="checkbox"
+                        className="mt-1"
+                        checked={selectedUids.has(event.uid)}
+                        disabled={alreadyImported}
+                        onChange={() => toggleEvent(event.uid)}
+                      />
+                      <div className="min-w-0">
+                        <div className="font-medium text-slate-700 truncate">{event.title}</div>
+                        <div className="text-xs text-slate-500">
+                          {formatWhen(event)}
+                          {alreadyImported && ' • Already imported'}
+                          {matched.length > 0 && ` • ${matched.join(', ')}`}
+                        </div>
+                        {event.recurrence && (
+                          <div className="flex items-center text-xs text-teal-600">
+                            <Repeat size={11} className="mr-1" />
+                            {describeRecurrence(event.recurrence)}
+                          </div>
+                        )}
+                        {event.warnings.map(warning => (
+                          <div key={warning} className="text-xs text-amber-600">{warning}</div>
+                        ))}
+                      </div>
+                    </label>
+                  </li>
+                );
+              })}
+            </ul>
+
+            <FormField label="Attendees" htmlFor="importAttendees">
+              <div id="importAttendees" className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+                {familyMembers.map(member => {
+                  const isSelected = attendees.includes(member.id);
+                  const memberColor = convertToHexColor(member.color);
+                  return (
+                    <button
+                      key={member.id}
+                      type="button"
+                      onClick={() => toggleAttendee(member.id)}
+                      className={`w-full rounded-lg p-2 text-left text-xs transition-all sm:text-sm ${
+                        isSelected ? 'font-semibold text-white shadow-md' : 'bg-slate-200 text-slate-600 hover:bg-slate-300'
+                      }`}
+                      style={isSelected ? { backgroundColor: memberColor } : {}}
+                      aria-pressed={isSelected}
+                    >
+                      {member.name}
+                    </button>
+                  );
+                })}
+              </div>
+              <p className="mt-1 text-xs text-slate-500">Added to every imported event, along with anyone named in the file.</p>
+            </FormField>
+
+            <FormField label="Event Color" htmlFor="importColor">
+              <div id="importColor" className="flex flex-wrap gap-2">
+                {eventColors.map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setColor(option)}
+                    className={`h-8 w-8 rounded-full border-2 transition-all ${
+                      color === option ? 'border-slate-700 scale-110 ring-2 ring-offset-1 ring-slate-700' : 'border-slate-200 hover:scale-105'
+                    }`}
+                    style={{ backgroundColor: convertToHexColor(option) }}
+                    aria-pressed={color === option}
+                    aria-label={`Select color ${option}`}
+                  />
+                ))}
+              </div>
+            </FormField>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default ImportCalendarModal;
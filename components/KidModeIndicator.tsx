@@ -0,0 +1,32 @@
+import React from 'react';
+import { Lock, Unlock } from 'lucide-react';
+
+interface KidModeIndicatorProps {
+  kidMode: boolean;
+  isLocked: boolean;
+  onUnlock: () => void;
+  onLock: () => void;
+}
+
+// Shows that kid mode is on, with a quick way for a parent to unlock or hand the device back
+const KidModeIndicator: React.FC<KidModeIndicatorProps> = ({ kidMode, isLocked, onUnlock, onLock }) => {
+  if (!kidMode) return null;
+
+  return (
+    <div className="mb-4 flex justify-end">
+      <button
+        type="button"
+        onClick={isLocked ? onUnlock : onLock}
+        className={`inline-flex items-center gap-2 rounded-full px-3 py-1.5 text-xs font-medium shadow-sm transition ${
+          isLocked ? 'bg-white/80 text-slate-600 hover:bg-white' : 'bg-amber-100 text-amber-800 hover:bg-amber-200'
+        }`}
+        title={isLocked ? 'Enter the parent PIN to manage the family' : 'Lock now'}
+      >
+        {isLocked ? <Lock size={14} /> : <Unlock size={14} />}
+        {isLocked ? 'Kid mode' : 'Parent unlocked · Lock'}
+      </button>
+    </div>
+  );
+};
+
+export default KidModeIndicator;
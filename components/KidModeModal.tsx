@@ -0,0 +1,182 @@
+import React, { useEffect, useState } from 'react';
+import { Lock, Unlock, KeyRound, Loader2 } from 'lucide-react';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import FormField from './ui/FormField';
+import { dataService } from '../dataService';
+import { uiLogger } from '../utils/logger';
+import { PIN_MAX_LENGTH, isValidPin } from '../utils/parentPin';
+
+interface KidModeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  kidMode: boolean;
+  onSetKidMode: (enabled: boolean) => void;
+  // Leave out when the signed-in account may not change the family's PIN
+  onSavePin?: (pin: string | null, currentPin?: string) => Promise<void>;
+}
+
+const pinInputClass =
+  'w-full rounded-lg border border-slate-200 bg-slate-100/50 p-3 text-sm tracking-widest text-slate-700 focus:border-teal-400 focus:outline-none';
+
+const digitsOnly = (value: string) => value.replace(/\D/g, '');
+
+// Turns kid mode on or off for this device and manages the family's parent PIN
+const KidModeModal: React.FC<KidModeModalProps> = ({ isOpen, onClose, kidMode, onSetKidMode, onSavePin }) => {
+  const [hasPin, setHasPin] = useState<boolean | null>(null);
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setCurrentPin('');
+    setNewPin('');
+    setConfirmPin('');
+    dataService.hasParentPin()
+      .then(setHasPin)
+      .catch(error => {
+        uiLogger.error('Error checking parent PIN', error as Error);
+        setHasPin(null);
+      });
+  }, [isOpen]);
+
+  const savePin = async (pin: string | null) => {
+    if (!onSavePin) return;
+    if (pin !== null && !isValidPin(pin)) {
+      alert('The PIN must be 4 to 8 digits.');
+      return;
+    }
+    if (pin !== null && pin !== confirmPin) {
+      alert('The new PINs do not match.');
+      return;
+    }
+    if (pin === null && kidMode) {
+      alert('Turn kid mode off before removing the PIN.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSavePin(pin, hasPin ? currentPin : undefined);
+      setHasPin(pin !== null);
+      setCurrentPin('');
+      setNewPin('');
+      setConfirmPin('');
+    } catch (error) {
+      alert((error as Error).message || 'Could not save the PIN. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Kid Mode" size="md">
+      <div className="space-y-5">
+        <div className="rounded-xl border border-slate-200 bg-white p-4 space-y-3">
+          <h4 className="flex items-center text-sm font-semibold text-slate-600">
+            {kidMode ? <Lock size={18} className="mr-2 text-teal-500" /> : <Unlock size={18} className="mr-2 text-slate-400" />}
+            This device
+          </h4>
+          <p className="text-sm text-slate-500">
+            In kid mode, adding, editing and deleting things or changing points needs the parent PIN.
+            Chores and routines can still be ticked off. The device locks itself again after two
+            minutes without use.
+          </p>
+          <div className="flex justify-end">
+            {kidMode ? (
+              <Button variant="secondary" onClick={() => onSetKidMode(false)}>
+                Turn kid mode off
+              </Button>
+            ) : (
+              <Button
+                onClick={() => {
+                  onSetKidMode(true);
+                  onClose();
+                }}
+                disabled={!hasPin}
+                title={hasPin ? undefined : 'Set a parent PIN first'}
+              >
+                Turn kid mode on
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="rounded-xl border border-slate-200 bg-white p-4 space-y-3">
+          <h4 className="flex items-center text-sm font-semibold text-slate-600">
+            <KeyRound size={18} className="mr-2 text-amber-500" />
+            Parent PIN
+            {hasPin === null && <Loader2 size={14} className="ml-2 animate-spin text-slate-400" />}
+          </h4>
+          {!onSavePin ? (
+            <p className="text-sm text-slate-500">
+              {hasPin ? 'A parent PIN is set.' : 'No parent PIN yet.'} Only a parent can set or change it.
+            </p>
+          ) : (
+            <>
+              <div className="grid gap-3 sm:grid-cols-3">
+                {hasPin && (
+                  <FormField label="Current PIN" htmlFor="currentParentPin">
+                    <input
+                      id="currentParentPin"
+                      type="password"
+                      inputMode="numeric"
+                      autoComplete="off"
+                      maxLength={PIN_MAX_LENGTH}
+                      value={currentPin}
+                      onChange={(e) => setCurrentPin(digitsOnly(e.target.value))}
+                      className={pinInputClass}
+                    />
+                  </FormField>
+                )}
+                <FormField label="New PIN" htmlFor="newParentPin">
+                  <input
+                    id="newParentPin"
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    maxLength={PIN_MAX_LENGTH}
+                    value={newPin}
+                    onChange={(e) => setNewPin(digitsOnly(e.target.value))}
+                    className={pinInputClass}
+                  />
+                </FormField>
+                <FormField label="Confirm PIN" htmlFor="confirmParentPin">
+                  <input
+                    id="confirmParentPin"
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    maxLength={PIN_MAX_LENGTH}
+                    value={confirmPin}
+                    onChange={(e) => setConfirmPin(digitsOnly(e.target.value))}
+                    className={pinInputClass}
+                  />
+                </FormField>
+              </div>
+              <div className="flex justify-end gap-2">
+                {hasPin && (
+                  <Button
+                    variant="ghost"
+                    className="text-red-600"
+                    onClick={() => savePin(null)}
+                    disabled={isSaving || currentPin.length === 0}
+                  >
+                    Remove PIN
+                  </Button>
+                )}
+                <Button onClick={() => savePin(newPin)} disabled={isSaving || newPin.length === 0 || hasPin === null}>
+                  {isSaving ? 'Saving...' : hasPin ? 'Change PIN' : 'Set PIN'}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default KidModeModal;
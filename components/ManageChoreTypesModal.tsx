@@ -1,7 +1,8 @@
 
-import React, { useState, useCallback } from 'react';
-import { ChoreType } from '../types';
-import { PlusCircle, Tag, Star, ListChecks } from 'lucide-react';
+import React, { useState, useCallback, useMemo } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Chore, ChoreType } from '../types';
+import { PlusCircle, Tag, Star, ListChecks, Pencil, Trash2, AlertTriangle } from 'lucide-react';
 import { AVAILABLE_CHORE_ICONS } from '../constants';
 import { getIcon } from '../utils/iconUtils';
 import Modal from './ui/Modal';
@@ -12,20 +13,57 @@ interface ManageChoreTypesModalProps {
   isOpen: boolean;
   onClose: () => void;
   choreTypes: ChoreType[];
-  onSaveChoreType: (newTypeData: Omit<ChoreType, 'id'>) => void;
+  chores: Chore[];
+  // Receives the full edited list plus where chores on each deleted type should move (null clears it)
+  onSaveChoreTypes: (choreTypes: ChoreType[], reassignments: Record<string, string | null>) => Promise<void>;
+}
+
+interface PendingDelete {
+  type: ChoreType;
+  choreCount: number;
+  reassignTo: string;
 }
 
 const ManageChoreTypesModal: React.FC<ManageChoreTypesModalProps> = ({
   isOpen,
   onClose,
   choreTypes,
-  onSaveChoreType,
+  chores,
+  onSaveChoreTypes,
 }) => {
+  const [draftTypes, setDraftTypes] = useState<ChoreType[]>(() => choreTypes.map(type => ({ ...type })));
+  const [reassignments, setReassignments] = useState<Record<string, string | null>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<PendingDelete | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
   const [newTypeName, setNewTypeName] = useState('');
   const [newTypePoints, setNewTypePoints] = useState<number>(10);
   const [newTypeIcon, setNewTypeIcon] = useState<string>('');
 
-  const handleAddType = useCallback(() => {
+  const choreCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    chores.forEach(chore => {
+      if (chore.choreTypeId) counts.set(chore.choreTypeId, (counts.get(chore.choreTypeId) ?? 0) + 1);
+    });
+    return counts;
+  }, [chores]);
+
+  const hasChanges = useMemo(() => {
+    if (Object.keys(reassignments).length > 0 || draftTypes.length !== choreTypes.length) return true;
+    return draftTypes.some(type => {
+      const original = choreTypes.find(t => t.id === type.id);
+      return !original || original.name !== type.name || original.defaultPoints !== type.defaultPoints || original.icon !== type.icon;
+    });
+  }, [draftTypes, choreTypes, reassignments]);
+
+  const resetForm = useCallback(() => {
+    setEditingId(null);
+    setNewTypeName('');
+    setNewTypePoints(10);
+    setNewTypeIcon('');
+  }, []);
+
+  const handleSubmitType = useCallback(() => {
     if (newTypeName.trim() === '') {
       alert('Chore type name cannot be empty.');
       return;
@@ -38,15 +76,54 @@ const ManageChoreTypesModal: React.FC<ManageChoreTypesModalProps> = ({
         alert('Points cannot be negative.');
         return;
     }
-    onSaveChoreType({
-      name: newTypeName.trim(),
-      defaultPoints: newTypePoints,
-      icon: newTypeIcon.trim(),
+    const fields = { name: newTypeName.trim(), defaultPoints: newTypePoints, icon: newTypeIcon.trim() };
+    setDraftTypes(prev => editingId
+      ? prev.map(type => (type.id === editingId ? { ...type, ...fields } : type))
+      : [...prev, { id: uuidv4(), ...fields }]);
+    resetForm();
+  }, [newTypeName, newTypePoints, newTypeIcon, editingId, resetForm]);
+
+  const startEditing = (type: ChoreType) => {
+    setPendingDelete(null);
+    setEditingId(type.id);
+    setNewTypeName(type.name);
+    setNewTypePoints(type.defaultPoints);
+    setNewTypeIcon(type.icon);
+  };
+
+  const removeType = (id: string, reassignTo: string | null) => {
+    setDraftTypes(prev => prev.filter(type => type.id !== id));
+    setReassignments(prev => {
+      // Chores that were going to move onto this type follow it to the new target
+      const next = Object.fromEntries(Object.entries(prev).map(([from, to]) => [from, to === id ? reassignTo : to]));
+      // Types added in this session never reached the backend, so they have no chores to move
+      if (choreTypes.some(type => type.id === id)) next[id] = reassignTo;
+      return next;
     });
-    setNewTypeName('');
-    setNewTypePoints(10);
-    setNewTypeIcon('');
-  }, [newTypeName, newTypePoints, newTypeIcon, onSaveChoreType]);
+    if (editingId === id) resetForm();
+    setPendingDelete(null);
+  };
+
+  const requestDelete = (type: ChoreType) => {
+    const choreCount = choreCounts.get(type.id) ?? 0;
+    if (choreCount === 0) {
+      removeType(type.id, null);
+      return;
+    }
+    setPendingDelete({ type, choreCount, reassignTo: '' });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSaveChoreTypes(draftTypes, reassignments);
+      onClose();
+    } catch {
+      alert('Could not save chore types. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
   return (
     <Modal
@@ -60,16 +137,25 @@ const ManageChoreTypesModal: React.FC<ManageChoreTypesModalProps> = ({
       }
       size="lg"
       footer={
-        <Button variant="ghost" onClick={onClose} fullWidth>
-          Close
-        </Button>
+        <div className="flex justify-end gap-3">
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!hasChanges || isSaving}>
+            {isSaving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </div>
       }
     >
       <div className="space-y-5">
         <div className="rounded-xl border border-slate-200 bg-white p-4">
           <h4 className="mb-3 flex items-center text-sm font-semibold text-slate-600">
-            <PlusCircle size={18} className="mr-2 text-teal-500" />
-            Add New Type
+            {editingId ? (
+              <Pencil size={18} className="mr-2 text-teal-500" />
+            ) : (
+              <PlusCircle size={18} className="mr-2 text-teal-500" />
+            )}
+            {editingId ? 'Edit Type' : 'Add New Type'}
           </h4>
           <div className="space-y-4">
             <div className="grid gap-3 sm:grid-cols-5 sm:items-end">
@@ -98,11 +184,16 @@ const ManageChoreTypesModal: React.FC<ManageChoreTypesModalProps> = ({
                 </FormField>
               </div>
               <div className="sm:col-span-1">
-                <Button onClick={handleAddType} fullWidth>
-                  Add
+                <Button onClick={handleSubmitType} fullWidth>
+                  {editingId ? 'Update' : 'Add'}
                 </Button>
               </div>
             </div>
+            {editingId && (
+              <button type="button" onClick={resetForm} className="text-xs text-slate-500 hover:text-slate-700">
+                Cancel editing
+              </button>
+            )}
 
             <FormField label="Select Icon" htmlFor="typeIcon">
               <div
@@ -138,23 +229,75 @@ const ManageChoreTypesModal: React.FC<ManageChoreTypesModalProps> = ({
             <Tag size={18} className="mr-2 text-slate-500" />
             Existing Types
           </h4>
-          {choreTypes.length === 0 ? (
+          {draftTypes.length === 0 ? (
             <p className="text-sm text-slate-500">No chore types defined yet.</p>
           ) : (
             <ul className="space-y-2">
-              {choreTypes.map(type => (
+              {draftTypes.map(type => (
                 <li
                   key={type.id}
-                  className="flex items-center justify-between rounded-lg border border-slate-200 bg-white p-3 shadow-sm"
+                  className={`rounded-lg border bg-white p-3 shadow-sm ${
+                    editingId === type.id ? 'border-teal-400' : 'border-slate-200'
+                  }`}
                 >
-                  <div className="flex items-center gap-3 text-slate-600">
-                    <span className="text-xl">{getIcon(type.icon)}</span>
-                    <span className="font-medium">{type.name}</span>
-                  </div>
-                  <div className="flex items-center gap-1 text-sm text-slate-600">
-                    <Star className="text-yellow-400" size={14} />
-                    {type.defaultPoints} pts
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3 text-slate-600">
+                      <span className="text-xl">{getIcon(type.icon)}</span>
+                      <span className="font-medium">{type.name}</span>
+                    </div>
+                    <div className="flex items-center gap-3 text-sm text-slate-600">
+                      <span className="flex items-center gap-1">
+                        <Star className="text-yellow-400" size={14} />
+                        {type.defaultPoints} pts
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => startEditing(type)}
+                        className="rounded p-1 text-slate-400 hover:bg-slate-100 hover:text-teal-600"
+                        aria-label={`Edit ${type.name}`}
+                      >
+                        <Pencil size={16} />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => requestDelete(type)}
+                        className="rounded p-1 text-slate-400 hover:bg-red-50 hover:text-red-500"
+                        aria-label={`Delete ${type.name}`}
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
                   </div>
+
+                  {pendingDelete?.type.id === type.id && (
+                    <div className="mt-3 space-y-3 rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                      <p className="flex items-center gap-2">
+                        <AlertTriangle size={16} className="text-amber-500" />
+                        {pendingDelete.choreCount === 1 ? '1 chore uses' : `${pendingDelete.choreCount} chores use`} this type.
+                      </p>
+                      <FormField label="Move those chores to" htmlFor="reassignType">
+                        <select
+                          id="reassignType"
+                          value={pendingDelete.reassignTo}
+                          onChange={(e) => setPendingDelete({ ...pendingDelete, reassignTo: e.target.value })}
+                          className="w-full rounded-lg border border-slate-200 bg-white p-2 text-sm text-slate-700 focus:border-teal-400 focus:outline-none"
+                        >
+                          <option value="">No type</option>
+                          {draftTypes.filter(t => t.id !== type.id).map(t => (
+                            <option key={t.id} value={t.id}>{t.name}</option>
+                          ))}
+                        </select>
+                      </FormField>
+                      <div className="flex justify-end gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => setPendingDelete(null)}>
+                          Keep type
+                        </Button>
+                        <Button variant="ghost" size="sm" className="text-red-600" onClick={() => removeType(type.id, pendingDelete.reassignTo || null)}>
+                          Delete type
+                        </Button>
+                      </div>
+                    </div>
+                  )}
                 </li>
               ))}
             </ul>
@@ -2,7 +2,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { Routine, RoutineStep, FamilyMember } from '../types';
 import { AVAILABLE_ROUTINE_STEP_ICONS, DEFAULT_NEW_ROUTINE_STATE, DEFAULT_NEW_ROUTINE_STEP_STATE } from '../constants';
-import { PlusCircle, Edit3, Trash2, Settings, Save, Plus } from 'lucide-react';
+import { PlusCircle, Edit3, Trash2, Settings, Save, Plus, GripVertical, ChevronUp, ChevronDown, Clock, Star } from 'lucide-react';
 import { getIcon } from '../utils/iconUtils';
 import Modal from './ui/Modal';
 import Button from './ui/Button';
@@ -19,6 +19,13 @@ interface ManageRoutinesModalProps {
 
 const generateId = () => `id-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
 const ManageRoutinesModal: React.FC<ManageRoutinesModalProps> = ({
   isOpen,
   onClose,
@@ -32,6 +39,8 @@ const ManageRoutinesModal: React.FC<ManageRoutinesModalProps> = ({
   const [currentStep, setCurrentStep] = useState<Omit<RoutineStep, 'id'>>(DEFAULT_NEW_ROUTINE_STEP_STATE);
   const [editingStepId, setEditingStepId] = useState<string | null>(null);
   const [showRoutineForm, setShowRoutineForm] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
 
   useEffect(() => {
     setRoutines(initialRoutines);
@@ -61,7 +70,7 @@ const ManageRoutinesModal: React.FC<ManageRoutinesModalProps> = ({
     }
   };
 
-  const handleMemberToggle = (memberId: number) => {
+  const handleMemberToggle = (memberId: string) => {
     if (editingRoutine) {
       const newMemberIds = editingRoutine.appliesToMemberIds.includes(memberId)
         ? editingRoutine.appliesToMemberIds.filter(id => id !== memberId)
@@ -94,10 +103,22 @@ const ManageRoutinesModal: React.FC<ManageRoutinesModalProps> = ({
   };
 
   const handleEditStep = (step: RoutineStep) => {
-    setCurrentStep({ title: step.title, icon: step.icon });
+    const { id: _id, ...fields } = step;
+    setCurrentStep({ ...DEFAULT_NEW_ROUTINE_STEP_STATE, ...fields });
     setEditingStepId(step.id);
   };
 
+  const handleMoveStep = (from: number, to: number) => {
+    if (!editingRoutine || to < 0 || to >= editingRoutine.steps.length || from === to) return;
+    setEditingRoutine({ ...editingRoutine, steps: moveItem(editingRoutine.steps, from, to) });
+  };
+
+  const handleStepDrop = (index: number) => {
+    if (dragIndex !== null) handleMoveStep(dragIndex, index);
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
   const handleDeleteStep = (stepId: string) => {
     if (editingRoutine) {
       const newSteps = editingRoutine.steps.filter(s => s.id !== stepId);
@@ -128,7 +149,7 @@ const ManageRoutinesModal: React.FC<ManageRoutinesModalProps> = ({
     onClose();
   }
 
-  const getMemberNameById = (id: number) => familyMembers.find(m => m.id === id)?.name || 'Unknown';
+  const getMemberNameById = (id: string) => familyMembers.find(m => m.id === id)?.name || 'Unknown';
 
   return (
     <Modal
@@ -285,6 +306,39 @@ const ManageRoutinesModal: React.FC<ManageRoutinesModalProps> = ({
                   </div>
                 </FormField>
 
+                <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 sm:items-end">
+                  <FormField label="Minutes" htmlFor="stepMinutes">
+                    <input
+                      id="stepMinutes"
+                      type="number"
+                      min={1}
+                      value={currentStep.estimatedMinutes ?? ''}
+                      onChange={(e) => handleStepChange('estimatedMinutes', parseInt(e.target.value, 10) || undefined)}
+                      placeholder="Optional"
+                      className="w-full rounded-md border border-slate-200 bg-white p-3 text-sm text-slate-700 focus:border-teal-400 focus:outline-none"
+                    />
+                  </FormField>
+                  <FormField label="Step Points" htmlFor="stepPoints">
+                    <input
+                      id="stepPoints"
+                      type="number"
+                      min={0}
+                      value={currentStep.points ?? 0}
+                      onChange={(e) => handleStepChange('points', Math.max(0, parseInt(e.target.value, 10) || 0))}
+                      className="w-full rounded-md border border-slate-200 bg-white p-3 text-sm text-slate-700 focus:border-teal-400 focus:outline-none"
+                    />
+                  </FormField>
+                  <label className="col-span-2 flex items-center gap-2 pb-3 text-sm text-slate-600 sm:col-span-1">
+                    <input
+                      type="checkbox"
+                      checked={!!currentStep.optional}
+                      onChange={(e) => handleStepChange('optional', e.target.checked)}
+                      className="h-4 w-4 rounded border-slate-300 text-teal-600 focus:ring-teal-500"
+                    />
+                    Optional step
+                  </label>
+                </div>
+
                 <div className="flex items-center gap-2">
                   <Button onClick={handleAddOrUpdateStep} fullWidth>
                     <span className="flex items-center justify-center gap-2">
@@ -311,9 +365,65 @@ const ManageRoutinesModal: React.FC<ManageRoutinesModalProps> = ({
                   <p className="py-4 text-center text-xs text-slate-400">No steps added yet.</p>
                 ) : (
                   editingRoutine.steps.map((step, index) => (
-                    <div key={step.id} className="flex items-center justify-between rounded-md bg-slate-100 px-2 py-2 text-sm">
-                      <span className="text-slate-600">{index + 1}. {getIcon(step.icon)} {step.title}</span>
-                      <div className="flex gap-1">
+                    <div
+                      key={step.id}
+                      draggable
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        e.dataTransfer.setData('text/plain', step.id); // Firefox won't start a drag without data
+                        setDragIndex(index);
+                      }}
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        setDropIndex(index);
+                      }}
+                      onDrop={() => handleStepDrop(index)}
+                      onDragEnd={() => {
+                        setDragIndex(null);
+                        setDropIndex(null);
+                      }}
+                      className={`flex items-center justify-between rounded-md px-2 py-2 text-sm transition-colors ${
+                        dropIndex === index && dragIndex !== index ? 'bg-teal-50 ring-1 ring-teal-300' : 'bg-slate-100'
+                      } ${dragIndex === index ? 'opacity-50' : ''}`}
+                    >
+                      <div className="flex min-w-0 items-center gap-2">
+                        <GripVertical size={14} className="flex-shrink-0 cursor-grab text-slate-400" aria-hidden="true" />
+                        <span className="truncate text-slate-600">{index + 1}. {getIcon(step.icon)} {step.title}</span>
+                        {step.optional && (
+                          <span className="rounded-full bg-slate-200 px-2 py-0.5 text-[10px] font-medium text-slate-500">Optional</span>
+                        )}
+                        {step.estimatedMinutes && (
+                          <span className="flex items-center gap-0.5 text-xs text-slate-400">
+                            <Clock size={12} />
+                            {step.estimatedMinutes}m
+                          </span>
+                        )}
+                        {!!step.points && (
+                          <span className="flex items-center gap-0.5 text-xs text-slate-400">
+                            <Star size={12} className="text-yellow-400" />
+                            {step.points}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex flex-shrink-0 gap-1">
+                        <Button
+                          variant="ghost"
+                          onClick={() => handleMoveStep(index, index - 1)}
+                          disabled={index === 0}
+                          className="px-2 py-1"
+                          aria-label={`Move ${step.title} up`}
+                        >
+                          <ChevronUp size={14} />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          onClick={() => handleMoveStep(index, index + 1)}
+                          disabled={index === editingRoutine.steps.length - 1}
+                          className="px-2 py-1"
+                          aria-label={`Move ${step.title} down`}
+                        >
+                          <ChevronDown size={14} />
+                        </Button>
                         <Button variant="ghost" onClick={() => handleEditStep(step)} className="px-2 py-1">
                           <Edit3 size={14} />
                         </Button>
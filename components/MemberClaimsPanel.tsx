@@ -0,0 +1,151 @@
+import React, { useCallback, useState } from 'react';
+import { Check, X, Clock, UserCheck, Loader2 } from 'lucide-react';
+import { FamilyMember, MemberClaim } from '../types';
+import { useCurrentMember } from '../hooks/useCurrentMember';
+import { useMemberClaims } from '../hooks/useFamilyQueries';
+import { useRealtimeMemberClaims } from '../hooks/useRealtimeData';
+import { convertToHexColor } from '../utils/colorUtils';
+import { uiLogger } from '../utils/logger';
+
+interface MemberClaimsPanelProps {
+  familyMembers: FamilyMember[];
+  // Leave out when the account can't claim a profile (the local backend has no accounts)
+  onRequestClaim?: (memberId: string) => Promise<MemberClaim>;
+  // Leave out for accounts that may not confirm claims
+  onDecideClaim?: (claimId: string, approve: boolean) => Promise<void>;
+}
+
+// Lets a signed-in account pick which member it is, and lets parents confirm those picks
+const MemberClaimsPanel: React.FC<MemberClaimsPanelProps> = ({ familyMembers, onRequestClaim, onDecideClaim }) => {
+  const { userId, me } = useCurrentMember();
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const canClaim = !!onRequestClaim && !!userId && !me;
+  const { data: claims = [], refetch } = useMemberClaims(canClaim || !!onDecideClaim);
+  useRealtimeMemberClaims(useCallback(() => { refetch(); }, [refetch]));
+
+  const getMember = (memberId: string) => familyMembers.find(m => m.id === memberId);
+  const myPendingClaim = claims.find(c => c.status === 'pending' && c.userId === userId);
+  const unclaimedMembers = familyMembers.filter(m => !m.userId);
+  const pendingClaims = onDecideClaim
+    ? claims.filter(c => c.status === 'pending' && c.userId !== userId && getMember(c.memberId))
+    : [];
+
+  if (!canClaim && pendingClaims.length === 0) return null;
+
+  const handleClaim = async (memberId: string) => {
+    if (!onRequestClaim) return;
+    setBusyId(memberId);
+    try {
+      await onRequestClaim(memberId);
+      await refetch();
+    } catch (error) {
+      uiLogger.error('Error claiming member profile', error as Error, { memberId });
+      alert((error as Error).message || 'Could not claim that profile. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDecide = async (claim: MemberClaim, approve: boolean) => {
+    if (!onDecideClaim) return;
+    setBusyId(claim.id);
+    try {
+      await onDecideClaim(claim.id, approve);
+      await refetch();
+    } catch (error) {
+      uiLogger.error('Error deciding profile claim', error as Error, { claimId: claim.id });
+      alert((error as Error).message || 'Could not update the profile claim. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {canClaim && (
+        <div className="rounded-2xl border border-teal-200 bg-teal-50/80 p-4">
+          <h4 className="flex items-center text-sm font-semibold text-slate-700">
+            <UserCheck size={16} className="mr-2 text-teal-500" />
+            Which one is you?
+          </h4>
+          <p className="mt-1 text-sm text-slate-500">
+            {myPendingClaim
+              ? `Waiting for a parent to confirm you're ${getMember(myPendingClaim.memberId)?.name ?? 'that member'}. You can still pick someone else.`
+              : 'Pick your profile so your own chores, routines and reminders come first. A parent will confirm it.'}
+          </p>
+          {unclaimedMembers.length > 0 ? (
+            <div className="mt-3 flex flex-wrap gap-2">
+              {unclaimedMembers.map(member => {
+                const memberHex = convertToHexColor(member.color);
+                const isPicked = myPendingClaim?.memberId === member.id;
+                return (
+                  <button
+                    key={member.id}
+                    type="button"
+                    onClick={() => handleClaim(member.id)}
+                    disabled={busyId !== null || isPicked}
+                    className={`inline-flex items-center gap-2 rounded-full border px-3 py-1 text-sm text-slate-600 transition hover:bg-white disabled:cursor-default ${
+                      isPicked ? 'border-teal-400 bg-white' : 'border-slate-200 bg-white/70'
+                    }`}
+                  >
+                    <span
+                      className="inline-flex h-5 w-5 items-center justify-center rounded-full text-[0.65rem] font-semibold text-white"
+                      style={{ backgroundColor: memberHex }}
+                    >
+                      {member.initial}
+                    </span>
+                    {member.name}
+                    {busyId === member.id && <Loader2 size={12} className="animate-spin text-slate-400" />}
+                    {isPicked && <Clock size={12} className="text-amber-500" />}
+                  </button>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="mt-2 text-xs text-slate-400">Every profile is already linked. Ask a parent to add one for you.</p>
+          )}
+        </div>
+      )}
+
+      {pendingClaims.length > 0 && (
+        <div className="rounded-2xl border border-amber-200 bg-amber-50/80 p-4">
+          <h4 className="flex items-center text-sm font-semibold text-slate-700">
+            <Clock size={16} className="mr-2 text-amber-500" />
+            Profile claims ({pendingClaims.length})
+          </h4>
+          <ul className="mt-2 space-y-2">
+            {pendingClaims.map(claim => (
+              <li key={claim.id} className="flex items-center justify-between gap-2 rounded-lg bg-white/80 px-3 py-2">
+                <span className="min-w-0 truncate text-sm text-slate-600">
+                  <span className="font-medium text-slate-700">{claim.requesterName}</span> says they're{' '}
+                  <span className="font-medium text-slate-700">{getMember(claim.memberId)?.name}</span>
+                </span>
+                <div className="flex flex-shrink-0 items-center gap-1">
+                  <button
+                    onClick={() => handleDecide(claim, true)}
+                    disabled={busyId === claim.id}
+                    className="rounded-lg p-2 text-green-600 transition-colors hover:bg-green-100 disabled:opacity-50"
+                    title="Confirm"
+                  >
+                    <Check size={16} />
+                  </button>
+                  <button
+                    onClick={() => handleDecide(claim, false)}
+                    disabled={busyId === claim.id}
+                    className="rounded-lg p-2 text-red-500 transition-colors hover:bg-red-100 disabled:opacity-50"
+                    title="Deny"
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MemberClaimsPanel;
@@ -0,0 +1,48 @@
+import React from 'react';
+import { FamilyMember } from '../types';
+import { useCurrentMember } from '../hooks/useCurrentMember';
+
+interface MemberFilterProps {
+  familyMembers: FamilyMember[];
+  selectedMemberId: string | null; // null shows everyone
+  onSelect: (memberId: string | null) => void;
+}
+
+const chipClass = (selected: boolean) =>
+  `inline-flex items-center gap-1.5 rounded-full px-3 py-1 text-xs font-medium transition-colors ${
+    selected ? 'bg-teal-500 text-white shadow-sm' : 'bg-white/70 text-slate-600 hover:bg-white'
+  }`;
+
+// Chips narrowing a list to one member; the signed-in member is labelled "Me"
+const MemberFilter: React.FC<MemberFilterProps> = ({ familyMembers, selectedMemberId, onSelect }) => {
+  const { isMe } = useCurrentMember();
+
+  if (familyMembers.length < 2) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2" role="group" aria-label="Show items for">
+      <button
+        type="button"
+        onClick={() => onSelect(null)}
+        className={chipClass(selectedMemberId === null)}
+        aria-pressed={selectedMemberId === null}
+      >
+        Everyone
+      </button>
+      {familyMembers.map(member => (
+        <button
+          key={member.id}
+          type="button"
+          onClick={() => onSelect(member.id)}
+          className={chipClass(selectedMemberId === member.id)}
+          aria-pressed={selectedMemberId === member.id}
+        >
+          <span className={`h-2.5 w-2.5 rounded-full ${member.color}`} />
+          {isMe(member.id) ? 'Me' : member.name.split(' ')[0]}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default MemberFilter;
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { CloudOff, AlertTriangle, RefreshCw, RotateCcw, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+import { OutboxEntry, OutboxOperation } from '../services/mutationOutbox';
+import { UseMutationOutboxReturn } from '../hooks/useMutationOutbox';
+import { uiLogger } from '../utils/logger';
+
+const OPERATION_LABELS: Record<OutboxOperation, string> = {
+  saveFamilyDetails: 'Update family details',
+  saveFamilyPhoto: 'Update family photo',
+  addFamilyMember: 'Add family member',
+  updateFamilyMember: 'Update family member',
+  deleteFamilyMember: 'Remove family member',
+  adjustMemberPoints: 'Adjust points',
+  addChore: 'Add chore',
+  updateChore: 'Update chore',
+  deleteChore: 'Delete chore',
+  completeChore: 'Complete chore',
+  uncompleteChore: 'Reopen chore',
+  updateChoreTypes: 'Update chore types',
+  addEvent: 'Add event',
+  updateEvent: 'Update event',
+  deleteEvent: 'Delete event',
+  addReward: 'Add reward',
+  updateReward: 'Update reward',
+  deleteReward: 'Delete reward',
+  requestRewardRedemption: 'Request reward',
+  decideRewardRedemption: 'Reward decision',
+  addRoutine: 'Add routine',
+  updateRoutine: 'Update routine',
+  updateRoutines: 'Update routines',
+  deleteRoutine: 'Delete routine',
+  upsertDailyRoutineProgress: 'Routine progress',
+  setRoutineStep: 'Routine step',
+  addChoreSeries: 'Add recurring chore',
+  updateChoreSeries: 'Update recurring chore',
+  deleteChoreSeries: 'Delete recurring chore'
+};
+
+// Pull a readable name out of the queued arguments where there is one
+const describeEntry = (entry: OutboxEntry): string => {
+  const label = OPERATION_LABELS[entry.operation];
+  const payload = entry.args[0] as { title?: string; name?: string } | undefined;
+  const name = payload && typeof payload === 'object' ? payload.title || payload.name : undefined;
+  return name ? `${label}: ${name}` : label;
+};
+
+type OutboxStatusBarProps = Pick<
+  UseMutationOutboxReturn,
+  'entries' | 'pendingCount' | 'failedCount' | 'syncNow' | 'retry' | 'discard'
+>;
+
+export const OutboxStatusBar: React.FC<OutboxStatusBarProps> = ({
+  entries,
+  pendingCount,
+  failedCount,
+  syncNow,
+  retry,
+  discard
+}) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  if (pendingCount === 0 && failedCount === 0) return null;
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    try {
+      await syncNow();
+    } catch (error) {
+      uiLogger.error('Manual outbox sync failed', error as Error);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const failedEntries = entries.filter(entry => entry.status === 'failed');
+
+  return (
+    <div className={`mb-4 rounded-xl border p-3 text-sm ${failedCount > 0 ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          {failedCount > 0 ? (
+            <AlertTriangle size={18} className="text-red-500" />
+          ) : (
+            <CloudOff size={18} className="text-amber-500" />
+          )}
+          <span className={failedCount > 0 ? 'text-red-700 font-medium' : 'text-amber-700 font-medium'}>
+            {pendingCount > 0 && `${pendingCount} change${pendingCount > 1 ? 's' : ''} waiting to sync`}
+            {pendingCount > 0 && failedCount > 0 && ' • '}
+            {failedCount > 0 && `${failedCount} failed`}
+          </span>
+        </div>
+        <div className="flex items-center gap-1">
+          {pendingCount > 0 && (
+            <button
+              onClick={handleSyncNow}
+              disabled={isSyncing}
+              className="p-2 text-slate-500 hover:text-teal-600 hover:bg-white/60 rounded-lg transition-colors disabled:opacity-50"
+              title="Sync now"
+            >
+              <RefreshCw size={14} className={isSyncing ? 'animate-spin' : ''} />
+            </button>
+          )}
+          {failedCount > 0 && (
+            <button
+              onClick={() => setIsExpanded(prev => !prev)}
+              className="p-2 text-slate-500 hover:text-slate-700 hover:bg-white/60 rounded-lg transition-colors"
+              aria-label={isExpanded ? 'Hide failed changes' : 'Show failed changes'}
+            >
+              {isExpanded ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isExpanded && failedEntries.length > 0 && (
+        <ul className="mt-2 space-y-2">
+          {failedEntries.map(entry => (
+            <li key={entry.id} className="flex items-center justify-between gap-2 bg-white/70 rounded-lg px-3 py-2">
+              <div className="min-w-0">
+                <div className="text-slate-700 truncate">{describeEntry(entry)}</div>
+                {entry.lastError && (
+                  <div className="text-xs text-red-600 truncate">{entry.lastError}</div>
+                )}
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                <button
+                  onClick={() => retry(entry.id)}
+                  className="p-2 text-slate-400 hover:text-teal-600 hover:bg-teal-50 rounded-lg transition-colors"
+                  title="Retry"
+                >
+                  <RotateCcw size={14} />
+                </button>
+                <button
+                  onClick={() => discard(entry.id)}
+                  className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                  title="Discard change"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default OutboxStatusBar;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import { PIN_MAX_LENGTH, isValidPin } from '../utils/parentPin';
+
+interface ParentPinModalProps {
+  // Resolves false for a wrong PIN and throws when the PIN can't be checked
+  onSubmit: (pin: string) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+// Asks for the parent PIN before a management action in kid mode
+const ParentPinModal: React.FC<ParentPinModalProps> = ({ onSubmit, onCancel }) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isValidPin(pin)) {
+      setError('Enter the 4 to 8 digit parent PIN.');
+      return;
+    }
+
+    setIsChecking(true);
+    try {
+      if (!(await onSubmit(pin))) {
+        setError('That PIN is not right.');
+        setPin('');
+      }
+    } catch (checkError) {
+      setError((checkError as Error).message || 'Could not check the PIN. Please try again.');
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onCancel} title="Parent PIN" size="sm">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex items-center gap-2 text-sm text-slate-600">
+          <Lock size={16} className="text-teal-500" />
+          <span>Kid mode is on. A parent needs to enter the PIN to continue.</span>
+        </div>
+        <input
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          autoFocus
+          maxLength={PIN_MAX_LENGTH}
+          value={pin}
+          onChange={(e) => {
+            setPin(e.target.value.replace(/\D/g, ''));
+            setError(null);
+          }}
+          aria-label="Parent PIN"
+          className="w-full rounded-lg border border-slate-200 bg-slate-100/50 p-3 text-center text-2xl tracking-[0.5em] text-slate-700 focus:border-teal-400 focus:outline-none"
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div className="flex justify-end gap-3">
+          <Button variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isChecking || pin.length === 0}>
+            {isChecking ? 'Checking...' : 'Unlock'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default ParentPinModal;
@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react';
+import { CheckSquare, Repeat, Gift, SlidersHorizontal, Star, Loader2 } from 'lucide-react';
+import { FamilyMember, PointSource } from '../types';
+import { usePointTransactions } from '../hooks/useFamilyQueries';
+import { uiLogger } from '../utils/logger';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+import FormField from './ui/FormField';
+
+interface PointsHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  member: FamilyMember;
+  onAdjustPoints?: (memberId: string, amount: number, reason: string) => Promise<void>; // Leave out to hide the adjust form
+}
+
+const SOURCE_DETAILS: Record<PointSource, { label: string; icon: React.ReactNode }> = {
+  chore: { label: 'Chore', icon: <CheckSquare size={14} className="text-teal-500" /> },
+  routine: { label: 'Routine', icon: <Repeat size={14} className="text-blue-500" /> },
+  reward_redemption: { label: 'Reward', icon: <Gift size={14} className="text-purple-500" /> },
+  manual_adjustment: { label: 'Adjustment', icon: <SlidersHorizontal size={14} className="text-slate-500" /> }
+};
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const PointsHistoryModal: React.FC<PointsHistoryModalProps> = ({ isOpen, onClose, member, onAdjustPoints }) => {
+  const { data: transactions = [], isLoading } = usePointTransactions(isOpen ? member.id : null);
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setAmount('');
+      setReason('');
+    }
+  }, [isOpen, member.id]);
+
+  const handleAdjust = async () => {
+    if (!onAdjustPoints) return;
+    const value = parseInt(amount, 10);
+    if (!value) {
+      alert('Enter a non-zero number of points (negative to take points away).');
+      return;
+    }
+    if (reason.trim() === '') {
+      alert('Please give a reason for the adjustment.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onAdjustPoints(member.id, value, reason.trim());
+      setAmount('');
+      setReason('');
+    } catch (error) {
+      uiLogger.error('Error adjusting points', error as Error, { memberId: member.id });
+      alert('Failed to adjust points. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`${member.name}'s Points`} size="md">
+      <div className="space-y-4">
+        <div className="flex items-center justify-between rounded-xl bg-yellow-50 border border-yellow-200 p-3">
+          <span className="text-sm font-medium text-slate-600">Balance</span>
+          <span className="flex items-center text-lg font-bold text-slate-800">
+            <Star className="text-yellow-400 mr-1" size={16} />
+            {member.points}
+          </span>
+        </div>
+
+        {onAdjustPoints && (
+        <div className="rounded-xl border border-slate-200 p-3 space-y-3">
+          <div className="grid gap-3 sm:grid-cols-[120px_1fr]">
+            <FormField label="Points" htmlFor="pointsAdjustAmount">
+              <input
+                id="pointsAdjustAmount"
+                type="number"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="+5 or -5"
+                className="w-full rounded-lg border border-slate-200 bg-white p-2 text-sm text-slate-700 focus:border-teal-400 focus:outline-none"
+              />
+            </FormField>
+            <FormField label="Reason" htmlFor="pointsAdjustReason">
+              <input
+                id="pointsAdjustReason"
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Helped with groceries"
+                className="w-full rounded-lg border border-slate-200 bg-white p-2 text-sm text-slate-700 focus:border-teal-400 focus:outline-none"
+              />
+            </FormField>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleAdjust} disabled={isSaving}>
+              Adjust Points
+            </Button>
+          </div>
+        </div>
+        )}
+
+        <div>
+          <h4 className="text-sm font-semibold text-slate-600 mb-2">History</h4>
+          {isLoading ? (
+            <div className="flex justify-center py-6 text-slate-400">
+              <Loader2 size={20} className="animate-spin" />
+            </div>
+          ) : transactions.length > 0 ? (
+            <ul className="max-h-72 overflow-y-auto divide-y divide-slate-100">
+              {transactions.map(transaction => {
+                const source = SOURCE_DETAILS[transaction.source];
+                return (
+                  <li key={transaction.id} className="flex items-center justify-between gap-3 py-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      {source.icon}
+                      <div className="min-w-0">
+                        <div className="text-sm text-slate-700 truncate">{transaction.reason || source.label}</div>
+                        <div className="text-xs text-slate-400">
+                          {source.label} • {formatTimestamp(transaction.createdAt)}
+                        </div>
+                      </div>
+                    </div>
+                    <span className={`text-sm font-semibold flex-shrink-0 ${transaction.amount > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {transaction.amount > 0 ? `+${transaction.amount}` : transaction.amount}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="text-sm text-slate-500">No points activity yet.</p>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default PointsHistoryModal;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { FamilyMember, TabId } from '../types';
+import { PresenceInfo } from '../hooks/usePresence';
+import { convertToHexColor, DEFAULT_MEMBER_COLOR } from '../utils/colorUtils';
+
+interface PresenceAvatarsProps {
+  others: PresenceInfo[];
+  familyMembers: FamilyMember[];
+}
+
+const TAB_LABELS: Record<TabId, string> = {
+  family: 'Family',
+  calendar: 'Calendar',
+  chores: 'Chores',
+  routines: 'Routines'
+};
+
+const MAX_AVATARS = 5;
+
+// Who else in the family has the app open, with their device and tab on hover
+const PresenceAvatars: React.FC<PresenceAvatarsProps> = ({ others, familyMembers }) => {
+  if (others.length === 0) return null;
+
+  const shown = others.slice(0, MAX_AVATARS);
+  const hidden = others.length - shown.length;
+  const summary = others.map(p => p.name).join(', ');
+
+  return (
+    <div className="mb-4 flex items-center justify-end gap-2" aria-label={`Online now: ${summary}`}>
+      <span className="text-xs text-slate-600">Online now</span>
+      <div className="flex -space-x-2">
+        {shown.map(presence => {
+          const member = presence.memberId ? familyMembers.find(m => m.id === presence.memberId) : undefined;
+          const color = member ? convertToHexColor(member.color) : DEFAULT_MEMBER_COLOR;
+          const initial = member?.initial ?? presence.name.charAt(0).toUpperCase();
+          return (
+            <span
+              key={presence.key}
+              className="relative inline-flex h-8 w-8 items-center justify-center rounded-full border-2 border-white text-xs font-semibold text-white shadow-sm"
+              style={{ backgroundColor: color }}
+              title={`${presence.name} · ${presence.device} · ${TAB_LABELS[presence.tab] ?? presence.tab}`}
+            >
+              {initial}
+              <span className="absolute -bottom-0.5 -right-0.5 h-2.5 w-2.5 rounded-full border-2 border-white bg-green-500" />
+            </span>
+          );
+        })}
+        {hidden > 0 && (
+          <span className="inline-flex h-8 w-8 items-center justify-center rounded-full border-2 border-white bg-slate-200 text-xs font-semibold text-slate-600" title={summary}>
+            +{hidden}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PresenceAvatars;
@@ -1,10 +1,32 @@
-import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
+import React, { createContext, useContext, useEffect, useState, useCallback, useRef, useMemo } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from '../supabaseService';
-import { dataService } from '../dataService';
 import { syncLogger } from '../utils/logger';
 
+// Every table the app keeps in sync; each gets its own family-filtered channel
+export const SYNCED_TABLES = [
+  'family_members',
+  'point_transactions',
+  'chores',
+  'chore_assignments',
+  'chore_series',
+  'chore_types',
+  'events',
+  'rewards',
+  'reward_redemptions',
+  'routines',
+  'routine_steps',
+  'daily_routine_progress'
+];
+
+export type RealtimeConnectionState = 'idle' | 'connecting' | 'connected' | 'reconnecting';
+
+type TableConnectionState = Exclude<RealtimeConnectionState, 'idle'>;
+
 interface RealtimeContextType {
   isConnected: boolean;
+  connectionState: RealtimeConnectionState;
+  lastEventAt: Date | null; // Commit time of the last change received on any channel
   subscriptions: string[];
   subscribeToTable: (table: string, callback?: () => void) => void;
   unsubscribeFromTable: (table: string) => void;
@@ -27,31 +49,136 @@ interface RealtimeProviderProps {
   onDataUpdate?: (table: string, eventType: string, record: any) => void;
 }
 
+interface TableChannel {
+  channel: RealtimeChannel | null; // null while waiting to reconnect
+  holders: number; // The provider itself plus any useRealtimeData consumers
+  callbacks: Set<() => void>;
+  attempt: number; // Failed attempts since the last successful subscribe
+  retryTimer: ReturnType<typeof setTimeout> | null;
+  hasSubscribed: boolean;
+}
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30 * 1000;
+
+// Exponential backoff with jitter, so every device doesn't retry at the same moment
+const getReconnectDelay = (attempt: number) => {
+  const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+};
+
 export const RealtimeProvider: React.FC<RealtimeProviderProps> = ({
   children,
   familyId,
   onDataUpdate
 }) => {
-  const [isConnected, setIsConnected] = useState(false);
-  const [subscriptions, setSubscriptions] = useState<string[]>([]);
-  const [activeChannels, setActiveChannels] = useState<Map<string, any>>(new Map());
+  const [tableStates, setTableStates] = useState<Record<string, TableConnectionState>>({});
+  const [lastEventAt, setLastEventAt] = useState<Date | null>(null);
+  const channelsRef = useRef(new Map<string, TableChannel>());
+  const lastEventAtRef = useRef<Date | null>(null);
+
+  // Channel callbacks outlive renders, so they read the latest handler from here
+  const onDataUpdateRef = useRef(onDataUpdate);
+  onDataUpdateRef.current = onDataUpdate;
+
+  const setTableState = useCallback((table: string, state: TableConnectionState | null) => {
+    setTableStates(prev => {
+      if (state === null) {
+        if (!(table in prev)) return prev;
+        const next = { ...prev };
+        delete next[table];
+        return next;
+      }
+      return prev[table] === state ? prev : { ...prev, [table]: state };
+    });
+  }, []);
 
   // Handle real-time events
   const handleRealtimeEvent = useCallback((table: string, payload: any) => {
     syncLogger.debug('Realtime event received', { table, eventType: payload.eventType, recordId: payload.new?.id || payload.old?.id });
-    
+
     const { eventType, new: newRecord, old: oldRecord } = payload;
-    
-    // Call the data update callback if provided
-    if (onDataUpdate) {
-      onDataUpdate(table, eventType, newRecord || oldRecord);
+    // Deletes arrive with an empty `new`; the removed row is in `old`
+    const record = eventType === 'DELETE' ? oldRecord : newRecord;
+
+    // Delete events can't be filtered server-side; drop other families' when the old row says so
+    if (eventType === 'DELETE' && record?.family_id && String(record.family_id) !== familyId) {
+      return;
     }
 
+    const receivedAt = payload.commit_timestamp ? new Date(payload.commit_timestamp) : new Date();
+    lastEventAtRef.current = receivedAt;
+    setLastEventAt(receivedAt);
+
+    // Call the data update callback if provided
+    onDataUpdateRef.current?.(table, eventType, record);
+
     // Trigger UI refresh by dispatching a custom event
     window.dispatchEvent(new CustomEvent('supabase-realtime-update', {
-      detail: { table, eventType, record: newRecord || oldRecord }
+      detail: { table, eventType, record }
     }));
-  }, [onDataUpdate]);
+  }, [familyId]);
+
+  const closeChannel = useCallback((entry: TableChannel) => {
+    if (entry.retryTimer) {
+      clearTimeout(entry.retryTimer);
+      entry.retryTimer = null;
+    }
+    if (entry.channel) {
+      const channel = entry.channel;
+      entry.channel = null; // Cleared first so the CLOSED status it reports is ignored
+      supabase.removeChannel(channel);
+    }
+  }, []);
+
+  const openChannel = useCallback((table: string) => {
+    const entry = channelsRef.current.get(table);
+    if (!entry || !familyId) return;
+    closeChannel(entry);
+    setTableState(table, entry.hasSubscribed ? 'reconnecting' : 'connecting');
+
+    const onChange = (payload: any) => {
+      handleRealtimeEvent(table, payload);
+      entry.callbacks.forEach(callback => callback());
+    };
+    const filter = `family_id=eq.${familyId}`;
+
+    const channel = supabase
+      .channel(`${table}-changes-${familyId}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table, filter }, onChange)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table, filter }, onChange)
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table }, onChange);
+    entry.channel = channel;
+
+    channel.subscribe((status) => {
+      // Ignore channels that have since been closed or replaced
+      if (channelsRef.current.get(table) !== entry || entry.channel !== channel) return;
+      syncLogger.debug('Subscription status changed', { table, status });
+
+      if (status === 'SUBSCRIBED') {
+        // Changes made while the channel was down were never delivered; refetch to catch up
+        if (entry.hasSubscribed || entry.attempt > 0) {
+          syncLogger.info('Realtime reconnected - catching up', { table, since: lastEventAtRef.current?.toISOString() ?? null });
+          onDataUpdateRef.current?.(table, 'RESYNC', null);
+        }
+        entry.hasSubscribed = true;
+        entry.attempt = 0;
+        setTableState(table, 'connected');
+        return;
+      }
+
+      // CHANNEL_ERROR, TIMED_OUT or an unexpected CLOSED: start again after a backoff
+      const delay = getReconnectDelay(entry.attempt);
+      entry.attempt += 1;
+      syncLogger.warn('Realtime channel lost - reconnecting', { table, status, attempt: entry.attempt, delayMs: delay });
+      closeChannel(entry);
+      setTableState(table, 'reconnecting');
+      entry.retryTimer = setTimeout(() => {
+        entry.retryTimer = null;
+        openChannel(table);
+      }, delay);
+    });
+  }, [familyId, handleRealtimeEvent, closeChannel, setTableState]);
 
   // Subscribe to a specific table
   const subscribeToTable = useCallback((table: string, callback?: () => void) => {
@@ -59,96 +186,89 @@ export const RealtimeProvider: React.FC<RealtimeProviderProps> = ({
       syncLogger.warn('Skipping subscription - no family ID', { table });
       return;
     }
-    if (activeChannels.has(table)) {
+    const existing = channelsRef.current.get(table);
+    if (existing) {
+      existing.holders += 1;
+      if (callback) existing.callbacks.add(callback);
       syncLogger.debug('Already subscribed to table', { table });
       return;
     }
 
     syncLogger.info('Subscribing to table', { table, familyId });
+    channelsRef.current.set(table, {
+      channel: null,
+      holders: 1,
+      callbacks: new Set(callback ? [callback] : []),
+      attempt: 0,
+      retryTimer: null,
+      hasSubscribed: false
+    });
+    openChannel(table);
+  }, [familyId, openChannel]);
 
-    const channel = supabase
-      .channel(`${table}-changes-${familyId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: table,
-          filter: `family_id=eq.${familyId}`
-        },
-        (payload) => {
-          handleRealtimeEvent(table, payload);
-          if (callback) callback();
-        }
-      )
-      .subscribe((status) => {
-        syncLogger.debug('Subscription status changed', { table, status });
-        if (status === 'SUBSCRIBED') {
-          setIsConnected(true);
-          setSubscriptions(prev => [...prev.filter(t => t !== table), table]);
-        }
-      });
-
-    setActiveChannels(prev => new Map(prev.set(table, channel)));
-  }, [familyId, handleRealtimeEvent, activeChannels]);
-
-  // Unsubscribe from a specific table
+  // Unsubscribe from a specific table once nothing holds it any more
   const unsubscribeFromTable = useCallback((table: string) => {
-    const channel = activeChannels.get(table);
-    if (channel) {
-      syncLogger.info('Unsubscribing from table', { table });
-      supabase.removeChannel(channel);
-      setActiveChannels(prev => {
-        const newMap = new Map(prev);
-        newMap.delete(table);
-        return newMap;
-      });
-      setSubscriptions(prev => prev.filter(t => t !== table));
-    }
-  }, [activeChannels]);
+    const entry = channelsRef.current.get(table);
+    if (!entry) return;
+    entry.holders -= 1;
+    if (entry.holders > 0) return;
+
+    syncLogger.info('Unsubscribing from table', { table });
+    closeChannel(entry);
+    channelsRef.current.delete(table);
+    setTableState(table, null);
+  }, [closeChannel, setTableState]);
 
   // Unsubscribe from all tables
   const unsubscribeAll = useCallback(() => {
     syncLogger.info('Unsubscribing from all tables');
-    activeChannels.forEach((channel, table) => {
-      supabase.removeChannel(channel);
-    });
-    setActiveChannels(new Map());
-    setSubscriptions([]);
-    setIsConnected(false);
-  }, [activeChannels]);
+    channelsRef.current.forEach(entry => closeChannel(entry));
+    channelsRef.current.clear();
+    setTableStates({});
+  }, [closeChannel]);
 
-  // Auto-subscribe to core tables when familyId changes
+  // Subscribe to every synced table when familyId changes
   useEffect(() => {
-    if (familyId) {
-      syncLogger.info('Setting up realtime subscriptions', { familyId });
-      const coreTables = ['family_members', 'chores', 'events', 'rewards', 'routines'];
-      coreTables.forEach(table => {
-        if (!subscriptions.includes(table)) {
-          subscribeToTable(table);
-        }
-      });
-    } else {
-      unsubscribeAll();
-    }
+    if (!familyId) return;
+    syncLogger.info('Setting up realtime subscriptions', { familyId });
+    SYNCED_TABLES.forEach(table => subscribeToTable(table));
 
     // Always cleanup on unmount or family change
     return () => {
       unsubscribeAll();
+      lastEventAtRef.current = null;
+      setLastEventAt(null);
     };
-  }, [familyId]);
+  }, [familyId, subscribeToTable, unsubscribeAll]);
 
-  // Connection status monitoring
+  // Back online - retry waiting channels now rather than at the end of their backoff
   useEffect(() => {
-    const checkConnection = () => {
-      setIsConnected(subscriptions.length > 0);
+    const handleOnline = () => {
+      channelsRef.current.forEach((entry, table) => {
+        if (entry.retryTimer) openChannel(table);
+      });
     };
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, [openChannel]);
+
+  const subscriptions = useMemo(
+    () => Object.keys(tableStates).filter(table => tableStates[table] === 'connected'),
+    [tableStates]
+  );
 
-    checkConnection();
-  }, [subscriptions]);
+  const connectionState = useMemo<RealtimeConnectionState>(() => {
+    const states = Object.values(tableStates);
+    if (states.length === 0) return 'idle';
+    if (states.includes('reconnecting')) return 'reconnecting';
+    if (states.includes('connecting')) return 'connecting';
+    return 'connected';
+  }, [tableStates]);
 
   const value: RealtimeContextType = {
-    isConnected,
+    isConnected: connectionState === 'connected',
+    connectionState,
+    lastEventAt,
     subscriptions,
     subscribeToTable,
     unsubscribeFromTable,
@@ -162,4 +282,4 @@ export const RealtimeProvider: React.FC<RealtimeProviderProps> = ({
   );
 };
 
-export default RealtimeProvider;
\ No newline at end of file
+export default RealtimeProvider;
@@ -0,0 +1,158 @@
+import React from 'react';
+import { Repeat } from 'lucide-react';
+import { RecurrenceFrequency, RecurrenceRule } from '../types';
+import { describeRecurrence, getWeekday } from '../utils/recurrence';
+import FormField from './ui/FormField';
+
+interface RecurrenceFieldsProps {
+  value: RecurrenceRule | null | undefined;
+  onChange: (rule: RecurrenceRule | null) => void;
+  startDate: string; // YYYY-MM-DD, used for the default weekday / day of month
+  idPrefix?: string;
+}
+
+const FREQUENCY_OPTIONS: { value: RecurrenceFrequency | 'none'; label: string }[] = [
+  { value: 'none', label: 'Never' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' }
+];
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = { daily: 'day(s)', weekly: 'week(s)', monthly: 'month(s)' };
+const WEEKDAYS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const optionClass = (selected: boolean) =>
+  `rounded-lg px-3 py-2 text-xs transition-all sm:text-sm ${
+    selected ? 'bg-teal-500 text-white font-semibold shadow-md' : 'bg-slate-200 text-slate-600 hover:bg-slate-300'
+  }`;
+
+const inputClass = 'rounded-lg border border-slate-200 bg-white p-2 text-sm text-slate-700 focus:border-teal-400 focus:outline-none';
+
+// Repeat settings for recurring items (daily, weekly on chosen days, every N days, monthly)
+const RecurrenceFields: React.FC<RecurrenceFieldsProps> = ({ value, onChange, startDate, idPrefix = 'recurrence' }) => {
+  const startWeekday = startDate ? getWeekday(startDate) : new Date().getDay();
+
+  const setFrequency = (freq: RecurrenceFrequency | 'none') => {
+    if (freq === 'none') {
+      onChange(null);
+      return;
+    }
+    onChange({
+      freq,
+      interval: value?.interval ?? 1,
+      byWeekday: freq === 'weekly' ? [startWeekday] : undefined,
+      until: value?.until ?? null
+    });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!value) return;
+    const current = value.byWeekday?.length ? value.byWeekday : [startWeekday];
+    const next = current.includes(day) ? current.filter(d => d !== day) : [...current, day];
+    if (next.length === 0) return; // Weekly rules need at least one day
+    onChange({ ...value, byWeekday: next.sort() });
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-slate-200 bg-slate-50 p-3">
+      <FormField label="Repeats" htmlFor={`${idPrefix}Frequency`}>
+        <div id={`${idPrefix}Frequency`} className="flex flex-wrap gap-2">
+          {FREQUENCY_OPTIONS.map(option => {
+            const selected = (value?.freq ?? 'none') === option.value;
+            return (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setFrequency(option.value)}
+                className={optionClass(selected)}
+                aria-pressed={selected}
+              >
+                {option.label}
+              </button>
+            );
+          })}
+        </div>
+      </FormField>
+
+      {value && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+            <label htmlFor={`${idPrefix}Interval`}>Every</label>
+            <input
+              id={`${idPrefix}Interval`}
+              type="number"
+              min={1}
+              max={365}
+              value={value.interval}
+              onChange={(e) => onChange({ ...value, interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              className={`w-20 ${inputClass}`}
+            />
+            <span>{UNIT_LABELS[value.freq]}</span>
+          </div>
+
+          {value.freq === 'weekly' && (
+            <div className="flex gap-1" role="group" aria-label="Repeat on">
+              {WEEKDAYS.map((label, day) => {
+                const selected = (value.byWeekday?.length ? value.byWeekday : [startWeekday]).includes(day);
+                return (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleWeekday(day)}
+                    className={`w-8 h-8 rounded-full text-xs font-semibold transition-colors ${
+                      selected ? 'bg-teal-500 text-white' : 'bg-slate-200 text-slate-600 hover:bg-slate-300'
+                    }`}
+                    aria-label={WEEKDAY_NAMES[day]}
+                    aria-pressed={selected}
+                  >
+                    {label}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {value.freq === 'monthly' && (
+            <div className="flex items-center gap-2 text-sm text-slate-600">
+              <label htmlFor={`${idPrefix}MonthDay`}>On day</label>
+              <input
+                id={`${idPrefix}MonthDay`}
+                type="number"
+                min={1}
+                max={31}
+                value={value.byMonthDay ?? (startDate ? Number(startDate.slice(8, 10)) : 1)}
+                onChange={(e) => onChange({ ...value, byMonthDay: Math.min(31, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+                className={`w-20 ${inputClass}`}
+              />
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600">
+            <label htmlFor={`${idPrefix}Until`}>Ends</label>
+            <input
+              id={`${idPrefix}Until`}
+              type="date"
+              value={value.until ?? ''}
+              min={startDate}
+              onChange={(e) => onChange({ ...value, until: e.target.value || null })}
+              className={inputClass}
+            />
+            {value.until && (
+              <button type="button" onClick={() => onChange({ ...value, until: null })} className="text-xs text-slate-500 hover:text-slate-700">
+                Never ends
+              </button>
+            )}
+          </div>
+
+          <p className="flex items-center text-xs text-teal-600">
+            <Repeat size={12} className="mr-1" />
+            {describeRecurrence(value)}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceFields;
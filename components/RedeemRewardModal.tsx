@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { Star } from 'lucide-react';
+import { FamilyMember, Reward } from '../types';
+import { getIcon } from '../utils/iconUtils';
+import { uiLogger } from '../utils/logger';
+import { useCurrentMember } from '../hooks/useCurrentMember';
+import Modal from './ui/Modal';
+import Button from './ui/Button';
+
+interface RedeemRewardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  reward: Reward;
+  familyMembers: FamilyMember[];
+  onRequestReward: (rewardId: string, memberId: string) => Promise<void>;
+}
+
+const RedeemRewardModal: React.FC<RedeemRewardModalProps> = ({
+  isOpen,
+  onClose,
+  reward,
+  familyMembers,
+  onRequestReward
+}) => {
+  const { me, canActFor } = useCurrentMember();
+  const [selectedMemberId, setSelectedMemberId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // A child with a linked profile can only redeem for themselves
+  const requesters = familyMembers.filter(member => canActFor(member.id));
+
+  useEffect(() => {
+    if (isOpen) setSelectedMemberId(me && me.points >= reward.cost ? me.id : null);
+  }, [isOpen, reward.id]);
+
+  const handleRequest = async () => {
+    if (!selectedMemberId) return;
+    setIsSubmitting(true);
+    try {
+      await onRequestReward(reward.id, selectedMemberId);
+      onClose();
+    } catch (error) {
+      uiLogger.error('Error requesting reward', error as Error, { rewardId: reward.id });
+      alert((error as Error).message || 'Failed to request reward. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Redeem Reward"
+      size="sm"
+      footer={
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleRequest} disabled={!selectedMemberId || isSubmitting}>
+            Ask a Parent
+          </Button>
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        <div className="flex items-center gap-3 rounded-xl bg-purple-50 border border-purple-200 p-3">
+          <span className="text-3xl">{getIcon(reward.icon)}</span>
+          <div>
+            <div className="text-sm font-semibold text-slate-700">{reward.title}</div>
+            <div className="text-xs text-purple-600">{reward.cost} pts</div>
+          </div>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-slate-600 mb-2">Who is redeeming it?</p>
+          <div className="space-y-2">
+            {requesters.map(member => {
+              const canAfford = member.points >= reward.cost;
+              const isSelected = selectedMemberId === member.id;
+              return (
+                <button
+                  key={member.id}
+                  type="button"
+                  disabled={!canAfford}
+                  onClick={() => setSelectedMemberId(member.id)}
+                  className={`w-full flex items-center justify-between rounded-lg border-2 p-2 text-left transition-colors ${
+                    isSelected ? 'border-purple-400 bg-purple-50' : 'border-slate-200 hover:bg-slate-50'
+                  } disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-transparent`}
+                  aria-pressed={isSelected}
+                >
+                  <span className="flex items-center gap-2">
+                    <span className={`w-7 h-7 rounded-full ${member.color} flex items-center justify-center text-white text-xs font-semibold`}>
+                      {member.initial}
+                    </span>
+                    <span className="text-sm text-slate-700">{member.name}</span>
+                  </span>
+                  <span className="flex items-center text-xs text-slate-500">
+                    <Star className="text-yellow-400 mr-1" size={12} />
+                    {member.points}
+                    {!canAfford && <span className="ml-2 text-red-500">Not enough</span>}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default RedeemRewardModal;
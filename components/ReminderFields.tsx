@@ -0,0 +1,50 @@
+import React from 'react';
+import { Bell } from 'lucide-react';
+import { ReminderOption } from '../utils/reminders';
+import FormField from './ui/FormField';
+
+interface ReminderFieldsProps {
+  value: number[] | undefined;
+  onChange: (reminders: number[]) => void;
+  options: ReminderOption[];
+  idPrefix?: string;
+}
+
+const optionClass = (selected: boolean) =>
+  `rounded-lg px-3 py-2 text-xs transition-all sm:text-sm ${
+    selected ? 'bg-teal-500 text-white font-semibold shadow-md' : 'bg-slate-200 text-slate-600 hover:bg-slate-300'
+  }`;
+
+// Pick any number of reminder times, as minutes before the item is due
+const ReminderFields: React.FC<ReminderFieldsProps> = ({ value = [], onChange, options, idPrefix = 'reminders' }) => {
+  const toggle = (offset: number) => {
+    const next = value.includes(offset) ? value.filter(v => v !== offset) : [...value, offset];
+    onChange(next.sort((a, b) => a - b));
+  };
+
+  return (
+    <FormField label="Reminders" htmlFor={`${idPrefix}Options`}>
+      <div id={`${idPrefix}Options`} className="flex flex-wrap gap-2">
+        {options.map(option => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => toggle(option.value)}
+            className={optionClass(value.includes(option.value))}
+            aria-pressed={value.includes(option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {value.length === 0 && (
+        <p className="mt-1 flex items-center text-xs text-slate-500">
+          <Bell size={12} className="mr-1" />
+          No reminders
+        </p>
+      )}
+    </FormField>
+  );
+};
+
+export default ReminderFields;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Check, X, Clock, History } from 'lucide-react';
+import { FamilyMember, RewardRedemption } from '../types';
+import { uiLogger } from '../utils/logger';
+
+interface RewardRequestsPanelProps {
+  redemptions: RewardRedemption[];
+  getMemberById: (id: string) => FamilyMember | undefined;
+  onDecideRedemption?: (redemptionId: string, approve: boolean) => Promise<void>; // Leave out for a read-only list
+}
+
+const HISTORY_LIMIT = 10;
+
+const formatDate = (iso?: string | null) =>
+  iso ? new Date(iso).toLocaleDateString(undefined, { day: 'numeric', month: 'short' }) : '';
+
+// Pending reward requests awaiting a parent, plus recent decisions
+const RewardRequestsPanel: React.FC<RewardRequestsPanelProps> = ({ redemptions, getMemberById, onDecideRedemption }) => {
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+
+  const pending = redemptions.filter(r => r.status === 'pending');
+  const history = redemptions.filter(r => r.status !== 'pending').slice(0, HISTORY_LIMIT);
+
+  if (pending.length === 0 && history.length === 0) return null;
+
+  const handleDecide = async (redemption: RewardRedemption, approve: boolean) => {
+    if (!onDecideRedemption) return;
+    setDecidingId(redemption.id);
+    try {
+      await onDecideRedemption(redemption.id, approve);
+    } catch (error) {
+      uiLogger.error('Error deciding reward request', error as Error, { redemptionId: redemption.id });
+      alert((error as Error).message || 'Failed to update the reward request. Please try again.');
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  return (
+    <div className="mt-4 grid gap-4 md:grid-cols-2">
+      <div>
+        <h4 className="text-sm font-semibold text-slate-600 mb-2 flex items-center">
+          <Clock size={14} className="mr-1.5 text-amber-500" />
+          Waiting for a Parent ({pending.length})
+        </h4>
+        {pending.length > 0 ? (
+          <ul className="space-y-2">
+            {pending.map(redemption => {
+              const member = getMemberById(redemption.memberId);
+              return (
+                <li key={redemption.id} className="flex items-center justify-between gap-2 rounded-lg bg-amber-50 border border-amber-200 px-3 py-2">
+                  <div className="min-w-0">
+                    <div className="text-sm text-slate-700 truncate">{redemption.rewardTitle}</div>
+                    <div className="text-xs text-slate-500">
+                      {member?.name || 'Unknown'} • {redemption.cost} pts • {formatDate(redemption.requestedAt)}
+                    </div>
+                  </div>
+                  {onDecideRedemption && (
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => handleDecide(redemption, true)}
+                      disabled={decidingId === redemption.id}
+                      className="p-2 text-green-600 hover:bg-green-100 rounded-lg transition-colors disabled:opacity-50"
+                      title="Approve"
+                    >
+                      <Check size={16} />
+                    </button>
+                    <button
+                      onClick={() => handleDecide(redemption, false)}
+                      disabled={decidingId === redemption.id}
+                      className="p-2 text-red-500 hover:bg-red-100 rounded-lg transition-colors disabled:opacity-50"
+                      title="Deny"
+                    >
+                      <X size={16} />
+                    </button>
+                  </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-xs text-slate-500">No requests right now.</p>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-slate-600 mb-2 flex items-center">
+          <History size={14} className="mr-1.5 text-slate-400" />
+          Recent Redemptions
+        </h4>
+        {history.length > 0 ? (
+          <ul className="space-y-1">
+            {history.map(redemption => {
+              const member = getMemberById(redemption.memberId);
+              const approved = redemption.status === 'approved';
+              return (
+                <li key={redemption.id} className="flex items-center justify-between gap-2 text-xs text-slate-600 py-1">
+                  <span className="truncate">
+                    {member?.name || 'Unknown'} • {redemption.rewardTitle}
+                  </span>
+                  <span className={`flex-shrink-0 font-medium ${approved ? 'text-green-600' : 'text-slate-400'}`}>
+                    {approved ? `-${redemption.cost} pts` : 'Denied'} • {formatDate(redemption.decidedAt)}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-xs text-slate-500">Nothing redeemed yet.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RewardRequestsPanel;
@@ -1,13 +1,16 @@
 import React from 'react';
 import { FamilyMember, Routine, DailyRoutineProgress } from '../types';
-import { CheckCircle2, Circle, Award, Settings } from 'lucide-react';
+import { CheckCircle2, Circle, Award, Settings, Clock, Star } from 'lucide-react';
 import { getIcon } from '../utils/iconUtils'; 
+import { countCompletedSteps } from '../utils/routineUtils';
+import { useMemberFilter } from '../hooks/useCurrentMember';
+import MemberFilter from './MemberFilter';
 
 interface RoutinesTabProps {
   familyMembers: FamilyMember[];
   routines: Routine[];
   dailyRoutineProgress: DailyRoutineProgress[];
-  onToggleRoutineStep: (memberId: number, routineId: string, stepId: string, date: string) => void;
+  onToggleRoutineStep: (memberId: string, routineId: string, stepId: string, date: string) => void;
   currentDate: string; // YYYY-MM-DD
   onManageRoutines?: () => void; 
 }
@@ -20,21 +23,31 @@ const RoutinesTab: React.FC<RoutinesTabProps> = ({
   currentDate,
   onManageRoutines, 
 }) => {
-  const getProgressForMemberRoutine = (memberId: number, routineId: string) => {
+  const [filterMemberId, setFilterMemberId] = useMemberFilter();
+
+  const getProgressForMemberRoutine = (memberId: string, routineId: string) => {
     return dailyRoutineProgress.find(
       p => p.memberId === memberId && p.routineId === routineId && p.date === currentDate
     );
   };
 
+  const getTotalMinutes = (routine: Routine) =>
+    routine.steps.reduce((sum, step) => sum + (step.estimatedMinutes ?? 0), 0);
+
   const getEligibleMembers = (routine: Routine): FamilyMember[] => {
     // Ensure appliesToMemberIds exists before filtering
-    // appliesToMemberIds can contain either member IDs or names depending on source
     return familyMembers.filter(member =>
-      routine.appliesToMemberIds &&
-      (routine.appliesToMemberIds.includes(member.id) || routine.appliesToMemberIds.includes(member.name))
+      routine.appliesToMemberIds && routine.appliesToMemberIds.includes(member.id)
     );
   };
 
+  // Routines for other members are hidden while filtering
+  const visibleRoutines = filterMemberId
+    ? routines.filter(routine => routine.appliesToMemberIds?.includes(filterMemberId))
+    : routines;
+  const getShownMembers = (routine: Routine): FamilyMember[] =>
+    getEligibleMembers(routine).filter(member => !filterMemberId || member.id === filterMemberId);
+
   return (
     <div className="h-full flex flex-col">
       <div className="mb-6 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
@@ -54,6 +67,14 @@ const RoutinesTab: React.FC<RoutinesTabProps> = ({
         )}
       </div>
 
+      <div className="mb-4">
+        <MemberFilter
+          familyMembers={familyMembers}
+          selectedMemberId={filterMemberId}
+          onSelect={setFilterMemberId}
+        />
+      </div>
+
       <div className="flex-1 overflow-y-auto space-y-6 sm:space-y-8 pr-1">
         {routines.length === 0 && (
           <div className="text-center py-10">
@@ -61,9 +82,20 @@ const RoutinesTab: React.FC<RoutinesTabProps> = ({
             <p className="text-slate-400 text-sm">Click "Manage Routines" to add your first one!</p>
           </div>
         )}
-        {routines.map(routine => (
+        {routines.length > 0 && visibleRoutines.length === 0 && (
+          <p className="text-center text-slate-500 text-sm py-6">No routines for this member.</p>
+        )}
+        {visibleRoutines.map(routine => (
           <div key={routine.id} className="bg-slate-50/70 backdrop-blur-sm rounded-3xl p-4 sm:p-6 shadow-lg">
-            <h3 className="text-lg sm:text-xl font-semibold text-teal-700 mb-3 sm:mb-4">{routine.name}</h3>
+            <div className="flex items-center justify-between mb-3 sm:mb-4">
+              <h3 className="text-lg sm:text-xl font-semibold text-teal-700">{routine.name}</h3>
+              {getTotalMinutes(routine) > 0 && (
+                <span className="flex items-center text-xs sm:text-sm text-slate-500">
+                  <Clock size={14} className="mr-1" />
+                  ~{getTotalMinutes(routine)} min
+                </span>
+              )}
+            </div>
             
             {!getEligibleMembers(routine).length && routine.appliesToMemberIds && routine.appliesToMemberIds.length > 0 && (
                 <p className="text-slate-500 text-sm">No family members currently match the selection for this routine.</p>
@@ -72,12 +104,16 @@ const RoutinesTab: React.FC<RoutinesTabProps> = ({
                 <p className="text-slate-500 text-sm">This routine is not assigned to any members. Edit it in "Manage Routines".</p>
             )}
 
-            {getEligibleMembers(routine).map(member => {
+            {getShownMembers(routine).map(member => {
               const progress = getProgressForMemberRoutine(member.id, routine.id);
               const completedStepIds = progress?.completedStepIds || [];
               const isRoutineFullyCompleted = progress?.isFullyCompleted || false;
-              const totalSteps = routine.steps.length;
-              const completedStepsCount = completedStepIds.length;
+              // Optional steps don't count towards completion unless every step is optional
+              const requiredSteps = routine.steps.filter(step => !step.optional);
+              const countedSteps = requiredSteps.length > 0 ? requiredSteps : routine.steps;
+              const hasOptionalSteps = requiredSteps.length > 0 && requiredSteps.length < routine.steps.length;
+              const totalSteps = countedSteps.length;
+              const completedStepsCount = countCompletedSteps(countedSteps, completedStepIds);
               
               return (
                 <div key={member.id} className="mb-4 sm:mb-6 last:mb-0 p-3 sm:p-4 bg-white/80 rounded-2xl shadow-md">
@@ -91,7 +127,7 @@ const RoutinesTab: React.FC<RoutinesTabProps> = ({
                     {isRoutineFullyCompleted && (
                       <div className="flex items-center text-green-600 bg-green-100 px-2 py-1 rounded-full text-xs sm:text-sm font-medium">
                         <Award size={14} className="mr-1" />
-                        Completed! +{routine.completionPoints}pts
+                        Completed! +{progress?.pointsAwarded || routine.completionPoints}pts
                       </div>
                     )}
                   </div>
@@ -121,13 +157,30 @@ const RoutinesTab: React.FC<RoutinesTabProps> = ({
                           <span className={`text-sm sm:text-base ${isCompleted ? 'text-slate-500 line-through' : 'text-slate-600'}`}>
                             {step.title}
                           </span>
+                          <span className="ml-auto flex items-center gap-2 pl-2 text-xs text-slate-400">
+                            {step.optional && (
+                              <span className="rounded-full bg-slate-200 px-2 py-0.5 font-medium text-slate-500">Optional</span>
+                            )}
+                            {step.estimatedMinutes && (
+                              <span className="flex items-center">
+                                <Clock size={12} className="mr-0.5" />
+                                {step.estimatedMinutes}m
+                              </span>
+                            )}
+                            {!!step.points && (
+                              <span className="flex items-center">
+                                <Star size={12} className="mr-0.5 text-yellow-400" />
+                                +{step.points}
+                              </span>
+                            )}
+                          </span>
                         </button>
                       );
                     })}
                   </div>
                   {totalSteps > 0 && !isRoutineFullyCompleted && (
                     <div className="mt-2 text-right text-xs sm:text-sm text-slate-500">
-                        {completedStepsCount} / {totalSteps} steps completed
+                        {completedStepsCount} / {totalSteps} {hasOptionalSteps ? 'required ' : ''}steps completed
                     </div>
                   )}
                    {totalSteps === 0 && (
@@ -0,0 +1,37 @@
+import React from 'react';
+import { CloudOff, AlertTriangle } from 'lucide-react';
+import type { OutboxStatus } from '../../services/mutationOutbox';
+
+interface SyncStatusBadgeProps {
+  status: OutboxStatus | null;
+  className?: string;
+}
+
+// Small pill shown next to records whose changes haven't reached the server yet
+export const SyncStatusBadge: React.FC<SyncStatusBadgeProps> = ({ status, className = '' }) => {
+  if (!status) return null;
+
+  if (status === 'failed') {
+    return (
+      <span
+        className={`inline-flex items-center gap-1 rounded-full bg-red-100 px-2 py-0.5 text-[10px] font-medium text-red-700 ${className}`}
+        title="This change was rejected by the server"
+      >
+        <AlertTriangle size={10} />
+        Sync failed
+      </span>
+    );
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full bg-amber-100 px-2 py-0.5 text-[10px] font-medium text-amber-700 ${className}`}
+      title="Saved on this device - will sync when you're back online"
+    >
+      <CloudOff size={10} />
+      Pending
+    </span>
+  );
+};
+
+export default SyncStatusBadge;
@@ -39,7 +39,7 @@ export const DEFAULT_NEW_EVENT_STATE = {
 
 export const DEFAULT_NEW_CHORE_STATE: Omit<Chore, 'id' | 'completed'> = {
   title: '',
-  assignedTo: '', 
+  assignedTo: [],
   points: 10,
   dueDate: new Date().toISOString().split('T')[0],
   icon: undefined,
@@ -61,6 +61,9 @@ export const INITIAL_ROUTINES: Routine[] = []; // Users will define their own ro
 export const DEFAULT_NEW_ROUTINE_STEP_STATE: Omit<RoutineStep, 'id'> = {
   title: '',
   icon: AVAILABLE_ROUTINE_STEP_ICONS[0] || '✨',
+  optional: false,
+  estimatedMinutes: undefined,
+  points: 0,
 };
 
 export const DEFAULT_NEW_ROUTINE_STATE: Omit<Routine, 'id'> = {
@@ -3,54 +3,155 @@ import {
   NewFamilyMember,
   Chore,
   NewChore,
+  ChoreCompletionResult,
+  PointTransaction,
   EventItem,
   Reward,
   NewReward,
+  RewardRedemption,
   FamilyDetails,
   ChoreType,
   Routine,
   DailyRoutineProgress,
+  RoutineStepResult,
+  RecurrenceRule,
+  FamilyRole,
   TabId
 } from './types';
 
-// Import and export SupabaseDataService with performance caching
+// Import both backends and wrap the selected one with performance caching
+import { IDataService, DataBackend, ServiceInfo } from './IDataService';
 import { SupabaseDataService } from './supabaseDataService';
+import { LocalDataService } from './localDataService';
 import { performanceCache, createCachedDataService } from './services/performanceCache';
+import { mutationOutbox, isNetworkError, NewOutboxEntry, OutboxEntry, OutboxOperation, ReplayResult } from './services/mutationOutbox';
+import {
+  migrateChoreMembers,
+  migrateEventMembers,
+  migrateRoutineMembers,
+  migrateProgressMember,
+  hasMigratedMemberReferences,
+  markMemberReferencesMigrated
+} from './services/memberIdMigration';
+import { supabaseService } from './supabaseService';
+import {
+  completeChoreFor,
+  uncompleteChoreFor
+} from './utils/choreUtils';
+import {
+  CHORE_OVERLAYS,
+  applyPendingSteps,
+  buildQueuedOccurrences,
+  buildSeriesReplacements,
+  getQueuedSeriesId,
+  getQueuedOccurrenceId
+} from './services/pendingOverlays';
+import { setRoutineStepFor } from './utils/routineUtils';
 import { dataLogger } from './utils/logger';
+import { v4 as uuidv4 } from 'uuid';
+
+// Select the backend via VITE_DATA_BACKEND ('supabase' by default, 'local' for offline/demo use)
+const resolveBackend = (): DataBackend =>
+  import.meta.env.VITE_DATA_BACKEND === 'local' ? 'local' : 'supabase';
+
+const createBaseService = (backend: DataBackend): IDataService =>
+  backend === 'local' ? new LocalDataService() : new SupabaseDataService();
+
+const dataBackend = resolveBackend();
+const OUTBOX_RETRY_INTERVAL = 30000; // 30 seconds
+
+// Writes that change more than their own table (chore completion also credits member points)
+const RELATED_TABLES: Partial<Record<OutboxOperation, string[]>> = {
+  adjustMemberPoints: ['family_members'],
+  decideRewardRedemption: ['family_members', 'point_transactions'],
+  completeChore: ['family_members'],
+  uncompleteChore: ['family_members'],
+  setRoutineStep: ['family_members'],
+  addChoreSeries: ['chores'],
+  updateChoreSeries: ['chores'],
+  deleteChoreSeries: ['chores']
+};
 
-// Create the base Supabase service
-const baseSupabaseService = new SupabaseDataService();
+// Updates that carry the row version they were based on (see UpdateConflictError)
+const VERSIONED_UPDATES = new Set<OutboxOperation>(['saveFamilyDetails', 'updateFamilyMember', 'updateChore', 'updateEvent']);
+const versionKey = (entry: Pick<OutboxEntry, 'table' | 'entityId'>) => `${entry.table}:${entry.entityId ?? ''}`;
+
+const baseService = createBaseService(dataBackend);
 
 // Enhanced data service with intelligent caching
-class EnhancedDataService {
-  private cachedService: any = null;
+class EnhancedDataService implements IDataService {
+  private cachedService: IDataService | null = null;
   private currentFamilyId: string | null = null;
+  private outboxTimer: number | null = null;
+  private replayedVersions = new Map<string, { basedOn: string; savedAs: string }>();
 
   async initialize(): Promise<void> {
-    await baseSupabaseService.initialize();
+    await baseService.initialize();
     
     // Get family ID after initialization
     try {
-      const familyDetails = await baseSupabaseService.getFamilyDetails();
+      const familyDetails = await baseService.getFamilyDetails();
       if (familyDetails.id) {
         this.currentFamilyId = familyDetails.id;
         
         // Create cached service wrapper
-        this.cachedService = createCachedDataService(baseSupabaseService, familyDetails.id);
+        this.cachedService = createCachedDataService(baseService, familyDetails.id);
         
         // Preload commonly accessed data
         dataLogger.info('Initializing performance cache');
-        await performanceCache.preload(familyDetails.id, baseSupabaseService);
+        await performanceCache.preload(familyDetails.id, baseService);
       }
     } catch (error) {
       dataLogger.warn('Could not initialize cache - using direct service');
-      this.cachedService = baseSupabaseService;
+      this.cachedService = baseService;
+    }
+
+    if (this.usesOutbox) {
+      await this.migrateQueuedMemberReferences();
+      this.startOutboxSync();
+    }
+  }
+
+  // One-time rewrite of name-based member references in mutations queued by older app versions
+  private async migrateQueuedMemberReferences() {
+    const familyId = this.currentFamilyId;
+    if (!familyId || hasMigratedMemberReferences(familyId)) return;
+
+    try {
+      const members = await baseService.getFamilyMembers();
+      if (members.length === 0) return; // Can't resolve names yet - try again next launch
+      const changed = await mutationOutbox.migrateEntries(entry => {
+        const [payload, ...rest] = entry.args;
+        switch (entry.operation) {
+          case 'addChore':
+          case 'updateChore':
+            return { ...entry, args: [migrateChoreMembers(payload as Chore, members), ...rest] };
+          case 'addEvent':
+          case 'updateEvent':
+            return { ...entry, args: [migrateEventMembers(payload as EventItem, members), ...rest] };
+          case 'addRoutine':
+          case 'updateRoutine':
+            return { ...entry, args: [migrateRoutineMembers(payload as Routine, members), ...rest] };
+          case 'updateRoutines':
+            return { ...entry, args: [(payload as Routine[]).map(routine => migrateRoutineMembers(routine, members)), ...rest] };
+          case 'upsertDailyRoutineProgress':
+            return { ...entry, args: [migrateProgressMember(payload as DailyRoutineProgress, members), ...rest] };
+          default:
+            return entry;
+        }
+      });
+      markMemberReferencesMigrated(familyId);
+      if (changed > 0) {
+        dataLogger.info('Migrated queued mutations to member IDs', { count: changed });
+      }
+    } catch (error) {
+      dataLogger.error('Error migrating queued member references', error as Error);
     }
   }
 
   // Use cached service if available, otherwise fall back to base service
-  private get service() {
-    return this.cachedService || baseSupabaseService;
+  private get service(): IDataService {
+    return this.cachedService || baseService;
   }
 
   // Cache invalidation on real-time updates
@@ -61,107 +162,382 @@ class EnhancedDataService {
     }
   }
 
+  private invalidateForMutation(mutation: Pick<NewOutboxEntry, 'operation' | 'table'>) {
+    this.invalidateCache(mutation.table);
+    RELATED_TABLES[mutation.operation]?.forEach(table => this.invalidateCache(table));
+  }
+
+  // Offline outbox - the local backend never loses its connection, so it writes straight through
+  private get usesOutbox(): boolean {
+    return dataBackend === 'supabase';
+  }
+
+  /**
+   * Run a write against the backend, or queue it in the outbox when the backend is unreachable.
+   * Writes are also queued while earlier ones are still pending so replay keeps their order.
+   * Queued writes resolve with the optimistic result.
+   */
+  private async runMutation<T>(
+    mutation: Omit<NewOutboxEntry, 'familyId'>,
+    execute: () => Promise<T>,
+    optimistic: () => T | Promise<T>
+  ): Promise<T> {
+    if (!this.usesOutbox) {
+      const result = await execute();
+      this.invalidateForMutation(mutation);
+      return result;
+    }
+
+    await mutationOutbox.load();
+    const isOffline = typeof navigator !== 'undefined' && navigator.onLine === false;
+    if (!isOffline && !mutationOutbox.hasPending()) {
+      try {
+        const result = await execute();
+        this.invalidateForMutation(mutation);
+        return result;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        dataLogger.warn('Backend unreachable - queueing mutation', { operation: mutation.operation });
+      }
+    }
+
+    await mutationOutbox.enqueue({ ...mutation, familyId: this.currentFamilyId });
+    this.invalidateForMutation(mutation);
+    return optimistic();
+  }
+
+  private executeQueuedMutation = async (entry: OutboxEntry): Promise<unknown> => {
+    if (entry.familyId && this.currentFamilyId && entry.familyId !== this.currentFamilyId) {
+      throw new Error('Mutation was queued for a different family');
+    }
+    const method = this.service[entry.operation] as (...args: unknown[]) => Promise<unknown>;
+    const result = await method.apply(this.service, this.rebaseQueuedUpdate(entry));
+    this.recordReplayedVersion(entry, result);
+    await this.remapQueuedOccurrences(entry, result);
+    this.invalidateForMutation(entry);
+    return result;
+  };
+
+  // Queued edits of one row are all based on the version from before the first of them, so once
+  // one replays, the next ones move onto the version it saved instead of conflicting with it
+  private rebaseQueuedUpdate(entry: OutboxEntry): unknown[] {
+    const [payload, ...rest] = entry.args as [{ updatedAt?: string } | undefined, ...unknown[]];
+    const replayed = VERSIONED_UPDATES.has(entry.operation) ? this.replayedVersions.get(versionKey(entry)) : undefined;
+    if (!replayed || !payload?.updatedAt || payload.updatedAt !== replayed.basedOn) return entry.args;
+    return [{ ...payload, updatedAt: replayed.savedAs }, ...rest];
+  }
+
+  private recordReplayedVersion(entry: OutboxEntry, result: unknown) {
+    const basedOn = (entry.args[0] as { updatedAt?: string } | undefined)?.updatedAt;
+    const savedAs = (result as { updatedAt?: string } | undefined)?.updatedAt;
+    if (!VERSIONED_UPDATES.has(entry.operation) || !basedOn || !savedAs) return;
+    this.replayedVersions.set(versionKey(entry), { basedOn, savedAs });
+  }
+
+  // Series writes create many chores at once, so match each stand-in occurrence to the real
+  // one for the same date and point later queued writes (e.g. completions) at it
+  private async remapQueuedOccurrences(entry: OutboxEntry, result: unknown) {
+    if ((entry.operation !== 'addChoreSeries' && entry.operation !== 'updateChoreSeries') || !Array.isArray(result)) return;
+    const from = entry.args[0] as Chore;
+    const tempSeriesId = entry.operation === 'addChoreSeries' ? entry.entityId : getQueuedSeriesId(from);
+    if (!tempSeriesId) return;
+
+    const ids: Record<string, string> = {};
+    for (const chore of result as Chore[]) {
+      ids[getQueuedOccurrenceId(tempSeriesId, chore.occurrenceDate ?? chore.dueDate)] = chore.id;
+      if (chore.seriesId && chore.seriesId !== from.seriesId) ids[tempSeriesId] = chore.seriesId;
+    }
+    await mutationOutbox.remapIds(ids);
+  }
+
+  /** Replay queued mutations if the backend is reachable */
+  async syncOutbox(): Promise<ReplayResult> {
+    return mutationOutbox.replay(this.executeQueuedMutation, async () => {
+      if (typeof navigator !== 'undefined' && navigator.onLine === false) return false;
+      const health = await supabaseService.checkConnectionHealth();
+      return health.healthy;
+    });
+  }
+
+  async retryOutboxEntry(entryId: string): Promise<void> {
+    await mutationOutbox.retry(entryId);
+    await this.syncOutbox();
+  }
+
+  async discardOutboxEntry(entryId: string): Promise<void> {
+    const entry = mutationOutbox.getEntries().find(e => e.id === entryId);
+    await mutationOutbox.discard(entryId);
+    if (entry) this.invalidateCache(entry.table);
+  }
+
+  // Replay when connectivity returns and periodically while mutations are waiting
+  private startOutboxSync() {
+    if (this.outboxTimer !== null || typeof window === 'undefined') return;
+
+    window.addEventListener('online', () => {
+      dataLogger.info('Connectivity restored - replaying outbox');
+      this.syncOutbox();
+    });
+    this.outboxTimer = window.setInterval(() => {
+      if (mutationOutbox.hasPending()) this.syncOutbox();
+    }, OUTBOX_RETRY_INTERVAL);
+
+    this.syncOutbox();
+  }
+
   // Family Details - heavily cached
   async getFamilyDetails(): Promise<FamilyDetails> {
     return this.service.getFamilyDetails();
   }
 
-  async saveFamilyDetails(details: FamilyDetails): Promise<void> {
-    const result = await this.service.saveFamilyDetails(details);
-    this.invalidateCache('family_details');
-    return result;
+  async saveFamilyDetails(details: FamilyDetails): Promise<FamilyDetails> {
+    return this.runMutation(
+      { operation: 'saveFamilyDetails', table: 'family_details', args: [details] },
+      () => this.service.saveFamilyDetails(details),
+      () => details
+    );
   }
 
   // Family Members - moderately cached
   async getFamilyMembers(): Promise<FamilyMember[]> {
-    return this.service.getFamilyMembers();
+    const members = await this.service.getFamilyMembers();
+    return mutationOutbox.applyPending('family_members', members);
   }
 
   async addFamilyMember(member: NewFamilyMember): Promise<FamilyMember> {
-    const result = await this.service.addFamilyMember(member);
-    this.invalidateCache('family_members');
-    return result;
+    const tempId = uuidv4();
+    return this.runMutation(
+      { operation: 'addFamilyMember', table: 'family_members', entityId: tempId, args: [member] },
+      () => this.service.addFamilyMember(member),
+      () => ({ ...member, id: tempId, points: member.points ?? 0 })
+    );
+  }
+
+  async updateFamilyMember(member: FamilyMember): Promise<FamilyMember> {
+    return this.runMutation(
+      { operation: 'updateFamilyMember', table: 'family_members', entityId: member.id, args: [member] },
+      () => this.service.updateFamilyMember(member),
+      () => member
+    );
+  }
+
+  async deleteFamilyMember(id: string): Promise<void> {
+    return this.runMutation(
+      { operation: 'deleteFamilyMember', table: 'family_members', entityId: id, args: [id] },
+      () => this.service.deleteFamilyMember(id),
+      () => undefined
+    );
+  }
+
+  // Points ledger - balances on family_members are derived from it
+  async getPointTransactions(memberId?: string): Promise<PointTransaction[]> {
+    return this.service.getPointTransactions(memberId);
+  }
+
+  async adjustMemberPoints(memberId: string, amount: number, reason: string): Promise<PointTransaction> {
+    const tempId = uuidv4();
+    return this.runMutation(
+      { operation: 'adjustMemberPoints', table: 'point_transactions', entityId: tempId, args: [memberId, amount, reason] },
+      () => this.service.adjustMemberPoints(memberId, amount, reason),
+      () => ({
+        id: tempId,
+        memberId,
+        amount,
+        source: 'manual_adjustment',
+        reason,
+        createdAt: new Date().toISOString()
+      })
+    );
   }
 
-  async updateFamilyMember(member: FamilyMember): Promise<void> {
-    const result = await this.service.updateFamilyMember(member);
-    this.invalidateCache('family_members');
-    return result;
+  // Chores - frequently changing, minimal caching
+  async getChores(): Promise<Chore[]> {
+    const chores = await this.service.getChores();
+    return mutationOutbox.applyPending('chores', chores, CHORE_OVERLAYS);
   }
 
-  async deleteFamilyMember(id: number): Promise<void> {
-    const result = await this.service.deleteFamilyMember(id);
-    this.invalidateCache('family_members');
-    return result;
+  async addChore(chore: NewChore): Promise<Chore> {
+    const tempId = uuidv4();
+    return this.runMutation(
+      { operation: 'addChore', table: 'chores', entityId: tempId, args: [chore] },
+      () => this.service.addChore(chore),
+      () => ({ ...chore, id: tempId })
+    );
   }
 
-  // Chores - frequently changing, minimal caching
-  async getChores(): Promise<Chore[]> {
-    return this.service.getChores();
+  async updateChore(chore: Chore): Promise<Chore> {
+    return this.runMutation(
+      { operation: 'updateChore', table: 'chores', entityId: chore.id, args: [chore] },
+      () => this.service.updateChore(chore),
+      () => chore
+    );
   }
 
-  async addChore(chore: NewChore): Promise<Chore> {
-    const result = await this.service.addChore(chore);
-    this.invalidateCache('chores');
-    return result;
+  async deleteChore(id: string): Promise<void> {
+    return this.runMutation(
+      { operation: 'deleteChore', table: 'chores', entityId: id, args: [id] },
+      () => this.service.deleteChore(id),
+      () => undefined
+    );
   }
 
-  async updateChore(chore: Chore): Promise<void> {
-    const result = await this.service.updateChore(chore);
-    this.invalidateCache('chores');
-    return result;
+  // Completion runs server-side so points are credited exactly once, even when replayed.
+  // `current` is the chore as the caller shows it, used for the optimistic result when queued.
+  async completeChore(choreId: string, memberId?: string, current?: Chore): Promise<ChoreCompletionResult> {
+    return this.runMutation(
+      { operation: 'completeChore', table: 'chores', entityId: choreId, args: [choreId, memberId] },
+      () => this.service.completeChore(choreId, memberId),
+      async () => completeChoreFor(current ?? await this.findChore(choreId), memberId)
+    );
   }
 
-  async deleteChore(id: number): Promise<void> {
-    const result = await this.service.deleteChore(id);
-    this.invalidateCache('chores');
-    return result;
+  async uncompleteChore(choreId: string, memberId?: string, current?: Chore): Promise<ChoreCompletionResult> {
+    return this.runMutation(
+      { operation: 'uncompleteChore', table: 'chores', entityId: choreId, args: [choreId, memberId] },
+      () => this.service.uncompleteChore(choreId, memberId),
+      async () => uncompleteChoreFor(current ?? await this.findChore(choreId), memberId)
+    );
+  }
+
+  // Recurring chores - generation is idempotent, so it isn't queued while offline
+  async generateRecurringChores(untilDate: string): Promise<Chore[]> {
+    const created = await this.service.generateRecurringChores(untilDate);
+    if (created.length > 0) this.invalidateCache('chores');
+    return created;
+  }
+
+  async addChoreSeries(chore: NewChore, recurrence: RecurrenceRule): Promise<Chore[]> {
+    const tempId = uuidv4();
+    return this.runMutation(
+      { operation: 'addChoreSeries', table: 'chore_series', entityId: tempId, args: [chore, recurrence] },
+      () => this.service.addChoreSeries(chore, recurrence),
+      () => buildQueuedOccurrences(tempId, chore, recurrence)
+    );
+  }
+
+  async updateChoreSeries(chore: Chore, recurrence: RecurrenceRule | null): Promise<Chore[]> {
+    return this.runMutation(
+      { operation: 'updateChoreSeries', table: 'chore_series', entityId: chore.seriesId ?? chore.id, args: [chore, recurrence] },
+      () => this.service.updateChoreSeries(chore, recurrence),
+      () => buildSeriesReplacements(chore, recurrence)
+    );
+  }
+
+  async deleteChoreSeries(chore: Chore): Promise<void> {
+    return this.runMutation(
+      { operation: 'deleteChoreSeries', table: 'chore_series', entityId: chore.seriesId ?? chore.id, args: [chore] },
+      () => this.service.deleteChoreSeries(chore),
+      () => undefined
+    );
+  }
+
+  // Only reached once a write is queued and the caller didn't pass the chore it shows
+  private async findChore(choreId: string): Promise<Chore> {
+    const chore = (await this.getChores()).find(c => c.id === choreId);
+    if (!chore) throw new Error(`Chore with id ${choreId} not found`);
+    return chore;
   }
 
   // Events - moderately cached
   async getEvents(): Promise<EventItem[]> {
-    return this.service.getEvents();
+    const events = await this.service.getEvents();
+    return mutationOutbox.applyPending('events', events);
   }
 
   async addEvent(event: Omit<EventItem, 'id'>): Promise<EventItem> {
-    const result = await this.service.addEvent(event);
-    this.invalidateCache('events');
-    return result;
+    const tempId = uuidv4();
+    return this.runMutation(
+      { operation: 'addEvent', table: 'events', entityId: tempId, args: [event] },
+      () => this.service.addEvent(event),
+      () => ({ ...event, id: tempId })
+    );
   }
 
-  async updateEvent(event: EventItem): Promise<void> {
-    const result = await this.service.updateEvent(event);
-    this.invalidateCache('events');
-    return result;
+  async updateEvent(event: EventItem): Promise<EventItem> {
+    return this.runMutation(
+      { operation: 'updateEvent', table: 'events', entityId: event.id, args: [event] },
+      () => this.service.updateEvent(event),
+      () => event
+    );
   }
 
-  async deleteEvent(id: number): Promise<void> {
-    const result = await this.service.deleteEvent(id);
-    this.invalidateCache('events');
-    return result;
+  async deleteEvent(id: string): Promise<void> {
+    return this.runMutation(
+      { operation: 'deleteEvent', table: 'events', entityId: id, args: [id] },
+      () => this.service.deleteEvent(id),
+      () => undefined
+    );
   }
 
   // Rewards - heavily cached
   async getRewards(): Promise<Reward[]> {
-    return this.service.getRewards();
+    const rewards = await this.service.getRewards();
+    return mutationOutbox.applyPending('rewards', rewards);
   }
 
   async addReward(reward: NewReward): Promise<Reward> {
-    const result = await this.service.addReward(reward);
-    this.invalidateCache('rewards');
-    return result;
+    const tempId = uuidv4();
+    return this.runMutation(
+      { operation: 'addReward', table: 'rewards', entityId: tempId, args: [reward] },
+      () => this.service.addReward(reward),
+      () => ({ ...reward, id: tempId })
+    );
   }
 
   async updateReward(reward: Reward): Promise<void> {
-    const result = await this.service.updateReward(reward);
-    this.invalidateCache('rewards');
-    return result;
-  }
-
-  async deleteReward(id: number): Promise<void> {
-    const result = await this.service.deleteReward(id);
-    this.invalidateCache('rewards');
-    return result;
+    return this.runMutation(
+      { operation: 'updateReward', table: 'rewards', entityId: reward.id, args: [reward] },
+      () => this.service.updateReward(reward),
+      () => undefined
+    );
+  }
+
+  async deleteReward(id: string): Promise<void> {
+    return this.runMutation(
+      { operation: 'deleteReward', table: 'rewards', entityId: id, args: [id] },
+      () => this.service.deleteReward(id),
+      () => undefined
+    );
+  }
+
+  // Reward redemptions - approval deducts points server-side
+  async getRewardRedemptions(): Promise<RewardRedemption[]> {
+    return this.service.getRewardRedemptions();
+  }
+
+  // `reward` and `current` are the records as the caller shows them, used when the write is queued
+  async requestRewardRedemption(rewardId: string, memberId: string, reward?: Reward): Promise<RewardRedemption> {
+    const tempId = uuidv4();
+    return this.runMutation(
+      { operation: 'requestRewardRedemption', table: 'reward_redemptions', entityId: tempId, args: [rewardId, memberId] },
+      () => this.service.requestRewardRedemption(rewardId, memberId),
+      () => ({
+        id: tempId,
+        rewardId,
+        memberId,
+        rewardTitle: reward?.title ?? '',
+        cost: reward?.cost ?? 0,
+        status: 'pending',
+        requestedAt: new Date().toISOString()
+      })
+    );
+  }
+
+  async decideRewardRedemption(redemptionId: string, approve: boolean, note?: string, current?: RewardRedemption): Promise<RewardRedemption> {
+    return this.runMutation(
+      { operation: 'decideRewardRedemption', table: 'reward_redemptions', entityId: redemptionId, args: [redemptionId, approve, note] },
+      () => this.service.decideRewardRedemption(redemptionId, approve, note),
+      async () => {
+        const redemption = current ?? (await this.getRewardRedemptions()).find(r => r.id === redemptionId);
+        if (!redemption) throw new Error(`Reward request with id ${redemptionId} not found`);
+        return {
+          ...redemption,
+          status: approve ? 'approved' : 'denied',
+          decidedAt: new Date().toISOString(),
+          decisionNote: note ?? null
+        };
+      }
+    );
   }
 
   // Chore Types - heavily cached
@@ -169,44 +545,92 @@ class EnhancedDataService {
     return this.service.getChoreTypes();
   }
 
-  async updateChoreTypes(choreTypes: ChoreType[]): Promise<ChoreType[]> {
-    const result = await this.service.updateChoreTypes(choreTypes);
-    this.invalidateCache('chore_types');
-    return result;
+  async updateChoreTypes(choreTypes: ChoreType[], reassignments: Record<string, string | null> = {}): Promise<ChoreType[]> {
+    return this.runMutation(
+      { operation: 'updateChoreTypes', table: 'chore_types', args: [choreTypes, reassignments] },
+      () => this.service.updateChoreTypes(choreTypes, reassignments),
+      () => choreTypes
+    );
   }
 
   // Routines - moderately cached
   async getRoutines(): Promise<Routine[]> {
-    return this.service.getRoutines();
+    const routines = await this.service.getRoutines();
+    return mutationOutbox.applyPending('routines', routines);
   }
 
   async addRoutine(routine: Omit<Routine, 'id'>): Promise<Routine> {
-    const result = await this.service.addRoutine(routine);
-    this.invalidateCache('routines');
-    return result;
+    const tempId = uuidv4();
+    return this.runMutation(
+      { operation: 'addRoutine', table: 'routines', entityId: tempId, args: [routine] },
+      () => this.service.addRoutine(routine),
+      () => ({ ...routine, id: tempId })
+    );
+  }
+
+  async updateRoutine(routine: Routine): Promise<void> {
+    return this.runMutation(
+      { operation: 'updateRoutine', table: 'routines', entityId: routine.id, args: [routine] },
+      () => this.service.updateRoutine(routine),
+      () => undefined
+    );
   }
 
   async updateRoutines(routines: Routine[]): Promise<Routine[]> {
-    const result = await this.service.updateRoutines(routines);
-    this.invalidateCache('routines');
-    return result;
+    return this.runMutation(
+      { operation: 'updateRoutines', table: 'routines', args: [routines] },
+      () => this.service.updateRoutines(routines),
+      () => routines
+    );
   }
 
   async deleteRoutine(id: string): Promise<void> {
-    const result = await this.service.deleteRoutine(id);
-    this.invalidateCache('routines');
-    return result;
+    return this.runMutation(
+      { operation: 'deleteRoutine', table: 'routines', entityId: id, args: [id] },
+      () => this.service.deleteRoutine(id),
+      () => undefined
+    );
   }
 
   // Routine Progress - minimal caching (changes frequently)
   async getDailyRoutineProgress(date: string): Promise<DailyRoutineProgress[]> {
-    return this.service.getDailyRoutineProgress(date);
+    const progress = await this.service.getDailyRoutineProgress(date);
+    const entries = mutationOutbox.getEntries();
+    if (!entries.some(entry => entry.operation === 'setRoutineStep')) return progress;
+    return applyPendingSteps(entries, progress, await this.getRoutines(), date);
   }
 
   async upsertDailyRoutineProgress(progress: DailyRoutineProgress): Promise<void> {
-    const result = await this.service.upsertDailyRoutineProgress(progress);
-    this.invalidateCache('routine_progress');
-    return result;
+    return this.runMutation(
+      { operation: 'upsertDailyRoutineProgress', table: 'routine_progress', args: [progress] },
+      () => this.service.upsertDailyRoutineProgress(progress),
+      () => undefined
+    );
+  }
+
+  // `routine` and `current` are what the caller shows (no progress yet when `current` is missing),
+  // used when the write is queued; without a routine both are loaded then
+  async setRoutineStep(
+    memberId: string,
+    routineId: string,
+    date: string,
+    stepId: string,
+    done: boolean,
+    routine?: Routine,
+    current?: DailyRoutineProgress
+  ): Promise<RoutineStepResult> {
+    return this.runMutation(
+      { operation: 'setRoutineStep', table: 'routine_progress', entityId: routineId, args: [memberId, routineId, date, stepId, done] },
+      () => this.service.setRoutineStep(memberId, routineId, date, stepId, done),
+      async () => {
+        if (routine) return setRoutineStepFor(routine, current, memberId, date, stepId, done);
+        const [routines, progress] = await Promise.all([this.getRoutines(), this.getDailyRoutineProgress(date)]);
+        const loaded = routines.find(r => r.id === routineId);
+        if (!loaded) throw new Error(`Routine with id ${routineId} not found`);
+        const loadedProgress = progress.find(p => p.memberId === memberId && p.routineId === routineId);
+        return setRoutineStepFor(loaded, loadedProgress, memberId, date, stepId, done);
+      }
+    );
   }
 
   // Family Photo
@@ -215,9 +639,11 @@ class EnhancedDataService {
   }
 
   async saveFamilyPhoto(photoDataUrl: string): Promise<void> {
-    const result = await this.service.saveFamilyPhoto(photoDataUrl);
-    this.invalidateCache('family_details');
-    return result;
+    return this.runMutation(
+      { operation: 'saveFamilyPhoto', table: 'family_details', args: [photoDataUrl] },
+      () => this.service.saveFamilyPhoto(photoDataUrl),
+      () => undefined
+    );
   }
 
   // App Settings
@@ -230,10 +656,15 @@ class EnhancedDataService {
   }
 
   // Service info
-  async getServiceInfo(): Promise<{ type: 'supabase'; version: string; status: 'active' }> {
+  async getServiceInfo(): Promise<ServiceInfo> {
     return this.service.getServiceInfo();
   }
 
+  // Which backend this instance is talking to
+  get backend(): DataBackend {
+    return dataBackend;
+  }
+
   // Cache management methods
   getCacheStats() {
     return performanceCache.getStats();
@@ -256,18 +687,52 @@ class EnhancedDataService {
     return this.service.joinFamilyWithInviteCode(inviteCode);
   }
 
+  async getCurrentUserRole() {
+    return this.service.getCurrentUserRole();
+  }
+
+  async getFamilyMemberships() {
+    return this.service.getFamilyMemberships();
+  }
+
+  async setMembershipRole(membershipId: string, role: FamilyRole) {
+    return this.service.setMembershipRole(membershipId, role);
+  }
+
+  async hasParentPin() {
+    return this.service.hasParentPin();
+  }
+
+  async setParentPin(pin: string | null, currentPin?: string) {
+    return this.service.setParentPin(pin, currentPin);
+  }
+
+  async verifyParentPin(pin: string) {
+    return this.service.verifyParentPin(pin);
+  }
+
+  async getMemberClaims() {
+    return this.service.getMemberClaims();
+  }
+
+  async requestMemberClaim(memberId: string) {
+    return this.service.requestMemberClaim(memberId);
+  }
+
+  async decideMemberClaim(claimId: string, approve: boolean) {
+    return this.service.decideMemberClaim(claimId, approve);
+  }
+
   // Add this method to allow setting the current family context externally
   setCurrentFamilyId(familyId: string) {
     this.currentFamilyId = familyId;
-    if (this.cachedService && this.cachedService.setCurrentFamilyId) {
+    if (this.cachedService && this.cachedService !== baseService) {
       this.cachedService.setCurrentFamilyId(familyId);
     }
-    if (baseSupabaseService.setCurrentFamilyId) {
-      baseSupabaseService.setCurrentFamilyId(familyId);
-    }
+    baseService.setCurrentFamilyId(familyId);
   }
 }
 
 export const dataService = new EnhancedDataService();
 
-dataLogger.info('Data service enhanced with performance caching');
+dataLogger.info('Data service enhanced with performance caching', { backend: dataBackend });
@@ -32,6 +32,19 @@ export function useAuth(): UseAuthReturn {
         authLogger.debug('Checking if setup is complete', { attempt: retryCount + 1 });
         await new Promise(resolve => setTimeout(resolve, 100)); // Ensure auth state propagates
 
+        // The local backend has no accounts - load the stored family directly
+        if (dataService.backend === 'local') {
+          await dataService.initialize();
+          const familyDetails = await dataService.getFamilyDetails();
+          if (mounted) {
+            authLogger.info('Using local data backend', { familyId: familyDetails.id });
+            setCurrentFamilyId(familyDetails.id);
+            setShowSetupWizard(false);
+            setIsCheckingAuth(false);
+          }
+          return;
+        }
+
         const setupStatus = await authService.isSetupComplete();
         authLogger.debug('Setup completion result', { setupStatus });
 
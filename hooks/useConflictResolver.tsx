@@ -0,0 +1,100 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useRef,
+  useState,
+  ReactNode,
+  FC
+} from 'react';
+import { dataLogger } from '../utils/logger';
+import {
+  ConflictPick,
+  UpdateConflictError,
+  getConflictingFields,
+  isUpdateConflict,
+  mergeConflict
+} from '../services/updateConflicts';
+
+interface ConflictResolverValue {
+  // The conflict waiting on the merge dialog, if any
+  pendingConflict: UpdateConflictError | null;
+  // Close the dialog with the user's field picks, or null to keep the other version
+  resolvePendingConflict: (picks: Record<string, ConflictPick> | null) => void;
+  /**
+   * Run an update, letting the user merge if it conflicts. Resolves with what was saved, or with
+   * the other version when the user discards their edit. `base` is the version the edit started
+   * from; with it, only fields both sides changed come up in the merge.
+   */
+  saveWithConflictResolution: <T>(item: T, save: (item: T) => Promise<T>, base?: T | null) => Promise<T>;
+}
+
+const versionOf = (item: unknown) => (item as { updatedAt?: string } | null)?.updatedAt;
+
+const ConflictResolverContext = createContext<ConflictResolverValue | undefined>(undefined);
+
+export const ConflictResolverProvider: FC<{ children: ReactNode }> = ({ children }) => {
+  const [pendingConflict, setPendingConflict] = useState<UpdateConflictError | null>(null);
+  const resolverRef = useRef<((picks: Record<string, ConflictPick> | null) => void) | null>(null);
+
+  const askUser = useCallback((conflict: UpdateConflictError) =>
+    new Promise<Record<string, ConflictPick> | null>(resolve => {
+      resolverRef.current?.(null); // Only one dialog at a time; an older one keeps the other version
+      resolverRef.current = resolve;
+      setPendingConflict(conflict);
+    }), []);
+
+  const resolvePendingConflict = useCallback((picks: Record<string, ConflictPick> | null) => {
+    resolverRef.current?.(picks);
+    resolverRef.current = null;
+    setPendingConflict(null);
+  }, []);
+
+  const saveWithConflictResolution = useCallback(async <T,>(
+    item: T,
+    save: (item: T) => Promise<T>,
+    base?: T | null
+  ): Promise<T> => {
+    let attempt = item;
+    // A base from another version than the edit's can't tell which fields the user changed
+    let attemptBase: unknown = base && versionOf(base) === versionOf(item) ? base : undefined;
+    for (;;) {
+      try {
+        return await save(attempt);
+      } catch (error) {
+        if (!isUpdateConflict(error)) throw error;
+        dataLogger.warn('Update conflict', { entity: error.entity, hasBase: !!attemptBase });
+        const conflict = attemptBase
+          ? new UpdateConflictError(error.entity, error.local, error.remote, attemptBase as typeof error.remote)
+          : error;
+
+        // Nothing the user edited differs (e.g. only completion or points moved) - just rebase
+        const picks = getConflictingFields(conflict).length === 0 ? {} : await askUser(conflict);
+        if (!picks) return conflict.remote as T;
+        attempt = mergeConflict(conflict, picks) as T;
+        // The merged version is based on what was just fetched
+        attemptBase = conflict.remote;
+      }
+    }
+  }, [askUser]);
+
+  const value: ConflictResolverValue = {
+    pendingConflict,
+    resolvePendingConflict,
+    saveWithConflictResolution
+  };
+
+  return (
+    <ConflictResolverContext.Provider value={value}>
+      {children}
+    </ConflictResolverContext.Provider>
+  );
+};
+
+export function useConflictResolver(): ConflictResolverValue {
+  const context = useContext(ConflictResolverContext);
+  if (!context) {
+    throw new Error('useConflictResolver must be used within ConflictResolverProvider');
+  }
+  return context;
+}
@@ -0,0 +1,59 @@
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode, FC } from 'react';
+import { FamilyMember, FamilyRole } from '../types';
+import { canActForMember } from '../utils/permissions';
+
+interface CurrentMemberValue {
+  userId: string | null; // The signed-in account; null for the local backend
+  // The member linked to the signed-in account, once a claim has been approved
+  me: FamilyMember | null;
+  isMe: (memberId: string) => boolean;
+  // Whether the signed-in account may act as this member, e.g. to request a reward
+  canActFor: (memberId: string) => boolean;
+}
+
+// The member whose user_id is the signed-in account; there is at most one per family
+export const findCurrentMember = (familyMembers: FamilyMember[], userId: string | null | undefined) =>
+  (userId && familyMembers.find(member => member.userId === userId)) || null;
+
+const CurrentMemberContext = createContext<CurrentMemberValue | undefined>(undefined);
+
+interface CurrentMemberProviderProps {
+  userId: string | null;
+  me: FamilyMember | null;
+  role: FamilyRole | null;
+  children: ReactNode;
+}
+
+export const CurrentMemberProvider: FC<CurrentMemberProviderProps> = ({ userId, me, role, children }) => {
+  const meId = me?.id ?? null;
+  const isMe = useCallback((memberId: string) => memberId === meId, [meId]);
+  const canActFor = useCallback((memberId: string) => canActForMember(role, meId, memberId), [role, meId]);
+
+  return (
+    <CurrentMemberContext.Provider value={{ userId, me, isMe, canActFor }}>
+      {children}
+    </CurrentMemberContext.Provider>
+  );
+};
+
+export function useCurrentMember(): CurrentMemberValue {
+  const context = useContext(CurrentMemberContext);
+  if (!context) {
+    throw new Error('useCurrentMember must be used within CurrentMemberProvider');
+  }
+  return context;
+}
+
+// Member filter for a list: starts on the signed-in member, or everyone (null) until one is linked
+export function useMemberFilter() {
+  const { me } = useCurrentMember();
+  const meId = me?.id ?? null;
+  const [memberId, setMemberId] = useState<string | null>(meId);
+
+  // A claim approved while the tab is open switches the filter over
+  useEffect(() => {
+    setMemberId(meId);
+  }, [meId]);
+
+  return [memberId, setMemberId] as const;
+}
@@ -1,6 +1,7 @@
 import {
   useState,
   useCallback,
+  useRef,
   createContext,
   useContext,
   ReactNode,
@@ -11,6 +12,7 @@ import {
 import { dataService } from '../dataService';
 import { dataLogger } from '../utils/logger';
 import { useFamilyMutations, familyQueryKeys } from './useFamilyQueries';
+import { useConflictResolver } from './useConflictResolver';
 import { useQueryClient } from '@tanstack/react-query';
 import { fetchFamilyDataSnapshot } from '../services/familyDataLoader';
 import {
@@ -18,14 +20,20 @@ import {
   NewFamilyMember,
   Chore,
   NewChore,
+  ChoreCompletionResult,
   EventItem,
   Reward,
   NewReward,
+  RewardRedemption,
+  MemberClaim,
+  FamilyRole,
   FamilyDetails,
   ChoreType,
   Routine,
-  DailyRoutineProgress
+  DailyRoutineProgress,
+  RecurrenceEditScope
 } from '../types';
+import { getFutureOccurrences, getNextAssignee } from '../utils/choreUtils';
 
 export interface UseFamilyDataReturn {
   // State
@@ -34,6 +42,7 @@ export interface UseFamilyDataReturn {
   chores: Chore[];
   events: EventItem[];
   rewards: Reward[];
+  rewardRedemptions: RewardRedemption[];
   routines: Routine[];
   choreTypes: ChoreType[];
   familyDetails: FamilyDetails;
@@ -45,6 +54,7 @@ export interface UseFamilyDataReturn {
   setChores: Dispatch<SetStateAction<Chore[]>>;
   setEvents: Dispatch<SetStateAction<EventItem[]>>;
   setRewards: Dispatch<SetStateAction<Reward[]>>;
+  setRewardRedemptions: Dispatch<SetStateAction<RewardRedemption[]>>;
   setRoutines: Dispatch<SetStateAction<Routine[]>>;
   setChoreTypes: Dispatch<SetStateAction<ChoreType[]>>;
   setFamilyDetails: Dispatch<SetStateAction<FamilyDetails>>;
@@ -54,18 +64,30 @@ export interface UseFamilyDataReturn {
   loadData: (currentDate: string) => Promise<void>;
 
   // Member operations
-  getMemberById: (id: number) => FamilyMember | undefined;
-  getMemberByName: (name: string) => FamilyMember | undefined;
-  handleSaveMember: (member: FamilyMember | NewFamilyMember) => Promise<void>;
-  handleDeleteMember: (id: number) => Promise<void>;
+  getMemberById: (id: string) => FamilyMember | undefined;
+  // base is the member as it was when the edit started, so a conflict only raises fields the user changed
+  handleSaveMember: (member: FamilyMember | NewFamilyMember, base?: FamilyMember | null) => Promise<void>;
+  handleDeleteMember: (id: string) => Promise<void>;
+  handleAdjustPoints: (memberId: string, amount: number, reason: string) => Promise<void>;
 
   // Chore operations
-  handleCompleteChore: (choreId: number) => Promise<void>;
-  handleSaveChore: (choreData: Chore | NewChore) => Promise<void>;
-  handleDeleteChore: (choreId: number) => Promise<void>;
+  handleCompleteChore: (choreId: string, memberId?: string) => Promise<void>;
+  handleUncompleteChore: (choreId: string, memberId?: string) => Promise<void>;
+  // scope applies to recurring occurrences: 'future' also changes every later occurrence
+  handleSaveChore: (choreData: Chore | NewChore, scope?: RecurrenceEditScope, base?: Chore | null) => Promise<void>;
+  handleDeleteChore: (choreId: string, scope?: RecurrenceEditScope) => Promise<void>;
+
+  // Reward operations
+  handleRequestReward: (rewardId: string, memberId: string) => Promise<void>;
+  handleDecideRedemption: (redemptionId: string, approve: boolean, note?: string) => Promise<void>;
+
+  // Profile claims
+  handleRequestMemberClaim: (memberId: string) => Promise<MemberClaim>;
+  handleDecideMemberClaim: (claimId: string, approve: boolean) => Promise<void>;
+  handleSetMembershipRole: (membershipId: string, role: FamilyRole) => Promise<void>;
 
   // Routine operations
-  handleRoutineStepToggle: (memberId: number, routineId: string, stepId: string, date: string) => Promise<void>;
+  handleRoutineStepToggle: (memberId: string, routineId: string, stepId: string, date: string) => Promise<void>;
 
   // Family operations
   handleNewPhotoSelected: (photoDataUrl: string) => void;
@@ -82,18 +104,31 @@ function useProvideFamilyData(): UseFamilyDataReturn {
   const {
     memberMutation,
     deleteMemberMutation,
+    adjustPointsMutation,
     choreMutation,
     deleteChoreMutation,
+    addChoreSeriesMutation,
+    updateChoreSeriesMutation,
+    deleteChoreSeriesMutation,
+    completeChoreMutation,
+    uncompleteChoreMutation,
+    requestRedemptionMutation,
+    decideRedemptionMutation,
+    requestMemberClaimMutation,
+    decideMemberClaimMutation,
+    membershipRoleMutation,
     familyDetailsMutation,
-    routineProgressMutation,
+    routineStepMutation,
     familyPhotoMutation
   } = useFamilyMutations();
+  const { saveWithConflictResolution } = useConflictResolver();
 
   // Data states
   const [familyMembers, setFamilyMembers] = useState<FamilyMember[]>([]);
   const [chores, setChores] = useState<Chore[]>([]);
   const [events, setEvents] = useState<EventItem[]>([]);
   const [rewards, setRewards] = useState<Reward[]>([]);
+  const [rewardRedemptions, setRewardRedemptions] = useState<RewardRedemption[]>([]);
   const [routines, setRoutines] = useState<Routine[]>([]);
   const [choreTypes, setChoreTypes] = useState<ChoreType[]>([]);
   const [familyDetails, setFamilyDetails] = useState<FamilyDetails>({
@@ -101,6 +136,8 @@ function useProvideFamilyData(): UseFamilyDataReturn {
     address: '',
     photoObjectPosition: 'center center'
   });
+  // Family details as last loaded or saved; edits are made to familyDetails in place
+  const savedFamilyDetailsRef = useRef<FamilyDetails | null>(null);
   const [familyPhoto, setFamilyPhoto] = useState<string | null>(null);
   const [dailyRoutineProgress, setDailyRoutineProgress] = useState<DailyRoutineProgress[]>([]);
 
@@ -117,10 +154,12 @@ function useProvideFamilyData(): UseFamilyDataReturn {
 
       setFamilyMembers(snapshot.members);
       setFamilyDetails(snapshot.details);
+      savedFamilyDetailsRef.current = snapshot.details;
       setChores(snapshot.chores);
       setChoreTypes(snapshot.choreTypes);
       setRoutines(snapshot.routines);
       setRewards(snapshot.rewards);
+      setRewardRedemptions(snapshot.redemptions);
       setEvents(snapshot.events);
       setDailyRoutineProgress(snapshot.progress);
       setFamilyPhoto(snapshot.photo);
@@ -132,30 +171,27 @@ function useProvideFamilyData(): UseFamilyDataReturn {
   }, [queryClient]);
 
   // Helper functions
-  const getMemberById = useCallback((id: number): FamilyMember | undefined => {
+  const getMemberById = useCallback((id: string): FamilyMember | undefined => {
     return familyMembers.find(member => member.id === id);
   }, [familyMembers]);
 
-  const getMemberByName = useCallback((name: string): FamilyMember | undefined => {
-    return familyMembers.find(member => member.name === name);
-  }, [familyMembers]);
-
   // Member handlers
-  const handleSaveMember = useCallback(async (member: FamilyMember | NewFamilyMember) => {
+  const handleSaveMember = useCallback(async (member: FamilyMember | NewFamilyMember, base?: FamilyMember | null) => {
     try {
-      const result = await memberMutation.mutateAsync(member);
       if ('id' in member) {
-        setFamilyMembers(prev => prev.map(m => m.id === member.id ? member : m));
-      } else if (result) {
-        setFamilyMembers(prev => [...prev, result as FamilyMember]);
+        const saved = await saveWithConflictResolution(member, m => memberMutation.mutateAsync(m), base);
+        setFamilyMembers(prev => prev.map(m => m.id === member.id ? saved : m));
+      } else {
+        const result = await memberMutation.mutateAsync(member);
+        setFamilyMembers(prev => [...prev, result]);
       }
     } catch (error) {
       dataLogger.error('Error saving family member', error as Error, { memberId: 'id' in member ? member.id : 'new' });
       throw error;
     }
-  }, [memberMutation, setFamilyMembers]);
+  }, [memberMutation, saveWithConflictResolution, setFamilyMembers]);
 
-  const handleDeleteMember = useCallback(async (id: number) => {
+  const handleDeleteMember = useCallback(async (id: string) => {
     try {
       await deleteMemberMutation.mutateAsync(id);
       setFamilyMembers(prev => prev.filter(m => m.id !== id));
@@ -165,63 +201,183 @@ function useProvideFamilyData(): UseFamilyDataReturn {
     }
   }, [deleteMemberMutation, setFamilyMembers]);
 
+  // Manual points changes go through the ledger; the balance is never written directly
+  const handleAdjustPoints = useCallback(async (memberId: string, amount: number, reason: string) => {
+    try {
+      const transaction = await adjustPointsMutation.mutateAsync({ memberId, amount, reason });
+      setFamilyMembers(prev =>
+        prev.map(m => m.id === memberId ? { ...m, points: m.points + transaction.amount } : m)
+      );
+    } catch (error) {
+      dataLogger.error('Error adjusting points', error as Error, { memberId, amount });
+      throw error;
+    }
+  }, [adjustPointsMutation, setFamilyMembers]);
+
   // Chore handlers
-  const handleCompleteChore = useCallback(async (choreId: number) => {
+  // Apply a completion result from the backend; awards are deltas so repeated taps can't double-count
+  const applyCompletionResult = useCallback((result: ChoreCompletionResult) => {
+    setChores(prev => prev.map(c => c.id === result.chore.id ? result.chore : c));
+    if (result.alreadyApplied || result.awards.length === 0) return;
+    setFamilyMembers(prev => prev.map(member => {
+      const delta = result.awards
+        .filter(award => award.memberId === member.id)
+        .reduce((total, award) => total + award.points, 0);
+      return delta === 0 ? member : { ...member, points: member.points + delta };
+    }));
+  }, [setChores, setFamilyMembers]);
+
+  const handleCompleteChore = useCallback(async (choreId: string, memberId?: string) => {
     try {
       const chore = chores.find(c => c.id === choreId);
-      if (!chore) return;
-
-      const updatedChore = { ...chore, completed: true };
-      await choreMutation.mutateAsync(updatedChore);
-      setChores(prev => prev.map(c => c.id === choreId ? updatedChore : c));
-
-      // Update member points if assigned
-      if (chore.assignedTo) {
-        const member = getMemberByName(chore.assignedTo);
-        if (member) {
-          const updatedMember = {
-            ...member,
-            points: member.points + (chore.points || 0)
-          };
-          await memberMutation.mutateAsync(updatedMember);
-          setFamilyMembers(prev =>
-            prev.map(m => m.id === updatedMember.id ? updatedMember : m)
-          );
-        }
-      }
+      // Always name the completer so a replayed completion can't land on a different assignee
+      const completer = memberId ?? (chore && getNextAssignee(chore));
+      const result = await completeChoreMutation.mutateAsync({ choreId, memberId: completer, chore });
+      applyCompletionResult(result);
     } catch (error) {
-      dataLogger.error('Error completing chore', error as Error, { choreId });
+      dataLogger.error('Error completing chore', error as Error, { choreId, memberId });
       throw error;
     }
-  }, [chores, getMemberByName, choreMutation, memberMutation, setChores, setFamilyMembers]);
+  }, [chores, completeChoreMutation, applyCompletionResult]);
 
-  const handleSaveChore = useCallback(async (choreData: Chore | NewChore) => {
+  const handleUncompleteChore = useCallback(async (choreId: string, memberId?: string) => {
     try {
-      const savedChore = await choreMutation.mutateAsync(choreData);
+      const chore = chores.find(c => c.id === choreId);
+      const result = await uncompleteChoreMutation.mutateAsync({ choreId, memberId, chore });
+      applyCompletionResult(result);
+    } catch (error) {
+      dataLogger.error('Error un-completing chore', error as Error, { choreId, memberId });
+      throw error;
+    }
+  }, [chores, uncompleteChoreMutation, applyCompletionResult]);
+
+  // Swap `from` and its later series occurrences for the ones a series write returned
+  const replaceFutureOccurrences = useCallback((from: Chore, replacements: Chore[]) => {
+    setChores(prev => {
+      const replaced = new Set([from.id, ...getFutureOccurrences(prev, from).map(c => c.id)]);
+      return [...prev.filter(c => !replaced.has(c.id)), ...replacements];
+    });
+  }, [setChores]);
+
+  const handleSaveChore = useCallback(async (
+    choreData: Chore | NewChore,
+    scope: RecurrenceEditScope = 'this',
+    base?: Chore | null
+  ) => {
+    try {
+      if (!('id' in choreData) && choreData.recurrence) {
+        const occurrences = await addChoreSeriesMutation.mutateAsync({ chore: choreData, recurrence: choreData.recurrence });
+        setChores(prev => [...prev, ...occurrences]);
+        return;
+      }
+      if ('id' in choreData && scope === 'future' && choreData.seriesId) {
+        const replacements = await updateChoreSeriesMutation.mutateAsync({
+          chore: choreData,
+          recurrence: choreData.recurrence ?? null
+        });
+        replaceFutureOccurrences(choreData, replacements);
+        return;
+      }
+
       if ('id' in choreData) {
-        setChores(prev => prev.map(c => (c.id === choreData.id ? choreData : c)));
-      } else if (savedChore) {
-        setChores(prev => [...prev, savedChore as Chore]);
+        const savedChore = await saveWithConflictResolution(choreData, c => choreMutation.mutateAsync(c), base);
+        setChores(prev => prev.map(c => (c.id === choreData.id ? savedChore : c)));
+      } else {
+        const savedChore = await choreMutation.mutateAsync(choreData);
+        setChores(prev => [...prev, savedChore]);
       }
     } catch (error) {
       dataLogger.error('Error saving chore', error as Error);
       throw error;
     }
-  }, [choreMutation, setChores]);
+  }, [choreMutation, addChoreSeriesMutation, updateChoreSeriesMutation, replaceFutureOccurrences, saveWithConflictResolution, setChores]);
 
-  const handleDeleteChore = useCallback(async (choreId: number) => {
+  const handleDeleteChore = useCallback(async (choreId: string, scope: RecurrenceEditScope = 'this') => {
     try {
+      const chore = chores.find(c => c.id === choreId);
+      if (scope === 'future' && chore?.seriesId) {
+        await deleteChoreSeriesMutation.mutateAsync(chore);
+        replaceFutureOccurrences(chore, []);
+        return;
+      }
+
       await deleteChoreMutation.mutateAsync(choreId);
       setChores(prev => prev.filter(c => c.id !== choreId));
     } catch (error) {
       dataLogger.error('Error deleting chore', error as Error, { choreId });
       throw error;
     }
-  }, [deleteChoreMutation, setChores]);
+  }, [chores, deleteChoreMutation, deleteChoreSeriesMutation, replaceFutureOccurrences, setChores]);
+
+  // Reward handlers
+  const handleRequestReward = useCallback(async (rewardId: string, memberId: string) => {
+    try {
+      const reward = rewards.find(r => r.id === rewardId);
+      const redemption = await requestRedemptionMutation.mutateAsync({ rewardId, memberId, reward });
+      setRewardRedemptions(prev => [redemption, ...prev]);
+    } catch (error) {
+      dataLogger.error('Error requesting reward', error as Error, { rewardId, memberId });
+      throw error;
+    }
+  }, [rewards, requestRedemptionMutation, setRewardRedemptions]);
+
+  const handleDecideRedemption = useCallback(async (redemptionId: string, approve: boolean, note?: string) => {
+    try {
+      const previous = rewardRedemptions.find(r => r.id === redemptionId);
+      const redemption = await decideRedemptionMutation.mutateAsync({ redemptionId, approve, note, current: previous });
+      setRewardRedemptions(prev => prev.map(r => r.id === redemptionId ? redemption : r));
+
+      // Approval spends the points; only deduct locally if this call made the decision
+      if (previous?.status === 'pending' && redemption.status === 'approved' && redemption.cost > 0) {
+        setFamilyMembers(prev =>
+          prev.map(m => m.id === redemption.memberId ? { ...m, points: m.points - redemption.cost } : m)
+        );
+      }
+    } catch (error) {
+      dataLogger.error('Error deciding reward request', error as Error, { redemptionId, approve });
+      throw error;
+    }
+  }, [rewardRedemptions, decideRedemptionMutation, setRewardRedemptions, setFamilyMembers]);
+
+  // Profile claim handlers - an approved claim links the member to the claiming account
+  const linkClaimedMember = useCallback((claim: MemberClaim) => {
+    if (claim.status !== 'approved') return;
+    setFamilyMembers(prev => prev.map(m => m.id === claim.memberId ? { ...m, userId: claim.userId } : m));
+  }, [setFamilyMembers]);
+
+  const handleRequestMemberClaim = useCallback(async (memberId: string) => {
+    try {
+      const claim = await requestMemberClaimMutation.mutateAsync(memberId);
+      linkClaimedMember(claim);
+      return claim;
+    } catch (error) {
+      dataLogger.error('Error claiming member profile', error as Error, { memberId });
+      throw error;
+    }
+  }, [requestMemberClaimMutation, linkClaimedMember]);
+
+  const handleDecideMemberClaim = useCallback(async (claimId: string, approve: boolean) => {
+    try {
+      linkClaimedMember(await decideMemberClaimMutation.mutateAsync({ claimId, approve }));
+    } catch (error) {
+      dataLogger.error('Error deciding profile claim', error as Error, { claimId, approve });
+      throw error;
+    }
+  }, [decideMemberClaimMutation, linkClaimedMember]);
+
+  // Roles live on the account's membership, not on the member card, so there's no local state to patch
+  const handleSetMembershipRole = useCallback(async (membershipId: string, role: FamilyRole) => {
+    try {
+      await membershipRoleMutation.mutateAsync({ membershipId, role });
+    } catch (error) {
+      dataLogger.error('Error changing membership role', error as Error, { membershipId, role });
+      throw error;
+    }
+  }, [membershipRoleMutation]);
 
   // Routine handlers
   const handleRoutineStepToggle = useCallback(async (
-    memberId: number,
+    memberId: string,
     routineId: string,
     stepId: string,
     date: string
@@ -230,25 +386,11 @@ function useProvideFamilyData(): UseFamilyDataReturn {
       const progress = dailyRoutineProgress.find(p =>
         p.memberId === memberId && p.routineId === routineId && p.date === date
       );
-
-      const completedStepIds = progress?.completedStepIds || [];
-      const newCompletedStepIds = completedStepIds.includes(stepId)
-        ? completedStepIds.filter(id => id !== stepId)
-        : [...completedStepIds, stepId];
+      const done = !progress?.completedStepIds.includes(stepId);
 
       const routine = routines.find(r => r.id === routineId);
-      const isFullyCompleted = routine &&
-        newCompletedStepIds.length === routine.steps.length;
-
-      const updatedProgress: DailyRoutineProgress = {
-        memberId,
-        routineId,
-        date,
-        completedStepIds: newCompletedStepIds,
-        isFullyCompleted: !!isFullyCompleted
-      };
-
-      await routineProgressMutation.mutateAsync(updatedProgress);
+      const result = await routineStepMutation.mutateAsync({ memberId, routineId, date, stepId, done, routine, current: progress });
+      const updatedProgress = result.progress;
 
       setDailyRoutineProgress(prev => {
         const existingIndex = prev.findIndex(p =>
@@ -263,11 +405,17 @@ function useProvideFamilyData(): UseFamilyDataReturn {
           return [...prev, updatedProgress];
         }
       });
+
+      if (!result.alreadyApplied && result.pointsDelta !== 0) {
+        setFamilyMembers(prev => prev.map(member =>
+          member.id === memberId ? { ...member, points: member.points + result.pointsDelta } : member
+        ));
+      }
     } catch (error) {
       dataLogger.error('Error toggling routine step', error as Error, { memberId, routineId, stepId, date });
       throw error;
     }
-  }, [routines, dailyRoutineProgress]);
+  }, [routines, dailyRoutineProgress, routineStepMutation, setDailyRoutineProgress, setFamilyMembers]);
 
   // Family handlers
   const handleNewPhotoSelected = useCallback((photoDataUrl: string) => {
@@ -280,8 +428,14 @@ function useProvideFamilyData(): UseFamilyDataReturn {
   const saveFamilyDetails = useCallback(async () => {
     try {
       dataLogger.debug('Saving family details', { familyName: familyDetails.name, hasAddress: !!familyDetails.address });
-      await familyDetailsMutation.mutateAsync(familyDetails);
-      dataLogger.info('Successfully saved family details', { familyName: familyDetails.name });
+      const saved = await saveWithConflictResolution(
+        familyDetails,
+        details => familyDetailsMutation.mutateAsync(details),
+        savedFamilyDetailsRef.current
+      );
+      setFamilyDetails(saved);
+      savedFamilyDetailsRef.current = saved;
+      dataLogger.info('Successfully saved family details', { familyName: saved.name });
     } catch (error: unknown) {
       const errorObj = error as Error & { code?: string };
       dataLogger.error('Error saving family details', errorObj, {
@@ -290,7 +444,7 @@ function useProvideFamilyData(): UseFamilyDataReturn {
       });
       throw new Error(errorObj.message || 'Failed to save family details');
     }
-  }, [familyDetails, familyDetailsMutation]);
+  }, [familyDetails, familyDetailsMutation, saveWithConflictResolution]);
 
   return {
     // State
@@ -299,6 +453,7 @@ function useProvideFamilyData(): UseFamilyDataReturn {
     chores,
     events,
     rewards,
+    rewardRedemptions,
     routines,
     choreTypes,
     familyDetails,
@@ -310,6 +465,7 @@ function useProvideFamilyData(): UseFamilyDataReturn {
     setChores,
   	setEvents,
     setRewards,
+    setRewardRedemptions,
     setRoutines,
     setChoreTypes,
     setFamilyDetails,
@@ -318,12 +474,18 @@ function useProvideFamilyData(): UseFamilyDataReturn {
     // Operations
     loadData,
     getMemberById,
-    getMemberByName,
     handleSaveMember,
     handleDeleteMember,
+    handleAdjustPoints,
     handleCompleteChore,
+    handleUncompleteChore,
     handleSaveChore,
     handleDeleteChore,
+    handleRequestReward,
+    handleDecideRedemption,
+    handleRequestMemberClaim,
+    handleDecideMemberClaim,
+    handleSetMembershipRole,
     handleRoutineStepToggle,
     handleNewPhotoSelected,
     saveFamilyDetails
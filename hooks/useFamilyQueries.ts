@@ -10,10 +10,13 @@ import {
   EventItem,
   Reward,
   NewReward,
+  RewardRedemption,
   FamilyDetails,
   ChoreType,
   Routine,
-  DailyRoutineProgress
+  DailyRoutineProgress,
+  RecurrenceRule,
+  FamilyRole
 } from '../types';
 
 const familyKeys = {
@@ -26,6 +29,9 @@ const familyKeys = {
   events: ['family', 'events'] as const,
   choreTypes: ['family', 'choreTypes'] as const,
   routineProgress: (date: string) => ['family', 'routineProgress', date] as const,
+  pointTransactions: (memberId: string) => ['family', 'pointTransactions', memberId] as const,
+  memberClaims: ['family', 'memberClaims'] as const,
+  memberships: ['family', 'memberships'] as const,
   details: ['family', 'details'] as const,
   photo: ['family', 'photo'] as const
 };
@@ -39,6 +45,33 @@ export function useFamilySnapshot(date: string) {
   });
 }
 
+export function usePointTransactions(memberId: string | null) {
+  return useQuery({
+    queryKey: familyKeys.pointTransactions(memberId ?? ''),
+    queryFn: () => dataService.getPointTransactions(memberId ?? undefined),
+    enabled: !!memberId,
+    staleTime: 1000 * 30
+  });
+}
+
+export function useMemberClaims(enabled: boolean) {
+  return useQuery({
+    queryKey: familyKeys.memberClaims,
+    queryFn: () => dataService.getMemberClaims(),
+    enabled,
+    staleTime: 1000 * 30
+  });
+}
+
+export function useFamilyMemberships(enabled: boolean) {
+  return useQuery({
+    queryKey: familyKeys.memberships,
+    queryFn: () => dataService.getFamilyMemberships(),
+    enabled,
+    staleTime: 1000 * 30
+  });
+}
+
 export function useFamilyMutations() {
   const queryClient = useQueryClient();
 
@@ -47,8 +80,7 @@ export function useFamilyMutations() {
   const memberMutation = useMutation({
     mutationFn: async (member: FamilyMember | NewFamilyMember) => {
       if ('id' in member) {
-        await dataService.updateFamilyMember(member);
-        return member;
+        return dataService.updateFamilyMember(member);
       }
       return dataService.addFamilyMember(member);
     },
@@ -59,18 +91,24 @@ export function useFamilyMutations() {
   });
 
   const deleteMemberMutation = useMutation({
-    mutationFn: (id: number) => dataService.deleteFamilyMember(id),
+    mutationFn: (id: string) => dataService.deleteFamilyMember(id),
     onSuccess: invalidateAll,
     onError: (error, id) => {
       dataLogger.error('Delete member failed', error as Error, { memberId: id });
     }
   });
 
+  const adjustPointsMutation = useMutation({
+    mutationFn: ({ memberId, amount, reason }: { memberId: string; amount: number; reason: string }) =>
+      dataService.adjustMemberPoints(memberId, amount, reason),
+    onSuccess: invalidateAll,
+    onError: (error, { memberId, amount }) => dataLogger.error('Points adjustment failed', error as Error, { memberId, amount })
+  });
+
   const choreMutation = useMutation({
     mutationFn: async (chore: Chore | NewChore) => {
       if ('id' in chore) {
-        await dataService.updateChore(chore);
-        return chore;
+        return dataService.updateChore(chore);
       }
       return dataService.addChore({ ...chore, completed: false });
     },
@@ -79,11 +117,45 @@ export function useFamilyMutations() {
   });
 
   const deleteChoreMutation = useMutation({
-    mutationFn: (id: number) => dataService.deleteChore(id),
+    mutationFn: (id: string) => dataService.deleteChore(id),
     onSuccess: invalidateAll,
     onError: (error, id) => dataLogger.error('Delete chore failed', error as Error, { choreId: id })
   });
 
+  const addChoreSeriesMutation = useMutation({
+    mutationFn: ({ chore, recurrence }: { chore: NewChore; recurrence: RecurrenceRule }) =>
+      dataService.addChoreSeries({ ...chore, completed: false }, recurrence),
+    onSuccess: invalidateAll,
+    onError: (error, { chore }) => dataLogger.error('Add recurring chore failed', error as Error, { title: chore.title })
+  });
+
+  const updateChoreSeriesMutation = useMutation({
+    mutationFn: ({ chore, recurrence }: { chore: Chore; recurrence: RecurrenceRule | null }) =>
+      dataService.updateChoreSeries(chore, recurrence),
+    onSuccess: invalidateAll,
+    onError: (error, { chore }) => dataLogger.error('Update chore series failed', error as Error, { choreId: chore.id })
+  });
+
+  const deleteChoreSeriesMutation = useMutation({
+    mutationFn: (chore: Chore) => dataService.deleteChoreSeries(chore),
+    onSuccess: invalidateAll,
+    onError: (error, chore) => dataLogger.error('Delete chore series failed', error as Error, { choreId: chore.id })
+  });
+
+  const completeChoreMutation = useMutation({
+    mutationFn: ({ choreId, memberId, chore }: { choreId: string; memberId?: string; chore?: Chore }) =>
+      dataService.completeChore(choreId, memberId, chore),
+    onSuccess: invalidateAll,
+    onError: (error, { choreId, memberId }) => dataLogger.error('Complete chore failed', error as Error, { choreId, memberId })
+  });
+
+  const uncompleteChoreMutation = useMutation({
+    mutationFn: ({ choreId, memberId, chore }: { choreId: string; memberId?: string; chore?: Chore }) =>
+      dataService.uncompleteChore(choreId, memberId, chore),
+    onSuccess: invalidateAll,
+    onError: (error, { choreId, memberId }) => dataLogger.error('Un-complete chore failed', error as Error, { choreId, memberId })
+  });
+
   const rewardMutation = useMutation({
     mutationFn: async (reward: Reward | NewReward) => {
       if ('id' in reward) {
@@ -96,16 +168,59 @@ export function useFamilyMutations() {
     onError: (error, reward) => dataLogger.error('Reward mutation failed', error as Error, { rewardId: 'id' in reward ? reward.id : 'new' })
   });
 
+  const requestRedemptionMutation = useMutation({
+    mutationFn: ({ rewardId, memberId, reward }: { rewardId: string; memberId: string; reward?: Reward }) =>
+      dataService.requestRewardRedemption(rewardId, memberId, reward),
+    onSuccess: invalidateAll,
+    onError: (error, { rewardId, memberId }) => dataLogger.error('Reward request failed', error as Error, { rewardId, memberId })
+  });
+
+  const decideRedemptionMutation = useMutation({
+    mutationFn: ({ redemptionId, approve, note, current }: { redemptionId: string; approve: boolean; note?: string; current?: RewardRedemption }) =>
+      dataService.decideRewardRedemption(redemptionId, approve, note, current),
+    onSuccess: invalidateAll,
+    onError: (error, { redemptionId, approve }) => dataLogger.error('Reward decision failed', error as Error, { redemptionId, approve })
+  });
+
+  const requestMemberClaimMutation = useMutation({
+    mutationFn: (memberId: string) => dataService.requestMemberClaim(memberId),
+    onSuccess: invalidateAll,
+    onError: (error, memberId) => dataLogger.error('Profile claim failed', error as Error, { memberId })
+  });
+
+  const decideMemberClaimMutation = useMutation({
+    mutationFn: ({ claimId, approve }: { claimId: string; approve: boolean }) =>
+      dataService.decideMemberClaim(claimId, approve),
+    onSuccess: invalidateAll,
+    onError: (error, { claimId, approve }) => dataLogger.error('Profile claim decision failed', error as Error, { claimId, approve })
+  });
+
+  const membershipRoleMutation = useMutation({
+    mutationFn: ({ membershipId, role }: { membershipId: string; role: FamilyRole }) =>
+      dataService.setMembershipRole(membershipId, role),
+    onSuccess: invalidateAll,
+    onError: (error, { membershipId, role }) => dataLogger.error('Role change failed', error as Error, { membershipId, role })
+  });
+
   const familyDetailsMutation = useMutation({
     mutationFn: (details: FamilyDetails) => dataService.saveFamilyDetails(details),
     onSuccess: invalidateAll,
     onError: (error) => dataLogger.error('Family details update failed', error as Error)
   });
 
-  const routineProgressMutation = useMutation({
-    mutationFn: (progress: DailyRoutineProgress) => dataService.upsertDailyRoutineProgress(progress),
+  const routineStepMutation = useMutation({
+    mutationFn: ({ memberId, routineId, date, stepId, done, routine, current }: {
+      memberId: string;
+      routineId: string;
+      date: string;
+      stepId: string;
+      done: boolean;
+      routine?: Routine;
+      current?: DailyRoutineProgress;
+    }) => dataService.setRoutineStep(memberId, routineId, date, stepId, done, routine, current),
     onSuccess: invalidateAll,
-    onError: (error, progress) => dataLogger.error('Routine progress update failed', error as Error, progress)
+    onError: (error, { memberId, routineId, date, stepId, done }) =>
+      dataLogger.error('Routine step update failed', error as Error, { memberId, routineId, date, stepId, done })
   });
 
   const familyPhotoMutation = useMutation({
@@ -117,11 +232,22 @@ export function useFamilyMutations() {
   return {
     memberMutation,
     deleteMemberMutation,
+    adjustPointsMutation,
     choreMutation,
     deleteChoreMutation,
+    addChoreSeriesMutation,
+    updateChoreSeriesMutation,
+    deleteChoreSeriesMutation,
+    completeChoreMutation,
+    uncompleteChoreMutation,
     rewardMutation,
+    requestRedemptionMutation,
+    decideRedemptionMutation,
+    requestMemberClaimMutation,
+    decideMemberClaimMutation,
+    membershipRoleMutation,
     familyDetailsMutation,
-    routineProgressMutation,
+    routineStepMutation,
     familyPhotoMutation,
     invalidateAll
   };
@@ -2,6 +2,7 @@ import {
   createContext,
   useCallback,
   useContext,
+  useEffect,
   useState,
   ReactNode,
   Dispatch,
@@ -11,6 +12,7 @@ import {
 import { uiLogger } from '../utils/logger';
 import { FamilyMember, Chore, TabId } from '../types';
 import { dataService } from '../dataService';
+import { useParentLock } from './useParentLock';
 
 interface ModalStateValue {
   // Tab state
@@ -29,6 +31,11 @@ interface ModalStateValue {
   openEditMember: (member: FamilyMember) => void;
   closeMemberModal: () => void;
 
+  // Points history modal
+  pointsHistoryMember: FamilyMember | null;
+  openPointsHistory: (member: FamilyMember) => void;
+  closePointsHistory: () => void;
+
   // Event modal
   isEventModalOpen: boolean;
   openEventModal: () => void;
@@ -47,13 +54,16 @@ interface ModalStateValue {
   openAddRewardModal: () => void;
   closeAddRewardModal: () => void;
 
-  // Management modals
+  // Management modals - in kid mode these ask for the parent PIN before opening
   isManageChoreTypesOpen: boolean;
   openManageChoreTypes: () => void;
   closeManageChoreTypes: () => void;
   isManageRoutinesOpen: boolean;
   openManageRoutines: () => void;
   closeManageRoutines: () => void;
+  isKidModeSettingsOpen: boolean;
+  openKidModeSettings: () => void;
+  closeKidModeSettings: () => void;
 
   // Performance monitor
   isPerformanceMonitorOpen: boolean;
@@ -64,12 +74,15 @@ interface ModalStateValue {
 const ModalStateContext = createContext<ModalStateValue | undefined>(undefined);
 
 export const ModalStateProvider: FC<{ children: ReactNode }> = ({ children }) => {
+  const { isLocked, requireParent } = useParentLock();
   const [activeTab, setActiveTab] = useState<TabId>('family');
-  const [isEditingFamily, setIsEditingFamily] = useState(false);
+  const [isEditingFamily, setIsEditingFamilyState] = useState(false);
 
   const [isMemberModalOpen, setIsMemberModalOpen] = useState(false);
   const [editingMember, setEditingMember] = useState<FamilyMember | null>(null);
 
+  const [pointsHistoryMember, setPointsHistoryMember] = useState<FamilyMember | null>(null);
+
   const [isEventModalOpen, setIsEventModalOpen] = useState(false);
 
   const [isAddChoreModalOpen, setIsAddChoreModalOpen] = useState(false);
@@ -80,6 +93,7 @@ export const ModalStateProvider: FC<{ children: ReactNode }> = ({ children }) =>
 
   const [isManageChoreTypesOpen, setIsManageChoreTypesOpen] = useState(false);
   const [isManageRoutinesOpen, setIsManageRoutinesOpen] = useState(false);
+  const [isKidModeSettingsOpen, setIsKidModeSettingsOpen] = useState(false);
 
   const [isPerformanceMonitorOpen, setIsPerformanceMonitorOpen] = useState(false);
 
@@ -88,38 +102,61 @@ export const ModalStateProvider: FC<{ children: ReactNode }> = ({ children }) =>
     dataService.saveActiveTab(tabId).catch(console.error);
   }, []);
 
-  const openAddMember = useCallback(() => {
+  // Opens a management modal once a parent has unlocked kid mode
+  const openForParent = useCallback((open: () => void) => {
+    requireParent().then(unlocked => {
+      if (unlocked) open();
+    });
+  }, [requireParent]);
+
+  const setIsEditingFamily: Dispatch<SetStateAction<boolean>> = useCallback(value => {
+    if (value === true) {
+      openForParent(() => setIsEditingFamilyState(true));
+    } else {
+      setIsEditingFamilyState(value);
+    }
+  }, [openForParent]);
+
+  const openAddMember = useCallback(() => openForParent(() => {
     setEditingMember(null);
     setIsMemberModalOpen(true);
-  }, []);
+  }), [openForParent]);
 
-  const openEditMember = useCallback((member: FamilyMember) => {
+  const openEditMember = useCallback((member: FamilyMember) => openForParent(() => {
     setEditingMember(member);
     setIsMemberModalOpen(true);
-  }, []);
+  }), [openForParent]);
 
   const closeMemberModal = useCallback(() => {
     setEditingMember(null);
     setIsMemberModalOpen(false);
   }, []);
 
-  const openEventModal = useCallback(() => {
-    setIsEventModalOpen(true);
+  const openPointsHistory = useCallback((member: FamilyMember) => {
+    setPointsHistoryMember(member);
+  }, []);
+
+  const closePointsHistory = useCallback(() => {
+    setPointsHistoryMember(null);
   }, []);
 
+  const openEventModal = useCallback(() => openForParent(() => {
+    setIsEventModalOpen(true);
+  }), [openForParent]);
+
   const closeEventModal = useCallback(() => {
     setIsEventModalOpen(false);
   }, []);
 
-  const openAddChoreModal = useCallback(() => {
+  const openAddChoreModal = useCallback(() => openForParent(() => {
     setEditingChore(null);
     setIsAddChoreModalOpen(true);
-  }, []);
+  }), [openForParent]);
 
-  const openEditChoreModal = useCallback((chore: Chore) => {
+  const openEditChoreModal = useCallback((chore: Chore) => openForParent(() => {
     setEditingChore(chore);
     setIsEditChoreModalOpen(true);
-  }, []);
+  }), [openForParent]);
 
   const closeChoreModals = useCallback(() => {
     setEditingChore(null);
@@ -127,30 +164,54 @@ export const ModalStateProvider: FC<{ children: ReactNode }> = ({ children }) =>
     setIsEditChoreModalOpen(false);
   }, []);
 
-  const openAddRewardModal = useCallback(() => {
+  const openAddRewardModal = useCallback(() => openForParent(() => {
     setIsAddRewardModalOpen(true);
-  }, []);
+  }), [openForParent]);
 
   const closeAddRewardModal = useCallback(() => {
     setIsAddRewardModalOpen(false);
   }, []);
 
-  const openManageChoreTypes = useCallback(() => {
+  const openManageChoreTypes = useCallback(() => openForParent(() => {
     setIsManageChoreTypesOpen(true);
-  }, []);
+  }), [openForParent]);
 
   const closeManageChoreTypes = useCallback(() => {
     setIsManageChoreTypesOpen(false);
   }, []);
 
-  const openManageRoutines = useCallback(() => {
+  const openManageRoutines = useCallback(() => openForParent(() => {
     setIsManageRoutinesOpen(true);
-  }, []);
+  }), [openForParent]);
 
   const closeManageRoutines = useCallback(() => {
     setIsManageRoutinesOpen(false);
   }, []);
 
+  const openKidModeSettings = useCallback(() => openForParent(() => {
+    setIsKidModeSettingsOpen(true);
+  }), [openForParent]);
+
+  const closeKidModeSettings = useCallback(() => {
+    setIsKidModeSettingsOpen(false);
+  }, []);
+
+  // Relocking puts away whatever a parent left open
+  useEffect(() => {
+    if (!isLocked) return;
+    setIsEditingFamilyState(false);
+    setEditingMember(null);
+    setIsMemberModalOpen(false);
+    setIsEventModalOpen(false);
+    setEditingChore(null);
+    setIsAddChoreModalOpen(false);
+    setIsEditChoreModalOpen(false);
+    setIsAddRewardModalOpen(false);
+    setIsManageChoreTypesOpen(false);
+    setIsManageRoutinesOpen(false);
+    setIsKidModeSettingsOpen(false);
+  }, [isLocked]);
+
   const openPerformanceMonitor = useCallback(() => {
     setIsPerformanceMonitorOpen(true);
   }, []);
@@ -173,6 +234,10 @@ export const ModalStateProvider: FC<{ children: ReactNode }> = ({ children }) =>
     openEditMember,
     closeMemberModal,
 
+    pointsHistoryMember,
+    openPointsHistory,
+    closePointsHistory,
+
     isEventModalOpen,
     openEventModal,
     closeEventModal,
@@ -195,6 +260,9 @@ export const ModalStateProvider: FC<{ children: ReactNode }> = ({ children }) =>
     isManageRoutinesOpen,
     openManageRoutines,
     closeManageRoutines,
+    isKidModeSettingsOpen,
+    openKidModeSettings,
+    closeKidModeSettings,
 
     isPerformanceMonitorOpen,
     openPerformanceMonitor,
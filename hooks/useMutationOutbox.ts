@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import { dataService } from '../dataService';
+import { mutationOutbox, OutboxEntry, OutboxStatus, ReplayResult } from '../services/mutationOutbox';
+
+interface UseMutationOutboxOptions {
+  onReplayed?: (result: ReplayResult) => void; // e.g. refresh the tables that were synced
+}
+
+export interface UseMutationOutboxReturn {
+  entries: OutboxEntry[];
+  pendingCount: number;
+  failedCount: number;
+  getSyncStatus: (table: string, entityId: string) => OutboxStatus | null;
+  syncNow: () => Promise<ReplayResult>;
+  retry: (entryId: string) => Promise<void>;
+  discard: (entryId: string) => Promise<void>;
+}
+
+/**
+ * Custom hook exposing the offline mutation outbox to components
+ * Re-renders whenever queued mutations are added, replayed or fail
+ */
+export function useMutationOutbox(options: UseMutationOutboxOptions = {}): UseMutationOutboxReturn {
+  const { onReplayed } = options;
+  const [entries, setEntries] = useState<OutboxEntry[]>(() => mutationOutbox.getEntries());
+
+  useEffect(() => {
+    const unsubscribe = mutationOutbox.subscribe(setEntries);
+    mutationOutbox.load().then(() => setEntries(mutationOutbox.getEntries()));
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    if (!onReplayed) return;
+    return mutationOutbox.onReplayed(onReplayed);
+  }, [onReplayed]);
+
+  // Failed wins over pending when a record has several queued mutations
+  const getSyncStatus = useCallback((table: string, entityId: string): OutboxStatus | null => {
+    const matching = entries.filter(entry => entry.table === table && entry.entityId === entityId);
+    if (matching.length === 0) return null;
+    return matching.some(entry => entry.status === 'failed') ? 'failed' : 'pending';
+  }, [entries]);
+
+  const syncNow = useCallback(() => dataService.syncOutbox(), []);
+  const retry = useCallback((entryId: string) => dataService.retryOutboxEntry(entryId), []);
+  const discard = useCallback((entryId: string) => dataService.discardOutboxEntry(entryId), []);
+
+  return {
+    entries,
+    pendingCount: entries.filter(entry => entry.status === 'pending').length,
+    failedCount: entries.filter(entry => entry.status === 'failed').length,
+    getSyncStatus,
+    syncNow,
+    retry,
+    discard
+  };
+}
@@ -0,0 +1,150 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  ReactNode,
+  FC
+} from 'react';
+import { dataService } from '../dataService';
+import { uiLogger } from '../utils/logger';
+import { PARENT_UNLOCK_TIMEOUT_MS } from '../utils/parentPin';
+
+const KID_MODE_STORAGE_KEY = 'family-planner-kid-mode';
+
+interface ParentLockValue {
+  // Kid mode is per device: a shared tablet locks management actions behind the parent PIN
+  kidMode: boolean;
+  isLocked: boolean;
+  setKidMode: (enabled: boolean) => void;
+  lock: () => void;
+  /**
+   * Resolves true once a parent has entered the PIN (straight away when nothing is locked), or
+   * false if the prompt was cancelled
+   */
+  requireParent: () => Promise<boolean>;
+  // Wraps a handler so it only runs after requireParent succeeds; async handlers are awaited
+  withParent: <A extends unknown[]>(action: (...args: A) => unknown) => (...args: A) => Promise<void>;
+  // The PIN prompt waiting on the user, if any
+  isPinPromptOpen: boolean;
+  // Resolves false for a wrong PIN; throws when the PIN can't be checked
+  submitPin: (pin: string) => Promise<boolean>;
+  cancelPinPrompt: () => void;
+}
+
+const readKidMode = () => {
+  try {
+    return localStorage.getItem(KID_MODE_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+const ParentLockContext = createContext<ParentLockValue | undefined>(undefined);
+
+export const ParentLockProvider: FC<{ children: ReactNode }> = ({ children }) => {
+  const [kidMode, setKidModeState] = useState(readKidMode);
+  const [isUnlocked, setIsUnlocked] = useState(false);
+  const [isPinPromptOpen, setIsPinPromptOpen] = useState(false);
+  const resolverRef = useRef<((unlocked: boolean) => void) | null>(null);
+
+  const isLocked = kidMode && !isUnlocked;
+
+  const finishPrompt = useCallback((unlocked: boolean) => {
+    resolverRef.current?.(unlocked);
+    resolverRef.current = null;
+    setIsPinPromptOpen(false);
+  }, []);
+
+  const requireParent = useCallback((): Promise<boolean> => {
+    if (!isLocked) return Promise.resolve(true);
+    return new Promise<boolean>(resolve => {
+      resolverRef.current?.(false); // Only one prompt at a time; an older request is cancelled
+      resolverRef.current = resolve;
+      setIsPinPromptOpen(true);
+    });
+  }, [isLocked]);
+
+  const withParent = useCallback(<A extends unknown[]>(action: (...args: A) => unknown) =>
+    async (...args: A) => {
+      if (await requireParent()) await action(...args);
+    }, [requireParent]);
+
+  const submitPin = useCallback(async (pin: string) => {
+    const valid = await dataService.verifyParentPin(pin);
+    if (valid) {
+      uiLogger.info('Kid mode unlocked');
+      setIsUnlocked(true);
+      finishPrompt(true);
+    }
+    return valid;
+  }, [finishPrompt]);
+
+  const cancelPinPrompt = useCallback(() => finishPrompt(false), [finishPrompt]);
+
+  const lock = useCallback(() => setIsUnlocked(false), []);
+
+  const setKidMode = useCallback((enabled: boolean) => {
+    setKidModeState(enabled);
+    // Turning kid mode on hands the device over locked
+    setIsUnlocked(false);
+    try {
+      localStorage.setItem(KID_MODE_STORAGE_KEY, String(enabled));
+    } catch {
+      // Kid mode only lasts until the app reloads
+    }
+    uiLogger.info(enabled ? 'Kid mode turned on' : 'Kid mode turned off');
+  }, []);
+
+  // Relock after a spell without taps or key presses, or as soon as the app is put away
+  useEffect(() => {
+    if (!kidMode || !isUnlocked) return;
+
+    let timer = window.setTimeout(lock, PARENT_UNLOCK_TIMEOUT_MS);
+    const handleActivity = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(lock, PARENT_UNLOCK_TIMEOUT_MS);
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') lock();
+    };
+
+    window.addEventListener('pointerdown', handleActivity);
+    window.addEventListener('keydown', handleActivity);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.clearTimeout(timer);
+      window.removeEventListener('pointerdown', handleActivity);
+      window.removeEventListener('keydown', handleActivity);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [kidMode, isUnlocked, lock]);
+
+  const value: ParentLockValue = {
+    kidMode,
+    isLocked,
+    setKidMode,
+    lock,
+    requireParent,
+    withParent,
+    isPinPromptOpen,
+    submitPin,
+    cancelPinPrompt
+  };
+
+  return (
+    <ParentLockContext.Provider value={value}>
+      {children}
+    </ParentLockContext.Provider>
+  );
+};
+
+export function useParentLock(): ParentLockValue {
+  const context = useContext(ParentLockContext);
+  if (!context) {
+    throw new Error('useParentLock must be used within ParentLockProvider');
+  }
+  return context;
+}
@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback } from 'react';
+import { dataService } from '../dataService';
+import { FamilyRole } from '../types';
+import { Permission, hasPermission } from '../utils/permissions';
+import { dataLogger } from '../utils/logger';
+
+const ROLE_STORAGE_PREFIX = 'family-planner-role-';
+
+export interface UsePermissionsProps {
+  familyId: string | null; // null for the local backend, where the device owner is a parent
+  enabled: boolean; // Wait until the data service has its family context
+}
+
+export interface UsePermissionsReturn {
+  role: FamilyRole | null;
+  can: (permission: Permission) => boolean;
+}
+
+const readCachedRole = (familyId: string | null): FamilyRole | null => {
+  if (!familyId) return null;
+  try {
+    return localStorage.getItem(ROLE_STORAGE_PREFIX + familyId) as FamilyRole | null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Custom hook resolving what the signed-in account may change in the family
+ * The role is cached per family so offline sessions keep the same controls; RLS has the final say
+ */
+export function usePermissions(props: UsePermissionsProps): UsePermissionsReturn {
+  const { familyId, enabled } = props;
+  const [role, setRole] = useState<FamilyRole | null>(() => (familyId ? readCachedRole(familyId) : 'parent'));
+
+  useEffect(() => {
+    if (!familyId) {
+      setRole('parent');
+      return;
+    }
+    setRole(readCachedRole(familyId));
+    if (!enabled) return;
+
+    let cancelled = false;
+    dataService.getCurrentUserRole()
+      .then(nextRole => {
+        if (cancelled) return;
+        setRole(nextRole);
+        try {
+          localStorage.setItem(ROLE_STORAGE_PREFIX + familyId, nextRole);
+        } catch {
+          // Not cached - the role is fetched again next time
+        }
+      })
+      .catch(error => {
+        // Offline: keep whatever role was cached
+        dataLogger.warn('Could not load membership role', { error: (error as Error).message });
+      });
+    return () => { cancelled = true; };
+  }, [familyId, enabled]);
+
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+
+  return { role, can };
+}
@@ -0,0 +1,133 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { Capacitor } from '@capacitor/core';
+import { supabase } from '../supabaseService';
+import { FamilyMember, TabId } from '../types';
+import { syncLogger } from '../utils/logger';
+
+const DEVICE_ID_STORAGE_KEY = 'family-planner-device-id';
+
+// What each device shares on the family presence channel
+export interface PresenceInfo {
+  key: string; // User and device, so one account on two devices shows twice
+  userId: string;
+  memberId: string | null; // The family member linked to the account, if any
+  name: string;
+  device: string;
+  tab: TabId;
+  editingChoreId: string | null;
+}
+
+export interface UsePresenceProps {
+  familyId: string | null;
+  user: any | null;
+  familyMembers: FamilyMember[];
+  activeTab: TabId;
+  editingChoreId: string | null;
+}
+
+export interface UsePresenceReturn {
+  others: PresenceInfo[]; // Everyone else online in the family, this device excluded
+}
+
+const getDeviceId = () => {
+  try {
+    let deviceId = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+    if (!deviceId) {
+      deviceId = crypto.randomUUID();
+      localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+    }
+    return deviceId;
+  } catch {
+    return crypto.randomUUID(); // A new device each reload is fine for presence
+  }
+};
+
+// A short label people recognise, e.g. "iPhone" or "Android app"
+const getDeviceLabel = () => {
+  const userAgent = navigator.userAgent;
+  const device = /iPad/.test(userAgent) ? 'iPad'
+    : /iPhone/.test(userAgent) ? 'iPhone'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Mac/.test(userAgent) ? 'Mac'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : 'Browser';
+  return Capacitor.isNativePlatform() ? `${device} app` : device;
+};
+
+const getUserName = (user: any) =>
+  user?.user_metadata?.full_name || user?.user_metadata?.name || user?.email?.split('@')[0] || 'Someone';
+
+/**
+ * Custom hook sharing who is online in the family over a Supabase Realtime presence channel
+ * Each device tracks its member, device, current tab and the chore it is editing
+ */
+export function usePresence(props: UsePresenceProps): UsePresenceReturn {
+  const { familyId, user, familyMembers, activeTab, editingChoreId } = props;
+  const [others, setOthers] = useState<PresenceInfo[]>([]);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const isSubscribedRef = useRef(false);
+  const userId: string | null = user?.id ?? null;
+  const presenceKey = useMemo(() => (userId ? `${userId}:${getDeviceId()}` : null), [userId]);
+
+  const member = userId ? familyMembers.find(m => m.userId === userId) : undefined;
+  const presence = useMemo<PresenceInfo | null>(() => presenceKey && userId ? {
+    key: presenceKey,
+    userId,
+    memberId: member?.id ?? null,
+    name: member?.name ?? getUserName(user),
+    device: getDeviceLabel(),
+    tab: activeTab,
+    editingChoreId
+  } : null, [presenceKey, userId, member?.id, member?.name, user, activeTab, editingChoreId]);
+
+  // The subscribe callback tracks whatever is current when the channel (re)joins
+  const presenceRef = useRef(presence);
+  presenceRef.current = presence;
+
+  useEffect(() => {
+    if (!familyId || !presenceKey) return;
+
+    const channel = supabase.channel(`presence-${familyId}`, {
+      config: { presence: { key: presenceKey } }
+    });
+    channelRef.current = channel;
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        const state = channel.presenceState<PresenceInfo>();
+        const online = Object.entries(state)
+          .filter(([key]) => key !== presenceKey)
+          .map(([, metas]) => metas[metas.length - 1]) // Latest track() for that device
+          .filter(Boolean)
+          .sort((a, b) => a.name.localeCompare(b.name));
+        setOthers(online);
+      })
+      .subscribe(async (status) => {
+        isSubscribedRef.current = status === 'SUBSCRIBED';
+        if (status === 'SUBSCRIBED' && presenceRef.current) {
+          await channel.track(presenceRef.current);
+          syncLogger.debug('Presence joined', { familyId });
+        }
+      });
+
+    return () => {
+      isSubscribedRef.current = false;
+      channelRef.current = null;
+      channel.untrack().catch(() => undefined);
+      supabase.removeChannel(channel);
+      setOthers([]);
+    };
+  }, [familyId, presenceKey]);
+
+  // Share tab and editing changes as they happen
+  useEffect(() => {
+    const channel = channelRef.current;
+    if (!channel || !presence || !isSubscribedRef.current) return;
+    channel.track(presence).catch(error =>
+      syncLogger.warn('Failed to update presence', { error: (error as Error).message })
+    );
+  }, [presence]);
+
+  return { others };
+}
@@ -72,4 +72,8 @@ export const useRealtimeRewards = (onUpdate?: (eventType: string, record: any) =
 
 export const useRealtimeRoutines = (onUpdate?: (eventType: string, record: any) => void) => {
   return useRealtimeData({ table: 'routines', onUpdate });
+};
+
+export const useRealtimeMemberClaims = (onUpdate?: (eventType: string, record: any) => void) => {
+  return useRealtimeData({ table: 'member_claims', onUpdate });
 };
\ No newline at end of file
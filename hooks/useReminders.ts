@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Chore, EventItem } from '../types';
+import { ReminderScheduler } from '../services/reminderScheduler';
+import {
+  ReminderPermission,
+  getReminderPermission,
+  requestReminderPermission,
+  showReminderNotification
+} from '../services/reminderNotifications';
+import { uiLogger } from '../utils/logger';
+
+const ENABLED_STORAGE_KEY = 'family-planner-reminders-enabled';
+
+export interface UseRemindersReturn {
+  permission: ReminderPermission;
+  enabled: boolean; // Turned on for this device and allowed to show notifications
+  enable: () => Promise<boolean>;
+  disable: () => void;
+}
+
+const readEnabled = () => {
+  try {
+    return localStorage.getItem(ENABLED_STORAGE_KEY) === 'true';
+  } catch {
+    return false;
+  }
+};
+
+const writeEnabled = (enabled: boolean) => {
+  try {
+    localStorage.setItem(ENABLED_STORAGE_KEY, String(enabled));
+  } catch {
+    // The setting just won't survive a reload
+  }
+};
+
+/**
+ * Custom hook running event and chore reminders on this device
+ * Reminders are opt-in per device, since each device shows its own notifications. With a
+ * memberId (the signed-in member) only their chores and the events they attend are reminded;
+ * events without attendees are for everyone.
+ */
+export function useReminders(events: EventItem[], chores: Chore[], memberId?: string | null): UseRemindersReturn {
+  const [permission, setPermission] = useState<ReminderPermission>('default');
+  const [wantsReminders, setWantsReminders] = useState(readEnabled);
+  const schedulerRef = useRef<ReminderScheduler | null>(null);
+  if (!schedulerRef.current) {
+    schedulerRef.current = new ReminderScheduler(showReminderNotification);
+  }
+  const enabled = wantsReminders && permission === 'granted';
+
+  useEffect(() => {
+    getReminderPermission()
+      .then(setPermission)
+      .catch(error => uiLogger.error('Failed to check notification permission', error as Error));
+  }, []);
+
+  useEffect(() => {
+    if (!memberId) {
+      schedulerRef.current?.setItems(events, chores);
+      return;
+    }
+    schedulerRef.current?.setItems(
+      events.filter(event => event.attendees.length === 0 || event.attendees.includes(memberId)),
+      chores.filter(chore => chore.assignedTo.includes(memberId))
+    );
+  }, [events, chores, memberId]);
+
+  useEffect(() => {
+    const scheduler = schedulerRef.current;
+    if (!enabled || !scheduler) return;
+    scheduler.start();
+    // Timers don't run while the app is in the background, so catch up when it comes back
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') scheduler.check();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      scheduler.stop();
+    };
+  }, [enabled]);
+
+  const enable = useCallback(async () => {
+    const result = await requestReminderPermission();
+    setPermission(result);
+    const granted = result === 'granted';
+    setWantsReminders(granted);
+    writeEnabled(granted);
+    uiLogger.info('Reminder permission requested', { permission: result });
+    return granted;
+  }, []);
+
+  const disable = useCallback(() => {
+    setWantsReminders(false);
+    writeEnabled(false);
+    uiLogger.info('Reminders disabled');
+  }, []);
+
+  return { permission, enabled, enable, disable };
+}
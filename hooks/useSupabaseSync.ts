@@ -1,33 +1,83 @@
-import { useCallback, Dispatch, SetStateAction } from 'react';
+import { useCallback, useRef, Dispatch, SetStateAction } from 'react';
 import { dataService } from '../dataService';
 import { syncLogger } from '../utils/logger';
+import { mutationOutbox } from '../services/mutationOutbox';
+import { CHORE_OVERLAYS, applyPendingSteps } from '../services/pendingOverlays';
+import {
+  isRealtimeEventType,
+  mergeRow,
+  mergeChoreChange,
+  mergeChoreAssignmentChange,
+  mergeChoreSeriesChange,
+  mergeProgressChange,
+  mergeRoutineChange,
+  mergeRoutineStepChange
+} from '../services/realtimeMerge';
+import {
+  mapFamilyMemberRow,
+  mapEventRow,
+  mapRewardRow,
+  mapRedemptionRow,
+  mapChoreTypeRow
+} from '../services/supabaseRows';
 import {
   FamilyMember,
   Chore,
   EventItem,
   Reward,
+  RewardRedemption,
   Routine,
-  ChoreType
+  ChoreType,
+  DailyRoutineProgress
 } from '../types';
 
 export interface UseSupabaseSyncProps {
+  familyMembers: FamilyMember[];
+  chores: Chore[];
+  events: EventItem[];
+  rewards: Reward[];
+  rewardRedemptions?: RewardRedemption[];
+  routines: Routine[];
+  choreTypes?: ChoreType[];
+  dailyRoutineProgress?: DailyRoutineProgress[];
+  progressDate?: string; // The date dailyRoutineProgress was loaded for
   setFamilyMembers: Dispatch<SetStateAction<FamilyMember[]>>;
   setChores: Dispatch<SetStateAction<Chore[]>>;
   setEvents: Dispatch<SetStateAction<EventItem[]>>;
   setRewards: Dispatch<SetStateAction<Reward[]>>;
+  setRewardRedemptions?: Dispatch<SetStateAction<RewardRedemption[]>>;
   setRoutines: Dispatch<SetStateAction<Routine[]>>;
   setChoreTypes?: Dispatch<SetStateAction<ChoreType[]>>;
+  setDailyRoutineProgress?: Dispatch<SetStateAction<DailyRoutineProgress[]>>;
 }
 
 export interface UseSupabaseSyncReturn {
   handleRealtimeDataUpdate: (table: string, eventType: string, record: any) => Promise<void>;
 }
 
+// Tables that refetch the same list share a group, so a burst of changes costs one query
+const REFRESH_GROUPS: Record<string, string> = {
+  family_members: 'family_members',
+  point_transactions: 'family_members', // Balances are derived from the ledger
+  chores: 'chores',
+  chore_assignments: 'chores', // Assignee completion lives in its own table
+  chore_series: 'chores', // Series edits add and remove occurrences
+  events: 'events',
+  rewards: 'rewards',
+  reward_redemptions: 'reward_redemptions',
+  routines: 'routines',
+  routine_steps: 'routines',
+  chore_types: 'chore_types',
+  daily_routine_progress: 'daily_routine_progress'
+};
+
 /**
  * Custom hook to handle real-time data synchronization from Supabase
- * Refreshes local state when database changes are detected
+ * Realtime payloads are mapped and merged into local state in place. Whole tables are only
+ * refetched when a payload can't be applied on its own (a gap), after a reconnect, or when
+ * called without a record (outbox replays and discards).
  *
- * @param props - Setter functions for all synced data types
+ * @param props - Current lists and setter functions for all synced data types
  * @returns Handler function for real-time updates
  */
 export function useSupabaseSync(props: UseSupabaseSyncProps): UseSupabaseSyncReturn {
@@ -36,10 +86,193 @@ export function useSupabaseSync(props: UseSupabaseSyncProps): UseSupabaseSyncRet
     setChores,
     setEvents,
     setRewards,
+    setRewardRedemptions,
     setRoutines,
-    setChoreTypes
+    setChoreTypes,
+    setDailyRoutineProgress
   } = props;
 
+  // Latest lists for merging; updated straight after each merge so back-to-back payloads stack
+  const stateRef = useRef(props);
+  stateRef.current = props;
+
+  // In-flight refreshes by group; a change arriving mid-refresh marks it to run once more
+  const refreshesRef = useRef(new Map<string, { dirty: boolean }>());
+
+  const fetchGroup = useCallback(async (group: string) => {
+    switch (group) {
+      case 'family_members': {
+        const updatedMembers = await dataService.getFamilyMembers();
+        setFamilyMembers(updatedMembers);
+        syncLogger.info('Updated family members', { count: updatedMembers.length });
+        break;
+      }
+      case 'chores': {
+        const updatedChores = await dataService.getChores();
+        setChores(updatedChores);
+        syncLogger.info('Updated chores', { count: updatedChores.length });
+        break;
+      }
+      case 'events': {
+        const updatedEvents = await dataService.getEvents();
+        setEvents(updatedEvents);
+        syncLogger.info('Updated events', { count: updatedEvents.length });
+        break;
+      }
+      case 'rewards': {
+        const updatedRewards = await dataService.getRewards();
+        setRewards(updatedRewards);
+        syncLogger.info('Updated rewards', { count: updatedRewards.length });
+        break;
+      }
+      case 'reward_redemptions':
+        if (setRewardRedemptions) {
+          const updatedRedemptions = await dataService.getRewardRedemptions();
+          setRewardRedemptions(updatedRedemptions);
+          syncLogger.info('Updated reward redemptions', { count: updatedRedemptions.length });
+        }
+        break;
+      case 'routines': {
+        const updatedRoutines = await dataService.getRoutines();
+        setRoutines(updatedRoutines);
+        syncLogger.info('Updated routines', { count: updatedRoutines.length });
+        break;
+      }
+      case 'chore_types':
+        if (setChoreTypes) {
+          const updatedTypes = await dataService.getChoreTypes();
+          setChoreTypes(updatedTypes);
+          syncLogger.info('Updated chore types', { count: updatedTypes.length });
+        }
+        break;
+      case 'daily_routine_progress': {
+        const { progressDate } = stateRef.current;
+        if (setDailyRoutineProgress && progressDate) {
+          const updatedProgress = await dataService.getDailyRoutineProgress(progressDate);
+          setDailyRoutineProgress(updatedProgress);
+          syncLogger.info('Updated routine progress', { count: updatedProgress.length });
+        }
+        break;
+      }
+    }
+  }, [setFamilyMembers, setChores, setEvents, setRewards, setRewardRedemptions, setRoutines, setChoreTypes, setDailyRoutineProgress]);
+
+  const refreshTable = useCallback(async (table: string) => {
+    const group = REFRESH_GROUPS[table];
+    if (!group) {
+      syncLogger.debug('No specific handler for table', { table });
+      return;
+    }
+    const inFlight = refreshesRef.current.get(group);
+    if (inFlight) {
+      inFlight.dirty = true;
+      return;
+    }
+
+    const refresh = { dirty: true };
+    refreshesRef.current.set(group, refresh);
+    try {
+      while (refresh.dirty) {
+        refresh.dirty = false;
+        await fetchGroup(group);
+      }
+    } catch (error) {
+      syncLogger.error('Error refreshing data after real-time update', error as Error, { table });
+      // Don't throw - we don't want real-time sync errors to crash the app
+    } finally {
+      refreshesRef.current.delete(group);
+    }
+  }, [fetchGroup]);
+
+  // Applies one payload to local state; false means it couldn't be and the table needs a refetch
+  const mergeChange = useCallback((table: string, eventType: 'INSERT' | 'UPDATE' | 'DELETE', record: any): boolean => {
+    const state = stateRef.current;
+    switch (table) {
+      case 'family_members': {
+        const merged = mergeRow(state.familyMembers, eventType, record, mapFamilyMemberRow);
+        if (!merged) return false;
+        const familyMembers = mutationOutbox.applyPending('family_members', merged);
+        stateRef.current = { ...state, familyMembers };
+        setFamilyMembers(familyMembers);
+        return true;
+      }
+      case 'point_transactions':
+        // The balance trigger updates family_members, whose own payload carries the new points
+        return true;
+      case 'member_claims':
+        // Claims live in a query of their own, refetched by MemberClaimsPanel; an approval also
+        // sends a family_members payload carrying the new link
+        return true;
+      case 'chores':
+      case 'chore_assignments':
+      case 'chore_series': {
+        const merge = table === 'chores' ? mergeChoreChange
+          : table === 'chore_assignments' ? mergeChoreAssignmentChange
+          : mergeChoreSeriesChange;
+        const merged = merge(state.chores, eventType, record);
+        if (!merged) return false;
+        const chores = mutationOutbox.applyPending('chores', merged, CHORE_OVERLAYS);
+        stateRef.current = { ...state, chores };
+        setChores(chores);
+        return true;
+      }
+      case 'events': {
+        const merged = mergeRow(state.events, eventType, record, mapEventRow);
+        if (!merged) return false;
+        const events = mutationOutbox.applyPending('events', merged);
+        stateRef.current = { ...state, events };
+        setEvents(events);
+        return true;
+      }
+      case 'rewards': {
+        const merged = mergeRow(state.rewards, eventType, record, mapRewardRow);
+        if (!merged) return false;
+        const rewards = mutationOutbox.applyPending('rewards', merged);
+        stateRef.current = { ...state, rewards };
+        setRewards(rewards);
+        return true;
+      }
+      case 'reward_redemptions': {
+        if (!setRewardRedemptions || !state.rewardRedemptions) return true;
+        // Newest first, like getRewardRedemptions
+        const rewardRedemptions = mergeRow(state.rewardRedemptions, eventType, record, mapRedemptionRow, { prepend: true });
+        if (!rewardRedemptions) return false;
+        stateRef.current = { ...state, rewardRedemptions };
+        setRewardRedemptions(rewardRedemptions);
+        return true;
+      }
+      case 'routines':
+      case 'routine_steps': {
+        const merge = table === 'routines' ? mergeRoutineChange : mergeRoutineStepChange;
+        const merged = merge(state.routines, eventType, record);
+        if (!merged) return false;
+        const routines = mutationOutbox.applyPending('routines', merged);
+        stateRef.current = { ...state, routines };
+        setRoutines(routines);
+        return true;
+      }
+      case 'chore_types': {
+        if (!setChoreTypes || !state.choreTypes) return true;
+        const choreTypes = mergeRow(state.choreTypes, eventType, record, mapChoreTypeRow);
+        if (!choreTypes) return false;
+        stateRef.current = { ...state, choreTypes };
+        setChoreTypes(choreTypes);
+        return true;
+      }
+      case 'daily_routine_progress': {
+        if (!setDailyRoutineProgress || !state.dailyRoutineProgress || !state.progressDate) return true;
+        const merged = mergeProgressChange(state.dailyRoutineProgress, eventType, record, state.progressDate);
+        if (!merged) return false;
+        const dailyRoutineProgress = applyPendingSteps(mutationOutbox.getEntries(), merged, state.routines, state.progressDate);
+        stateRef.current = { ...state, dailyRoutineProgress };
+        setDailyRoutineProgress(dailyRoutineProgress);
+        return true;
+      }
+      default:
+        return false;
+    }
+  }, [setFamilyMembers, setChores, setEvents, setRewards, setRewardRedemptions, setRoutines, setChoreTypes, setDailyRoutineProgress]);
+
   const handleRealtimeDataUpdate = useCallback(async (
     table: string,
     eventType: string,
@@ -47,54 +280,20 @@ export function useSupabaseSync(props: UseSupabaseSyncProps): UseSupabaseSyncRet
   ) => {
     syncLogger.debug('Handling real-time update', { table, eventType, recordId: record?.id });
 
-    try {
-      // Refresh specific data based on the table that was updated
-      switch (table) {
-        case 'family_members':
-          const updatedMembers = await dataService.getFamilyMembers();
-          setFamilyMembers(updatedMembers);
-          syncLogger.info('Updated family members', { count: updatedMembers.length });
-          break;
-
-        case 'chores':
-          const updatedChores = await dataService.getChores();
-          setChores(updatedChores);
-          syncLogger.info('Updated chores', { count: updatedChores.length });
-          break;
-
-        case 'events':
-          const updatedEvents = await dataService.getEvents();
-          setEvents(updatedEvents);
-          syncLogger.info('Updated events', { count: updatedEvents.length });
-          break;
-
-        case 'rewards':
-          const updatedRewards = await dataService.getRewards();
-          setRewards(updatedRewards);
-          syncLogger.info('Updated rewards', { count: updatedRewards.length });
-          break;
-
-        case 'routines':
-          const updatedRoutines = await dataService.getRoutines();
-          setRoutines(updatedRoutines);
-          syncLogger.info('Updated routines', { count: updatedRoutines.length });
-          break;
-        case 'chore_types':
-          if (setChoreTypes) {
-            const updatedTypes = await dataService.getChoreTypes();
-            setChoreTypes(updatedTypes);
-            syncLogger.info('Updated chore types', { count: updatedTypes.length });
-          }
-          break;
+    // No payload to apply (outbox replay, discard or reconnect) - the table may have moved on
+    if (!record || !isRealtimeEventType(eventType)) {
+      await refreshTable(table);
+      return;
+    }
 
-        default:
-          syncLogger.debug('No specific handler for table', { table });
-      }
+    try {
+      if (mergeChange(table, eventType, record)) return;
+      syncLogger.info('Realtime change needs a refresh', { table, eventType });
     } catch (error) {
-      syncLogger.error('Error refreshing data after real-time update', error as Error, { table });
-      // Don't throw - we don't want real-time sync errors to crash the app
+      syncLogger.warn('Could not apply realtime change - refreshing', { table, error: (error as Error).message });
     }
-  }, [setFamilyMembers, setChores, setEvents, setRewards, setRoutines, setChoreTypes]);
+    await refreshTable(table);
+  }, [mergeChange, refreshTable]);
 
   return {
     handleRealtimeDataUpdate
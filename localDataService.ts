@@ -0,0 +1,893 @@
+// Local Data Service Implementation
+// Implements IDataService on top of localStorage (falls back to memory when storage is unavailable)
+// Used for offline development, demos and running the app without a Supabase project
+
+import { v4 as uuidv4 } from 'uuid';
+import { dataLogger } from './utils/logger';
+import { IDataService, ServiceInfo, FamilySummary } from './IDataService';
+import { assertNoConflict } from './services/updateConflicts';
+import {
+  completeChoreFor,
+  uncompleteChoreFor,
+  createSeriesFromChore,
+  buildSeriesOccurrences,
+  getFutureOccurrences,
+  getPendingSeriesRange,
+  getSeriesWindowEnd
+} from './utils/choreUtils';
+import { addDays, endRecurrence } from './utils/recurrence';
+import { setRoutineStepFor } from './utils/routineUtils';
+import { hashPin, isValidPin, pinMatches } from './utils/parentPin';
+import {
+  migrateChoreMembers,
+  migrateEventMembers,
+  migrateRoutineMembers,
+  migrateProgressMember
+} from './services/memberIdMigration';
+import {
+  FamilyMember,
+  NewFamilyMember,
+  Chore,
+  ChoreSeries,
+  RecurrenceRule,
+  NewChore,
+  ChoreCompletionResult,
+  PointTransaction,
+  EventItem,
+  Reward,
+  NewReward,
+  RewardRedemption,
+  FamilyDetails,
+  ChoreType,
+  Routine,
+  DailyRoutineProgress,
+  RoutineStepResult,
+  FamilyRole,
+  MemberClaim,
+  FamilyMembership,
+  TabId
+} from './types';
+
+const STORAGE_KEY = 'family-planner-local-data';
+const STORE_VERSION = 5; // v2: member references are IDs rather than names, v3: points ledger, v4: reward redemptions, v5: chore series
+
+interface LocalFamilyRecord {
+  details: FamilyDetails;
+  photoUrl: string | null;
+  members: FamilyMember[];
+  chores: Chore[];
+  choreSeries: ChoreSeries[];
+  choreTypes: ChoreType[];
+  events: EventItem[];
+  rewards: Reward[];
+  routines: Routine[];
+  routineProgress: DailyRoutineProgress[];
+  pointTransactions: PointTransaction[];
+  rewardRedemptions: RewardRedemption[];
+  parentPinHash?: string;
+}
+
+interface LocalStore {
+  version: number;
+  currentFamilyId: string | null;
+  activeTab: TabId | null;
+  families: Record<string, LocalFamilyRecord>;
+}
+
+// Minimal subset of the Web Storage API; falls back to an in-memory map when localStorage is unavailable
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+const createMemoryStorage = (): KeyValueStorage => {
+  const values = new Map<string, string>();
+  return {
+    getItem: (key) => values.get(key) ?? null,
+    setItem: (key, value) => { values.set(key, value); }
+  };
+};
+
+const resolveDefaultStorage = (): KeyValueStorage => {
+  try {
+    if (typeof window !== 'undefined' && window.localStorage) {
+      return window.localStorage;
+    }
+  } catch {
+    // Access to localStorage can throw in private browsing / sandboxed iframes
+  }
+  dataLogger.warn('localStorage unavailable - LocalDataService will keep data in memory only');
+  return createMemoryStorage();
+};
+
+const generateInviteCode = (): string =>
+  uuidv4().replace(/-/g, '').slice(0, 8).toUpperCase();
+
+const createEmptyFamily = (name: string, address: string = ''): LocalFamilyRecord => {
+  const now = new Date().toISOString();
+  return {
+    details: {
+      id: uuidv4(),
+      name,
+      address,
+      photoObjectPosition: 'center center',
+      inviteCode: generateInviteCode(),
+      createdAt: now,
+      updatedAt: now
+    },
+    photoUrl: null,
+    members: [],
+    chores: [],
+    choreTypes: [],
+    events: [],
+    rewards: [],
+    routines: [],
+    routineProgress: [],
+    pointTransactions: [],
+    rewardRedemptions: [],
+    choreSeries: []
+  };
+};
+
+// Small starter family so the app has something to show on first launch
+const createDemoFamily = (): LocalFamilyRecord => {
+  const family = createEmptyFamily('My Family');
+  const today = new Date().toISOString().split('T')[0];
+
+  family.members = [
+    { id: uuidv4(), name: 'Parent', initial: 'P', role: 'parent', color: 'bg-blue-500', points: 0 },
+    { id: uuidv4(), name: 'Kid', initial: 'K', role: 'child', color: 'bg-green-500', points: 0 }
+  ];
+  family.choreTypes = [
+    { id: uuidv4(), name: 'Make Bed', defaultPoints: 5, icon: '🛏️' },
+    { id: uuidv4(), name: 'Tidy Room', defaultPoints: 10, icon: '🧹' }
+  ];
+  family.chores = [
+    {
+      id: uuidv4(),
+      title: 'Make Bed',
+      assignedTo: [family.members[1].id],
+      completed: false,
+      points: 5,
+      dueDate: today,
+      icon: '🛏️',
+      choreTypeId: family.choreTypes[0].id
+    }
+  ];
+  family.rewards = [
+    { id: uuidv4(), title: 'Extra Screen Time', cost: 20, icon: '📱', available: true }
+  ];
+
+  return family;
+};
+
+export class LocalDataService implements IDataService {
+  private storage: KeyValueStorage;
+  private store: LocalStore | null = null;
+  private currentFamilyId: string | null = null;
+
+  constructor(storage?: KeyValueStorage) {
+    this.storage = storage ?? resolveDefaultStorage();
+  }
+
+  async initialize(): Promise<void> {
+    if (this.store) {
+      dataLogger.debug('LocalDataService already initialized');
+      return;
+    }
+
+    dataLogger.info('Initializing LocalDataService');
+    this.store = this.load();
+
+    if (Object.keys(this.store.families).length === 0) {
+      const demo = createDemoFamily();
+      this.store.families[demo.details.id] = demo;
+      this.store.currentFamilyId = demo.details.id;
+      this.persist();
+      dataLogger.info('Seeded local demo family', { familyId: demo.details.id });
+    }
+
+    this.currentFamilyId = this.currentFamilyId
+      ?? this.store.currentFamilyId
+      ?? Object.keys(this.store.families)[0];
+    dataLogger.info('LocalDataService initialized successfully', { familyId: this.currentFamilyId });
+  }
+
+  setCurrentFamilyId(familyId: string) {
+    this.currentFamilyId = familyId;
+    if (this.store) {
+      this.store.currentFamilyId = familyId;
+      this.persist();
+    }
+  }
+
+  // --- Storage helpers ---
+
+  private load(): LocalStore {
+    const empty: LocalStore = { version: STORE_VERSION, currentFamilyId: null, activeTab: null, families: {} };
+    try {
+      const raw = this.storage.getItem(STORAGE_KEY);
+      if (!raw) return empty;
+      const parsed = JSON.parse(raw) as LocalStore;
+      if (!parsed || typeof parsed !== 'object' || !parsed.families) {
+        dataLogger.warn('Local data store is malformed - starting fresh');
+        return empty;
+      }
+      return this.migrate({ ...empty, ...parsed });
+    } catch (error) {
+      dataLogger.error('Error reading local data store - starting fresh', error as Error);
+      return empty;
+    }
+  }
+
+  // Bring stores written by older app versions up to date
+  private migrate(store: LocalStore): LocalStore {
+    if (store.version >= STORE_VERSION) return store;
+
+    if (store.version < 2) {
+      Object.values(store.families).forEach(family => {
+        family.chores = family.chores.map(chore => migrateChoreMembers(chore, family.members));
+        family.events = family.events.map(event => migrateEventMembers(event, family.members));
+        family.routines = family.routines.map(routine => migrateRoutineMembers(routine, family.members));
+        family.routineProgress = family.routineProgress.map(progress => migrateProgressMember(progress, family.members));
+      });
+      dataLogger.info('Migrated local data to member IDs');
+    }
+
+    if (store.version < 3) {
+      // Seed the ledger with each member's existing balance
+      Object.values(store.families).forEach(family => {
+        family.pointTransactions = family.members
+          .filter(member => member.points)
+          .map(member => ({
+            id: uuidv4(),
+            memberId: member.id,
+            amount: member.points,
+            source: 'manual_adjustment' as const,
+            reason: 'Opening balance',
+            createdAt: new Date().toISOString()
+          }));
+      });
+      dataLogger.info('Migrated local data to the points ledger');
+    }
+
+    if (store.version < 4) {
+      Object.values(store.families).forEach(family => {
+        family.rewardRedemptions = family.rewardRedemptions ?? [];
+      });
+    }
+
+    if (store.version < 5) {
+      Object.values(store.families).forEach(family => {
+        family.choreSeries = family.choreSeries ?? [];
+      });
+    }
+
+    store.version = STORE_VERSION;
+    this.store = store;
+    this.persist();
+    return store;
+  }
+
+  private persist(): void {
+    if (!this.store) return;
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify(this.store));
+    } catch (error) {
+      dataLogger.error('Error writing local data store', error as Error);
+    }
+  }
+
+  private ensureInitialized(): LocalStore {
+    if (!this.store) {
+      throw new Error('LocalDataService not initialized. Call initialize() first.');
+    }
+    return this.store;
+  }
+
+  private family(): LocalFamilyRecord {
+    const store = this.ensureInitialized();
+    const family = this.currentFamilyId ? store.families[this.currentFamilyId] : undefined;
+    if (!family) {
+      throw new Error('No family context available. Please ensure user has a family.');
+    }
+    return family;
+  }
+
+  // Apply a mutation to the current family and write the store back
+  private mutate<T>(change: (family: LocalFamilyRecord) => T): T {
+    const family = this.family();
+    const result = change(family);
+    family.details.updatedAt = new Date().toISOString();
+    this.persist();
+    return result;
+  }
+
+  private removeById<T extends { id: string }>(items: T[], id: string, label: string): T[] {
+    const remaining = items.filter(item => item.id !== id);
+    if (remaining.length === items.length) {
+      dataLogger.warn(`Local ${label} not found for delete`, { id });
+    }
+    return remaining;
+  }
+
+  private replaceById<T extends { id: string }>(items: T[], updated: T, label: string): T[] {
+    if (!items.some(item => item.id === updated.id)) {
+      throw new Error(`${label} with id ${updated.id} not found`);
+    }
+    return items.map(item => (item.id === updated.id ? { ...updated } : item));
+  }
+
+  // --- Family ---
+
+  async getFamilyDetails(): Promise<FamilyDetails> {
+    const family = this.family();
+    return { ...family.details, photoUrl: family.photoUrl ?? undefined };
+  }
+
+  // details.updatedAt moves with every local change, so it isn't used as a conflict check here
+  async saveFamilyDetails(details: FamilyDetails): Promise<FamilyDetails> {
+    this.mutate(family => {
+      family.details = {
+        ...family.details,
+        name: details.name,
+        address: details.address,
+        photoObjectPosition: details.photoObjectPosition
+      };
+    });
+    return { ...details, updatedAt: this.family().details.updatedAt };
+  }
+
+  async getFamilyPhoto(): Promise<string | null> {
+    return this.family().photoUrl;
+  }
+
+  async saveFamilyPhoto(photoDataUrl: string): Promise<void> {
+    this.mutate(family => {
+      family.photoUrl = photoDataUrl;
+    });
+  }
+
+  async createNewFamily(familyName: string, familyAddress?: string): Promise<FamilySummary | null> {
+    const store = this.ensureInitialized();
+    const family = createEmptyFamily(familyName, familyAddress);
+    store.families[family.details.id] = family;
+    this.setCurrentFamilyId(family.details.id);
+    dataLogger.info('New local family created', { familyId: family.details.id, name: familyName });
+    return { id: family.details.id, name: family.details.name, address: family.details.address };
+  }
+
+  async joinFamilyWithInviteCode(inviteCode: string): Promise<FamilySummary | null> {
+    const store = this.ensureInitialized();
+    const code = inviteCode.trim().toUpperCase();
+    const match = Object.values(store.families).find(f => f.details.inviteCode.toUpperCase() === code);
+    if (!match) {
+      throw new Error('Invalid invite code. Please check the code and try again.');
+    }
+    this.setCurrentFamilyId(match.details.id);
+    dataLogger.info('Joined local family', { familyName: match.details.name });
+    return { id: match.details.id, name: match.details.name, address: match.details.address };
+  }
+
+  // Whoever holds the device owns the local family
+  async getCurrentUserRole(): Promise<FamilyRole> {
+    return 'parent';
+  }
+
+  // Local families have no accounts, so there are no roles to change
+  async getFamilyMemberships(): Promise<FamilyMembership[]> {
+    return [];
+  }
+
+  async setMembershipRole(): Promise<FamilyMembership> {
+    throw new Error('Roles can only be changed when signed in.');
+  }
+
+  async hasParentPin(): Promise<boolean> {
+    return !!this.family().parentPinHash;
+  }
+
+  async setParentPin(pin: string | null, currentPin?: string): Promise<void> {
+    const family = this.family();
+    if (pin !== null && !isValidPin(pin)) {
+      throw new Error('The PIN must be 4 to 8 digits');
+    }
+    if (family.parentPinHash && !(currentPin && await pinMatches(currentPin, family.parentPinHash))) {
+      throw new Error('The current PIN is not correct');
+    }
+    family.parentPinHash = pin === null ? undefined : await hashPin(pin);
+    this.persist();
+  }
+
+  async verifyParentPin(pin: string): Promise<boolean> {
+    const { parentPinHash } = this.family();
+    return !parentPinHash || pinMatches(pin, parentPinHash);
+  }
+
+  // Local families have no accounts to link
+  async getMemberClaims(): Promise<MemberClaim[]> {
+    return [];
+  }
+
+  async requestMemberClaim(): Promise<MemberClaim> {
+    throw new Error('Profiles can only be claimed when signed in.');
+  }
+
+  async decideMemberClaim(): Promise<MemberClaim> {
+    throw new Error('Profiles can only be claimed when signed in.');
+  }
+
+  // --- Family members ---
+
+  async getFamilyMembers(): Promise<FamilyMember[]> {
+    return this.family().members.map(member => ({ ...member }));
+  }
+
+  async addFamilyMember(member: NewFamilyMember): Promise<FamilyMember> {
+    const created: FamilyMember = { ...member, id: uuidv4(), points: 0 }; // Points only change through the ledger
+    this.mutate(family => {
+      family.members.push(created);
+    });
+    return { ...created };
+  }
+
+  async updateFamilyMember(member: FamilyMember): Promise<FamilyMember> {
+    return this.mutate(family => {
+      const stored = family.members.find(m => m.id === member.id);
+      if (stored) assertNoConflict('familyMember', member, stored);
+      const saved = { ...member, points: stored?.points ?? 0, updatedAt: new Date().toISOString() };
+      family.members = this.replaceById(family.members, saved, 'Family member');
+      return { ...saved };
+    });
+  }
+
+  async deleteFamilyMember(id: string): Promise<void> {
+    this.mutate(family => {
+      family.members = this.removeById(family.members, id, 'family member');
+      family.routineProgress = family.routineProgress.filter(p => p.memberId !== id);
+      family.pointTransactions = family.pointTransactions.filter(t => t.memberId !== id);
+      family.rewardRedemptions = family.rewardRedemptions.filter(r => r.memberId !== id);
+      family.choreSeries.forEach(series => {
+        series.assignedTo = series.assignedTo.filter(memberId => memberId !== id);
+      });
+    });
+  }
+
+  // --- Points ledger ---
+
+  async getPointTransactions(memberId?: string): Promise<PointTransaction[]> {
+    return this.family().pointTransactions
+      .filter(transaction => !memberId || transaction.memberId === memberId)
+      .map(transaction => ({ ...transaction }))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async adjustMemberPoints(memberId: string, amount: number, reason: string): Promise<PointTransaction> {
+    return this.mutate(family =>
+      this.recordPoints(family, { memberId, amount, source: 'manual_adjustment', reason })
+    );
+  }
+
+  // Append a ledger entry and update the member's cached balance
+  private recordPoints(
+    family: LocalFamilyRecord,
+    entry: Omit<PointTransaction, 'id' | 'createdAt'>
+  ): PointTransaction {
+    const member = family.members.find(m => m.id === entry.memberId);
+    if (!member) throw new Error(`Family member with id ${entry.memberId} not found`);
+
+    const transaction: PointTransaction = { ...entry, id: uuidv4(), createdAt: new Date().toISOString() };
+    family.pointTransactions.push(transaction);
+    member.points = (member.points || 0) + entry.amount;
+    return transaction;
+  }
+
+  // --- Chores ---
+
+  async getChores(): Promise<Chore[]> {
+    const family = this.family();
+    // Occurrences show their series' current rule, like the Supabase join
+    const rules = new Map(family.choreSeries.map(series => [series.id, series.recurrence]));
+    return family.chores.map(chore => ({
+      ...chore,
+      assignedTo: [...chore.assignedTo],
+      recurrence: chore.seriesId ? rules.get(chore.seriesId) ?? null : null
+    }));
+  }
+
+  async addChore(chore: NewChore): Promise<Chore> {
+    const created: Chore = { ...chore, id: uuidv4(), assignedTo: [...chore.assignedTo] };
+    this.mutate(family => {
+      family.chores.push(created);
+    });
+    return { ...created };
+  }
+
+  async updateChore(chore: Chore): Promise<Chore> {
+    return this.mutate(family => {
+      const stored = family.chores.find(c => c.id === chore.id);
+      if (stored) assertNoConflict('chore', chore, stored);
+      const saved = { ...chore, updatedAt: new Date().toISOString() };
+      family.chores = this.replaceById(family.chores, saved, 'Chore');
+      return { ...saved };
+    });
+  }
+
+  async deleteChore(id: string): Promise<void> {
+    this.mutate(family => {
+      family.chores = this.removeById(family.chores, id, 'chore');
+    });
+  }
+
+  // --- Recurring chores ---
+
+  async generateRecurringChores(untilDate: string): Promise<Chore[]> {
+    if (!this.family().choreSeries.some(series => getPendingSeriesRange(series, untilDate))) return [];
+    return this.mutate(family =>
+      family.choreSeries.flatMap(series => this.generateOccurrences(family, series, untilDate))
+    );
+  }
+
+  async addChoreSeries(chore: NewChore, recurrence: RecurrenceRule): Promise<Chore[]> {
+    return this.mutate(family => {
+      const series: ChoreSeries = { ...createSeriesFromChore(chore, recurrence), id: uuidv4() };
+      family.choreSeries.push(series);
+      return this.generateOccurrences(family, series, getSeriesWindowEnd(series));
+    });
+  }
+
+  async updateChoreSeries(chore: Chore, recurrence: RecurrenceRule | null): Promise<Chore[]> {
+    return this.mutate(family => {
+      const series = this.findSeries(family, chore);
+      const replaced = getFutureOccurrences(family.chores, chore).filter(c => recurrence || c.id !== chore.id);
+      const keepsCurrent = !replaced.some(c => c.id === chore.id);
+      family.chores = family.chores.filter(c => !replaced.includes(c));
+      this.endSeries(family, series, chore);
+
+      if (!recurrence) {
+        // Stop repeating: this occurrence becomes a one-off
+        const detached: Chore = { ...chore, seriesId: null, occurrenceDate: null, recurrence: null };
+        family.chores = this.replaceById(family.chores, detached, 'Chore');
+        return [{ ...detached }];
+      }
+
+      // Occurrences with progress are kept as they are, so the new series starts after them
+      const updated = keepsCurrent ? [chore] : [];
+      if (keepsCurrent) family.chores = this.replaceById(family.chores, chore, 'Chore');
+      const startDate = keepsCurrent ? addDays(chore.dueDate, 1) : chore.dueDate;
+      const next: ChoreSeries = { ...createSeriesFromChore(chore, recurrence, startDate), id: uuidv4() };
+      family.choreSeries.push(next);
+      const windowEnd = getSeriesWindowEnd(next);
+      const untilDate = series.generatedUntil && series.generatedUntil > windowEnd ? series.generatedUntil : windowEnd;
+      return [...updated.map(c => ({ ...c })), ...this.generateOccurrences(family, next, untilDate)];
+    });
+  }
+
+  async deleteChoreSeries(chore: Chore): Promise<void> {
+    this.mutate(family => {
+      const series = this.findSeries(family, chore);
+      const removed = new Set([chore.id, ...getFutureOccurrences(family.chores, chore).map(c => c.id)]);
+      family.chores = family.chores.filter(c => !removed.has(c.id));
+      this.endSeries(family, series, chore);
+    });
+  }
+
+  private findSeries(family: LocalFamilyRecord, chore: Chore): ChoreSeries {
+    const series = family.choreSeries.find(s => s.id === chore.seriesId);
+    if (!series) throw new Error(`Chore series for chore ${chore.id} not found`);
+    return series;
+  }
+
+  // Stop a series before `from`'s occurrence, dropping it entirely if nothing is left
+  private endSeries(family: LocalFamilyRecord, series: ChoreSeries, from: Chore) {
+    const lastDate = addDays(from.occurrenceDate ?? from.dueDate, -1);
+    if (lastDate < series.startDate) {
+      family.choreSeries = family.choreSeries.filter(s => s.id !== series.id);
+      family.chores = family.chores.map(c => (c.seriesId === series.id ? { ...c, seriesId: null } : c));
+    } else {
+      series.recurrence = endRecurrence(series.recurrence, lastDate);
+    }
+  }
+
+  private generateOccurrences(family: LocalFamilyRecord, series: ChoreSeries, untilDate: string): Chore[] {
+    const range = getPendingSeriesRange(series, untilDate);
+    if (!range) return [];
+
+    const created: Chore[] = buildSeriesOccurrences(series, range.fromDate, range.untilDate)
+      .filter(o => !family.chores.some(c => c.seriesId === series.id && c.occurrenceDate === o.occurrenceDate))
+      .map(occurrence => ({ ...occurrence, id: uuidv4() }));
+    family.chores.push(...created);
+    series.generatedUntil = untilDate;
+    return created.map(chore => ({ ...chore, assignedTo: [...chore.assignedTo] }));
+  }
+
+  // Completion and its points award are applied in a single write, like the Supabase RPC
+  async completeChore(choreId: string, memberId?: string): Promise<ChoreCompletionResult> {
+    return this.mutate(family => {
+      const chore = family.chores.find(c => c.id === choreId);
+      if (!chore) throw new Error(`Chore with id ${choreId} not found`);
+
+      const result = completeChoreFor(chore, memberId);
+      this.applyCompletion(family, result, chore.title);
+      return result;
+    });
+  }
+
+  async uncompleteChore(choreId: string, memberId?: string): Promise<ChoreCompletionResult> {
+    return this.mutate(family => {
+      const chore = family.chores.find(c => c.id === choreId);
+      if (!chore) throw new Error(`Chore with id ${choreId} not found`);
+
+      const result = uncompleteChoreFor(chore, memberId);
+      this.applyCompletion(family, result, `Reopened: ${chore.title}`);
+      return result;
+    });
+  }
+
+  private applyCompletion(family: LocalFamilyRecord, result: ChoreCompletionResult, reason: string) {
+    if (result.alreadyApplied) return;
+    family.chores = this.replaceById(family.chores, result.chore, 'Chore');
+    result.awards
+      .filter(award => award.points !== 0 && family.members.some(m => m.id === award.memberId))
+      .forEach(award => this.recordPoints(family, {
+        memberId: award.memberId,
+        amount: award.points,
+        source: 'chore',
+        reason,
+        referenceId: result.chore.id
+      }));
+  }
+
+  async getChoreTypes(): Promise<ChoreType[]> {
+    return this.family().choreTypes.map(type => ({ ...type }));
+  }
+
+  async updateChoreTypes(choreTypes: ChoreType[], reassignments: Record<string, string | null> = {}): Promise<ChoreType[]> {
+    const saved = choreTypes.map(type => ({ ...type, id: type.id || uuidv4() }));
+    const keptIds = new Set(saved.map(type => type.id));
+    this.mutate(family => {
+      const now = new Date().toISOString();
+      const removedIds = new Set(family.choreTypes.map(type => type.id).filter(id => !keptIds.has(id)));
+      family.chores.forEach(chore => {
+        if (chore.choreTypeId && removedIds.has(chore.choreTypeId)) {
+          chore.choreTypeId = reassignments[chore.choreTypeId] ?? null;
+          chore.updatedAt = now;
+        }
+      });
+      family.choreSeries.forEach(series => {
+        if (series.choreTypeId && removedIds.has(series.choreTypeId)) {
+          series.choreTypeId = reassignments[series.choreTypeId] ?? null;
+        }
+      });
+      family.choreTypes = saved;
+    });
+    return saved.map(type => ({ ...type }));
+  }
+
+  // --- Events ---
+
+  async getEvents(): Promise<EventItem[]> {
+    return this.family().events
+      .map(event => ({ ...event, attendees: [...event.attendees], exceptions: event.exceptions?.map(e => ({ ...e })) }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async addEvent(event: Omit<EventItem, 'id'>): Promise<EventItem> {
+    const created: EventItem = { ...event, id: uuidv4(), attendees: [...event.attendees] };
+    this.mutate(family => {
+      family.events.push(created);
+    });
+    return { ...created };
+  }
+
+  async updateEvent(event: EventItem): Promise<EventItem> {
+    return this.mutate(family => {
+      const stored = family.events.find(e => e.id === event.id);
+      if (stored) assertNoConflict('event', event, stored);
+      const saved = { ...event, updatedAt: new Date().toISOString() };
+      family.events = this.replaceById(family.events, saved, 'Event');
+      return { ...saved };
+    });
+  }
+
+  async deleteEvent(id: string): Promise<void> {
+    this.mutate(family => {
+      family.events = this.removeById(family.events, id, 'event');
+    });
+  }
+
+  // --- Rewards ---
+
+  async getRewards(): Promise<Reward[]> {
+    return this.family().rewards.map(reward => ({ ...reward }));
+  }
+
+  async addReward(reward: NewReward): Promise<Reward> {
+    const created: Reward = { ...reward, id: uuidv4(), available: reward.available ?? true };
+    this.mutate(family => {
+      family.rewards.push(created);
+    });
+    return { ...created };
+  }
+
+  async updateReward(reward: Reward): Promise<void> {
+    this.mutate(family => {
+      family.rewards = this.replaceById(family.rewards, reward, 'Reward');
+    });
+  }
+
+  async deleteReward(id: string): Promise<void> {
+    this.mutate(family => {
+      family.rewards = this.removeById(family.rewards, id, 'reward');
+    });
+  }
+
+  async getRewardRedemptions(): Promise<RewardRedemption[]> {
+    return this.family().rewardRedemptions
+      .map(redemption => ({ ...redemption }))
+      .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt));
+  }
+
+  async requestRewardRedemption(rewardId: string, memberId: string): Promise<RewardRedemption> {
+    return this.mutate(family => {
+      const reward = family.rewards.find(r => r.id === rewardId);
+      if (!reward) throw new Error(`Reward with id ${rewardId} not found`);
+      if (reward.available === false) throw new Error('This reward is not available right now');
+      const member = family.members.find(m => m.id === memberId);
+      if (!member) throw new Error(`Family member with id ${memberId} not found`);
+      if (member.points < reward.cost) throw new Error('Not enough points for this reward');
+
+      const redemption: RewardRedemption = {
+        id: uuidv4(),
+        rewardId,
+        memberId,
+        rewardTitle: reward.title,
+        cost: reward.cost,
+        status: 'pending',
+        requestedAt: new Date().toISOString()
+      };
+      family.rewardRedemptions.push(redemption);
+      return { ...redemption };
+    });
+  }
+
+  // The local backend has no accounts, so there is no parent check here
+  async decideRewardRedemption(redemptionId: string, approve: boolean, note?: string): Promise<RewardRedemption> {
+    return this.mutate(family => {
+      const redemption = family.rewardRedemptions.find(r => r.id === redemptionId);
+      if (!redemption) throw new Error(`Reward request with id ${redemptionId} not found`);
+      if (redemption.status !== 'pending') return { ...redemption };
+
+      if (approve) {
+        const member = family.members.find(m => m.id === redemption.memberId);
+        if (!member || member.points < redemption.cost) {
+          throw new Error('Not enough points for this reward');
+        }
+        if (redemption.cost > 0) {
+          this.recordPoints(family, {
+            memberId: redemption.memberId,
+            amount: -redemption.cost,
+            source: 'reward_redemption',
+            reason: redemption.rewardTitle,
+            referenceId: redemption.id
+          });
+        }
+      }
+
+      redemption.status = approve ? 'approved' : 'denied';
+      redemption.decidedAt = new Date().toISOString();
+      redemption.decisionNote = note ?? null;
+      return { ...redemption };
+    });
+  }
+
+  // --- Routines ---
+
+  async getRoutines(): Promise<Routine[]> {
+    return this.family().routines.map(routine => ({
+      ...routine,
+      appliesToMemberIds: [...routine.appliesToMemberIds],
+      steps: routine.steps.map(step => ({ ...step }))
+    }));
+  }
+
+  async addRoutine(routine: Omit<Routine, 'id'>): Promise<Routine> {
+    const created: Routine = { ...routine, id: uuidv4() };
+    this.mutate(family => {
+      family.routines.push(created);
+    });
+    return { ...created };
+  }
+
+  async updateRoutine(routine: Routine): Promise<void> {
+    this.mutate(family => {
+      family.routines = this.replaceById(family.routines, routine, 'Routine');
+    });
+  }
+
+  async updateRoutines(routines: Routine[]): Promise<Routine[]> {
+    const saved = routines.map(routine => ({ ...routine, id: routine.id || uuidv4() }));
+    this.mutate(family => {
+      const keptIds = new Set(saved.map(routine => routine.id));
+      family.routines = saved;
+      family.routineProgress = family.routineProgress.filter(p => keptIds.has(p.routineId));
+    });
+    return this.getRoutines();
+  }
+
+  async deleteRoutine(id: string): Promise<void> {
+    this.mutate(family => {
+      family.routines = this.removeById(family.routines, id, 'routine');
+      family.routineProgress = family.routineProgress.filter(p => p.routineId !== id);
+    });
+  }
+
+  async getDailyRoutineProgress(date: string): Promise<DailyRoutineProgress[]> {
+    return this.family().routineProgress
+      .filter(progress => progress.date === date)
+      .map(progress => ({ ...progress, completedStepIds: [...progress.completedStepIds] }));
+  }
+
+  async upsertDailyRoutineProgress(progress: DailyRoutineProgress): Promise<void> {
+    this.mutate(family => {
+      const matches = (p: DailyRoutineProgress) =>
+        p.memberId === progress.memberId && p.routineId === progress.routineId && p.date === progress.date;
+      const record = { ...progress, completedStepIds: [...progress.completedStepIds] };
+      const index = family.routineProgress.findIndex(matches);
+      if (index >= 0) {
+        family.routineProgress[index] = record;
+      } else {
+        family.routineProgress.push(record);
+      }
+    });
+  }
+
+  async setRoutineStep(memberId: string, routineId: string, date: string, stepId: string, done: boolean): Promise<RoutineStepResult> {
+    return this.mutate(family => {
+      const routine = family.routines.find(r => r.id === routineId);
+      if (!routine) throw new Error(`Routine with id ${routineId} not found`);
+
+      const matches = (p: DailyRoutineProgress) =>
+        p.memberId === memberId && p.routineId === routineId && p.date === date;
+      const result = setRoutineStepFor(routine, family.routineProgress.find(matches), memberId, date, stepId, done);
+      if (result.alreadyApplied) return result;
+
+      family.routineProgress = [
+        ...family.routineProgress.filter(p => !matches(p)),
+        { ...result.progress, completedStepIds: [...result.progress.completedStepIds] }
+      ];
+      if (result.pointsDelta !== 0) {
+        this.recordPoints(family, {
+          memberId,
+          amount: result.pointsDelta,
+          source: 'routine',
+          reason: result.pointsDelta > 0 ? routine.name : `Undone: ${routine.name}`,
+          referenceId: routineId
+        });
+      }
+      return result;
+    });
+  }
+
+  // --- App settings ---
+
+  async getActiveTab(): Promise<TabId | null> {
+    return this.store?.activeTab ?? null;
+  }
+
+  async saveActiveTab(tabId: TabId): Promise<void> {
+    const store = this.ensureInitialized();
+    store.activeTab = tabId;
+    this.persist();
+  }
+
+  async getServiceInfo(): Promise<ServiceInfo> {
+    return {
+      type: 'local',
+      version: '1.0.0',
+      status: 'active'
+    };
+  }
+}
+
+dataLogger.info('LocalDataService loaded');
@@ -0,0 +1,60 @@
+-- Multi-assignee chores
+-- Replaces the single chores.assigned_to_id with a chore_assignments join table
+-- and adds per-chore completion and points modes:
+--   completion_mode 'any'  - the chore is done as soon as one assignee completes it
+--   completion_mode 'each' - every assignee must complete their own assignment
+--   points_mode 'duplicate' - every credited assignee earns the full points
+--   points_mode 'split'     - the points are divided between the assignees
+
+-- 1. Completion and points modes on chores
+ALTER TABLE chores
+  ADD COLUMN completion_mode TEXT NOT NULL DEFAULT 'any' CHECK (completion_mode IN ('any', 'each')),
+  ADD COLUMN points_mode TEXT NOT NULL DEFAULT 'duplicate' CHECK (points_mode IN ('split', 'duplicate'));
+
+COMMENT ON COLUMN chores.completion_mode IS 'any = one assignee completing finishes the chore, each = every assignee must complete it';
+COMMENT ON COLUMN chores.points_mode IS 'split = points divided between assignees, duplicate = each credited assignee earns the full points';
+
+-- 2. Assignment table (family_id is denormalised for RLS and realtime filtering)
+CREATE TABLE chore_assignments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  chore_id UUID NOT NULL REFERENCES chores(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES family_members(id) ON DELETE CASCADE,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(chore_id, member_id)
+);
+
+CREATE INDEX idx_chore_assignments_family_id ON chore_assignments(family_id);
+CREATE INDEX idx_chore_assignments_member_id ON chore_assignments(member_id);
+
+CREATE TRIGGER update_chore_assignments_updated_at BEFORE UPDATE ON chore_assignments
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. Backfill from the legacy single-assignee column
+INSERT INTO chore_assignments (family_id, chore_id, member_id, completed_at)
+SELECT c.family_id, c.id, c.assigned_to_id,
+       CASE WHEN c.status = 'completed' THEN COALESCE(c.updated_at, NOW()) END
+FROM chores c
+WHERE c.assigned_to_id IS NOT NULL
+ON CONFLICT (chore_id, member_id) DO NOTHING;
+
+-- assigned_to_id is kept (first assignee) so older clients keep working
+
+-- 4. RLS
+ALTER TABLE chore_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage chore assignments" ON chore_assignments
+  FOR ALL
+  TO authenticated
+  USING (family_id = ANY(get_user_family_ids()))
+  WITH CHECK (family_id = ANY(get_user_family_ids()));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON chore_assignments TO authenticated;
+
+-- 5. Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE chore_assignments;
+
+-- Comments
+COMMENT ON TABLE chore_assignments IS 'Many-to-many link between chores and family members, with per-assignee completion';
@@ -0,0 +1,266 @@
+-- Atomic chore completion
+-- complete_chore / uncomplete_chore change a chore's status and credit (or reverse) member
+-- points in one transaction. Both are idempotent: repeating a call changes nothing, so two
+-- parents tapping at once or a replayed offline mutation can't double-award points.
+
+-- 1. Track what each assignee was credited so un-completing reverses it exactly
+ALTER TABLE chore_assignments
+  ADD COLUMN points_awarded INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN chore_assignments.points_awarded IS 'Points credited to this member for the chore; reversed when the chore is un-completed';
+
+-- 2. Complete a chore as one of its assignees (shared 'any' chores default to the first assignee)
+CREATE OR REPLACE FUNCTION complete_chore(
+  chore_uuid UUID,
+  member_uuid UUID DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  chore_record RECORD;
+  completer_id UUID;
+  assignee_count INTEGER;
+  chore_points INTEGER;
+  is_completed BOOLEAN;
+  awards_result JSON;
+BEGIN
+  -- Ensure user is authenticated
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the chore so concurrent completions run one after the other
+  SELECT * INTO chore_record
+  FROM public.chores
+  WHERE id = chore_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_belongs_to_family(chore_record.family_id) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'CHORE_NOT_FOUND',
+      'message', 'Chore not found'
+    );
+  END IF;
+
+  chore_points := COALESCE(chore_record.points, 0);
+
+  SELECT COUNT(*) INTO assignee_count
+  FROM public.chore_assignments
+  WHERE chore_id = chore_uuid;
+
+  -- Unassigned chores just change status
+  IF assignee_count = 0 THEN
+    IF chore_record.status <> 'completed' THEN
+      UPDATE public.chores SET status = 'completed' WHERE id = chore_uuid;
+    END IF;
+    RETURN json_build_object(
+      'success', true,
+      'already_applied', chore_record.status = 'completed',
+      'completed', true,
+      'awards', '[]'::json
+    );
+  END IF;
+
+  -- Each assignee finishes 'each' chores separately, so the caller must say who; guessing the
+  -- next one to finish would complete a different assignee every time the call is repeated
+  IF member_uuid IS NULL AND chore_record.completion_mode = 'each' THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'MEMBER_REQUIRED',
+      'message', 'Choose which assignee completed this chore'
+    );
+  END IF;
+
+  completer_id := COALESCE(member_uuid, (
+    SELECT member_id
+    FROM public.chore_assignments
+    WHERE chore_id = chore_uuid
+    ORDER BY (completed_at IS NOT NULL), created_at, id
+    LIMIT 1
+  ));
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.chore_assignments
+    WHERE chore_id = chore_uuid AND member_id = completer_id
+  ) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'NOT_ASSIGNED',
+      'message', 'Member is not assigned to this chore'
+    );
+  END IF;
+
+  -- Already done - nothing to credit
+  IF (chore_record.completion_mode = 'any' AND chore_record.status = 'completed')
+    OR (chore_record.completion_mode = 'each' AND EXISTS (
+      SELECT 1 FROM public.chore_assignments
+      WHERE chore_id = chore_uuid AND member_id = completer_id AND completed_at IS NOT NULL
+    )) THEN
+    RETURN json_build_object(
+      'success', true,
+      'already_applied', true,
+      'completed', chore_record.status = 'completed',
+      'member_id', completer_id,
+      'awards', '[]'::json
+    );
+  END IF;
+
+  -- Credit the completer (or every assignee for shared 'any' chores); split points
+  -- give the remainder to the earliest assignees so the total is preserved
+  WITH ordered AS (
+    SELECT id, member_id, ROW_NUMBER() OVER (ORDER BY created_at, id) - 1 AS seat
+    FROM public.chore_assignments
+    WHERE chore_id = chore_uuid
+  ), credited AS (
+    SELECT id, member_id,
+      CASE
+        WHEN chore_record.points_mode = 'split' AND assignee_count > 1 THEN
+          chore_points / assignee_count
+            + CASE WHEN seat < chore_points % assignee_count THEN 1 ELSE 0 END
+        ELSE chore_points
+      END AS points
+    FROM ordered
+    WHERE member_id = completer_id
+      OR (chore_record.completion_mode = 'any' AND chore_record.points_mode = 'split')
+  ), updated_assignments AS (
+    UPDATE public.chore_assignments ca
+    SET points_awarded = ca.points_awarded + credited.points,
+        completed_at = CASE WHEN ca.member_id = completer_id THEN NOW() ELSE ca.completed_at END
+    FROM credited
+    WHERE ca.id = credited.id
+    RETURNING ca.member_id, credited.points
+  ), updated_members AS (
+    UPDATE public.family_members fm
+    SET points = COALESCE(fm.points, 0) + updated_assignments.points
+    FROM updated_assignments
+    WHERE fm.id = updated_assignments.member_id
+    RETURNING fm.id, updated_assignments.points
+  )
+  SELECT COALESCE(json_agg(json_build_object('member_id', id, 'points', points)), '[]'::json)
+  INTO awards_result
+  FROM updated_members;
+
+  -- 'any' chores finish now; 'each' chores once every assignment is complete
+  UPDATE public.chores
+  SET status = 'completed'
+  WHERE id = chore_uuid
+    AND (chore_record.completion_mode = 'any' OR NOT EXISTS (
+      SELECT 1 FROM public.chore_assignments
+      WHERE chore_id = chore_uuid AND completed_at IS NULL
+    ));
+  is_completed := FOUND;
+
+  RETURN json_build_object(
+    'success', true,
+    'already_applied', false,
+    'completed', is_completed,
+    'member_id', completer_id,
+    'awards', awards_result
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to complete chore'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+-- 3. Reverse a completion. 'each' chores can be reopened for one assignee;
+-- otherwise the whole chore is reopened and every award is taken back
+CREATE OR REPLACE FUNCTION uncomplete_chore(
+  chore_uuid UUID,
+  member_uuid UUID DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  chore_record RECORD;
+  awards_result JSON;
+BEGIN
+  -- Ensure user is authenticated
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO chore_record
+  FROM public.chores
+  WHERE id = chore_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_belongs_to_family(chore_record.family_id) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'CHORE_NOT_FOUND',
+      'message', 'Chore not found'
+    );
+  END IF;
+
+  -- Nothing completed - nothing to reverse
+  IF chore_record.status <> 'completed' AND NOT EXISTS (
+    SELECT 1 FROM public.chore_assignments
+    WHERE chore_id = chore_uuid
+      AND (completed_at IS NOT NULL OR points_awarded <> 0)
+      AND (member_uuid IS NULL OR chore_record.completion_mode = 'any' OR member_id = member_uuid)
+  ) THEN
+    RETURN json_build_object(
+      'success', true,
+      'already_applied', true,
+      'completed', false,
+      'awards', '[]'::json
+    );
+  END IF;
+
+  WITH reversed AS (
+    SELECT id, member_id, points_awarded
+    FROM public.chore_assignments
+    WHERE chore_id = chore_uuid
+      AND (completed_at IS NOT NULL OR points_awarded <> 0)
+      AND (member_uuid IS NULL OR chore_record.completion_mode = 'any' OR member_id = member_uuid)
+  ), cleared AS (
+    UPDATE public.chore_assignments ca
+    SET completed_at = NULL,
+        points_awarded = 0
+    FROM reversed
+    WHERE ca.id = reversed.id
+    RETURNING ca.member_id, reversed.points_awarded
+  ), updated_members AS (
+    UPDATE public.family_members fm
+    SET points = COALESCE(fm.points, 0) - cleared.points_awarded
+    FROM cleared
+    WHERE fm.id = cleared.member_id AND cleared.points_awarded <> 0
+    RETURNING fm.id, -cleared.points_awarded AS points
+  )
+  SELECT COALESCE(json_agg(json_build_object('member_id', id, 'points', points)), '[]'::json)
+  INTO awards_result
+  FROM updated_members;
+
+  UPDATE public.chores SET status = 'pending' WHERE id = chore_uuid;
+
+  RETURN json_build_object(
+    'success', true,
+    'already_applied', false,
+    'completed', false,
+    'awards', awards_result
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to un-complete chore'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+-- Grant permissions for the new functions
+GRANT EXECUTE ON FUNCTION complete_chore(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION uncomplete_chore(UUID, UUID) TO authenticated;
+
+-- Comments for documentation
+COMMENT ON FUNCTION complete_chore(UUID, UUID) IS 'Marks a chore (or one assignment) complete and credits points atomically; safe to call repeatedly';
+COMMENT ON FUNCTION uncomplete_chore(UUID, UUID) IS 'Reopens a chore (or one assignment) and reverses the points it awarded; safe to call repeatedly';
@@ -0,0 +1,364 @@
+-- Points ledger
+-- Every change to a member's points is recorded in point_transactions (chore, routine,
+-- reward redemption or manual adjustment, with a reason and the acting user).
+-- family_members.points becomes a balance cache maintained from the ledger by trigger;
+-- direct writes to it are ignored.
+
+-- 1. Ledger table
+CREATE TABLE point_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES family_members(id) ON DELETE CASCADE,
+  amount INTEGER NOT NULL CHECK (amount <> 0),
+  source TEXT NOT NULL CHECK (source IN ('chore', 'routine', 'reward_redemption', 'manual_adjustment')),
+  reason TEXT NOT NULL DEFAULT '',
+  reference_id UUID, -- Chore, routine or redemption the entry came from
+  actor_user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_point_transactions_family_id ON point_transactions(family_id);
+CREATE INDEX idx_point_transactions_member_created ON point_transactions(member_id, created_at DESC);
+CREATE INDEX idx_point_transactions_actor_user_id ON point_transactions(actor_user_id);
+
+-- 2. Opening balances, so the ledger sums to the points members already have
+INSERT INTO point_transactions (family_id, member_id, amount, source, reason, actor_user_id)
+SELECT family_id, id, points, 'manual_adjustment', 'Opening balance', NULL
+FROM family_members
+WHERE COALESCE(points, 0) <> 0;
+
+-- 3. Keep family_members.points in step with the ledger
+CREATE OR REPLACE FUNCTION apply_point_transaction()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.family_members
+  SET points = COALESCE(points, 0) + NEW.amount
+  WHERE id = NEW.member_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+CREATE TRIGGER apply_point_transaction AFTER INSERT ON point_transactions
+  FOR EACH ROW EXECUTE FUNCTION apply_point_transaction();
+
+-- Only the ledger trigger (nested, so trigger depth > 1) may change the balance
+CREATE OR REPLACE FUNCTION protect_member_points()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF pg_trigger_depth() < 2 THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.points := 0;
+    ELSE
+      NEW.points := OLD.points;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = '';
+
+CREATE TRIGGER protect_member_points BEFORE INSERT OR UPDATE ON family_members
+  FOR EACH ROW EXECUTE FUNCTION protect_member_points();
+
+-- 4. Balances derived from the ledger
+CREATE VIEW member_point_balances
+WITH (security_invoker = true) AS
+SELECT fm.family_id, fm.id AS member_id, COALESCE(SUM(pt.amount), 0)::INTEGER AS balance
+FROM family_members fm
+LEFT JOIN point_transactions pt ON pt.member_id = fm.id
+GROUP BY fm.family_id, fm.id;
+
+-- 5. RLS - the ledger is append-only; clients may only add manual adjustments, and only parents
+CREATE OR REPLACE FUNCTION user_has_family_role(family_uuid UUID, allowed_roles TEXT[])
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.family_memberships
+    WHERE user_id = auth.uid()
+    AND family_id = family_uuid
+    AND role = ANY(allowed_roles)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+ALTER TABLE point_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view family point transactions" ON point_transactions
+  FOR SELECT
+  TO authenticated
+  USING (family_id = ANY(get_user_family_ids()));
+
+CREATE POLICY "Parents can add manual point adjustments" ON point_transactions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_has_family_role(family_id, ARRAY['parent'])
+    AND source = 'manual_adjustment'
+    AND actor_user_id = (SELECT auth.uid())
+  );
+
+GRANT SELECT, INSERT ON point_transactions TO authenticated;
+GRANT SELECT ON member_point_balances TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE point_transactions;
+
+-- 6-7. Chore completion now credits and reverses points through the ledger
+
+-- 6. Complete a chore as one of its assignees (shared 'any' chores default to the first assignee)
+CREATE OR REPLACE FUNCTION complete_chore(
+  chore_uuid UUID,
+  member_uuid UUID DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  chore_record RECORD;
+  completer_id UUID;
+  assignee_count INTEGER;
+  chore_points INTEGER;
+  is_completed BOOLEAN;
+  awards_result JSON;
+BEGIN
+  -- Ensure user is authenticated
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Lock the chore so concurrent completions run one after the other
+  SELECT * INTO chore_record
+  FROM public.chores
+  WHERE id = chore_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_belongs_to_family(chore_record.family_id) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'CHORE_NOT_FOUND',
+      'message', 'Chore not found'
+    );
+  END IF;
+
+  chore_points := COALESCE(chore_record.points, 0);
+
+  SELECT COUNT(*) INTO assignee_count
+  FROM public.chore_assignments
+  WHERE chore_id = chore_uuid;
+
+  -- Unassigned chores just change status
+  IF assignee_count = 0 THEN
+    IF chore_record.status <> 'completed' THEN
+      UPDATE public.chores SET status = 'completed' WHERE id = chore_uuid;
+    END IF;
+    RETURN json_build_object(
+      'success', true,
+      'already_applied', chore_record.status = 'completed',
+      'completed', true,
+      'awards', '[]'::json
+    );
+  END IF;
+
+  -- Each assignee finishes 'each' chores separately, so the caller must say who; guessing the
+  -- next one to finish would complete a different assignee every time the call is repeated
+  IF member_uuid IS NULL AND chore_record.completion_mode = 'each' THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'MEMBER_REQUIRED',
+      'message', 'Choose which assignee completed this chore'
+    );
+  END IF;
+
+  completer_id := COALESCE(member_uuid, (
+    SELECT member_id
+    FROM public.chore_assignments
+    WHERE chore_id = chore_uuid
+    ORDER BY (completed_at IS NOT NULL), created_at, id
+    LIMIT 1
+  ));
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.chore_assignments
+    WHERE chore_id = chore_uuid AND member_id = completer_id
+  ) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'NOT_ASSIGNED',
+      'message', 'Member is not assigned to this chore'
+    );
+  END IF;
+
+  -- Already done - nothing to credit
+  IF (chore_record.completion_mode = 'any' AND chore_record.status = 'completed')
+    OR (chore_record.completion_mode = 'each' AND EXISTS (
+      SELECT 1 FROM public.chore_assignments
+      WHERE chore_id = chore_uuid AND member_id = completer_id AND completed_at IS NOT NULL
+    )) THEN
+    RETURN json_build_object(
+      'success', true,
+      'already_applied', true,
+      'completed', chore_record.status = 'completed',
+      'member_id', completer_id,
+      'awards', '[]'::json
+    );
+  END IF;
+
+  -- Credit the completer (or every assignee for shared 'any' chores); split points
+  -- give the remainder to the earliest assignees so the total is preserved
+  WITH ordered AS (
+    SELECT id, member_id, ROW_NUMBER() OVER (ORDER BY created_at, id) - 1 AS seat
+    FROM public.chore_assignments
+    WHERE chore_id = chore_uuid
+  ), credited AS (
+    SELECT id, member_id,
+      CASE
+        WHEN chore_record.points_mode = 'split' AND assignee_count > 1 THEN
+          chore_points / assignee_count
+            + CASE WHEN seat < chore_points % assignee_count THEN 1 ELSE 0 END
+        ELSE chore_points
+      END AS points
+    FROM ordered
+    WHERE member_id = completer_id
+      OR (chore_record.completion_mode = 'any' AND chore_record.points_mode = 'split')
+  ), updated_assignments AS (
+    UPDATE public.chore_assignments ca
+    SET points_awarded = ca.points_awarded + credited.points,
+        completed_at = CASE WHEN ca.member_id = completer_id THEN NOW() ELSE ca.completed_at END
+    FROM credited
+    WHERE ca.id = credited.id
+    RETURNING ca.member_id, credited.points
+  ), ledger AS (
+    INSERT INTO public.point_transactions (family_id, member_id, amount, source, reason, reference_id)
+    SELECT chore_record.family_id, updated_assignments.member_id, updated_assignments.points,
+           'chore', chore_record.title, chore_uuid
+    FROM updated_assignments
+    WHERE updated_assignments.points <> 0
+    RETURNING member_id, amount
+  )
+  SELECT COALESCE(json_agg(json_build_object('member_id', member_id, 'points', amount)), '[]'::json)
+  INTO awards_result
+  FROM ledger;
+
+  -- 'any' chores finish now; 'each' chores once every assignment is complete
+  UPDATE public.chores
+  SET status = 'completed'
+  WHERE id = chore_uuid
+    AND (chore_record.completion_mode = 'any' OR NOT EXISTS (
+      SELECT 1 FROM public.chore_assignments
+      WHERE chore_id = chore_uuid AND completed_at IS NULL
+    ));
+  is_completed := FOUND;
+
+  RETURN json_build_object(
+    'success', true,
+    'already_applied', false,
+    'completed', is_completed,
+    'member_id', completer_id,
+    'awards', awards_result
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to complete chore'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+-- 7. Reverse a completion. 'each' chores can be reopened for one assignee;
+-- otherwise the whole chore is reopened and every award is taken back
+CREATE OR REPLACE FUNCTION uncomplete_chore(
+  chore_uuid UUID,
+  member_uuid UUID DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  chore_record RECORD;
+  awards_result JSON;
+BEGIN
+  -- Ensure user is authenticated
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO chore_record
+  FROM public.chores
+  WHERE id = chore_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_belongs_to_family(chore_record.family_id) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'CHORE_NOT_FOUND',
+      'message', 'Chore not found'
+    );
+  END IF;
+
+  -- Nothing completed - nothing to reverse
+  IF chore_record.status <> 'completed' AND NOT EXISTS (
+    SELECT 1 FROM public.chore_assignments
+    WHERE chore_id = chore_uuid
+      AND (completed_at IS NOT NULL OR points_awarded <> 0)
+      AND (member_uuid IS NULL OR chore_record.completion_mode = 'any' OR member_id = member_uuid)
+  ) THEN
+    RETURN json_build_object(
+      'success', true,
+      'already_applied', true,
+      'completed', false,
+      'awards', '[]'::json
+    );
+  END IF;
+
+  WITH reversed AS (
+    SELECT id, member_id, points_awarded
+    FROM public.chore_assignments
+    WHERE chore_id = chore_uuid
+      AND (completed_at IS NOT NULL OR points_awarded <> 0)
+      AND (member_uuid IS NULL OR chore_record.completion_mode = 'any' OR member_id = member_uuid)
+  ), cleared AS (
+    UPDATE public.chore_assignments ca
+    SET completed_at = NULL,
+        points_awarded = 0
+    FROM reversed
+    WHERE ca.id = reversed.id
+    RETURNING ca.member_id, reversed.points_awarded
+  ), ledger AS (
+    INSERT INTO public.point_transactions (family_id, member_id, amount, source, reason, reference_id)
+    SELECT chore_record.family_id, cleared.member_id, -cleared.points_awarded,
+           'chore', 'Reopened: ' || chore_record.title, chore_uuid
+    FROM cleared
+    WHERE cleared.points_awarded <> 0
+    RETURNING member_id, amount
+  )
+  SELECT COALESCE(json_agg(json_build_object('member_id', member_id, 'points', amount)), '[]'::json)
+  INTO awards_result
+  FROM ledger;
+
+  UPDATE public.chores SET status = 'pending' WHERE id = chore_uuid;
+
+  RETURN json_build_object(
+    'success', true,
+    'already_applied', false,
+    'completed', false,
+    'awards', awards_result
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to un-complete chore'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+-- Comments
+COMMENT ON TABLE point_transactions IS 'Append-only ledger of every points change; member balances are derived from it';
+COMMENT ON COLUMN family_members.points IS 'Balance cache maintained from point_transactions - do not write directly';
+COMMENT ON VIEW member_point_balances IS 'Per-member points balance summed from the ledger';
+COMMENT ON FUNCTION user_has_family_role(UUID, TEXT[]) IS 'Whether the current user belongs to the family with one of the given membership roles';
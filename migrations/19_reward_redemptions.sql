@@ -0,0 +1,233 @@
+-- Reward redemption workflow
+-- Kids request a reward, a parent approves or denies it, and approval deducts the
+-- reward's cost through the points ledger. Requests and decisions go through RPCs so
+-- the balance check and the deduction happen in one transaction.
+
+-- 1. Redemption requests
+CREATE TABLE reward_redemptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  reward_id UUID REFERENCES rewards(id) ON DELETE SET NULL,
+  member_id UUID NOT NULL REFERENCES family_members(id) ON DELETE CASCADE,
+  reward_title TEXT NOT NULL, -- Snapshot so history survives the reward being edited or deleted
+  cost INTEGER NOT NULL CHECK (cost >= 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'denied')),
+  requested_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  decided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  decided_at TIMESTAMPTZ,
+  decision_note TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_reward_redemptions_family_created ON reward_redemptions(family_id, created_at DESC);
+CREATE INDEX idx_reward_redemptions_member_id ON reward_redemptions(member_id);
+CREATE INDEX idx_reward_redemptions_reward_id ON reward_redemptions(reward_id);
+CREATE INDEX idx_reward_redemptions_requested_by ON reward_redemptions(requested_by);
+CREATE INDEX idx_reward_redemptions_decided_by ON reward_redemptions(decided_by);
+
+CREATE TRIGGER update_reward_redemptions_updated_at BEFORE UPDATE ON reward_redemptions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. RLS - rows are only written through the RPCs below
+ALTER TABLE reward_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view family reward redemptions" ON reward_redemptions
+  FOR SELECT
+  TO authenticated
+  USING (family_id = ANY(get_user_family_ids()));
+
+GRANT SELECT ON reward_redemptions TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE reward_redemptions;
+
+-- 3. Request a reward on behalf of a family member
+CREATE OR REPLACE FUNCTION request_reward_redemption(
+  reward_uuid UUID,
+  member_uuid UUID
+)
+RETURNS JSON AS $$
+DECLARE
+  reward_record RECORD;
+  member_record RECORD;
+  new_redemption RECORD;
+BEGIN
+  -- Ensure user is authenticated
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO reward_record
+  FROM public.rewards
+  WHERE id = reward_uuid;
+
+  IF NOT FOUND OR NOT public.user_belongs_to_family(reward_record.family_id) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'REWARD_NOT_FOUND',
+      'message', 'Reward not found'
+    );
+  END IF;
+
+  IF reward_record.available IS FALSE THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'REWARD_UNAVAILABLE',
+      'message', 'This reward is not available right now'
+    );
+  END IF;
+
+  SELECT * INTO member_record
+  FROM public.family_members
+  WHERE id = member_uuid AND family_id = reward_record.family_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'MEMBER_NOT_FOUND',
+      'message', 'Family member not found'
+    );
+  END IF;
+
+  -- Early check so kids get immediate feedback; approval checks again
+  IF COALESCE(member_record.points, 0) < COALESCE(reward_record.cost, 0) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'INSUFFICIENT_POINTS',
+      'message', 'Not enough points for this reward'
+    );
+  END IF;
+
+  INSERT INTO public.reward_redemptions (family_id, reward_id, member_id, reward_title, cost)
+  VALUES (reward_record.family_id, reward_record.id, member_uuid, reward_record.title, COALESCE(reward_record.cost, 0))
+  RETURNING * INTO new_redemption;
+
+  RETURN json_build_object(
+    'success', true,
+    'redemption', row_to_json(new_redemption),
+    'message', 'Reward requested'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to request reward'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+-- 4. Approve or deny a pending request (parents only). Approval deducts the cost once;
+-- deciding an already-decided request changes nothing
+CREATE OR REPLACE FUNCTION decide_reward_redemption(
+  redemption_uuid UUID,
+  approve BOOLEAN,
+  note TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  redemption_record RECORD;
+  member_points INTEGER;
+BEGIN
+  -- Ensure user is authenticated
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO redemption_record
+  FROM public.reward_redemptions
+  WHERE id = redemption_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_belongs_to_family(redemption_record.family_id) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'REDEMPTION_NOT_FOUND',
+      'message', 'Reward request not found'
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.family_memberships
+    WHERE user_id = auth.uid()
+      AND family_id = redemption_record.family_id
+      AND role = 'parent'
+  ) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'NOT_A_PARENT',
+      'message', 'Only parents can approve or deny rewards'
+    );
+  END IF;
+
+  IF redemption_record.status <> 'pending' THEN
+    RETURN json_build_object(
+      'success', true,
+      'already_applied', true,
+      'redemption', row_to_json(redemption_record)
+    );
+  END IF;
+
+  IF approve THEN
+    -- Lock the balance so two approvals can't both spend the same points
+    SELECT COALESCE(points, 0) INTO member_points
+    FROM public.family_members
+    WHERE id = redemption_record.member_id
+    FOR UPDATE;
+
+    IF member_points < redemption_record.cost THEN
+      RETURN json_build_object(
+        'success', false,
+        'error', 'INSUFFICIENT_POINTS',
+        'message', 'Not enough points for this reward'
+      );
+    END IF;
+
+    IF redemption_record.cost > 0 THEN
+      INSERT INTO public.point_transactions (family_id, member_id, amount, source, reason, reference_id)
+      VALUES (
+        redemption_record.family_id,
+        redemption_record.member_id,
+        -redemption_record.cost,
+        'reward_redemption',
+        redemption_record.reward_title,
+        redemption_record.id
+      );
+    END IF;
+  END IF;
+
+  UPDATE public.reward_redemptions
+  SET status = CASE WHEN approve THEN 'approved' ELSE 'denied' END,
+      decided_by = auth.uid(),
+      decided_at = NOW(),
+      decision_note = note
+  WHERE id = redemption_uuid
+  RETURNING * INTO redemption_record;
+
+  RETURN json_build_object(
+    'success', true,
+    'already_applied', false,
+    'redemption', row_to_json(redemption_record)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to decide reward request'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+-- Grant permissions for the new functions
+GRANT EXECUTE ON FUNCTION request_reward_redemption(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION decide_reward_redemption(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- Comments
+COMMENT ON TABLE reward_redemptions IS 'Reward requests and their parent approval decisions';
+COMMENT ON FUNCTION request_reward_redemption(UUID, UUID) IS 'Creates a pending reward request for a family member';
+COMMENT ON FUNCTION decide_reward_redemption(UUID, BOOLEAN, TEXT) IS 'Approves (deducting points via the ledger) or denies a pending reward request; parents only';
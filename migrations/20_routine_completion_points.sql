@@ -0,0 +1,147 @@
+-- Routine completion points
+-- set_routine_step checks or un-checks one step and, in the same transaction, credits the
+-- routine's completion points when the last step is done (or reverses them when a step is
+-- un-checked afterwards). Credits are recorded on the progress row so each member earns a
+-- routine's points at most once per date, however often steps are toggled or replayed.
+
+-- 1. Track what each member was credited for a routine on a date
+ALTER TABLE daily_routine_progress
+  ADD COLUMN points_awarded INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN daily_routine_progress.points_awarded IS 'Completion points credited for this routine on this date; reversed when a step is un-checked';
+
+-- 2. Check (is_done = true) or un-check a routine step for a member on a date
+CREATE OR REPLACE FUNCTION set_routine_step(
+  member_uuid UUID,
+  routine_uuid UUID,
+  progress_date DATE,
+  step_id TEXT,
+  is_done BOOLEAN
+)
+RETURNS JSON AS $$
+DECLARE
+  routine_record RECORD;
+  progress_record RECORD;
+  routine_steps JSONB;
+  new_step_ids TEXT[];
+  all_done BOOLEAN;
+  points_delta INTEGER := 0;
+BEGIN
+  -- Ensure user is authenticated
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO routine_record
+  FROM public.routines
+  WHERE id = routine_uuid;
+
+  IF NOT FOUND OR NOT public.user_belongs_to_family(routine_record.family_id) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'ROUTINE_NOT_FOUND',
+      'message', 'Routine not found'
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.family_members
+    WHERE id = member_uuid AND family_id = routine_record.family_id
+  ) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'MEMBER_NOT_FOUND',
+      'message', 'Family member not found'
+    );
+  END IF;
+
+  -- The app stores steps JSON-encoded, which lands as a jsonb string rather than an array
+  routine_steps := CASE jsonb_typeof(routine_record.steps)
+    WHEN 'string' THEN (routine_record.steps #>> '{}')::jsonb
+    ELSE COALESCE(routine_record.steps, '[]'::jsonb)
+  END;
+
+  -- Make sure the day's progress row exists, then lock it so concurrent toggles run in turn
+  INSERT INTO public.daily_routine_progress (member_id, routine_id, date)
+  VALUES (member_uuid, routine_uuid, progress_date)
+  ON CONFLICT (member_id, routine_id, date) DO NOTHING;
+
+  SELECT * INTO progress_record
+  FROM public.daily_routine_progress
+  WHERE member_id = member_uuid AND routine_id = routine_uuid AND date = progress_date
+  FOR UPDATE;
+
+  new_step_ids := COALESCE(progress_record.completed_step_ids, '{}');
+  IF is_done AND NOT (step_id = ANY(new_step_ids)) THEN
+    new_step_ids := array_append(new_step_ids, step_id);
+  ELSIF NOT is_done THEN
+    new_step_ids := array_remove(new_step_ids, step_id);
+  END IF;
+
+  -- Complete once every current step of the routine is checked
+  all_done := jsonb_array_length(routine_steps) > 0 AND NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(routine_steps) AS step
+    WHERE NOT ((step->>'id') = ANY(new_step_ids))
+  );
+
+  IF all_done AND progress_record.points_awarded = 0 THEN
+    points_delta := COALESCE(routine_record.completion_points, 0);
+  ELSIF NOT all_done AND progress_record.points_awarded <> 0 THEN
+    points_delta := -progress_record.points_awarded;
+  END IF;
+
+  -- Repeated call - nothing to change
+  IF new_step_ids = COALESCE(progress_record.completed_step_ids, '{}')
+    AND all_done = progress_record.is_fully_completed
+    AND points_delta = 0 THEN
+    RETURN json_build_object(
+      'success', true,
+      'already_applied', true,
+      'points_delta', 0,
+      'progress', row_to_json(progress_record)
+    );
+  END IF;
+
+  UPDATE public.daily_routine_progress
+  SET completed_step_ids = new_step_ids,
+      is_fully_completed = all_done,
+      points_awarded = progress_record.points_awarded + points_delta,
+      updated_at = NOW()
+  WHERE id = progress_record.id
+  RETURNING * INTO progress_record;
+
+  IF points_delta <> 0 THEN
+    INSERT INTO public.point_transactions (family_id, member_id, amount, source, reason, reference_id)
+    VALUES (
+      routine_record.family_id,
+      member_uuid,
+      points_delta,
+      'routine',
+      CASE WHEN points_delta > 0 THEN routine_record.name ELSE 'Undone: ' || routine_record.name END,
+      routine_uuid
+    );
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'already_applied', false,
+    'points_delta', points_delta,
+    'progress', row_to_json(progress_record)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to update routine step'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+-- Grant permissions for the new function
+GRANT EXECUTE ON FUNCTION set_routine_step(UUID, UUID, DATE, TEXT, BOOLEAN) TO authenticated;
+
+-- Comments
+COMMENT ON FUNCTION set_routine_step(UUID, UUID, DATE, TEXT, BOOLEAN) IS 'Checks or un-checks a routine step, crediting or reversing completion points once per member/routine/date';
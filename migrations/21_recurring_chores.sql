@@ -0,0 +1,74 @@
+-- Recurring chores
+-- A chore_series holds the template and an RFC 5545 RRULE; clients generate the series'
+-- occurrences as ordinary chores for a rolling window, so each occurrence is completed (and
+-- awards points) on its own through complete_chore. generated_until records how far a series
+-- has been generated, which keeps edited or deleted occurrences from being recreated.
+
+-- 1. Series templates
+CREATE TABLE chore_series (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  icon TEXT,
+  points INTEGER NOT NULL DEFAULT 0,
+  chore_type_id UUID REFERENCES chore_types(id) ON DELETE SET NULL,
+  assigned_member_ids UUID[] NOT NULL DEFAULT '{}', -- Array of family_member IDs
+  completion_mode TEXT NOT NULL DEFAULT 'any' CHECK (completion_mode IN ('any', 'each')),
+  points_mode TEXT NOT NULL DEFAULT 'duplicate' CHECK (points_mode IN ('split', 'duplicate')),
+  rrule TEXT NOT NULL, -- e.g. FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,TH
+  start_date DATE NOT NULL,
+  generated_until DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX idx_chore_series_family_id ON chore_series(family_id);
+CREATE INDEX idx_chore_series_chore_type_id ON chore_series(chore_type_id);
+
+CREATE TRIGGER update_chore_series_updated_at BEFORE UPDATE ON chore_series
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Link occurrences to their series. Completed occurrences outlive the series as history
+ALTER TABLE chores
+  ADD COLUMN series_id UUID REFERENCES chore_series(id) ON DELETE SET NULL,
+  ADD COLUMN occurrence_date DATE;
+
+-- One occurrence per series date, so two clients generating at once can't duplicate it
+ALTER TABLE chores
+  ADD CONSTRAINT chores_series_occurrence_unique UNIQUE (series_id, occurrence_date);
+
+COMMENT ON COLUMN chores.series_id IS 'Recurring series this chore was generated from, if any';
+COMMENT ON COLUMN chores.occurrence_date IS 'Series date this occurrence was generated for; due_date may be moved independently';
+
+-- Drop deleted members from series templates (arrays have no foreign keys to cascade)
+CREATE OR REPLACE FUNCTION remove_member_from_chore_series()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.chore_series
+  SET assigned_member_ids = array_remove(assigned_member_ids, OLD.id)
+  WHERE OLD.id = ANY(assigned_member_ids);
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+CREATE TRIGGER remove_member_from_chore_series AFTER DELETE ON family_members
+  FOR EACH ROW EXECUTE FUNCTION remove_member_from_chore_series();
+
+-- 3. RLS
+ALTER TABLE chore_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage chore series" ON chore_series
+  FOR ALL
+  TO authenticated
+  USING (family_id = ANY(get_user_family_ids()))
+  WITH CHECK (family_id = ANY(get_user_family_ids()));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON chore_series TO authenticated;
+
+-- 4. Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE chore_series;
+
+-- Comments
+COMMENT ON FUNCTION remove_member_from_chore_series() IS 'Removes a deleted family member from recurring chore templates';
+COMMENT ON TABLE chore_series IS 'Recurring chore templates; occurrences are generated into chores for a rolling window';
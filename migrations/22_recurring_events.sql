@@ -0,0 +1,11 @@
+-- Recurring events
+-- Unlike chores, event occurrences have no state of their own, so they aren't materialised:
+-- the event row keeps an RFC 5545 RRULE and clients expand it for the range they display.
+-- Per-occurrence changes (skipped or moved dates, edited details) are stored alongside it.
+
+ALTER TABLE events
+  ADD COLUMN rrule TEXT, -- e.g. FREQ=WEEKLY;INTERVAL=1;BYDAY=TU; NULL for one-off events
+  ADD COLUMN recurrence_exceptions JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN events.rrule IS 'RRULE the event repeats by, starting from date; NULL for one-off events';
+COMMENT ON COLUMN events.recurrence_exceptions IS 'Per-occurrence overrides keyed by originalDate (YYYY-MM-DD): skipped, or a moved date/end_time and edited details';
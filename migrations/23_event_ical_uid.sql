@@ -0,0 +1,11 @@
+-- iCalendar import
+-- Imported events keep the UID from the .ics file so importing the same file again
+-- (e.g. an updated school term calendar) doesn't create duplicates.
+
+ALTER TABLE events
+  ADD COLUMN ical_uid TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_family_ical_uid ON events(family_id, ical_uid)
+  WHERE ical_uid IS NOT NULL;
+
+COMMENT ON COLUMN events.ical_uid IS 'UID of the iCalendar VEVENT this event was imported from; unique per family';
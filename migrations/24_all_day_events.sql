@@ -0,0 +1,17 @@
+-- All-day and multi-day events
+-- end_time only held an HH:mm on the start day, so events couldn't run past midnight.
+-- end_date holds the full end timestamp; for all-day events it is the midnight after the
+-- last day, as in iCalendar. end_time is still written for same-day events.
+
+ALTER TABLE events
+  ADD COLUMN all_day BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN end_date TIMESTAMPTZ;
+
+ALTER TABLE events
+  ADD CONSTRAINT events_end_after_start CHECK (end_date IS NULL OR end_date > date);
+
+-- Multi-day events have to be found by their end as well as their start
+CREATE INDEX IF NOT EXISTS idx_events_end_date ON events(end_date);
+
+COMMENT ON COLUMN events.all_day IS 'Whole-day event: date is the local midnight it starts on';
+COMMENT ON COLUMN events.end_date IS 'End timestamp (exclusive); NULL falls back to end_time on the start day, or one hour';
@@ -0,0 +1,25 @@
+-- Reminders for events and chores
+-- Each reminder is an offset in minutes before the item is due. Events count back from their
+-- start; chores and all-day events have no time of day, so clients count back from a fixed
+-- hour on the day. Reminders are scheduled and delivered on each device, not by the server.
+
+ALTER TABLE events
+  ADD COLUMN reminder_offsets INTEGER[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE chores
+  ADD COLUMN reminder_offsets INTEGER[] NOT NULL DEFAULT '{}';
+
+-- Occurrences generated from a series copy its reminders
+ALTER TABLE chore_series
+  ADD COLUMN reminder_offsets INTEGER[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE events
+  ADD CONSTRAINT events_reminder_offsets_positive CHECK (0 <= ALL(reminder_offsets));
+ALTER TABLE chores
+  ADD CONSTRAINT chores_reminder_offsets_positive CHECK (0 <= ALL(reminder_offsets));
+ALTER TABLE chore_series
+  ADD CONSTRAINT chore_series_reminder_offsets_positive CHECK (0 <= ALL(reminder_offsets));
+
+COMMENT ON COLUMN events.reminder_offsets IS 'Reminder times in minutes before the start, e.g. {15,1440}';
+COMMENT ON COLUMN chores.reminder_offsets IS 'Reminder times in minutes before the reminder hour on the due date';
+COMMENT ON COLUMN chore_series.reminder_offsets IS 'Reminders copied to each generated occurrence';
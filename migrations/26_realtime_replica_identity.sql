@@ -0,0 +1,9 @@
+-- Realtime deletes for chore_assignments
+-- Clients merge realtime changes into the data they already hold instead of refetching whole
+-- tables. A delete normally only carries the old row's primary key, which doesn't say which
+-- chore and member the removed assignment belonged to; with REPLICA IDENTITY FULL the whole
+-- old row is sent.
+
+ALTER TABLE chore_assignments REPLICA IDENTITY FULL;
+
+COMMENT ON TABLE chore_assignments IS 'Many-to-many link between chores and family members, with per-assignee completion (replica identity FULL for realtime deletes)';
@@ -0,0 +1,60 @@
+-- Family-scoped realtime for every synced table
+-- Clients open one realtime channel per table filtered on family_id. daily_routine_progress
+-- only reached its family through member_id, so it gets a denormalised family_id (kept in step
+-- by a trigger, like chore_assignments), and the tables that were never published are added.
+
+-- 1. family_id on routine progress
+ALTER TABLE daily_routine_progress
+  ADD COLUMN family_id UUID REFERENCES families(id) ON DELETE CASCADE;
+
+UPDATE daily_routine_progress p
+SET family_id = m.family_id
+FROM family_members m
+WHERE m.id = p.member_id AND p.family_id IS NULL;
+
+ALTER TABLE daily_routine_progress
+  ALTER COLUMN family_id SET NOT NULL;
+
+CREATE INDEX idx_daily_routine_progress_family_id ON daily_routine_progress(family_id);
+
+-- Progress is written by member id (upserts and set_routine_step), so fill the family in here
+CREATE OR REPLACE FUNCTION set_routine_progress_family_id()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.family_id IS NULL THEN
+    SELECT family_id INTO NEW.family_id
+    FROM public.family_members
+    WHERE id = NEW.member_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+CREATE TRIGGER set_routine_progress_family_id BEFORE INSERT ON daily_routine_progress
+  FOR EACH ROW EXECUTE FUNCTION set_routine_progress_family_id();
+
+-- 2. Deletes can't be filtered server-side; the whole old row lets clients drop other families' deletes
+ALTER TABLE daily_routine_progress REPLICA IDENTITY FULL;
+
+-- 3. Publish every synced table (some were only ever added from the dashboard)
+DO $$
+DECLARE
+  synced_table TEXT;
+BEGIN
+  FOREACH synced_table IN ARRAY ARRAY[
+    'family_members', 'point_transactions', 'chores', 'chore_assignments', 'chore_series', 'chore_types',
+    'events', 'rewards', 'reward_redemptions', 'routines', 'daily_routine_progress'
+  ] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = synced_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', synced_table);
+    END IF;
+  END LOOP;
+END $$;
+
+-- Comments
+COMMENT ON COLUMN daily_routine_progress.family_id IS 'Family of the member, denormalised for realtime filtering';
+COMMENT ON FUNCTION set_routine_progress_family_id() IS 'Fills in daily_routine_progress.family_id from the member on insert';
@@ -0,0 +1,29 @@
+-- Optimistic concurrency for edits
+-- Clients send the updated_at an edit was based on and only update the row while it still has
+-- it; a row that has moved on is a conflict the user merges. chores, events and families already
+-- bump updated_at on every update. family_members had no updated_at, and its points column is
+-- rewritten by the ledger trigger, so its version only moves when the profile itself changes.
+
+ALTER TABLE family_members
+  ADD COLUMN updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE OR REPLACE FUNCTION update_family_member_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.name, NEW.initial, NEW.role, NEW.color, NEW.nickname, NEW.dob, NEW.user_id)
+     IS DISTINCT FROM (OLD.name, OLD.initial, OLD.role, OLD.color, OLD.nickname, OLD.dob, OLD.user_id) THEN
+    NEW.updated_at = NOW();
+  ELSE
+    NEW.updated_at = OLD.updated_at;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = '';
+
+CREATE TRIGGER update_family_members_updated_at BEFORE UPDATE ON family_members
+  FOR EACH ROW EXECUTE FUNCTION update_family_member_updated_at();
+
+-- Comments
+COMMENT ON COLUMN family_members.updated_at IS 'Last profile change; points balance updates leave it alone. Used for optimistic concurrency';
+COMMENT ON FUNCTION update_family_member_updated_at() IS 'Bumps family_members.updated_at when profile fields change';
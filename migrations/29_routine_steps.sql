@@ -0,0 +1,202 @@
+-- Normalised routine steps
+-- Steps move out of the routines.steps blob (written double-encoded, as a JSON string) into
+-- their own rows with an explicit position, so steps can be reordered and edited one at a time.
+-- Step ids are carried over, so completed_step_ids in existing progress still match. A step can
+-- be optional, carry a time estimate and award its own points when checked.
+
+-- 1. Steps
+CREATE TABLE routine_steps (
+  id TEXT NOT NULL, -- Client-generated; referenced by daily_routine_progress.completed_step_ids
+  routine_id UUID NOT NULL REFERENCES routines(id) ON DELETE CASCADE,
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  icon TEXT NOT NULL DEFAULT '',
+  optional BOOLEAN NOT NULL DEFAULT false,
+  estimated_minutes INTEGER CHECK (estimated_minutes IS NULL OR estimated_minutes > 0),
+  points INTEGER NOT NULL DEFAULT 0 CHECK (points >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (routine_id, id)
+);
+
+CREATE INDEX idx_routine_steps_family_id ON routine_steps(family_id);
+
+CREATE TRIGGER update_routine_steps_updated_at BEFORE UPDATE ON routine_steps
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Move existing steps out of the blob, keeping their order
+INSERT INTO routine_steps (id, routine_id, family_id, position, title, icon)
+SELECT
+  COALESCE(step->>'id', uuid_generate_v4()::text),
+  r.id,
+  r.family_id,
+  (s.ordinality - 1)::INTEGER,
+  COALESCE(step->>'title', ''),
+  COALESCE(step->>'icon', '')
+FROM routines r
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE jsonb_typeof(r.steps) WHEN 'string' THEN (r.steps #>> '{}')::jsonb ELSE r.steps END
+) WITH ORDINALITY AS s(step, ordinality)
+ON CONFLICT (routine_id, id) DO NOTHING;
+
+-- routines.steps is kept (still written as a copy of the step list) so older clients keep working
+
+-- 3. Completion reads the step rows: every required step checked (any step when all are
+-- optional). points_awarded now holds everything credited for the day - the points of the
+-- checked steps plus the completion points - and each toggle moves it to the current total.
+CREATE OR REPLACE FUNCTION set_routine_step(
+  member_uuid UUID,
+  routine_uuid UUID,
+  progress_date DATE,
+  step_id TEXT,
+  is_done BOOLEAN
+)
+RETURNS JSON AS $$
+DECLARE
+  routine_record RECORD;
+  progress_record RECORD;
+  new_step_ids TEXT[];
+  all_done BOOLEAN;
+  earned INTEGER;
+  points_delta INTEGER := 0;
+BEGIN
+  -- Ensure user is authenticated
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO routine_record
+  FROM public.routines
+  WHERE id = routine_uuid;
+
+  IF NOT FOUND OR NOT public.user_belongs_to_family(routine_record.family_id) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'ROUTINE_NOT_FOUND',
+      'message', 'Routine not found'
+    );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.family_members
+    WHERE id = member_uuid AND family_id = routine_record.family_id
+  ) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'MEMBER_NOT_FOUND',
+      'message', 'Family member not found'
+    );
+  END IF;
+
+  -- Make sure the day's progress row exists, then lock it so concurrent toggles run in turn
+  INSERT INTO public.daily_routine_progress (member_id, routine_id, date)
+  VALUES (member_uuid, routine_uuid, progress_date)
+  ON CONFLICT (member_id, routine_id, date) DO NOTHING;
+
+  SELECT * INTO progress_record
+  FROM public.daily_routine_progress
+  WHERE member_id = member_uuid AND routine_id = routine_uuid AND date = progress_date
+  FOR UPDATE;
+
+  new_step_ids := COALESCE(progress_record.completed_step_ids, '{}');
+  IF is_done AND NOT (step_id = ANY(new_step_ids)) THEN
+    new_step_ids := array_append(new_step_ids, step_id);
+  ELSIF NOT is_done THEN
+    new_step_ids := array_remove(new_step_ids, step_id);
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.routine_steps s WHERE s.routine_id = routine_uuid AND NOT s.optional) THEN
+    all_done := NOT EXISTS (
+      SELECT 1 FROM public.routine_steps s
+      WHERE s.routine_id = routine_uuid AND NOT s.optional AND NOT (s.id = ANY(new_step_ids))
+    );
+  ELSE
+    all_done := EXISTS (
+      SELECT 1 FROM public.routine_steps s
+      WHERE s.routine_id = routine_uuid AND s.id = ANY(new_step_ids)
+    );
+  END IF;
+
+  -- Steps removed from the routine since they were checked no longer count
+  SELECT COALESCE(SUM(s.points), 0) INTO earned
+  FROM public.routine_steps s
+  WHERE s.routine_id = routine_uuid AND s.id = ANY(new_step_ids);
+
+  IF all_done THEN
+    earned := earned + COALESCE(routine_record.completion_points, 0);
+  END IF;
+  points_delta := earned - progress_record.points_awarded;
+
+  -- Repeated call - nothing to change
+  IF new_step_ids = COALESCE(progress_record.completed_step_ids, '{}')
+    AND all_done = progress_record.is_fully_completed
+    AND points_delta = 0 THEN
+    RETURN json_build_object(
+      'success', true,
+      'already_applied', true,
+      'points_delta', 0,
+      'progress', row_to_json(progress_record)
+    );
+  END IF;
+
+  UPDATE public.daily_routine_progress
+  SET completed_step_ids = new_step_ids,
+      is_fully_completed = all_done,
+      points_awarded = earned,
+      updated_at = NOW()
+  WHERE id = progress_record.id
+  RETURNING * INTO progress_record;
+
+  IF points_delta <> 0 THEN
+    INSERT INTO public.point_transactions (family_id, member_id, amount, source, reason, reference_id)
+    VALUES (
+      routine_record.family_id,
+      member_uuid,
+      points_delta,
+      'routine',
+      CASE WHEN points_delta > 0 THEN routine_record.name ELSE 'Undone: ' || routine_record.name END,
+      routine_uuid
+    );
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'already_applied', false,
+    'points_delta', points_delta,
+    'progress', row_to_json(progress_record)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to update routine step'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+-- 4. RLS
+ALTER TABLE routine_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage routine steps" ON routine_steps
+  FOR ALL
+  TO authenticated
+  USING (family_id = ANY(get_user_family_ids()))
+  WITH CHECK (family_id = ANY(get_user_family_ids()));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON routine_steps TO authenticated;
+
+-- 5. Realtime; deletes need the old row's routine_id and family_id
+ALTER TABLE routine_steps REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE routine_steps;
+
+-- Comments
+COMMENT ON TABLE routine_steps IS 'Ordered steps of a routine';
+COMMENT ON COLUMN routine_steps.position IS 'Zero-based order of the step within its routine';
+COMMENT ON COLUMN routine_steps.optional IS 'Optional steps are not needed to complete the routine';
+COMMENT ON COLUMN routine_steps.points IS 'Points credited when the step is checked, on top of the routine''s completion points';
+COMMENT ON COLUMN daily_routine_progress.points_awarded IS 'Points credited for this routine on this date: checked step points plus completion points';
+COMMENT ON FUNCTION set_routine_step(UUID, UUID, DATE, TEXT, BOOLEAN) IS 'Checks or un-checks a routine step, keeping the step and completion points credited for the member/routine/date in line';
@@ -0,0 +1,380 @@
+-- Role-based write permissions
+-- family_memberships.role was recorded but, manual points adjustments aside, never checked:
+-- write policies only asked whether the user belongs to the family. Writes now also need the right role, matching the table in
+-- utils/permissions.ts:
+--   parent          - family details, members, points adjustments, chore types, rewards, routines
+--   parent or other - chores (with their assignments and series) and events
+--   anyone          - completing chores and routine steps, requesting rewards (via the RPCs)
+-- Completion, reward and routine-step RPCs are SECURITY DEFINER and keep their own checks.
+
+-- 1. Role helper (first added with the points ledger in migration 18)
+CREATE OR REPLACE FUNCTION user_has_family_role(family_uuid UUID, allowed_roles TEXT[])
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.family_memberships
+    WHERE user_id = auth.uid()
+    AND family_id = family_uuid
+    AND role = ANY(allowed_roles)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+-- 2. Drop the membership-only write policies, wherever they were created. FOR ALL policies also
+-- granted reads, so tables that only had those get a read policy back below.
+DO $$
+DECLARE
+  policy_record RECORD;
+BEGIN
+  FOR policy_record IN
+    SELECT policyname, tablename
+    FROM pg_policies
+    WHERE schemaname = 'public'
+    AND cmd <> 'SELECT'
+    AND tablename IN (
+      'family_members', 'chore_types', 'chores', 'chore_assignments', 'chore_series',
+      'events', 'rewards', 'routines', 'routine_steps', 'family_memberships', 'point_transactions'
+    )
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', policy_record.policyname, policy_record.tablename);
+  END LOOP;
+END;
+$$;
+
+CREATE POLICY "Users can read chore assignments" ON chore_assignments
+  FOR SELECT TO authenticated
+  USING (family_id = ANY(get_user_family_ids()));
+
+CREATE POLICY "Users can read chore series" ON chore_series
+  FOR SELECT TO authenticated
+  USING (family_id = ANY(get_user_family_ids()));
+
+CREATE POLICY "Users can read routine steps" ON routine_steps
+  FOR SELECT TO authenticated
+  USING (family_id = ANY(get_user_family_ids()));
+
+-- 3. Families - any member may still save the active tab, so the row stays updatable and a
+-- trigger guards the details
+CREATE OR REPLACE FUNCTION protect_family_details()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+     AND (NEW.name, NEW.address, NEW.photo_url, NEW.photo_object_position, NEW.invite_code)
+       IS DISTINCT FROM (OLD.name, OLD.address, OLD.photo_url, OLD.photo_object_position, OLD.invite_code)
+     AND NOT public.user_has_family_role(OLD.id, ARRAY['parent']) THEN
+    RAISE EXCEPTION 'Only parents can change family details' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = '';
+
+CREATE TRIGGER protect_family_details BEFORE UPDATE ON families
+  FOR EACH ROW EXECUTE FUNCTION protect_family_details();
+
+-- 4. Parent-only tables
+CREATE POLICY "Parents can insert family members" ON family_members
+  FOR INSERT TO authenticated
+  WITH CHECK (user_has_family_role(family_id, ARRAY['parent']));
+
+CREATE POLICY "Parents can update family members" ON family_members
+  FOR UPDATE TO authenticated
+  USING (user_has_family_role(family_id, ARRAY['parent']))
+  WITH CHECK (user_has_family_role(family_id, ARRAY['parent']));
+
+CREATE POLICY "Parents can delete family members" ON family_members
+  FOR DELETE TO authenticated
+  USING (user_has_family_role(family_id, ARRAY['parent']));
+
+CREATE POLICY "Parents can insert chore types" ON chore_types
+  FOR INSERT TO authenticated
+  WITH CHECK (user_has_family_role(family_id, ARRAY['parent']));
+
+CREATE POLICY "Parents can update chore types" ON chore_types
+  FOR UPDATE TO authenticated
+  USING (user_has_family_role(family_id, ARRAY['parent']))
+  WITH CHECK (user_has_family_role(family_id, ARRAY['parent']));
+
+CREATE POLICY "Parents can delete chore types" ON chore_types
+  FOR DELETE TO authenticated
+  USING (user_has_family_role(family_id, ARRAY['parent']));
+
+CREATE POLICY "Parents can insert rewards" ON rewards
+  FOR INSERT TO authenticated
+  WITH CHECK (user_has_family_role(family_id, ARRAY['parent']));
+
+CREATE POLICY "Parents can update rewards" ON rewards
+  FOR UPDATE TO authenticated
+  USING (user_has_family_role(family_id, ARRAY['parent']))
+  WITH CHECK (user_has_family_role(family_id, ARRAY['parent']));
+
+CREATE POLICY "Parents can delete rewards" ON rewards
+  FOR DELETE TO authenticated
+  USING (user_has_family_role(family_id, ARRAY['parent']));
+
+CREATE POLICY "Parents can insert routines" ON routines
+  FOR INSERT TO authenticated
+  WITH CHECK (user_has_family_role(family_id, ARRAY['parent']));
+
+CREATE POLICY "Parents can update routines" ON routines
+  FOR UPDATE TO authenticated
+  USING (user_has_family_role(family_id, ARRAY['parent']))
+  WITH CHECK (user_has_family_role(family_id, ARRAY['parent']));
+
+CREATE POLICY "Parents can delete routines" ON routines
+  FOR DELETE TO authenticated
+  USING (user_has_family_role(family_id, ARRAY['parent']));
+
+CREATE POLICY "Parents can insert routine steps" ON routine_steps
+  FOR INSERT TO authenticated
+  WITH CHECK (user_has_family_role(family_id, ARRAY['parent']));
+
+CREATE POLICY "Parents can update routine steps" ON routine_steps
+  FOR UPDATE TO authenticated
+  USING (user_has_family_role(family_id, ARRAY['parent']))
+  WITH CHECK (user_has_family_role(family_id, ARRAY['parent']));
+
+CREATE POLICY "Parents can delete routine steps" ON routine_steps
+  FOR DELETE TO authenticated
+  USING (user_has_family_role(family_id, ARRAY['parent']));
+
+CREATE POLICY "Parents can add manual point adjustments" ON point_transactions
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    user_has_family_role(family_id, ARRAY['parent'])
+    AND source = 'manual_adjustment'
+    AND actor_user_id = (SELECT auth.uid())
+  );
+
+-- 5. Tables adults other than parents may also change
+CREATE POLICY "Adults can insert chores" ON chores
+  FOR INSERT TO authenticated
+  WITH CHECK (user_has_family_role(family_id, ARRAY['parent', 'other']));
+
+CREATE POLICY "Adults can update chores" ON chores
+  FOR UPDATE TO authenticated
+  USING (user_has_family_role(family_id, ARRAY['parent', 'other']))
+  WITH CHECK (user_has_family_role(family_id, ARRAY['parent', 'other']));
+
+CREATE POLICY "Adults can delete chores" ON chores
+  FOR DELETE TO authenticated
+  USING (user_has_family_role(family_id, ARRAY['parent', 'other']));
+
+CREATE POLICY "Adults can insert chore assignments" ON chore_assignments
+  FOR INSERT TO authenticated
+  WITH CHECK (user_has_family_role(family_id, ARRAY['parent', 'other']));
+
+CREATE POLICY "Adults can update chore assignments" ON chore_assignments
+  FOR UPDATE TO authenticated
+  USING (user_has_family_role(family_id, ARRAY['parent', 'other']))
+  WITH CHECK (user_has_family_role(family_id, ARRAY['parent', 'other']));
+
+CREATE POLICY "Adults can delete chore assignments" ON chore_assignments
+  FOR DELETE TO authenticated
+  USING (user_has_family_role(family_id, ARRAY['parent', 'other']));
+
+CREATE POLICY "Adults can insert chore series" ON chore_series
+  FOR INSERT TO authenticated
+  WITH CHECK (user_has_family_role(family_id, ARRAY['parent', 'other']));
+
+CREATE POLICY "Adults can update chore series" ON chore_series
+  FOR UPDATE TO authenticated
+  USING (user_has_family_role(family_id, ARRAY['parent', 'other']))
+  WITH CHECK (user_has_family_role(family_id, ARRAY['parent', 'other']));
+
+CREATE POLICY "Adults can delete chore series" ON chore_series
+  FOR DELETE TO authenticated
+  USING (user_has_family_role(family_id, ARRAY['parent', 'other']));
+
+CREATE POLICY "Adults can insert events" ON events
+  FOR INSERT TO authenticated
+  WITH CHECK (user_has_family_role(family_id, ARRAY['parent', 'other']));
+
+CREATE POLICY "Adults can update events" ON events
+  FOR UPDATE TO authenticated
+  USING (user_has_family_role(family_id, ARRAY['parent', 'other']))
+  WITH CHECK (user_has_family_role(family_id, ARRAY['parent', 'other']));
+
+CREATE POLICY "Adults can delete events" ON events
+  FOR DELETE TO authenticated
+  USING (user_has_family_role(family_id, ARRAY['parent', 'other']));
+
+-- 6. Memberships - split the old FOR ALL policy, which let anyone rewrite their own role.
+-- Joining and creating families insert through the RPCs.
+CREATE POLICY "Users can read memberships" ON family_memberships
+  FOR SELECT TO authenticated
+  USING (user_id = (SELECT auth.uid()) OR family_id = ANY(get_user_family_ids()));
+
+CREATE POLICY "Parents can update memberships" ON family_memberships
+  FOR UPDATE TO authenticated
+  USING (user_has_family_role(family_id, ARRAY['parent']))
+  WITH CHECK (user_has_family_role(family_id, ARRAY['parent']));
+
+CREATE POLICY "Users can leave or parents can remove memberships" ON family_memberships
+  FOR DELETE TO authenticated
+  USING (user_id = (SELECT auth.uid()) OR user_has_family_role(family_id, ARRAY['parent']));
+
+-- 7. Everyone joining by invite code starts as a child, whatever role the caller asks for; a
+-- parent changes the membership's role afterwards. user_role is kept so older clients' calls
+-- still resolve.
+CREATE OR REPLACE FUNCTION join_family_by_invite(
+  invite_code TEXT,
+  user_role TEXT DEFAULT 'child'
+)
+RETURNS JSON AS $$
+DECLARE
+  target_family_id UUID;
+  family_record RECORD;
+  existing_membership_id UUID;
+  new_membership_id UUID;
+BEGIN
+  -- Ensure user is authenticated
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Find family by invite code
+  SELECT id INTO target_family_id
+  FROM public.families
+  WHERE families.invite_code = join_family_by_invite.invite_code;
+
+  IF target_family_id IS NULL THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'INVALID_INVITE_CODE',
+      'message', 'Invite code not found or expired'
+    );
+  END IF;
+
+  -- Check if user is already a member
+  SELECT id INTO existing_membership_id
+  FROM public.family_memberships
+  WHERE user_id = auth.uid() AND family_id = target_family_id;
+
+  IF existing_membership_id IS NOT NULL THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'ALREADY_MEMBER',
+      'message', 'You are already a member of this family'
+    );
+  END IF;
+
+  -- Add user to family
+  INSERT INTO public.family_memberships (user_id, family_id, role)
+  VALUES (auth.uid(), target_family_id, 'child')
+  RETURNING id INTO new_membership_id;
+
+  -- Get family details to return
+  SELECT * INTO family_record
+  FROM public.families
+  WHERE id = target_family_id;
+
+  -- Return success
+  RETURN json_build_object(
+    'success', true,
+    'family', row_to_json(family_record),
+    'membership_id', new_membership_id,
+    'role', 'child',
+    'message', 'Successfully joined family'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to join family'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+-- 8. Change a membership's role. Parents only, and a family always keeps at least one parent.
+CREATE OR REPLACE FUNCTION set_membership_role(
+  membership_uuid UUID,
+  new_role TEXT
+)
+RETURNS JSON AS $$
+DECLARE
+  membership_record RECORD;
+  updated_membership RECORD;
+BEGIN
+  -- Ensure user is authenticated
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF new_role NOT IN ('parent', 'child', 'other') THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'INVALID_ROLE',
+      'message', 'Invalid role specified'
+    );
+  END IF;
+
+  SELECT * INTO membership_record
+  FROM public.family_memberships
+  WHERE id = membership_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_belongs_to_family(membership_record.family_id) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'MEMBERSHIP_NOT_FOUND',
+      'message', 'Family membership not found'
+    );
+  END IF;
+
+  IF NOT public.user_has_family_role(membership_record.family_id, ARRAY['parent']) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'NOT_PARENT',
+      'message', 'Only parents can change roles'
+    );
+  END IF;
+
+  IF membership_record.role = 'parent' AND new_role <> 'parent' AND NOT EXISTS (
+    SELECT 1 FROM public.family_memberships
+    WHERE family_id = membership_record.family_id
+      AND role = 'parent'
+      AND id <> membership_uuid
+  ) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'LAST_PARENT',
+      'message', 'The family needs at least one parent'
+    );
+  END IF;
+
+  UPDATE public.family_memberships
+  SET role = new_role
+  WHERE id = membership_uuid
+  RETURNING * INTO updated_membership;
+
+  RETURN json_build_object(
+    'success', true,
+    'membership', row_to_json(updated_membership)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to change role'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+-- Grant permissions for the new functions
+GRANT EXECUTE ON FUNCTION set_membership_role(UUID, TEXT) TO authenticated;
+
+-- Comments
+COMMENT ON FUNCTION user_has_family_role(UUID, TEXT[]) IS 'Whether the current user belongs to the family with one of the given membership roles';
+COMMENT ON FUNCTION protect_family_details() IS 'Rejects changes to family details (name, address, photo, invite code) from members who are not parents; the active tab stays writable';
+COMMENT ON FUNCTION join_family_by_invite(TEXT, TEXT) IS 'Joins a family by invite code as a child; user_role is ignored and a parent changes the role afterwards';
+COMMENT ON FUNCTION set_membership_role(UUID, TEXT) IS 'Changes the role of a family membership; parents only, and the last parent can''t be demoted';
+COMMENT ON POLICY "Parents can update memberships" ON family_memberships IS 'Roles are changed by a parent of the family, never by the member themselves';
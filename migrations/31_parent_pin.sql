@@ -0,0 +1,168 @@
+-- Parent PIN for kid mode
+-- A shared tablet stays signed in as one account, so management actions on it are guarded by a
+-- family-wide parent PIN instead of the account's role. The PIN is bcrypt-hashed and the table
+-- has no policies: clients only reach it through the functions below, which also slow down
+-- guessing by locking the PIN for a minute after five wrong tries.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- 1. PINs
+CREATE TABLE family_parent_pins (
+  family_id UUID PRIMARY KEY REFERENCES families(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE family_parent_pins ENABLE ROW LEVEL SECURITY;
+
+-- 2. Whether the family has a PIN
+CREATE OR REPLACE FUNCTION family_has_parent_pin(family_uuid UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF NOT public.user_belongs_to_family(family_uuid) THEN
+    RETURN false;
+  END IF;
+  RETURN EXISTS (SELECT 1 FROM public.family_parent_pins WHERE family_id = family_uuid);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+-- 3. Set, change or (with a NULL new_pin) remove the PIN. Parents only; changing an existing PIN
+-- needs the current one.
+CREATE OR REPLACE FUNCTION set_parent_pin(
+  family_uuid UUID,
+  new_pin TEXT,
+  current_pin TEXT DEFAULT NULL
+)
+RETURNS JSON AS $$
+DECLARE
+  pin_record RECORD;
+BEGIN
+  -- Ensure user is authenticated
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.user_has_family_role(family_uuid, ARRAY['parent']) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'NOT_A_PARENT',
+      'message', 'Only parents can change the parent PIN'
+    );
+  END IF;
+
+  IF new_pin IS NOT NULL AND new_pin !~ '^[0-9]{4,8}$' THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'INVALID_PIN',
+      'message', 'The PIN must be 4 to 8 digits'
+    );
+  END IF;
+
+  SELECT * INTO pin_record
+  FROM public.family_parent_pins
+  WHERE family_id = family_uuid
+  FOR UPDATE;
+
+  IF FOUND AND (current_pin IS NULL OR extensions.crypt(current_pin, pin_record.pin_hash) <> pin_record.pin_hash) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'WRONG_PIN',
+      'message', 'The current PIN is not correct'
+    );
+  END IF;
+
+  IF new_pin IS NULL THEN
+    DELETE FROM public.family_parent_pins WHERE family_id = family_uuid;
+  ELSE
+    INSERT INTO public.family_parent_pins (family_id, pin_hash, updated_by)
+    VALUES (family_uuid, extensions.crypt(new_pin, extensions.gen_salt('bf')), auth.uid())
+    ON CONFLICT (family_id) DO UPDATE
+    SET pin_hash = EXCLUDED.pin_hash,
+        failed_attempts = 0,
+        locked_until = NULL,
+        updated_by = EXCLUDED.updated_by,
+        updated_at = NOW();
+  END IF;
+
+  RETURN json_build_object('success', true);
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to save the parent PIN'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+-- 4. Check a PIN. Any family member may ask - the tablet is often signed in as a child. A family
+-- without a PIN has nothing to protect, so any PIN unlocks it.
+CREATE OR REPLACE FUNCTION verify_parent_pin(family_uuid UUID, pin TEXT)
+RETURNS JSON AS $$
+DECLARE
+  pin_record RECORD;
+  is_valid BOOLEAN;
+BEGIN
+  -- Ensure user is authenticated
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.user_belongs_to_family(family_uuid) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'FAMILY_NOT_FOUND',
+      'message', 'Family not found'
+    );
+  END IF;
+
+  SELECT * INTO pin_record
+  FROM public.family_parent_pins
+  WHERE family_id = family_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', true, 'valid', true);
+  END IF;
+
+  IF pin_record.locked_until IS NOT NULL AND pin_record.locked_until > NOW() THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'TOO_MANY_ATTEMPTS',
+      'message', 'Too many wrong PINs. Try again in a minute.'
+    );
+  END IF;
+
+  is_valid := extensions.crypt(pin, pin_record.pin_hash) = pin_record.pin_hash;
+
+  -- The fifth wrong PIN starts a lockout, and the count starts again once it has passed
+  UPDATE public.family_parent_pins
+  SET failed_attempts = CASE WHEN is_valid OR failed_attempts + 1 >= 5 THEN 0 ELSE failed_attempts + 1 END,
+      locked_until = CASE
+        WHEN NOT is_valid AND failed_attempts + 1 >= 5 THEN NOW() + INTERVAL '1 minute'
+        ELSE NULL
+      END
+  WHERE family_id = family_uuid;
+
+  RETURN json_build_object('success', true, 'valid', is_valid);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+-- Grant permissions for the new functions
+GRANT EXECUTE ON FUNCTION family_has_parent_pin(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_parent_pin(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION verify_parent_pin(UUID, TEXT) TO authenticated;
+
+-- Comments
+COMMENT ON TABLE family_parent_pins IS 'Hashed parent PIN guarding management actions in kid mode; only reachable through the PIN functions';
+COMMENT ON COLUMN family_parent_pins.locked_until IS 'Set after five wrong PINs in a row; no checks are made until it passes';
+COMMENT ON FUNCTION family_has_parent_pin(UUID) IS 'Whether the family has set a parent PIN';
+COMMENT ON FUNCTION set_parent_pin(UUID, TEXT, TEXT) IS 'Sets, changes or removes the family''s parent PIN; parents only';
+COMMENT ON FUNCTION verify_parent_pin(UUID, TEXT) IS 'Checks a parent PIN, locking it for a minute after five wrong tries';
@@ -0,0 +1,343 @@
+-- Claiming a member profile
+-- family_members.user_id links a member card to the account that signs in as that person, but
+-- nothing set it. After joining, a user picks which member they are and a parent confirms;
+-- a parent's own claim needs no second opinion. Once linked, a child account can only request
+-- rewards for its own member.
+
+-- 1. One member per account in each family
+CREATE UNIQUE INDEX idx_family_members_family_user
+  ON family_members(family_id, user_id)
+  WHERE user_id IS NOT NULL;
+
+-- 2. Claims
+CREATE TABLE member_claims (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  family_id UUID NOT NULL REFERENCES families(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES family_members(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  requester_name TEXT NOT NULL, -- Other members can't read auth.users, so the name is kept here
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'denied')),
+  decided_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  decided_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- A user waits on at most one claim per family
+CREATE UNIQUE INDEX idx_member_claims_pending_user
+  ON member_claims(family_id, user_id)
+  WHERE status = 'pending';
+CREATE INDEX idx_member_claims_member_id ON member_claims(member_id);
+CREATE INDEX idx_member_claims_user_id ON member_claims(user_id);
+CREATE INDEX idx_member_claims_decided_by ON member_claims(decided_by);
+
+CREATE TRIGGER update_member_claims_updated_at BEFORE UPDATE ON member_claims
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. RLS - rows are only written through the RPCs below
+ALTER TABLE member_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view family member claims" ON member_claims
+  FOR SELECT
+  TO authenticated
+  USING (family_id = ANY(get_user_family_ids()));
+
+GRANT SELECT ON member_claims TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE member_claims;
+
+-- 4. Whether the current user may act for a member: adults for anyone, children for the member
+-- linked to their account (or anyone, until they have one)
+CREATE OR REPLACE FUNCTION user_can_act_for_member(member_uuid UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+  member_family_id UUID;
+BEGIN
+  SELECT family_id INTO member_family_id
+  FROM public.family_members
+  WHERE id = member_uuid;
+
+  IF member_family_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF public.user_has_family_role(member_family_id, ARRAY['parent', 'other']) THEN
+    RETURN true;
+  END IF;
+
+  RETURN public.user_belongs_to_family(member_family_id) AND NOT EXISTS (
+    SELECT 1 FROM public.family_members
+    WHERE family_id = member_family_id
+      AND user_id = auth.uid()
+      AND id <> member_uuid
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+-- 5. Claim a member. Replaces any claim the user is still waiting on in the family.
+CREATE OR REPLACE FUNCTION request_member_claim(member_uuid UUID)
+RETURNS JSON AS $$
+DECLARE
+  member_record RECORD;
+  new_claim RECORD;
+  display_name TEXT;
+BEGIN
+  -- Ensure user is authenticated
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO member_record
+  FROM public.family_members
+  WHERE id = member_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_belongs_to_family(member_record.family_id) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'MEMBER_NOT_FOUND',
+      'message', 'Family member not found'
+    );
+  END IF;
+
+  IF member_record.user_id IS NOT NULL THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'MEMBER_ALREADY_CLAIMED',
+      'message', 'This profile is already linked to an account'
+    );
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.family_members
+    WHERE family_id = member_record.family_id AND user_id = auth.uid()
+  ) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'ALREADY_LINKED',
+      'message', 'Your account is already linked to a profile in this family'
+    );
+  END IF;
+
+  SELECT COALESCE(raw_user_meta_data->>'full_name', raw_user_meta_data->>'name', split_part(email, '@', 1), 'Someone')
+  INTO display_name
+  FROM auth.users
+  WHERE id = auth.uid();
+
+  DELETE FROM public.member_claims
+  WHERE family_id = member_record.family_id AND user_id = auth.uid() AND status = 'pending';
+
+  -- A parent confirms their own claim
+  IF public.user_has_family_role(member_record.family_id, ARRAY['parent']) THEN
+    UPDATE public.family_members SET user_id = auth.uid() WHERE id = member_uuid;
+
+    INSERT INTO public.member_claims (family_id, member_id, user_id, requester_name, status, decided_by, decided_at)
+    VALUES (member_record.family_id, member_uuid, auth.uid(), display_name, 'approved', auth.uid(), NOW())
+    RETURNING * INTO new_claim;
+  ELSE
+    INSERT INTO public.member_claims (family_id, member_id, user_id, requester_name)
+    VALUES (member_record.family_id, member_uuid, auth.uid(), display_name)
+    RETURNING * INTO new_claim;
+  END IF;
+
+  RETURN json_build_object(
+    'success', true,
+    'claim', row_to_json(new_claim)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to claim profile'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+-- 6. Approve or deny a pending claim (parents only). Approving links the member and turns down
+-- anyone else waiting on the same member.
+CREATE OR REPLACE FUNCTION decide_member_claim(claim_uuid UUID, approve BOOLEAN)
+RETURNS JSON AS $$
+DECLARE
+  claim_record RECORD;
+  member_record RECORD;
+BEGIN
+  -- Ensure user is authenticated
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO claim_record
+  FROM public.member_claims
+  WHERE id = claim_uuid
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_belongs_to_family(claim_record.family_id) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'CLAIM_NOT_FOUND',
+      'message', 'Profile claim not found'
+    );
+  END IF;
+
+  IF NOT public.user_has_family_role(claim_record.family_id, ARRAY['parent']) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'NOT_A_PARENT',
+      'message', 'Only parents can confirm profile claims'
+    );
+  END IF;
+
+  IF claim_record.status <> 'pending' THEN
+    RETURN json_build_object(
+      'success', true,
+      'already_applied', true,
+      'claim', row_to_json(claim_record)
+    );
+  END IF;
+
+  IF approve THEN
+    SELECT * INTO member_record
+    FROM public.family_members
+    WHERE id = claim_record.member_id
+    FOR UPDATE;
+
+    IF member_record.user_id IS NOT NULL THEN
+      RETURN json_build_object(
+        'success', false,
+        'error', 'MEMBER_ALREADY_CLAIMED',
+        'message', 'This profile is already linked to an account'
+      );
+    END IF;
+
+    UPDATE public.family_members SET user_id = claim_record.user_id WHERE id = claim_record.member_id;
+
+    UPDATE public.member_claims
+    SET status = 'denied', decided_by = auth.uid(), decided_at = NOW()
+    WHERE member_id = claim_record.member_id AND status = 'pending' AND id <> claim_uuid;
+  END IF;
+
+  UPDATE public.member_claims
+  SET status = CASE WHEN approve THEN 'approved' ELSE 'denied' END,
+      decided_by = auth.uid(),
+      decided_at = NOW()
+  WHERE id = claim_uuid
+  RETURNING * INTO claim_record;
+
+  RETURN json_build_object(
+    'success', true,
+    'already_applied', false,
+    'claim', row_to_json(claim_record)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to decide profile claim'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+-- 7. Reward requests respect the link
+CREATE OR REPLACE FUNCTION request_reward_redemption(
+  reward_uuid UUID,
+  member_uuid UUID
+)
+RETURNS JSON AS $$
+DECLARE
+  reward_record RECORD;
+  member_record RECORD;
+  new_redemption RECORD;
+BEGIN
+  -- Ensure user is authenticated
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO reward_record
+  FROM public.rewards
+  WHERE id = reward_uuid;
+
+  IF NOT FOUND OR NOT public.user_belongs_to_family(reward_record.family_id) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'REWARD_NOT_FOUND',
+      'message', 'Reward not found'
+    );
+  END IF;
+
+  IF reward_record.available IS FALSE THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'REWARD_UNAVAILABLE',
+      'message', 'This reward is not available right now'
+    );
+  END IF;
+
+  SELECT * INTO member_record
+  FROM public.family_members
+  WHERE id = member_uuid AND family_id = reward_record.family_id;
+
+  IF NOT FOUND THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'MEMBER_NOT_FOUND',
+      'message', 'Family member not found'
+    );
+  END IF;
+
+  IF NOT public.user_can_act_for_member(member_uuid) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'NOT_YOUR_PROFILE',
+      'message', 'You can only request rewards for yourself'
+    );
+  END IF;
+
+  -- Early check so kids get immediate feedback; approval checks again
+  IF COALESCE(member_record.points, 0) < COALESCE(reward_record.cost, 0) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'INSUFFICIENT_POINTS',
+      'message', 'Not enough points for this reward'
+    );
+  END IF;
+
+  INSERT INTO public.reward_redemptions (family_id, reward_id, member_id, reward_title, cost)
+  VALUES (reward_record.family_id, reward_record.id, member_uuid, reward_record.title, COALESCE(reward_record.cost, 0))
+  RETURNING * INTO new_redemption;
+
+  RETURN json_build_object(
+    'success', true,
+    'redemption', row_to_json(new_redemption),
+    'message', 'Reward requested'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to request reward'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = '';
+
+-- Grant permissions for the new functions
+GRANT EXECUTE ON FUNCTION user_can_act_for_member(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION request_member_claim(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION decide_member_claim(UUID, BOOLEAN) TO authenticated;
+
+-- Comments
+COMMENT ON TABLE member_claims IS 'Requests to link a signed-in account to a family member, confirmed by a parent';
+COMMENT ON COLUMN family_members.user_id IS 'Account that signs in as this member; set by a confirmed claim';
+COMMENT ON FUNCTION user_can_act_for_member(UUID) IS 'Whether the current user may act for a member: adults for anyone, children only for their own linked member';
+COMMENT ON FUNCTION request_member_claim(UUID) IS 'Claims an unlinked member for the current user; pending until a parent confirms, immediate for parents';
+COMMENT ON FUNCTION decide_member_claim(UUID, BOOLEAN) IS 'Approves (linking the member) or denies a pending profile claim; parents only';
@@ -1,5 +1,6 @@
 import { dataService } from '../dataService';
 import { dataLogger } from '../utils/logger';
+import { addDays, RECURRENCE_WINDOW_DAYS } from '../utils/recurrence';
 import {
   FamilyMember,
   FamilyDetails,
@@ -7,6 +8,7 @@ import {
   ChoreType,
   Routine,
   Reward,
+  RewardRedemption,
   EventItem,
   DailyRoutineProgress
 } from '../types';
@@ -18,6 +20,7 @@ export interface FamilyDataSnapshot {
   choreTypes: ChoreType[];
   routines: Routine[];
   rewards: Reward[];
+  redemptions: RewardRedemption[];
   events: EventItem[];
   progress: DailyRoutineProgress[];
   photo: string | null;
@@ -36,6 +39,13 @@ export async function fetchFamilyDataSnapshot(currentDate: string): Promise<Fami
   dataLogger.info('Initializing data service and loading snapshot');
   await dataService.initialize();
 
+  // Top up recurring chores before reading them so the rolling window is always filled
+  await safeLoad(
+    'recurring chores',
+    () => dataService.generateRecurringChores(addDays(currentDate, RECURRENCE_WINDOW_DAYS)),
+    []
+  );
+
   const [
     members,
     details,
@@ -43,6 +53,7 @@ export async function fetchFamilyDataSnapshot(currentDate: string): Promise<Fami
     choreTypes,
     routines,
     rewards,
+    redemptions,
     events,
     progress,
     photo
@@ -57,6 +68,7 @@ export async function fetchFamilyDataSnapshot(currentDate: string): Promise<Fami
     safeLoad('chore types', () => dataService.getChoreTypes(), []),
     safeLoad('routines', () => dataService.getRoutines(), []),
     safeLoad('rewards', () => dataService.getRewards(), []),
+    safeLoad('reward redemptions', () => dataService.getRewardRedemptions(), []),
     safeLoad('events', () => dataService.getEvents(), []),
     safeLoad('routine progress', () => dataService.getDailyRoutineProgress(currentDate), []),
     safeLoad('family photo', () => dataService.getFamilyPhoto(), null)
@@ -67,6 +79,7 @@ export async function fetchFamilyDataSnapshot(currentDate: string): Promise<Fami
     chores: chores.length,
     routines: routines.length,
     rewards: rewards.length,
+    redemptions: redemptions.length,
     events: events.length,
     hasPhoto: !!photo
   });
@@ -78,6 +91,7 @@ export async function fetchFamilyDataSnapshot(currentDate: string): Promise<Fami
     choreTypes,
     routines,
     rewards,
+    redemptions,
     events,
     progress,
     photo
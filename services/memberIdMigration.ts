@@ -0,0 +1,62 @@
+// Member Reference Migration
+// Chores, events, routines and routine progress used to store member display names.
+// These helpers rewrite any cached name-based references to member IDs.
+
+import { dataLogger } from '../utils/logger';
+import { FamilyMember, Chore, EventItem, Routine, DailyRoutineProgress } from '../types';
+
+const MIGRATION_FLAG_PREFIX = 'family-planner-member-id-migration';
+
+/** Resolve a stored reference to a member ID; names are only used when they match exactly one member */
+export function resolveMemberReference(reference: string, members: FamilyMember[]): string | null {
+  if (members.some(member => member.id === reference)) return reference;
+  const byName = members.filter(member => member.name === reference);
+  if (byName.length === 1) return byName[0].id;
+  if (byName.length > 1) {
+    dataLogger.warn('Ambiguous member name in cached data - dropping reference', { name: reference });
+  }
+  return null;
+}
+
+export function resolveMemberReferences(references: string[] | undefined, members: FamilyMember[]): string[] {
+  return (references || [])
+    .map(reference => resolveMemberReference(reference, members))
+    .filter((id): id is string => id !== null);
+}
+
+export const migrateChoreMembers = <T extends Pick<Chore, 'assignedTo'>>(chore: T, members: FamilyMember[]): T => ({
+  ...chore,
+  assignedTo: resolveMemberReferences(chore.assignedTo, members)
+});
+
+export const migrateEventMembers = <T extends Pick<EventItem, 'attendees'>>(event: T, members: FamilyMember[]): T => ({
+  ...event,
+  attendees: resolveMemberReferences(event.attendees, members)
+});
+
+export const migrateRoutineMembers = <T extends Pick<Routine, 'appliesToMemberIds'>>(routine: T, members: FamilyMember[]): T => ({
+  ...routine,
+  appliesToMemberIds: resolveMemberReferences(routine.appliesToMemberIds, members)
+});
+
+export const migrateProgressMember = (progress: DailyRoutineProgress, members: FamilyMember[]): DailyRoutineProgress => ({
+  ...progress,
+  memberId: resolveMemberReference(progress.memberId, members) ?? progress.memberId
+});
+
+// One-time guard so cached data is only rewritten once per family on this device
+export function hasMigratedMemberReferences(familyId: string): boolean {
+  try {
+    return localStorage.getItem(`${MIGRATION_FLAG_PREFIX}:${familyId}`) === 'done';
+  } catch {
+    return false;
+  }
+}
+
+export function markMemberReferencesMigrated(familyId: string): void {
+  try {
+    localStorage.setItem(`${MIGRATION_FLAG_PREFIX}:${familyId}`, 'done');
+  } catch {
+    // Without storage the migration simply runs again next launch, which is harmless
+  }
+}
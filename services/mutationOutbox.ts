@@ -0,0 +1,388 @@
+// Offline Mutation Outbox
+// Persists writes that could not reach the backend to IndexedDB and replays them in order
+
+import { v4 as uuidv4 } from 'uuid';
+import { syncLogger } from '../utils/logger';
+
+export type OutboxOperation =
+  | 'saveFamilyDetails'
+  | 'saveFamilyPhoto'
+  | 'addFamilyMember'
+  | 'updateFamilyMember'
+  | 'deleteFamilyMember'
+  | 'adjustMemberPoints'
+  | 'addChore'
+  | 'updateChore'
+  | 'deleteChore'
+  | 'completeChore'
+  | 'uncompleteChore'
+  | 'updateChoreTypes'
+  | 'addEvent'
+  | 'updateEvent'
+  | 'deleteEvent'
+  | 'addReward'
+  | 'updateReward'
+  | 'deleteReward'
+  | 'requestRewardRedemption'
+  | 'decideRewardRedemption'
+  | 'addRoutine'
+  | 'updateRoutine'
+  | 'updateRoutines'
+  | 'deleteRoutine'
+  | 'upsertDailyRoutineProgress'
+  | 'setRoutineStep'
+  | 'addChoreSeries'
+  | 'updateChoreSeries'
+  | 'deleteChoreSeries';
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  sequence: number;          // Replay order
+  familyId: string | null;
+  operation: OutboxOperation;
+  table: string;             // Cache table name (matches invalidateCache keys)
+  entityId?: string;         // Affected record; a temporary id for records created offline
+  args: unknown[];
+  status: OutboxStatus;
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+}
+
+export type NewOutboxEntry = Pick<OutboxEntry, 'familyId' | 'operation' | 'table' | 'entityId' | 'args'>;
+
+// Runs one queued mutation against the backend; add operations resolve with the created record
+export type OutboxExecutor = (entry: OutboxEntry) => Promise<unknown>;
+
+export interface ReplayResult {
+  replayed: number;
+  failed: number;
+  remaining: number;
+  tables: string[];          // Tables touched by replayed mutations
+}
+
+// Replays one kind of queued mutation onto loaded rows, for writes that aren't a plain add/update/delete
+export type PendingOverlay<T> = (rows: T[], entry: OutboxEntry) => T[];
+export type PendingOverlays<T> = Partial<Record<OutboxOperation, PendingOverlay<T>>>;
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+type ReplayListener = (result: ReplayResult) => void;
+
+const DB_NAME = 'family-planner-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'mutations';
+
+/**
+ * Errors that mean "the backend could not be reached" rather than "the backend rejected this".
+ * Only these keep an entry pending; anything else marks it failed.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return true;
+  // Supabase returns plain { message } objects rather than Error instances
+  const message = typeof error === 'object' && error !== null && 'message' in error
+    ? String((error as { message: unknown }).message)
+    : String(error ?? '');
+  return /failed to fetch|networkerror|network request failed|load failed|timed out|fetch failed/i.test(message);
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Replace every occurrence of a temporary id inside queued arguments with the server id
+const replaceId = (value: unknown, fromId: string, toId: string): unknown => {
+  if (value === fromId) return toId;
+  if (Array.isArray(value)) return value.map(item => replaceId(item, fromId, toId));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, replaceId(item, fromId, toId)])
+    );
+  }
+  return value;
+};
+
+export class MutationOutbox {
+  private entries: OutboxEntry[] = [];
+  private listeners = new Set<OutboxListener>();
+  private replayListeners = new Set<ReplayListener>();
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private replaying: Promise<ReplayResult> | null = null;
+
+  // --- Persistence ---
+
+  private openDb(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          syncLogger.warn('IndexedDB unavailable - outbox will not survive reloads');
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          syncLogger.error('Could not open outbox database - keeping queue in memory', request.error ?? undefined);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async write(action: (store: IDBObjectStore) => IDBRequest): Promise<void> {
+    const db = await this.openDb();
+    if (!db) return;
+    try {
+      const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+      await requestToPromise(action(store));
+    } catch (error) {
+      syncLogger.error('Error writing to outbox database', error as Error);
+    }
+  }
+
+  /** Load queued mutations left over from a previous session */
+  load(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = (async () => {
+        const db = await this.openDb();
+        if (!db) return;
+        try {
+          const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME);
+          const stored = await requestToPromise(store.getAll() as IDBRequest<OutboxEntry[]>);
+          const known = new Set(this.entries.map(entry => entry.id));
+          this.entries = [...this.entries, ...stored.filter(entry => !known.has(entry.id))]
+            .sort((a, b) => a.sequence - b.sequence);
+          if (stored.length > 0) {
+            syncLogger.info('Restored queued mutations', { count: stored.length });
+            this.notify();
+          }
+        } catch (error) {
+          syncLogger.error('Error loading outbox', error as Error);
+        }
+      })();
+    }
+    return this.loadPromise;
+  }
+
+  // --- Queue access ---
+
+  getEntries(): OutboxEntry[] {
+    return [...this.entries];
+  }
+
+  hasPending(): boolean {
+    return this.entries.some(entry => entry.status === 'pending');
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /** Called after a replay that sent at least one mutation to the backend */
+  onReplayed(listener: ReplayListener): () => void {
+    this.replayListeners.add(listener);
+    return () => {
+      this.replayListeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    const snapshot = this.getEntries();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+
+  async enqueue(mutation: NewOutboxEntry): Promise<OutboxEntry> {
+    await this.load();
+    const lastSequence = this.entries.length > 0 ? this.entries[this.entries.length - 1].sequence : 0;
+    const entry: OutboxEntry = {
+      ...mutation,
+      id: uuidv4(),
+      sequence: Math.max(lastSequence + 1, Date.now()),
+      status: 'pending',
+      attempts: 0,
+      createdAt: new Date().toISOString()
+    };
+    this.entries.push(entry);
+    await this.write(store => store.put(entry));
+    syncLogger.info('Mutation queued for replay', { operation: entry.operation, entityId: entry.entityId });
+    this.notify();
+    return entry;
+  }
+
+  private async save(entry: OutboxEntry) {
+    this.entries = this.entries.map(existing => (existing.id === entry.id ? entry : existing));
+    await this.write(store => store.put(entry));
+  }
+
+  private async remove(entryId: string) {
+    this.entries = this.entries.filter(entry => entry.id !== entryId);
+    await this.write(store => store.delete(entryId));
+  }
+
+  /** Mark a failed mutation as pending again so the next replay retries it */
+  async retry(entryId: string): Promise<void> {
+    const entry = this.entries.find(e => e.id === entryId);
+    if (!entry || entry.status !== 'failed') return;
+    await this.save({ ...entry, status: 'pending', lastError: undefined });
+    this.notify();
+  }
+
+  /** Drop a queued mutation; its optimistic change disappears on the next refresh */
+  async discard(entryId: string): Promise<void> {
+    await this.remove(entryId);
+    this.notify();
+  }
+
+  // --- Replay ---
+
+  /**
+   * Replay pending mutations in order. Stops at the first network error so ordering is kept;
+   * mutations the backend rejects are marked failed, and later mutations of the same record
+   * wait until the failure is retried or discarded.
+   */
+  replay(executor: OutboxExecutor, checkHealth: () => Promise<boolean>): Promise<ReplayResult> {
+    if (!this.replaying) {
+      this.replaying = this.runReplay(executor, checkHealth).finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  private async runReplay(executor: OutboxExecutor, checkHealth: () => Promise<boolean>): Promise<ReplayResult> {
+    await this.load();
+    const result: ReplayResult = { replayed: 0, failed: 0, remaining: this.entries.length, tables: [] };
+    if (!this.hasPending()) return result;
+
+    if (!(await checkHealth())) {
+      syncLogger.debug('Skipping outbox replay - backend unreachable', { pending: this.entries.length });
+      return result;
+    }
+
+    syncLogger.info('Replaying queued mutations', { count: this.entries.length });
+    const blocked = new Set<string>();
+
+    for (const queued of [...this.entries]) {
+      const entry = this.entries.find(e => e.id === queued.id);
+      if (!entry) continue;
+      const entityKey = `${entry.table}:${entry.entityId ?? ''}`;
+
+      if (entry.status === 'failed') {
+        blocked.add(entityKey);
+        continue;
+      }
+      if (entry.entityId && blocked.has(entityKey)) continue;
+
+      try {
+        const response = await executor(entry);
+        await this.remove(entry.id);
+        result.replayed++;
+        if (!result.tables.includes(entry.table)) result.tables.push(entry.table);
+
+        const created = response as { id?: unknown } | undefined;
+        if (entry.operation.startsWith('add') && entry.entityId && created && typeof created.id === 'string') {
+          await this.remapId(entry.entityId, created.id);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (isNetworkError(error)) {
+          await this.save({ ...entry, attempts: entry.attempts + 1, lastError: message });
+          syncLogger.warn('Connection lost during outbox replay - will retry later', { operation: entry.operation });
+          break;
+        }
+        await this.save({ ...entry, status: 'failed', attempts: entry.attempts + 1, lastError: message });
+        if (entry.entityId) blocked.add(entityKey);
+        result.failed++;
+        syncLogger.error('Queued mutation rejected by backend', error as Error, { operation: entry.operation, entityId: entry.entityId });
+      }
+    }
+
+    result.remaining = this.entries.length;
+    syncLogger.info('Outbox replay finished', { ...result });
+    this.notify();
+    if (result.replayed > 0) {
+      this.replayListeners.forEach(listener => listener(result));
+    }
+    return result;
+  }
+
+  /** Rewrite queued mutations in place (used by one-time client data migrations) */
+  async migrateEntries(migrate: (entry: OutboxEntry) => OutboxEntry): Promise<number> {
+    await this.load();
+    let changed = 0;
+    for (const entry of this.entries) {
+      const migrated = migrate(entry);
+      if (JSON.stringify(migrated) !== JSON.stringify(entry)) {
+        await this.save(migrated);
+        changed++;
+      }
+    }
+    if (changed > 0) this.notify();
+    return changed;
+  }
+
+  /**
+   * Point later mutations at several server ids at once, for writes that create more than one
+   * record (the executor calls this; single created records are remapped automatically)
+   */
+  async remapIds(ids: Record<string, string>): Promise<void> {
+    for (const [tempId, realId] of Object.entries(ids)) {
+      if (tempId !== realId) await this.remapId(tempId, realId);
+    }
+  }
+
+  // Point later mutations at the id the backend assigned to a record created offline
+  private async remapId(tempId: string, realId: string) {
+    for (const entry of this.entries) {
+      const args = replaceId(entry.args, tempId, realId) as unknown[];
+      const entityId = entry.entityId === tempId ? realId : entry.entityId;
+      if (entityId !== entry.entityId || JSON.stringify(args) !== JSON.stringify(entry.args)) {
+        await this.save({ ...entry, args, entityId });
+      }
+    }
+  }
+
+  // --- Optimistic state ---
+
+  /**
+   * Overlay queued mutations on freshly loaded rows so offline changes survive a refetch.
+   * The simple add/update/delete shapes are applied here; `overlays` replays any other operation
+   * that changes these rows, including ones queued against another table (e.g. chore series).
+   * Bulk saves are left to the caller.
+   */
+  applyPending<T extends { id: string }>(table: string, rows: T[], overlays: PendingOverlays<T> = {}): T[] {
+    return this.entries
+      .filter(entry => overlays[entry.operation] || (entry.table === table && entry.entityId))
+      .reduce<T[]>((current, entry) => {
+        const overlay = overlays[entry.operation];
+        if (overlay) return overlay(current, entry);
+        const id = entry.entityId as string;
+        if (entry.operation.startsWith('delete')) {
+          return current.filter(row => row.id !== id);
+        }
+        const record = { ...(entry.args[0] as T), id };
+        if (entry.operation.startsWith('add')) {
+          return current.some(row => row.id === id) ? current : [...current, record];
+        }
+        if (entry.operation.startsWith('update')) {
+          return current.map(row => (row.id === id ? record : row));
+        }
+        return current;
+      }, rows);
+  }
+}
+
+export const mutationOutbox = new MutationOutbox();
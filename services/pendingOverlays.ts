@@ -0,0 +1,97 @@
+// Pending Overlays
+// Replays queued writes that aren't a plain add/update/delete onto freshly loaded lists, so
+// completions, routine steps and series edits made offline survive a refetch
+
+import { v5 as uuidv5 } from 'uuid';
+import { Chore, ChoreSeries, DailyRoutineProgress, NewChore, RecurrenceRule, Routine } from '../types';
+import {
+  completeChoreFor,
+  uncompleteChoreFor,
+  createSeriesFromChore,
+  buildSeriesOccurrences,
+  getSeriesWindowEnd,
+  getFutureOccurrences
+} from '../utils/choreUtils';
+import { setRoutineStepFor } from '../utils/routineUtils';
+import { OutboxEntry, PendingOverlays } from './mutationOutbox';
+
+// Namespace for the stand-in ids below; any fixed UUID works
+const QUEUED_ID_NAMESPACE = '6f1c7d2e-3b4a-4c5d-8e9f-0a1b2c3d4e5f';
+
+/**
+ * Stand-in ids for records a queued series write will create. They are derived rather than
+ * random so every refetch shows the same ids, and replay can tell which real record each became.
+ */
+export const getQueuedSeriesId = (from: Chore) => uuidv5(`series:${from.id}`, QUEUED_ID_NAMESPACE);
+export const getQueuedOccurrenceId = (seriesId: string, occurrenceDate: string) =>
+  uuidv5(`${seriesId}:${occurrenceDate}`, QUEUED_ID_NAMESPACE);
+
+// Stand-in occurrences shown while a series write waits in the outbox
+export function buildQueuedOccurrences(seriesId: string, chore: Chore | NewChore, recurrence: RecurrenceRule): Chore[] {
+  const series: ChoreSeries = { ...createSeriesFromChore(chore, recurrence), id: seriesId };
+  return buildSeriesOccurrences(series, series.startDate, getSeriesWindowEnd(series))
+    .map(occurrence => ({ ...occurrence, id: getQueuedOccurrenceId(seriesId, occurrence.occurrenceDate ?? occurrence.dueDate) }));
+}
+
+// What an "all future" series edit leaves in place of `from` and its later occurrences
+export function buildSeriesReplacements(from: Chore, recurrence: RecurrenceRule | null): Chore[] {
+  return recurrence
+    ? buildQueuedOccurrences(getQueuedSeriesId(from), from, recurrence)
+    : [{ ...from, seriesId: null, occurrenceDate: null, recurrence: null }];
+}
+
+const replaceFutureOccurrences = (chores: Chore[], from: Chore, replacements: Chore[]) => {
+  const replaced = new Set([from.id, ...getFutureOccurrences(chores, from).map(c => c.id)]);
+  return [...chores.filter(c => !replaced.has(c.id)), ...replacements];
+};
+
+// A completion the backend will reject (e.g. the member was unassigned since) leaves the chore
+// as loaded; the failed entry shows up in the outbox instead
+const changeChore = (chores: Chore[], choreId: string | undefined, change: (chore: Chore) => Chore) =>
+  chores.map(chore => {
+    if (chore.id !== choreId) return chore;
+    try {
+      return change(chore);
+    } catch {
+      return chore;
+    }
+  });
+
+export const CHORE_OVERLAYS: PendingOverlays<Chore> = {
+  completeChore: (chores, entry) =>
+    changeChore(chores, entry.entityId, chore => completeChoreFor(chore, entry.args[1] as string | undefined).chore),
+  uncompleteChore: (chores, entry) =>
+    changeChore(chores, entry.entityId, chore => uncompleteChoreFor(chore, entry.args[1] as string | undefined).chore),
+  addChoreSeries: (chores, entry) => {
+    const [chore, recurrence] = entry.args as [NewChore, RecurrenceRule];
+    const seriesId = entry.entityId as string;
+    if (chores.some(c => c.seriesId === seriesId)) return chores;
+    return [...chores, ...buildQueuedOccurrences(seriesId, chore, recurrence)];
+  },
+  updateChoreSeries: (chores, entry) => {
+    const [from, recurrence] = entry.args as [Chore, RecurrenceRule | null];
+    return replaceFutureOccurrences(chores, from, buildSeriesReplacements(from, recurrence));
+  },
+  deleteChoreSeries: (chores, entry) => replaceFutureOccurrences(chores, entry.args[0] as Chore, [])
+};
+
+/** Replay queued routine step checks for `date` onto that day's progress */
+export function applyPendingSteps(
+  entries: OutboxEntry[],
+  progress: DailyRoutineProgress[],
+  routines: Routine[],
+  date: string
+): DailyRoutineProgress[] {
+  return entries
+    .filter(entry => entry.operation === 'setRoutineStep' && entry.args[2] === date)
+    .reduce((current, entry) => {
+      const [memberId, routineId, , stepId, done] = entry.args as [string, string, string, string, boolean];
+      const routine = routines.find(r => r.id === routineId);
+      if (!routine) return current;
+      const existing = current.find(p => p.memberId === memberId && p.routineId === routineId);
+      const { progress: updated } = setRoutineStepFor(routine, existing, memberId, date, stepId, done);
+      return existing
+        ? current.map(p => (p === existing ? updated : p))
+        : [...current, updated];
+    }, progress);
+}
@@ -2,6 +2,7 @@
 // Implements intelligent caching for frequently accessed data
 
 import { dataLogger } from '../utils/logger';
+import type { IDataService } from '../IDataService';
 
 interface CacheEntry<T> {
   data: T;
@@ -154,7 +155,7 @@ export class PerformanceCache {
   }
 
   // Preload commonly accessed data
-  async preload(familyId: string, dataService: any): Promise<void> {
+  async preload(familyId: string, dataService: IDataService): Promise<void> {
     dataLogger.info('Preloading cache data', { familyId });
     
     try {
@@ -192,7 +193,7 @@ function bindAllMethods(obj) {
   return bound;
 }
 
-export const createCachedDataService = (originalDataService: any, familyId: string) => {
+export const createCachedDataService = (originalDataService: IDataService, familyId: string): IDataService => {
   return {
     // Cached family details
     async getFamilyDetails() {
@@ -261,7 +262,7 @@ export const createCachedDataService = (originalDataService: any, familyId: stri
 
     // Forward all other methods, properly bound
     ...bindAllMethods(originalDataService)
-  };
+  } as IDataService;
 };
 
 export default PerformanceCache;
\ No newline at end of file
@@ -0,0 +1,155 @@
+// Realtime Merge
+// Applies single-row realtime changes to the lists already in memory. Each merge returns the
+// updated list, or null when the payload alone isn't enough and the table has to be refetched
+
+import { Chore, ChoreAssignment, DailyRoutineProgress, Routine } from '../types';
+import { parseRRule } from '../utils/recurrence';
+import { mapChoreRow, mapProgressRow, mapRoutineRow, mapRoutineStepRow } from './supabaseRows';
+
+export type RealtimeEventType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export const isRealtimeEventType = (eventType: string): eventType is RealtimeEventType =>
+  eventType === 'INSERT' || eventType === 'UPDATE' || eventType === 'DELETE';
+
+/**
+ * Insert, replace or remove one record by id.
+ * `record` is the new row, or for deletes the old one (which only has to carry the id).
+ */
+export function mergeRow<T extends { id: string }>(
+  items: T[],
+  eventType: RealtimeEventType,
+  record: any,
+  mapRow: (row: any) => T,
+  options: { prepend?: boolean } = {}
+): T[] | null {
+  if (!record?.id) return null;
+  const id = String(record.id);
+  if (eventType === 'DELETE') return items.filter(item => item.id !== id);
+
+  const mapped = mapRow(record);
+  if (items.some(item => item.id === id)) {
+    return items.map(item => (item.id === id ? mapped : item));
+  }
+  return options.prepend ? [mapped, ...items] : [...items, mapped];
+}
+
+/**
+ * A chores row on its own has no assignments or series rule. Those are kept from the chore
+ * already in memory (chore_assignments and chore_series changes arrive separately); the rule
+ * comes from any chore in the same series.
+ */
+export function mergeChoreChange(chores: Chore[], eventType: RealtimeEventType, record: any): Chore[] | null {
+  // The first occurrence of a new series: its rule is only in chore_series
+  if (eventType !== 'DELETE' && record?.series_id && !chores.some(c => c.seriesId === String(record.series_id))) {
+    return null;
+  }
+  return mergeRow(chores, eventType, record, row => {
+    const chore = mapChoreRow(row);
+    const existing = chores.find(c => c.id === chore.id);
+    const sibling = chore.seriesId ? chores.find(c => c.seriesId === chore.seriesId) : undefined; // May be the chore itself
+    return {
+      ...chore,
+      ...(existing && { assignments: existing.assignments, assignedTo: existing.assignedTo }),
+      recurrence: sibling?.recurrence ?? null
+    };
+  });
+}
+
+// Assignee completion lives in chore_assignments; fold one row into its chore
+export function mergeChoreAssignmentChange(chores: Chore[], eventType: RealtimeEventType, record: any): Chore[] | null {
+  // Deletes carry the whole old row only with REPLICA IDENTITY FULL (migration 26)
+  if (!record?.chore_id || !record?.member_id) return null;
+  const choreId = String(record.chore_id);
+  const memberId = String(record.member_id);
+  const chore = chores.find(c => c.id === choreId);
+  if (!chore) {
+    // A removed assignment of a chore that is already gone needs nothing; anything else is a gap
+    return eventType === 'DELETE' ? chores : null;
+  }
+
+  const current = chore.assignments ?? [];
+  let assignments: ChoreAssignment[];
+  if (eventType === 'DELETE') {
+    assignments = current.filter(a => a.memberId !== memberId);
+  } else {
+    const assignment: ChoreAssignment = {
+      memberId,
+      completedAt: record.completed_at ?? null,
+      pointsAwarded: record.points_awarded ?? 0
+    };
+    assignments = current.some(a => a.memberId === memberId)
+      ? current.map(a => (a.memberId === memberId ? assignment : a))
+      : [...current, assignment];
+  }
+
+  return chores.map(c => (c.id === choreId ? { ...c, assignments, assignedTo: assignments.map(a => a.memberId) } : c));
+}
+
+// Occurrences show their series' current rule
+export function mergeChoreSeriesChange(chores: Chore[], eventType: RealtimeEventType, record: any): Chore[] | null {
+  if (!record?.id) return null;
+  const seriesId = String(record.id);
+  if (eventType !== 'DELETE' && record.rrule === undefined) return null;
+  const recurrence = eventType === 'DELETE' ? null : parseRRule(record.rrule);
+  return chores.map(c => (c.seriesId === seriesId ? { ...c, recurrence } : c));
+}
+
+/**
+ * Progress rows are keyed by member, routine and date. Only the loaded date is held, so changes
+ * to other days are dropped.
+ */
+export function mergeProgressChange(
+  progress: DailyRoutineProgress[],
+  eventType: RealtimeEventType,
+  record: any,
+  date: string
+): DailyRoutineProgress[] | null {
+  // Deletes carry the whole old row only with REPLICA IDENTITY FULL (migration 27)
+  if (!record?.member_id || !record?.routine_id || !record?.date) return null;
+  if (record.date !== date) return progress;
+
+  const memberId = String(record.member_id);
+  const routineId = String(record.routine_id);
+  const matches = (p: DailyRoutineProgress) => p.memberId === memberId && p.routineId === routineId && p.date === date;
+  if (eventType === 'DELETE') return progress.filter(p => !matches(p));
+
+  const mapped = mapProgressRow(record);
+  return progress.some(matches) ? progress.map(p => (matches(p) ? mapped : p)) : [...progress, mapped];
+}
+
+// A routines row carries no steps; they are kept from memory and change through routine_steps
+export function mergeRoutineChange(routines: Routine[], eventType: RealtimeEventType, record: any): Routine[] | null {
+  return mergeRow(routines, eventType, record, row => ({
+    ...mapRoutineRow(row),
+    steps: routines.find(r => r.id === String(row.id))?.steps ?? []
+  }));
+}
+
+/**
+ * Fold one routine_steps row into its routine. Steps in memory are in position order, so an edit
+ * that leaves a step where it is (or appends one) applies directly; a reorder refetches.
+ */
+export function mergeRoutineStepChange(routines: Routine[], eventType: RealtimeEventType, record: any): Routine[] | null {
+  // Deletes carry the whole old row only with REPLICA IDENTITY FULL (migration 29)
+  if (!record?.routine_id || !record?.id) return null;
+  const routineId = String(record.routine_id);
+  const stepId = String(record.id);
+  const routine = routines.find(r => r.id === routineId);
+  if (!routine) return eventType === 'DELETE' ? routines : null;
+
+  let steps = routine.steps;
+  if (eventType === 'DELETE') {
+    steps = steps.filter(step => step.id !== stepId);
+  } else {
+    const index = steps.findIndex(step => step.id === stepId);
+    const step = mapRoutineStepRow(record);
+    if (index >= 0 && index === record.position) {
+      steps = steps.map(s => (s.id === stepId ? step : s));
+    } else if (index < 0 && record.position === steps.length) {
+      steps = [...steps, step];
+    } else {
+      return null;
+    }
+  }
+  return routines.map(r => (r.id === routineId ? { ...r, steps } : r));
+}
@@ -0,0 +1,76 @@
+// Reminder Notifications
+// Shows reminders as system notifications: Capacitor local notifications in the Android app when
+// the plugin is installed, the Web Notifications API everywhere else
+
+import { Capacitor, registerPlugin } from '@capacitor/core';
+import { Reminder } from '../utils/reminders';
+import { uiLogger } from '../utils/logger';
+
+export type ReminderPermission = 'granted' | 'denied' | 'default' | 'unsupported';
+
+// The parts of @capacitor/local-notifications used here; the native plugin is optional
+interface LocalNotificationsPlugin {
+  checkPermissions(): Promise<{ display: string }>;
+  requestPermissions(): Promise<{ display: string }>;
+  schedule(options: { notifications: { id: number; title: string; body: string; extra?: unknown }[] }): Promise<unknown>;
+}
+
+const LocalNotifications = registerPlugin<LocalNotificationsPlugin>('LocalNotifications');
+
+const hasNativeNotifications = () => Capacitor.isNativePlatform() && Capacitor.isPluginAvailable('LocalNotifications');
+const hasWebNotifications = () => typeof window !== 'undefined' && 'Notification' in window;
+
+const fromNativePermission = (display: string): ReminderPermission =>
+  display === 'granted' ? 'granted' : display === 'denied' ? 'denied' : 'default';
+
+// Native notification ids have to be 32-bit integers
+const toNotificationId = (key: string) => {
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+export async function getReminderPermission(): Promise<ReminderPermission> {
+  if (hasNativeNotifications()) {
+    return fromNativePermission((await LocalNotifications.checkPermissions()).display);
+  }
+  return hasWebNotifications() ? Notification.permission : 'unsupported';
+}
+
+/** Ask to show notifications; browsers only allow this from a user action such as a click */
+export async function requestReminderPermission(): Promise<ReminderPermission> {
+  try {
+    if (hasNativeNotifications()) {
+      return fromNativePermission((await LocalNotifications.requestPermissions()).display);
+    }
+    return hasWebNotifications() ? await Notification.requestPermission() : 'unsupported';
+  } catch (error) {
+    uiLogger.error('Failed to request notification permission', error as Error);
+    return 'denied';
+  }
+}
+
+export async function showReminderNotification(reminder: Reminder): Promise<void> {
+  if (hasNativeNotifications()) {
+    await LocalNotifications.schedule({
+      notifications: [{ id: toNotificationId(reminder.key), title: reminder.title, body: reminder.body, extra: { kind: reminder.kind, itemId: reminder.itemId } }]
+    });
+    return;
+  }
+  if (!hasWebNotifications() || Notification.permission !== 'granted') {
+    uiLogger.warn('Notifications unavailable - reminder not shown', { key: reminder.key });
+    return;
+  }
+
+  const options: NotificationOptions = { body: reminder.body, tag: reminder.key, icon: '/familytide.png' };
+  try {
+    new Notification(reminder.title, options);
+  } catch {
+    // Mobile browsers only show notifications through a service worker
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (!registration) throw new Error('Notifications need a service worker in this browser');
+    await registration.showNotification(reminder.title, options);
+  }
+}
@@ -0,0 +1,155 @@
+// Reminder Scheduler
+// Works out which event and chore reminders are due and hands each one to a delivery function
+// exactly once. Time comes from an injectable clock so the scheduling can be driven by a fake one
+
+import { Chore, EventItem } from '../types';
+import { Reminder, getRemindersBetween } from '../utils/reminders';
+import { uiLogger } from '../utils/logger';
+
+export interface ReminderClock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export type ReminderDelivery = (reminder: Reminder) => Promise<void> | void;
+
+type ReminderStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+export interface ReminderSchedulerOptions {
+  clock?: ReminderClock;
+  storage?: ReminderStorage | null; // Remembers delivered reminders across reloads; null keeps them in memory
+}
+
+export const systemClock: ReminderClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>)
+};
+
+const DELIVERED_STORAGE_KEY = 'family-planner-delivered-reminders';
+const MISSED_GRACE_MS = 15 * 60 * 1000; // Reminders missed while the app was closed are still shown this late
+const MAX_WAIT_MS = 60 * 60 * 1000; // Re-check at least hourly; timers stall while a device sleeps
+const DELIVERED_RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+
+const getDefaultStorage = (): ReminderStorage | null => {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    return null;
+  }
+};
+
+export class ReminderScheduler {
+  private readonly clock: ReminderClock;
+  private readonly storage: ReminderStorage | null;
+  private events: EventItem[] = [];
+  private chores: Chore[] = [];
+  private delivered = new Map<string, number>(); // Reminder key -> fire time
+  private lastCheck: number | null = null;
+  private timer: unknown = null;
+  private running = false;
+
+  constructor(private readonly deliver: ReminderDelivery, options: ReminderSchedulerOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.storage = options.storage === undefined ? getDefaultStorage() : options.storage;
+    this.loadDelivered();
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /** Replace the events and chores reminders are worked out from */
+  setItems(events: EventItem[], chores: Chore[]): void {
+    this.events = events;
+    this.chores = chores;
+    if (this.running) this.check();
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.lastCheck = null;
+    this.check();
+  }
+
+  stop(): void {
+    this.running = false;
+    this.clearTimer();
+  }
+
+  /**
+   * Deliver reminders that have come due since the last check (or within the grace period,
+   * after a restart), then wait for the next one. Returns what was delivered.
+   */
+  check(): Reminder[] {
+    if (!this.running) return [];
+    const now = this.clock.now();
+    const since = Math.max(this.lastCheck ?? 0, now - MISSED_GRACE_MS);
+    this.lastCheck = now;
+
+    const due = getRemindersBetween(this.events, this.chores, new Date(since), new Date(now))
+      .filter(reminder => !this.delivered.has(reminder.key));
+    due.forEach(reminder => this.delivered.set(reminder.key, reminder.fireAt.getTime()));
+    if (due.length > 0) this.saveDelivered(now);
+
+    due.forEach(reminder => {
+      uiLogger.debug('Delivering reminder', { key: reminder.key, kind: reminder.kind });
+      Promise.resolve()
+        .then(() => this.deliver(reminder))
+        .catch(error => uiLogger.error('Failed to deliver reminder', error as Error, { key: reminder.key }));
+    });
+
+    this.scheduleNext(now);
+    return due;
+  }
+
+  /** When the next reminder fires, if there is one within the next hour */
+  getNextFireTime(): number | null {
+    const now = this.clock.now();
+    const upcoming = getRemindersBetween(this.events, this.chores, new Date(now + 1), new Date(now + MAX_WAIT_MS))
+      .filter(reminder => !this.delivered.has(reminder.key));
+    return upcoming.length > 0 ? upcoming[0].fireAt.getTime() : null;
+  }
+
+  private scheduleNext(now: number): void {
+    this.clearTimer();
+    const next = this.getNextFireTime();
+    const wait = next === null ? MAX_WAIT_MS : Math.max(0, next - now);
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = null;
+      this.check();
+    }, wait);
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private loadDelivered(): void {
+    if (!this.storage) return;
+    try {
+      const stored = JSON.parse(this.storage.getItem(DELIVERED_STORAGE_KEY) || '{}');
+      this.delivered = new Map(Object.entries(stored).filter((entry): entry is [string, number] => typeof entry[1] === 'number'));
+    } catch (error) {
+      uiLogger.warn('Could not read delivered reminders', { error: (error as Error).message });
+    }
+  }
+
+  // Old entries are dropped; they are long past the grace period and can't fire again
+  private saveDelivered(now: number): void {
+    this.delivered.forEach((fireAt, key) => {
+      if (fireAt < now - DELIVERED_RETENTION_MS) this.delivered.delete(key);
+    });
+    if (!this.storage) return;
+    try {
+      this.storage.setItem(DELIVERED_STORAGE_KEY, JSON.stringify(Object.fromEntries(this.delivered)));
+    } catch {
+      // Without storage a reminder can show again after a reload within the grace period
+    }
+  }
+}
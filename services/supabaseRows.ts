@@ -0,0 +1,209 @@
+// Supabase row mappers
+// Turn database rows (from queries or realtime payloads) into the app's domain types
+
+import { parseRRule } from '../utils/recurrence';
+import {
+  FamilyMember,
+  Chore,
+  ChoreAssignment,
+  ChoreSeries,
+  ChoreType,
+  PointTransaction,
+  EventItem,
+  Reward,
+  RewardRedemption,
+  MemberClaim,
+  FamilyMembership,
+  Routine,
+  RoutineStep,
+  DailyRoutineProgress
+} from '../types';
+
+
+// points is kept in step with point_transactions by the database
+export function mapFamilyMemberRow(row: any): FamilyMember {
+  return {
+    id: String(row.id),
+    name: row.name,
+    initial: row.initial,
+    role: row.role,
+    color: row.color,
+    nickname: row.nickname,
+    dob: row.dob,
+    points: row.points || 0,
+    userId: row.user_id ?? undefined,
+    updatedAt: row.updated_at ?? undefined
+  };
+}
+
+export function mapPointTransactionRow(row: any): PointTransaction {
+  return {
+    id: String(row.id),
+    memberId: String(row.member_id),
+    amount: row.amount,
+    source: row.source,
+    reason: row.reason || '',
+    referenceId: row.reference_id ? String(row.reference_id) : null,
+    actorUserId: row.actor_user_id ?? null,
+    createdAt: row.created_at
+  };
+}
+
+// A chores row, with its chore_assignments and chore_series (rrule) when they were selected
+export function mapChoreRow(row: any): Chore {
+  const assignmentRows: any[] = row.chore_assignments || [];
+  const assignments: ChoreAssignment[] = assignmentRows.length > 0
+    ? assignmentRows.map(a => ({
+        memberId: String(a.member_id),
+        completedAt: a.completed_at ?? null,
+        pointsAwarded: a.points_awarded ?? 0
+      }))
+    : row.assigned_to_id
+      ? [{ memberId: String(row.assigned_to_id), completedAt: null }] // Pre-assignment-table rows
+      : [];
+
+  return {
+    id: String(row.id),
+    title: row.title,
+    assignedTo: assignments.map(a => a.memberId),
+    completed: row.status === 'completed',
+    points: row.points,
+    dueDate: row.due_date,
+    icon: row.icon,
+    choreTypeId: row.chore_type_id ? String(row.chore_type_id) : null,
+    completionMode: row.completion_mode || 'any',
+    pointsMode: row.points_mode || 'duplicate',
+    assignments,
+    seriesId: row.series_id ? String(row.series_id) : null,
+    occurrenceDate: row.occurrence_date ?? null,
+    recurrence: parseRRule(row.chore_series?.rrule),
+    reminders: row.reminder_offsets || [],
+    updatedAt: row.updated_at ?? undefined
+  };
+}
+
+export function mapSeriesRow(row: any): ChoreSeries | null {
+  const recurrence = parseRRule(row.rrule);
+  if (!recurrence) return null; // Unsupported rule - leave the series alone
+  return {
+    id: String(row.id),
+    title: row.title,
+    assignedTo: (row.assigned_member_ids || []).map(String),
+    points: row.points,
+    icon: row.icon ?? undefined,
+    choreTypeId: row.chore_type_id ? String(row.chore_type_id) : null,
+    completionMode: row.completion_mode || 'any',
+    pointsMode: row.points_mode || 'duplicate',
+    recurrence,
+    startDate: row.start_date,
+    generatedUntil: row.generated_until ?? null,
+    reminders: row.reminder_offsets || []
+  };
+}
+
+export function mapChoreTypeRow(row: any): ChoreType {
+  return {
+    id: String(row.id),
+    name: row.name,
+    defaultPoints: row.default_points,
+    icon: row.icon
+  };
+}
+
+export function mapEventRow(row: any): EventItem {
+  return {
+    id: String(row.id),
+    title: row.title,
+    date: row.date,
+    endTime: row.end_time || '',
+    endDate: row.end_date ?? null,
+    allDay: !!row.all_day,
+    color: row.color,
+    attendees: (row.attendee_ids || []).map(String),
+    recurrence: parseRRule(row.rrule),
+    exceptions: row.recurrence_exceptions || [],
+    icalUid: row.ical_uid ?? null,
+    reminders: row.reminder_offsets || [],
+    updatedAt: row.updated_at ?? undefined
+  };
+}
+
+export function mapRewardRow(row: any): Reward {
+  return {
+    id: String(row.id),
+    title: row.title,
+    cost: row.cost,
+    icon: row.icon,
+    available: !!row.available
+  };
+}
+
+export function mapRedemptionRow(row: any): RewardRedemption {
+  return {
+    id: String(row.id),
+    rewardId: row.reward_id ? String(row.reward_id) : null,
+    memberId: String(row.member_id),
+    rewardTitle: row.reward_title,
+    cost: row.cost,
+    status: row.status,
+    requestedAt: row.created_at,
+    decidedAt: row.decided_at ?? null,
+    decisionNote: row.decision_note ?? null
+  };
+}
+
+export function mapMembershipRow(row: any): FamilyMembership {
+  return {
+    id: String(row.id),
+    userId: String(row.user_id),
+    role: row.role,
+    joinedAt: row.joined_at
+  };
+}
+
+export function mapMemberClaimRow(row: any): MemberClaim {
+  return {
+    id: String(row.id),
+    memberId: String(row.member_id),
+    userId: String(row.user_id),
+    requesterName: row.requester_name,
+    status: row.status,
+    requestedAt: row.created_at,
+    decidedAt: row.decided_at ?? null
+  };
+}
+
+export function mapRoutineStepRow(row: any): RoutineStep {
+  return {
+    id: String(row.id),
+    title: row.title,
+    icon: row.icon,
+    optional: !!row.optional,
+    estimatedMinutes: row.estimated_minutes ?? undefined,
+    points: row.points ?? 0
+  };
+}
+
+// Steps come from the routine_steps join; a realtime routines payload has none
+export function mapRoutineRow(row: any): Routine {
+  return {
+    id: String(row.id),
+    name: row.name,
+    appliesToMemberIds: (row.applies_to_member_ids || []).map(String),
+    steps: [...(row.routine_steps || [])]
+      .sort((a, b) => a.position - b.position)
+      .map(mapRoutineStepRow),
+    completionPoints: row.completion_points
+  };
+}
+
+export function mapProgressRow(row: any): DailyRoutineProgress {
+  return {
+    memberId: String(row.member_id),
+    routineId: row.routine_id,
+    date: row.date,
+    completedStepIds: row.completed_step_ids || [], // Should already be an array from TEXT[]
+    isFullyCompleted: !!row.is_fully_completed,
+    pointsAwarded: row.points_awarded ?? 0
+  };
+}
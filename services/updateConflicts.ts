@@ -0,0 +1,139 @@
+// Update Conflicts
+// Edits carry the updatedAt of the version they were based on. When a backend finds the row has
+// changed since, it throws UpdateConflictError with both versions so the user can merge them.
+// When the caller also knows the version the edit started from, only fields both sides changed
+// are offered; the rest keep whichever side changed them
+
+import { Chore, EventItem, FamilyDetails, FamilyMember } from '../types';
+
+export type ConflictEntity = 'chore' | 'event' | 'familyMember' | 'familyDetails';
+
+export interface ConflictEntityTypes {
+  chore: Chore;
+  event: EventItem;
+  familyMember: FamilyMember;
+  familyDetails: FamilyDetails;
+}
+
+export type ConflictPick = 'mine' | 'theirs';
+
+export interface ConflictField {
+  key: string;
+  label: string;
+}
+
+const ENTITY_LABELS: Record<ConflictEntity, string> = {
+  chore: 'This chore',
+  event: 'This event',
+  familyMember: 'This family member',
+  familyDetails: 'The family details'
+};
+
+// The fields an edit can change, in the order the merge dialog lists them. Chore completion isn't
+// here: it changes through completeChore, so a merge always keeps the latest completion state
+export const CONFLICT_FIELDS: Record<ConflictEntity, ConflictField[]> = {
+  chore: [
+    { key: 'title', label: 'Title' },
+    { key: 'assignedTo', label: 'Assigned to' },
+    { key: 'points', label: 'Points' },
+    { key: 'dueDate', label: 'Due' },
+    { key: 'icon', label: 'Icon' },
+    { key: 'choreTypeId', label: 'Type' },
+    { key: 'completionMode', label: 'Completion' },
+    { key: 'pointsMode', label: 'Points split' },
+    { key: 'reminders', label: 'Reminders' }
+  ],
+  event: [
+    { key: 'title', label: 'Title' },
+    { key: 'date', label: 'Starts' },
+    { key: 'endDate', label: 'Ends' },
+    { key: 'allDay', label: 'All day' },
+    { key: 'color', label: 'Colour' },
+    { key: 'attendees', label: 'Attendees' },
+    { key: 'recurrence', label: 'Repeats' },
+    { key: 'exceptions', label: 'Changed occurrences' },
+    { key: 'reminders', label: 'Reminders' }
+  ],
+  familyMember: [
+    { key: 'name', label: 'Name' },
+    { key: 'initial', label: 'Initial' },
+    { key: 'nickname', label: 'Nickname' },
+    { key: 'role', label: 'Role' },
+    { key: 'color', label: 'Colour' },
+    { key: 'dob', label: 'Birthday' }
+  ],
+  familyDetails: [
+    { key: 'name', label: 'Family name' },
+    { key: 'address', label: 'Address' },
+    { key: 'photoObjectPosition', label: 'Photo position' }
+  ]
+};
+
+export class UpdateConflictError<E extends ConflictEntity = ConflictEntity> extends Error {
+  constructor(
+    readonly entity: E,
+    readonly local: ConflictEntityTypes[E],
+    readonly remote: ConflictEntityTypes[E],
+    readonly base?: ConflictEntityTypes[E] // The version the edit was based on, when known
+  ) {
+    super(`${ENTITY_LABELS[entity]} was changed on another device`);
+    this.name = 'UpdateConflictError';
+  }
+}
+
+export const isUpdateConflict = (error: unknown): error is UpdateConflictError =>
+  error instanceof UpdateConflictError;
+
+/** Throw if an edit was based on an older version than `remote`; edits without a version always apply */
+export function assertNoConflict<E extends ConflictEntity>(
+  entity: E,
+  local: ConflictEntityTypes[E],
+  remote: ConflictEntityTypes[E]
+): void {
+  if (local.updatedAt && remote.updatedAt && local.updatedAt !== remote.updatedAt) {
+    throw new UpdateConflictError(entity, local, remote);
+  }
+}
+
+// Unset, null and empty values all read as "nothing"; member lists compare regardless of order
+const normalize = (value: unknown): unknown => {
+  if (value === undefined || value === null || value === '') return null;
+  if (Array.isArray(value) && value.every(item => typeof item === 'string')) return [...value].sort();
+  return value;
+};
+
+const getField = (item: unknown, key: string) => (item as Record<string, unknown>)[key];
+
+export const isSameValue = (a: unknown, b: unknown) => JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+// Whether a version changed a field from the base; without a base every field counts as changed
+const changedFromBase = (conflict: UpdateConflictError, version: unknown, key: string) =>
+  !conflict.base || !isSameValue(getField(version, key), getField(conflict.base, key));
+
+const isEditedField = (conflict: UpdateConflictError, key: string) =>
+  changedFromBase(conflict, conflict.local, key);
+
+/** Fields both versions changed, to different values */
+export function getConflictingFields(conflict: UpdateConflictError): ConflictField[] {
+  return CONFLICT_FIELDS[conflict.entity].filter(field =>
+    isEditedField(conflict, field.key) &&
+    changedFromBase(conflict, conflict.remote, field.key) &&
+    !isSameValue(getField(conflict.local, field.key), getField(conflict.remote, field.key))
+  );
+}
+
+/**
+ * Build the version to save from the user's picks: the latest version with the chosen fields
+ * taken from the edit. Unpicked fields keep the edit's value; fields the edit didn't touch keep
+ * the latest value.
+ */
+export function mergeConflict<E extends ConflictEntity>(
+  conflict: UpdateConflictError<E>,
+  picks: Record<string, ConflictPick>
+): ConflictEntityTypes[E] {
+  const merged: Record<string, unknown> = { ...conflict.remote };
+  CONFLICT_FIELDS[conflict.entity].forEach(({ key }) => {
+    if (isEditedField(conflict, key) && picks[key] !== 'theirs') merged[key] = getField(conflict.local, key);
+  });
+  return { ...merged, updatedAt: conflict.remote.updatedAt } as ConflictEntityTypes[E];
+}
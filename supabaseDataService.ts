@@ -3,22 +3,61 @@
 
 import { supabaseService, supabase } from './supabaseService';
 import { dataLogger } from './utils/logger';
+import {
+  createSeriesFromChore,
+  buildSeriesOccurrences,
+  getFutureOccurrences,
+  getPendingSeriesRange,
+  getSeriesWindowEnd
+} from './utils/choreUtils';
+import { addDays, endRecurrence, formatRRule } from './utils/recurrence';
+import { IDataService, ServiceInfo, FamilySummary } from './IDataService';
+import { UpdateConflictError } from './services/updateConflicts';
+import {
+  mapFamilyMemberRow,
+  mapPointTransactionRow,
+  mapChoreRow,
+  mapSeriesRow,
+  mapChoreTypeRow,
+  mapEventRow,
+  mapRewardRow,
+  mapRedemptionRow,
+  mapMemberClaimRow,
+  mapMembershipRow,
+  mapRoutineRow,
+  mapProgressRow
+} from './services/supabaseRows';
 import {
   FamilyMember,
   NewFamilyMember,
   Chore,
   NewChore,
+  ChoreCompletionResult,
+  PointTransaction,
   EventItem,
   Reward,
   NewReward,
+  RewardRedemption,
   FamilyDetails,
   ChoreType,
   Routine,
+  RoutineStep,
   DailyRoutineProgress,
+  RoutineStepResult,
+  ChoreSeries,
+  RecurrenceRule,
+  FamilyRole,
+  MemberClaim,
+  FamilyMembership,
   TabId
 } from './types';
 
-export class SupabaseDataService {
+// Chores are always read with their assignments (ordered by created_at - see saveChoreAssignments)
+// and, for recurring occurrences, their series rule
+const CHORE_SELECT = '*, chore_assignments (member_id, completed_at, points_awarded, created_at), chore_series (rrule)';
+const ROUTINE_SELECT = '*, routine_steps (*)';
+
+export class SupabaseDataService implements IDataService {
   private isInitialized = false;
   private currentFamilyId: string | null = null;
 
@@ -76,6 +115,16 @@ export class SupabaseDataService {
     return this.currentFamilyId;
   }
 
+  // Optimistic concurrency: update only while the row is still at the version the edit was based
+  // on (edits without one always apply). Returns the updated row, or null if it has changed since
+  private async updateIfUnchanged(table: string, id: string, values: Record<string, unknown>, baseVersion?: string): Promise<any | null> {
+    let query = supabase.from(table).update(values).eq('id', id);
+    if (baseVersion) query = query.eq('updated_at', baseVersion);
+    const { data, error } = await query.select().maybeSingle();
+    if (error) throw error;
+    return data;
+  }
+
   // Family Management
   async getFamilyDetails(): Promise<FamilyDetails> {
     this.ensureInitialized();
@@ -126,20 +175,18 @@ export class SupabaseDataService {
     }
   }
 
-  async saveFamilyDetails(details: FamilyDetails): Promise<void> {
+  async saveFamilyDetails(details: FamilyDetails): Promise<FamilyDetails> {
     const familyId = this.ensureFamilyContext();
     try {
-      const { error } = await supabase
-        .from('families')
-        .update({
-          name: details.name,
-          address: details.address,
-          photo_object_position: details.photoObjectPosition,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', familyId);
-      if (error) throw error;
+      const row = await this.updateIfUnchanged('families', familyId, {
+        name: details.name,
+        address: details.address,
+        photo_object_position: details.photoObjectPosition,
+        updated_at: new Date().toISOString()
+      }, details.updatedAt);
+      if (!row) throw new UpdateConflictError('familyDetails', details, await this.getFamilyDetails());
       dataLogger.debug('Family details saved', { familyId });
+      return { ...details, updatedAt: row.updated_at };
     } catch (error) {
       dataLogger.error('Error saving family details', error as Error);
       throw error;
@@ -189,17 +236,7 @@ export class SupabaseDataService {
         .select('*')
         .eq('family_id', familyId);
       if (error) throw error;
-      return (data || []).map((row: any) => ({
-        id: String(row.id),
-        name: row.name,
-        initial: row.initial,
-        role: row.role,
-        color: row.color,
-        nickname: row.nickname,
-        dob: row.dob,
-        points: row.points || 0,
-        created_at: row.created_at
-      }));
+      return (data || []).map(mapFamilyMemberRow);
     } catch (error) {
       dataLogger.error('Error getting family members', error as Error);
       return [];
@@ -220,7 +257,6 @@ export class SupabaseDataService {
             color: member.color,
             nickname: member.nickname || null,
             dob: member.dob || null,
-            points: member.points || 0,
             created_at: new Date().toISOString()
           }
         ])
@@ -239,29 +275,37 @@ export class SupabaseDataService {
     }
   }
 
-  async updateFamilyMember(member: FamilyMember): Promise<void> {
+  async updateFamilyMember(member: FamilyMember): Promise<FamilyMember> {
     try {
-      const { error } = await supabase
-        .from('family_members')
-        .update({
-          name: member.name,
-          initial: member.initial,
-          role: member.role,
-          color: member.color,
-          nickname: member.nickname,
-          dob: member.dob,
-          points: member.points
-        })
-        .eq('id', member.id);
-      if (error) throw error;
+      const row = await this.updateIfUnchanged('family_members', member.id, {
+        name: member.name,
+        initial: member.initial,
+        role: member.role,
+        color: member.color,
+        nickname: member.nickname,
+        dob: member.dob
+        // points is derived from point_transactions and can't be written directly
+      }, member.updatedAt);
+      if (!row) throw new UpdateConflictError('familyMember', member, await this.getFamilyMemberById(member.id));
       dataLogger.debug('Family member updated', { memberId: member.id });
+      return { ...member, points: row.points ?? member.points, updatedAt: row.updated_at };
     } catch (error) {
       dataLogger.error('Error updating family member', error as Error, { memberId: member.id });
       throw error;
     }
   }
 
-  async deleteFamilyMember(id: number): Promise<void> {
+  private async getFamilyMemberById(memberId: string): Promise<FamilyMember> {
+    const { data, error } = await supabase
+      .from('family_members')
+      .select('*')
+      .eq('id', memberId)
+      .single();
+    if (error) throw error;
+    return mapFamilyMemberRow(data);
+  }
+
+  async deleteFamilyMember(id: string): Promise<void> {
     try {
       dataLogger.debug('Deleting family member', { memberId: id });
       const { error } = await supabase
@@ -275,40 +319,149 @@ export class SupabaseDataService {
       throw error;
     }
   }
+  // Points ledger
+
+  async getPointTransactions(memberId?: string): Promise<PointTransaction[]> {
+    const familyId = this.ensureFamilyContext();
+    try {
+      let query = supabase
+        .from('point_transactions')
+        .select('*')
+        .eq('family_id', familyId)
+        .order('created_at', { ascending: false });
+      if (memberId) query = query.eq('member_id', memberId);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []).map(mapPointTransactionRow);
+    } catch (error) {
+      dataLogger.error('Error getting point transactions', error as Error, { memberId });
+      return [];
+    }
+  }
+
+  async adjustMemberPoints(memberId: string, amount: number, reason: string): Promise<PointTransaction> {
+    const familyId = this.ensureFamilyContext();
+    try {
+      const { data, error } = await supabase
+        .from('point_transactions')
+        .insert([
+          {
+            family_id: familyId,
+            member_id: memberId,
+            amount,
+            source: 'manual_adjustment',
+            reason // actor_user_id defaults to the signed-in user
+          }
+        ])
+        .select()
+        .single();
+      if (error) throw error;
+      dataLogger.debug('Points adjusted', { memberId, amount });
+      return mapPointTransactionRow(data);
+    } catch (error) {
+      dataLogger.error('Error adjusting points', error as Error, { memberId, amount });
+      throw error;
+    }
+  }
+
+
+
+  // Bring chore_assignments in line with chore.assignedTo. Completion state is left alone -
+  // only complete_chore / uncomplete_chore change it
+  private async saveChoreAssignments(familyId: string, choreId: string, chore: Chore | NewChore): Promise<void> {
+    let removeQuery = supabase.from('chore_assignments').delete().eq('chore_id', choreId);
+    if (chore.assignedTo.length > 0) {
+      removeQuery = removeQuery.not('member_id', 'in', `(${chore.assignedTo.join(',')})`);
+    }
+    const { error: deleteError } = await removeQuery;
+    if (deleteError) throw deleteError;
+
+    if (chore.assignedTo.length === 0) return;
+
+    // Insert one at a time so created_at keeps the assignee order (used for split points)
+    for (const memberId of chore.assignedTo) {
+      const { error } = await supabase
+        .from('chore_assignments')
+        .upsert(
+          { family_id: familyId, chore_id: choreId, member_id: memberId },
+          { onConflict: 'chore_id,member_id', ignoreDuplicates: true }
+        );
+      if (error) throw error;
+    }
+  }
+
+  private async getChoreById(choreId: string): Promise<Chore> {
+    const { data, error } = await supabase
+      .from('chores')
+      .select(CHORE_SELECT)
+      .eq('id', choreId)
+      .order('created_at', { referencedTable: 'chore_assignments' })
+      .single();
+    if (error) throw error;
+    return mapChoreRow(data);
+  }
+
+  // complete_chore / uncomplete_chore credit points atomically and are safe to repeat
+  private async runChoreCompletion(
+    fn: 'complete_chore' | 'uncomplete_chore',
+    choreId: string,
+    memberId?: string
+  ): Promise<ChoreCompletionResult> {
+    const { data, error } = await supabase.rpc(fn, {
+      chore_uuid: choreId,
+      member_uuid: memberId ?? null
+    });
+    if (error) throw error;
+    if (!data?.success) {
+      throw new Error(data?.message || `Failed to run ${fn}`);
+    }
+
+    return {
+      chore: await this.getChoreById(choreId),
+      awards: (data.awards || []).map((award: any) => ({
+        memberId: String(award.member_id),
+        points: award.points
+      })),
+      alreadyApplied: !!data.already_applied
+    };
+  }
+
+  async completeChore(choreId: string, memberId?: string): Promise<ChoreCompletionResult> {
+    try {
+      dataLogger.debug('Completing chore', { choreId, memberId });
+      const result = await this.runChoreCompletion('complete_chore', choreId, memberId);
+      dataLogger.debug('Chore completion applied', { choreId, awards: result.awards.length, alreadyApplied: result.alreadyApplied });
+      return result;
+    } catch (error) {
+      dataLogger.error('Error completing chore', error as Error, { choreId, memberId });
+      throw error;
+    }
+  }
+
+  async uncompleteChore(choreId: string, memberId?: string): Promise<ChoreCompletionResult> {
+    try {
+      dataLogger.debug('Un-completing chore', { choreId, memberId });
+      const result = await this.runChoreCompletion('uncomplete_chore', choreId, memberId);
+      dataLogger.debug('Chore completion reversed', { choreId, awards: result.awards.length, alreadyApplied: result.alreadyApplied });
+      return result;
+    } catch (error) {
+      dataLogger.error('Error un-completing chore', error as Error, { choreId, memberId });
+      throw error;
+    }
+  }
 
   async getChores(): Promise<Chore[]> {
     const familyId = this.ensureFamilyContext();
     try {
       const { data, error } = await supabase
         .from('chores')
-        .select('*')
-        .eq('family_id', familyId);
+        .select(CHORE_SELECT)
+        .eq('family_id', familyId)
+        .order('created_at', { referencedTable: 'chore_assignments' });
       if (error) throw error;
       
-      // Get family members to convert IDs back to names
-      const familyMembers = await this.getFamilyMembers();
-      
-      return (data || []).map((row: any) => {
-        // Convert assigned_to_id back to name
-        let assignedTo: string[] = [];
-        if (row.assigned_to_id) {
-          const member = familyMembers.find(m => m.id === row.assigned_to_id);
-          if (member) {
-            assignedTo = [member.name];
-          }
-        }
-        
-        return {
-          id: String(row.id),
-          title: row.title,
-          assignedTo: assignedTo,
-          completed: row.status === 'completed',
-          points: row.points,
-          dueDate: row.due_date,
-          icon: row.icon,
-          choreTypeId: row.chore_type_id ? String(row.chore_type_id) : null
-        };
-      });
+      return (data || []).map(mapChoreRow);
     } catch (error) {
       dataLogger.error('Error getting chores', error as Error);
       return [];
@@ -318,15 +471,7 @@ export class SupabaseDataService {
   async addChore(chore: NewChore): Promise<Chore> {
     const familyId = this.ensureFamilyContext();
     try {
-      dataLogger.debug('Adding new chore', { title: chore.title });
-      
-      // Convert assigned member name to ID if provided
-      let assignedToId = null;
-      if (chore.assignedTo && Array.isArray(chore.assignedTo) && chore.assignedTo.length > 0) {
-        const familyMembers = await this.getFamilyMembers();
-        const member = familyMembers.find(m => m.name === chore.assignedTo[0]);
-        assignedToId = member ? member.id : null;
-      }
+      dataLogger.debug('Adding new chore', { title: chore.title, assignees: chore.assignedTo.length });
 
       const { data, error } = await supabase
         .from('chores')
@@ -334,12 +479,15 @@ export class SupabaseDataService {
           {
             family_id: familyId,
             title: chore.title,
-            assigned_to_id: assignedToId,
+            assigned_to_id: chore.assignedTo[0] ?? null, // Kept for older clients
             status: chore.completed ? 'completed' : 'pending',
             points: chore.points,
             due_date: chore.dueDate,
             icon: chore.icon,
             chore_type_id: chore.choreTypeId,
+            completion_mode: chore.completionMode || 'any',
+            points_mode: chore.pointsMode || 'duplicate',
+            reminder_offsets: chore.reminders || [],
             created_at: new Date().toISOString()
           }
         ])
@@ -347,58 +495,49 @@ export class SupabaseDataService {
         .single();
       if (error) throw error;
 
+      await this.saveChoreAssignments(familyId, String(data.id), chore);
 
       dataLogger.debug('Successfully added chore', { choreId: String(data.id), title: data.title });
-      return {
-        id: String(data.id),
-        title: data.title,
-        assignedTo: chore.assignedTo, // Keep original format for UI
-        completed: data.status === 'completed',
-        points: data.points,
-        dueDate: data.due_date,
-        icon: data.icon,
-        choreTypeId: data.chore_type_id ? String(data.chore_type_id) : null
-      };
+      return mapChoreRow({
+        ...data,
+        chore_assignments: chore.assignedTo.map(memberId => ({ member_id: memberId, completed_at: null }))
+      });
     } catch (error) {
       dataLogger.error('Error adding chore', error as Error);
       throw error;
     }
   }
 
-  async updateChore(chore: Chore): Promise<void> {
+  async updateChore(chore: Chore): Promise<Chore> {
+    const familyId = this.ensureFamilyContext();
     try {
       dataLogger.debug('Updating chore', { choreId: chore.id, title: chore.title });
-      
-      // Convert assigned member name to ID if provided
-      let assignedToId = null;
-      if (chore.assignedTo && Array.isArray(chore.assignedTo) && chore.assignedTo.length > 0) {
-        const familyMembers = await this.getFamilyMembers();
-        const member = familyMembers.find(m => m.name === chore.assignedTo[0]);
-        assignedToId = member ? member.id : null;
-      }
 
-      const { error } = await supabase
-        .from('chores')
-        .update({
-          title: chore.title,
-          assigned_to_id: assignedToId,
-          status: chore.completed ? 'completed' : 'pending',
-          points: chore.points,
-          due_date: chore.dueDate,
-          icon: chore.icon,
-          chore_type_id: chore.choreTypeId,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', chore.id);
-      if (error) throw error;
+      const row = await this.updateIfUnchanged('chores', chore.id, {
+        title: chore.title,
+        assigned_to_id: chore.assignedTo[0] ?? null,
+        status: chore.completed ? 'completed' : 'pending',
+        points: chore.points,
+        due_date: chore.dueDate,
+        icon: chore.icon,
+        chore_type_id: chore.choreTypeId,
+        completion_mode: chore.completionMode || 'any',
+        points_mode: chore.pointsMode || 'duplicate',
+        reminder_offsets: chore.reminders || [],
+        updated_at: new Date().toISOString()
+      }, chore.updatedAt);
+      if (!row) throw new UpdateConflictError('chore', chore, await this.getChoreById(chore.id));
+
+      await this.saveChoreAssignments(familyId, chore.id, chore);
       dataLogger.debug('Successfully updated chore', { choreId: chore.id });
+      return { ...chore, updatedAt: row.updated_at };
     } catch (error) {
       dataLogger.error('Error updating chore', error as Error, { choreId: chore.id });
       throw error;
     }
   }
 
-  async deleteChore(id: number): Promise<void> {
+  async deleteChore(id: string): Promise<void> {
     try {
       dataLogger.debug('Deleting chore', { choreId: id });
       const { error } = await supabase
@@ -413,54 +552,303 @@ export class SupabaseDataService {
     }
   }
 
+  // --- Recurring chores ---
+
+
+  private async getSeriesById(seriesId: string): Promise<ChoreSeries> {
+    const { data, error } = await supabase
+      .from('chore_series')
+      .select('*')
+      .eq('id', seriesId)
+      .single();
+    if (error) throw error;
+    const series = mapSeriesRow(data);
+    if (!series) throw new Error('Unsupported recurrence rule');
+    return series;
+  }
+
+  private async getSeriesChores(seriesId: string): Promise<Chore[]> {
+    const { data, error } = await supabase
+      .from('chores')
+      .select(CHORE_SELECT)
+      .eq('series_id', seriesId)
+      .order('created_at', { referencedTable: 'chore_assignments' });
+    if (error) throw error;
+    return (data || []).map(mapChoreRow);
+  }
+
+  private async insertSeries(familyId: string, series: Omit<ChoreSeries, 'id'>): Promise<ChoreSeries> {
+    const { data, error } = await supabase
+      .from('chore_series')
+      .insert([
+        {
+          family_id: familyId,
+          title: series.title,
+          icon: series.icon,
+          points: series.points,
+          chore_type_id: series.choreTypeId,
+          assigned_member_ids: series.assignedTo,
+          completion_mode: series.completionMode || 'any',
+          points_mode: series.pointsMode || 'duplicate',
+          rrule: formatRRule(series.recurrence),
+          start_date: series.startDate,
+          reminder_offsets: series.reminders || []
+        }
+      ])
+      .select()
+      .single();
+    if (error) throw error;
+    return mapSeriesRow(data) as ChoreSeries;
+  }
+
+  // Insert a series' occurrences up to untilDate. The (series_id, occurrence_date) constraint
+  // makes this safe to run from several clients at once
+  private async generateOccurrences(familyId: string, series: ChoreSeries, untilDate: string): Promise<Chore[]> {
+    const range = getPendingSeriesRange(series, untilDate);
+    if (!range) return [];
+
+    const occurrences = buildSeriesOccurrences(series, range.fromDate, range.untilDate);
+    let created: any[] = [];
+    if (occurrences.length > 0) {
+      const { data, error } = await supabase
+        .from('chores')
+        .upsert(
+          occurrences.map(occurrence => ({
+            family_id: familyId,
+            title: occurrence.title,
+            assigned_to_id: occurrence.assignedTo[0] ?? null,
+            status: 'pending',
+            points: occurrence.points,
+            due_date: occurrence.dueDate,
+            icon: occurrence.icon,
+            chore_type_id: occurrence.choreTypeId,
+            completion_mode: occurrence.completionMode || 'any',
+            points_mode: occurrence.pointsMode || 'duplicate',
+            series_id: series.id,
+            occurrence_date: occurrence.occurrenceDate,
+            reminder_offsets: occurrence.reminders || []
+          })),
+          { onConflict: 'series_id,occurrence_date', ignoreDuplicates: true }
+        )
+        .select();
+      if (error) throw error;
+      created = data || [];
+
+      // One batch per assignee position so created_at keeps the assignee order (used for split points)
+      for (const memberId of series.assignedTo) {
+        if (created.length === 0) break;
+        const { error: assignmentError } = await supabase
+          .from('chore_assignments')
+          .upsert(
+            created.map(row => ({ family_id: familyId, chore_id: row.id, member_id: memberId })),
+            { onConflict: 'chore_id,member_id', ignoreDuplicates: true }
+          );
+        if (assignmentError) throw assignmentError;
+      }
+    }
+
+    const { error: seriesError } = await supabase
+      .from('chore_series')
+      .update({ generated_until: untilDate })
+      .eq('id', series.id);
+    if (seriesError) throw seriesError;
+
+    return created.map(row => mapChoreRow({
+      ...row,
+      chore_assignments: series.assignedTo.map(memberId => ({ member_id: memberId, completed_at: null })),
+      chore_series: { rrule: formatRRule(series.recurrence) }
+    }));
+  }
+
+  // Stop a series before `from`'s occurrence, dropping it entirely if nothing is left
+  private async endSeries(series: ChoreSeries, from: Chore): Promise<void> {
+    const lastDate = addDays(from.occurrenceDate ?? from.dueDate, -1);
+    const { error } = lastDate < series.startDate
+      ? await supabase.from('chore_series').delete().eq('id', series.id)
+      : await supabase
+          .from('chore_series')
+          .update({ rrule: formatRRule(endRecurrence(series.recurrence, lastDate)) })
+          .eq('id', series.id);
+    if (error) throw error;
+  }
+
+  private async deleteChoresById(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const { error } = await supabase.from('chores').delete().in('id', ids);
+    if (error) throw error;
+  }
+
+  async generateRecurringChores(untilDate: string): Promise<Chore[]> {
+    const familyId = this.ensureFamilyContext();
+    try {
+      const { data, error } = await supabase
+        .from('chore_series')
+        .select('*')
+        .eq('family_id', familyId)
+        .or(`generated_until.is.null,generated_until.lt.${untilDate}`);
+      if (error) throw error;
+
+      const created: Chore[] = [];
+      for (const row of data || []) {
+        const series = mapSeriesRow(row);
+        if (series) created.push(...await this.generateOccurrences(familyId, series, untilDate));
+      }
+      if (created.length > 0) {
+        dataLogger.debug('Generated recurring chores', { count: created.length, untilDate });
+      }
+      return created;
+    } catch (error) {
+      dataLogger.error('Error generating recurring chores', error as Error, { untilDate });
+      throw error;
+    }
+  }
+
+  async addChoreSeries(chore: NewChore, recurrence: RecurrenceRule): Promise<Chore[]> {
+    const familyId = this.ensureFamilyContext();
+    try {
+      dataLogger.debug('Adding recurring chore', { title: chore.title, rrule: formatRRule(recurrence) });
+      const series = await this.insertSeries(familyId, createSeriesFromChore(chore, recurrence));
+      return await this.generateOccurrences(familyId, series, getSeriesWindowEnd(series));
+    } catch (error) {
+      dataLogger.error('Error adding recurring chore', error as Error);
+      throw error;
+    }
+  }
+
+  async updateChoreSeries(chore: Chore, recurrence: RecurrenceRule | null): Promise<Chore[]> {
+    const familyId = this.ensureFamilyContext();
+    try {
+      dataLogger.debug('Updating chore series from occurrence', { choreId: chore.id, seriesId: chore.seriesId });
+      if (!chore.seriesId) throw new Error(`Chore ${chore.id} is not part of a series`);
+      const series = await this.getSeriesById(chore.seriesId);
+      const replaced = getFutureOccurrences(await this.getSeriesChores(series.id), chore)
+        .filter(c => recurrence || c.id !== chore.id);
+      const keepsCurrent = !replaced.some(c => c.id === chore.id);
+
+      await this.endSeries(series, chore);
+      await this.deleteChoresById(replaced.map(c => c.id));
+
+      if (!recurrence) {
+        // Stop repeating: this occurrence becomes a one-off
+        const detached: Chore = { ...chore, seriesId: null, occurrenceDate: null, recurrence: null };
+        await this.updateChore(detached);
+        const { error } = await supabase
+          .from('chores')
+          .update({ series_id: null, occurrence_date: null })
+          .eq('id', chore.id);
+        if (error) throw error;
+        return [detached];
+      }
+
+      // Occurrences with progress are kept as they are, so the new series starts after them
+      if (keepsCurrent) await this.updateChore(chore);
+      const startDate = keepsCurrent ? addDays(chore.dueDate, 1) : chore.dueDate;
+      const next = await this.insertSeries(familyId, createSeriesFromChore(chore, recurrence, startDate));
+      const windowEnd = getSeriesWindowEnd(next);
+      const untilDate = series.generatedUntil && series.generatedUntil > windowEnd ? series.generatedUntil : windowEnd;
+      const created = await this.generateOccurrences(familyId, next, untilDate);
+      return keepsCurrent ? [chore, ...created] : created;
+    } catch (error) {
+      dataLogger.error('Error updating chore series', error as Error, { choreId: chore.id });
+      throw error;
+    }
+  }
+
+  async deleteChoreSeries(chore: Chore): Promise<void> {
+    try {
+      dataLogger.debug('Deleting chore series from occurrence', { choreId: chore.id, seriesId: chore.seriesId });
+      if (!chore.seriesId) throw new Error(`Chore ${chore.id} is not part of a series`);
+      const series = await this.getSeriesById(chore.seriesId);
+      const removed = getFutureOccurrences(await this.getSeriesChores(series.id), chore)
+        .filter(c => c.id !== chore.id)
+        .map(c => c.id);
+
+      await this.endSeries(series, chore);
+      await this.deleteChoresById([chore.id, ...removed]);
+    } catch (error) {
+      dataLogger.error('Error deleting chore series', error as Error, { choreId: chore.id });
+      throw error;
+    }
+  }
+
   async getChoreTypes(): Promise<ChoreType[]> {
+    const familyId = this.ensureFamilyContext();
     try {
       const { data, error } = await supabase
         .from('chore_types')
-        .select('*');
+        .select('*')
+        .eq('family_id', familyId);
       if (error) throw error;
-      return (data || []).map((row: any) => ({
-        id: String(row.id),
-        name: row.name,
-        defaultPoints: row.default_points,
-        icon: row.icon
-      }));
+      return (data || []).map(mapChoreTypeRow);
     } catch (error) {
       dataLogger.error('Error getting chore types', error as Error);
       return [];
     }
   }
 
-  async updateChoreTypes(choreTypes: ChoreType[]): Promise<ChoreType[]> {
+  async updateChoreTypes(choreTypes: ChoreType[], reassignments: Record<string, string | null> = {}): Promise<ChoreType[]> {
     const familyId = this.ensureFamilyContext();
     try {
       dataLogger.debug('Updating chore types', { count: choreTypes.length });
-      
-      // For simplicity, we'll delete existing and insert new ones (like SQLite version)
-      // In production, you might want a more sophisticated merge strategy
-      const { error: deleteError } = await supabase
+
+      const { data: rows, error: fetchError } = await supabase
         .from('chore_types')
-        .delete()
+        .select('*')
         .eq('family_id', familyId);
-      if (deleteError) throw deleteError;
-      
-      // Insert new chore types
-      if (choreTypes.length > 0) {
-        const insertData = choreTypes.map(choreType => ({
-          family_id: familyId,
-          name: choreType.name,
-          default_points: choreType.defaultPoints,
-          icon: choreType.icon,
-          created_at: new Date().toISOString()
-        }));
-        
+      if (fetchError) throw fetchError;
+      const existing = new Map((rows || []).map(row => [String(row.id), mapChoreTypeRow(row)]));
+      const keptIds = new Set(choreTypes.map(type => type.id));
+
+      // Inserts go first so chores can be moved onto a type created in the same save
+      const inserts = choreTypes.filter(type => !existing.has(type.id));
+      if (inserts.length > 0) {
         const { error: insertError } = await supabase
           .from('chore_types')
-          .insert(insertData);
+          .insert(inserts.map(type => ({
+            id: type.id,
+            family_id: familyId,
+            name: type.name,
+            default_points: type.defaultPoints,
+            icon: type.icon
+          })));
         if (insertError) throw insertError;
       }
-      
-      // Return the updated list
+
+      for (const type of choreTypes) {
+        const current = existing.get(type.id);
+        if (!current || (current.name === type.name && current.defaultPoints === type.defaultPoints && current.icon === type.icon)) {
+          continue;
+        }
+        const { error: updateError } = await supabase
+          .from('chore_types')
+          .update({ name: type.name, default_points: type.defaultPoints, icon: type.icon })
+          .eq('id', type.id)
+          .eq('family_id', familyId);
+        if (updateError) throw updateError;
+      }
+
+      for (const id of existing.keys()) {
+        if (keptIds.has(id)) continue;
+        // Without a reassignment the foreign key clears chore_type_id when the type goes
+        const target = reassignments[id];
+        if (target) {
+          for (const table of ['chores', 'chore_series']) {
+            const { error: reassignError } = await supabase
+              .from(table)
+              .update({ chore_type_id: target })
+              .eq('chore_type_id', id)
+              .eq('family_id', familyId);
+            if (reassignError) throw reassignError;
+          }
+        }
+        const { error: deleteError } = await supabase
+          .from('chore_types')
+          .delete()
+          .eq('id', id)
+          .eq('family_id', familyId);
+        if (deleteError) throw deleteError;
+      }
+
       return this.getChoreTypes();
     } catch (error) {
       dataLogger.error('Error updating chore types', error as Error);
@@ -480,51 +868,19 @@ export class SupabaseDataService {
       if (error) throw error;
       dataLogger.debug('Raw events data from Supabase', { count: data?.length || 0 });
       
-      // Get family members to convert IDs back to names
-      const familyMembers = await this.getFamilyMembers();
-      
-      return (data || []).map((row: any) => {
-        // Convert attendee IDs back to names
-        const attendeeNames = (row.attendee_ids || [])
-          .map((id: string) => {
-            const member = familyMembers.find(m => m.id === id);
-            return member ? member.name : null;
-          })
-          .filter((name: string | null) => name !== null);
-        
-        return {
-          id: String(row.id),
-          title: row.title,
-          date: row.date,
-          endTime: row.end_time || '',
-          color: row.color,
-          attendees: attendeeNames
-        };
-      });
+      return (data || []).map(mapEventRow);
     } catch (error) {
       dataLogger.error('Error getting events', error as Error);
       return [];
     }
   }
 
+
   async addEvent(event: Omit<EventItem, 'id'>): Promise<EventItem> {
     const familyId = this.ensureFamilyContext();
     try {
       dataLogger.debug('Adding event', { title: event.title, date: event.date });
-      
-      // Convert member names to UUIDs if needed
-      let attendeeIds: string[] = [];
-      if (event.attendees && event.attendees.length > 0) {
-        // Get family members to map names to IDs
-        const familyMembers = await this.getFamilyMembers();
-        attendeeIds = event.attendees
-          .map(name => {
-            const member = familyMembers.find(m => m.name === name);
-            return member ? member.id : null;
-          })
-          .filter(id => id !== null) as string[];
-        dataLogger.debug('Converted attendees to IDs', { count: attendeeIds.length });
-      }
+      const attendeeIds = event.attendees || [];
 
       const { data, error } = await supabase
         .from('events')
@@ -534,8 +890,14 @@ export class SupabaseDataService {
             title: event.title,
             date: event.date,
             end_time: event.endTime || null,
+            end_date: event.endDate || null,
+            all_day: !!event.allDay,
             color: event.color,
             attendee_ids: attendeeIds,
+            rrule: event.recurrence ? formatRRule(event.recurrence) : null,
+            recurrence_exceptions: event.exceptions || [],
+            ical_uid: event.icalUid || null,
+            reminder_offsets: event.reminders || [],
             created_at: new Date().toISOString()
           }
         ])
@@ -543,56 +905,51 @@ export class SupabaseDataService {
         .single();
       if (error) throw error;
       
-      return {
-        id: String(data.id),
-        title: event.title,
-        date: event.date,
-        endTime: event.endTime || '',
-        color: event.color,
-        attendees: event.attendees || []
-      };
+      return mapEventRow(data);
     } catch (error) {
       dataLogger.error('Error adding event', error as Error);
       throw error;
     }
   }
 
-  async updateEvent(event: EventItem): Promise<void> {
+  async updateEvent(event: EventItem): Promise<EventItem> {
     try {
       dataLogger.debug('Updating event', { eventId: event.id, title: event.title });
-      
-      // Convert member names to UUIDs if needed
-      let attendeeIds: string[] = [];
-      if (event.attendees && event.attendees.length > 0) {
-        const familyMembers = await this.getFamilyMembers();
-        attendeeIds = event.attendees
-          .map(name => {
-            const member = familyMembers.find(m => m.name === name);
-            return member ? member.id : null;
-          })
-          .filter(id => id !== null) as string[];
-      }
+      const attendeeIds = event.attendees || [];
 
-      const { error } = await supabase
-        .from('events')
-        .update({
-          title: event.title,
-          date: event.date,
-          end_time: event.endTime || null,
-          color: event.color,
-          attendee_ids: attendeeIds,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', event.id);
-      if (error) throw error;
+      const row = await this.updateIfUnchanged('events', event.id, {
+        title: event.title,
+        date: event.date,
+        end_time: event.endTime || null,
+        end_date: event.endDate || null,
+        all_day: !!event.allDay,
+        color: event.color,
+        attendee_ids: attendeeIds,
+        rrule: event.recurrence ? formatRRule(event.recurrence) : null,
+        recurrence_exceptions: event.exceptions || [],
+        reminder_offsets: event.reminders || [],
+        updated_at: new Date().toISOString()
+      }, event.updatedAt);
+      if (!row) throw new UpdateConflictError('event', event, await this.getEventById(event.id));
       dataLogger.debug('Successfully updated event');
+      return { ...event, updatedAt: row.updated_at };
     } catch (error) {
       dataLogger.error('Error updating event', error as Error);
       throw error;
     }
   }
 
-  async deleteEvent(id: number): Promise<void> {
+  private async getEventById(eventId: string): Promise<EventItem> {
+    const { data, error } = await supabase
+      .from('events')
+      .select('*')
+      .eq('id', eventId)
+      .single();
+    if (error) throw error;
+    return mapEventRow(data);
+  }
+
+  async deleteEvent(id: string): Promise<void> {
     try {
       dataLogger.debug('Deleting event', { eventId: id });
       const { error } = await supabase
@@ -615,13 +972,7 @@ export class SupabaseDataService {
         .select('*')
         .eq('family_id', familyId);
       if (error) throw error;
-      return (data || []).map((row: any) => ({
-        id: String(row.id),
-        title: row.title,
-        cost: row.cost,
-        icon: row.icon,
-        available: !!row.available
-      }));
+      return (data || []).map(mapRewardRow);
     } catch (error) {
       dataLogger.error('Error getting rewards', error as Error);
       return [];
@@ -682,7 +1033,7 @@ export class SupabaseDataService {
     }
   }
 
-  async deleteReward(id: number): Promise<void> {
+  async deleteReward(id: string): Promise<void> {
     try {
       dataLogger.debug('Deleting reward', { rewardId: id });
       const { error } = await supabase
@@ -697,38 +1048,113 @@ export class SupabaseDataService {
     }
   }
 
+  // Reward redemptions - requests and decisions go through RPCs so points are checked and deducted atomically
+
+  async getRewardRedemptions(): Promise<RewardRedemption[]> {
+    const familyId = this.ensureFamilyContext();
+    try {
+      const { data, error } = await supabase
+        .from('reward_redemptions')
+        .select('*')
+        .eq('family_id', familyId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(mapRedemptionRow);
+    } catch (error) {
+      dataLogger.error('Error getting reward redemptions', error as Error);
+      return [];
+    }
+  }
+
+  async requestRewardRedemption(rewardId: string, memberId: string): Promise<RewardRedemption> {
+    try {
+      dataLogger.debug('Requesting reward', { rewardId, memberId });
+      const { data, error } = await supabase.rpc('request_reward_redemption', {
+        reward_uuid: rewardId,
+        member_uuid: memberId
+      });
+      if (error) throw error;
+      if (!data?.success) {
+        throw new Error(data?.message || 'Failed to request reward');
+      }
+      return mapRedemptionRow(data.redemption);
+    } catch (error) {
+      dataLogger.error('Error requesting reward', error as Error, { rewardId, memberId });
+      throw error;
+    }
+  }
+
+  async decideRewardRedemption(redemptionId: string, approve: boolean, note?: string): Promise<RewardRedemption> {
+    try {
+      dataLogger.debug('Deciding reward request', { redemptionId, approve });
+      const { data, error } = await supabase.rpc('decide_reward_redemption', {
+        redemption_uuid: redemptionId,
+        approve,
+        note: note ?? null
+      });
+      if (error) throw error;
+      if (!data?.success) {
+        throw new Error(data?.message || 'Failed to decide reward request');
+      }
+      return mapRedemptionRow(data.redemption);
+    } catch (error) {
+      dataLogger.error('Error deciding reward request', error as Error, { redemptionId, approve });
+      throw error;
+    }
+  }
+
+  // Bring routine_steps in line with the routine's step list. Kept steps are updated in place, so
+  // their ids (and the progress that references them) survive reordering and edits
+  private async saveRoutineSteps(familyId: string, routineId: string, steps: RoutineStep[]): Promise<void> {
+    const { data: rows, error: fetchError } = await supabase
+      .from('routine_steps')
+      .select('id')
+      .eq('routine_id', routineId);
+    if (fetchError) throw fetchError;
+
+    // Step ids are client-generated text, so they go through .in() rather than a hand-built filter
+    const keptIds = new Set(steps.map(step => step.id));
+    const removedIds = (rows || []).map(row => String(row.id)).filter(id => !keptIds.has(id));
+    if (removedIds.length > 0) {
+      const { error: deleteError } = await supabase
+        .from('routine_steps')
+        .delete()
+        .eq('routine_id', routineId)
+        .in('id', removedIds);
+      if (deleteError) throw deleteError;
+    }
+
+    if (steps.length === 0) return;
+
+    const { error } = await supabase
+      .from('routine_steps')
+      .upsert(
+        steps.map((step, index) => ({
+          id: step.id,
+          routine_id: routineId,
+          family_id: familyId,
+          position: index,
+          title: step.title,
+          icon: step.icon,
+          optional: !!step.optional,
+          estimated_minutes: step.estimatedMinutes ?? null,
+          points: step.points ?? 0
+        })),
+        { onConflict: 'routine_id,id' }
+      );
+    if (error) throw error;
+  }
+
   async getRoutines(): Promise<Routine[]> {
     const familyId = this.ensureFamilyContext();
     try {
       const { data, error } = await supabase
         .from('routines')
-        .select('*')
+        .select(ROUTINE_SELECT)
         .eq('family_id', familyId);
       if (error) throw error;
       
-      // Get family members to convert IDs back to names
-      const familyMembers = await this.getFamilyMembers();
-      
-      return (data || []).map((row: any) => {
-        // Convert applies_to_member_ids back to names or keep as IDs based on what UI expects
-        let appliesToMemberIds: string[] = [];
-        if (row.applies_to_member_ids && row.applies_to_member_ids.length > 0) {
-          appliesToMemberIds = row.applies_to_member_ids
-            .map((id: string) => {
-              const member = familyMembers.find(m => m.id === id);
-              return member ? member.name : id; // Return name if found, otherwise return ID
-            })
-            .filter((item: string) => item !== null);
-        }
-        
-        return {
-          id: String(row.id),
-          name: row.name,
-          appliesToMemberIds: appliesToMemberIds,
-          steps: row.steps ? JSON.parse(row.steps) : [],
-          completionPoints: row.completion_points
-        };
-      });
+      return (data || []).map(mapRoutineRow);
     } catch (error) {
       dataLogger.error('Error getting routines', error as Error);
       return [];
@@ -739,26 +1165,7 @@ export class SupabaseDataService {
     const familyId = this.ensureFamilyContext();
     try {
       dataLogger.debug('Adding routine', { name: routine.name });
-      
-      // Convert member names to UUIDs if needed
-      let memberIds: string[] = [];
-      if (routine.appliesToMemberIds && routine.appliesToMemberIds.length > 0) {
-        const familyMembers = await this.getFamilyMembers();
-        // Check if we have names or IDs
-        const firstItem = routine.appliesToMemberIds[0];
-        if (typeof firstItem === 'string' && !firstItem.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
-          // Looks like names, convert to IDs
-          memberIds = routine.appliesToMemberIds
-            .map(name => {
-              const member = familyMembers.find(m => m.name === name);
-              return member ? member.id : null;
-            })
-            .filter(id => id !== null) as string[];
-        } else {
-          // Already IDs
-          memberIds = routine.appliesToMemberIds;
-        }
-      }
+      const memberIds = routine.appliesToMemberIds || [];
 
       const { data, error } = await supabase
         .from('routines')
@@ -767,20 +1174,21 @@ export class SupabaseDataService {
             family_id: familyId,
             name: routine.name,
             applies_to_member_ids: memberIds,
-            steps: JSON.stringify(routine.steps),
             completion_points: routine.completionPoints,
+            steps: JSON.stringify(routine.steps), // Kept for older clients
             created_at: new Date().toISOString()
           }
         ])
         .select()
         .single();
       if (error) throw error;
+      await this.saveRoutineSteps(familyId, String(data.id), routine.steps);
       
       dataLogger.debug('Successfully added routine', { routineId: String(data.id) });
       return {
         id: String(data.id),
         name: data.name,
-        appliesToMemberIds: routine.appliesToMemberIds, // Keep original format for UI
+        appliesToMemberIds: (data.applies_to_member_ids || []).map(String),
         steps: routine.steps,
         completionPoints: data.completion_points
       };
@@ -790,57 +1198,55 @@ export class SupabaseDataService {
     }
   }
 
+  async updateRoutine(routine: Routine): Promise<void> {
+    const familyId = this.ensureFamilyContext();
+    try {
+      dataLogger.debug('Updating routine', { routineId: routine.id });
+      const { error } = await supabase
+        .from('routines')
+        .update({
+          name: routine.name,
+          applies_to_member_ids: routine.appliesToMemberIds || [],
+          completion_points: routine.completionPoints,
+          steps: JSON.stringify(routine.steps) // Kept for older clients
+        })
+        .eq('id', routine.id)
+        .eq('family_id', familyId);
+      if (error) throw error;
+      await this.saveRoutineSteps(familyId, routine.id, routine.steps);
+      dataLogger.debug('Successfully updated routine');
+    } catch (error) {
+      dataLogger.error('Error updating routine', error as Error);
+      throw error;
+    }
+  }
+
   async updateRoutines(routines: Routine[]): Promise<Routine[]> {
     const familyId = this.ensureFamilyContext();
     try {
       dataLogger.debug('Updating routines', { count: routines.length });
-      
-      // Delete existing routines for this family
-      const { error: deleteError } = await supabase
+
+      // Routines are matched by id so kept ones (and their progress history) stay in place
+      const { data: rows, error: fetchError } = await supabase
         .from('routines')
-        .delete()
+        .select('id')
         .eq('family_id', familyId);
-      if (deleteError) throw deleteError;
-      
-      // Insert new routines
-      if (routines.length > 0) {
-        const familyMembers = await this.getFamilyMembers();
-        
-        const insertData = routines.map(routine => {
-          // Convert member names to UUIDs if needed
-          let memberIds: string[] = [];
-          if (routine.appliesToMemberIds && routine.appliesToMemberIds.length > 0) {
-            const firstItem = routine.appliesToMemberIds[0];
-            if (typeof firstItem === 'string' && !firstItem.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
-              // Convert names to IDs
-              memberIds = routine.appliesToMemberIds
-                .map(name => {
-                  const member = familyMembers.find(m => m.name === name);
-                  return member ? member.id : null;
-                })
-                .filter(id => id !== null) as string[];
-            } else {
-              memberIds = routine.appliesToMemberIds;
-            }
-          }
-          
-          return {
-            family_id: familyId,
-            name: routine.name,
-            applies_to_member_ids: memberIds,
-            steps: JSON.stringify(routine.steps),
-            completion_points: routine.completionPoints,
-            created_at: new Date().toISOString()
-          };
-        });
-        
-        const { error: insertError } = await supabase
-          .from('routines')
-          .insert(insertData);
-        if (insertError) throw insertError;
+      if (fetchError) throw fetchError;
+      const existingIds = new Set((rows || []).map(row => String(row.id)));
+      const keptIds = new Set(routines.map(routine => routine.id));
+
+      for (const routine of routines) {
+        if (existingIds.has(routine.id)) {
+          await this.updateRoutine(routine);
+        } else {
+          const { id: _id, ...newRoutine } = routine;
+          await this.addRoutine(newRoutine);
+        }
       }
-      
-      // Return the updated list
+      for (const id of existingIds) {
+        if (!keptIds.has(id)) await this.deleteRoutine(id);
+      }
+
       return this.getRoutines();
     } catch (error) {
       dataLogger.error('Error updating routines', error as Error);
@@ -891,15 +1297,7 @@ export class SupabaseDataService {
         .eq('date', date);
       if (error) throw error;
       
-      return (data || []).map((row: any) => {
-        return {
-          memberId: row.family_members.name, // Use member name for UI
-          routineId: row.routine_id,
-          date: row.date,
-          completedStepIds: row.completed_step_ids || [], // Should already be an array from TEXT[]
-          isFullyCompleted: !!row.is_fully_completed
-        };
-      });
+      return (data || []).map(mapProgressRow);
     } catch (error) {
       dataLogger.error('Error getting daily routine progress', error as Error);
       return [];
@@ -911,25 +1309,12 @@ export class SupabaseDataService {
     try {
       dataLogger.debug('Upserting daily routine progress', { memberId: progress.memberId, routineId: progress.routineId, date: progress.date });
       
-      // Convert member name to ID if needed
-      let memberId = progress.memberId;
-      if (typeof memberId === 'string' && !memberId.match(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i)) {
-        // Looks like a name, convert to ID
-        const familyMembers = await this.getFamilyMembers();
-        const member = familyMembers.find(m => m.name === memberId);
-        if (member) {
-          memberId = member.id;
-        } else {
-          throw new Error(`Member not found: ${memberId}`);
-        }
-      }
-      
       // Use Supabase's upsert functionality
       const { error } = await supabase
         .from('daily_routine_progress')
         .upsert([
           {
-            member_id: memberId,
+            member_id: progress.memberId,
             routine_id: progress.routineId,
             date: progress.date,
             completed_step_ids: progress.completedStepIds, // Keep as array, Supabase should handle TEXT[] properly
@@ -948,6 +1333,35 @@ export class SupabaseDataService {
     }
   }
 
+  async setRoutineStep(memberId: string, routineId: string, date: string, stepId: string, done: boolean): Promise<RoutineStepResult> {
+    try {
+      dataLogger.debug('Setting routine step', { memberId, routineId, date, stepId, done });
+      const { data, error } = await supabase.rpc('set_routine_step', {
+        member_uuid: memberId,
+        routine_uuid: routineId,
+        progress_date: date,
+        step_id: stepId,
+        is_done: done
+      });
+      if (error) throw error;
+      if (!data?.success) {
+        throw new Error(data?.message || 'Failed to update routine step');
+      }
+
+      const result: RoutineStepResult = {
+        progress: mapProgressRow(data.progress),
+        pointsDelta: data.points_delta || 0,
+        alreadyApplied: !!data.already_applied
+      };
+      dataLogger.debug('Routine step applied', { routineId, pointsDelta: result.pointsDelta, alreadyApplied: result.alreadyApplied });
+      return result;
+    } catch (error) {
+      dataLogger.error('Error setting routine step', error as Error, { memberId, routineId, stepId });
+      throw error;
+    }
+  }
+
+
   async saveActiveTab(tabId: TabId): Promise<void> {
     const familyId = this.ensureFamilyContext();
     try {
@@ -979,7 +1393,7 @@ export class SupabaseDataService {
     }
   }
 
-  async getServiceInfo(): Promise<{ type: 'supabase'; version: string; status: 'active' }> {
+  async getServiceInfo(): Promise<ServiceInfo> {
     return {
       type: 'supabase',
       version: '1.0.0',
@@ -988,7 +1402,7 @@ export class SupabaseDataService {
   }
 
   // Method to create a new family
-  async createNewFamily(familyName: string, familyAddress?: string): Promise<{ id: string, name: string, address?: string } | null> {
+  async createNewFamily(familyName: string, familyAddress?: string): Promise<FamilySummary | null> {
     this.ensureInitialized(); // Ensure service itself is initialized
 
     try {
@@ -1031,7 +1445,7 @@ export class SupabaseDataService {
   }
 
   // Method to join an existing family using invite code
-  async joinFamilyWithInviteCode(inviteCode: string): Promise<{ id: string, name: string, address?: string } | null> {
+  async joinFamilyWithInviteCode(inviteCode: string): Promise<FamilySummary | null> {
     this.ensureInitialized();
 
     try {
@@ -1071,6 +1485,149 @@ export class SupabaseDataService {
     }
   }
 
+  async getCurrentUserRole(): Promise<FamilyRole> {
+    const familyId = this.ensureFamilyContext();
+    const userResult = await supabaseService.getCurrentUser();
+    if (!userResult?.user?.id) {
+      throw new Error('User not authenticated');
+    }
+
+    const { data, error } = await supabase
+      .from('family_memberships')
+      .select('role')
+      .eq('family_id', familyId)
+      .eq('user_id', userResult.user.id)
+      .maybeSingle();
+
+    if (error) {
+      dataLogger.error('Error fetching membership role', error);
+      throw error;
+    }
+    // No membership row means RLS will refuse every write anyway
+    return (data?.role as FamilyRole | undefined) ?? 'child';
+  }
+
+  async getFamilyMemberships(): Promise<FamilyMembership[]> {
+    const familyId = this.ensureFamilyContext();
+    try {
+      const { data, error } = await supabase
+        .from('family_memberships')
+        .select('*')
+        .eq('family_id', familyId)
+        .order('joined_at', { ascending: true });
+      if (error) throw error;
+      return (data || []).map(mapMembershipRow);
+    } catch (error) {
+      dataLogger.error('Error getting family memberships', error as Error);
+      return [];
+    }
+  }
+
+  async setMembershipRole(membershipId: string, role: FamilyRole): Promise<FamilyMembership> {
+    try {
+      dataLogger.debug('Changing membership role', { membershipId, role });
+      const { data, error } = await supabase.rpc('set_membership_role', { membership_uuid: membershipId, new_role: role });
+      if (error) throw error;
+      if (!data?.success) {
+        throw new Error(data?.message || 'Failed to change role');
+      }
+      return mapMembershipRow(data.membership);
+    } catch (error) {
+      dataLogger.error('Error changing membership role', error as Error, { membershipId });
+      throw error;
+    }
+  }
+
+  async hasParentPin(): Promise<boolean> {
+    const familyId = this.ensureFamilyContext();
+    const { data, error } = await supabase.rpc('family_has_parent_pin', { family_uuid: familyId });
+    if (error) {
+      dataLogger.error('Error checking parent PIN', error);
+      throw error;
+    }
+    return data === true;
+  }
+
+  async setParentPin(pin: string | null, currentPin?: string): Promise<void> {
+    const familyId = this.ensureFamilyContext();
+    try {
+      const { data, error } = await supabase.rpc('set_parent_pin', {
+        family_uuid: familyId,
+        new_pin: pin,
+        current_pin: currentPin ?? null
+      });
+      if (error) throw error;
+      if (!data?.success) {
+        throw new Error(data?.message || 'Failed to save the parent PIN');
+      }
+      dataLogger.info(pin ? 'Parent PIN saved' : 'Parent PIN removed');
+    } catch (error) {
+      dataLogger.error('Error saving parent PIN', error as Error);
+      throw error;
+    }
+  }
+
+  async verifyParentPin(pin: string): Promise<boolean> {
+    const familyId = this.ensureFamilyContext();
+    try {
+      const { data, error } = await supabase.rpc('verify_parent_pin', { family_uuid: familyId, pin });
+      if (error) throw error;
+      if (!data?.success) {
+        throw new Error(data?.message || 'Failed to check the parent PIN');
+      }
+      return data.valid === true;
+    } catch (error) {
+      dataLogger.error('Error checking parent PIN', error as Error);
+      throw error;
+    }
+  }
+
+  async getMemberClaims(): Promise<MemberClaim[]> {
+    const familyId = this.ensureFamilyContext();
+    try {
+      const { data, error } = await supabase
+        .from('member_claims')
+        .select('*')
+        .eq('family_id', familyId)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return (data || []).map(mapMemberClaimRow);
+    } catch (error) {
+      dataLogger.error('Error getting member claims', error as Error);
+      return [];
+    }
+  }
+
+  async requestMemberClaim(memberId: string): Promise<MemberClaim> {
+    try {
+      dataLogger.debug('Claiming member profile', { memberId });
+      const { data, error } = await supabase.rpc('request_member_claim', { member_uuid: memberId });
+      if (error) throw error;
+      if (!data?.success) {
+        throw new Error(data?.message || 'Failed to claim profile');
+      }
+      return mapMemberClaimRow(data.claim);
+    } catch (error) {
+      dataLogger.error('Error claiming member profile', error as Error, { memberId });
+      throw error;
+    }
+  }
+
+  async decideMemberClaim(claimId: string, approve: boolean): Promise<MemberClaim> {
+    try {
+      dataLogger.debug('Deciding member claim', { claimId, approve });
+      const { data, error } = await supabase.rpc('decide_member_claim', { claim_uuid: claimId, approve });
+      if (error) throw error;
+      if (!data?.success) {
+        throw new Error(data?.message || 'Failed to decide profile claim');
+      }
+      return mapMemberClaimRow(data.claim);
+    } catch (error) {
+      dataLogger.error('Error deciding member claim', error as Error, { claimId });
+      throw error;
+    }
+  }
+
   // Add this method to allow setting the current family context externally
   setCurrentFamilyId(familyId: string) {
     this.currentFamilyId = familyId;
@@ -13,8 +13,14 @@ const HEALTH_CHECK_TIMEOUT = 2000; // 2 seconds
 authLogger.info('Initializing SupabaseService');
 authLogger.debug('Project URL', { url: SUPABASE_URL });
 
+// The local data backend runs without Supabase credentials - use a placeholder
+// client so importing this module doesn't throw
+if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+  authLogger.warn('Supabase credentials missing - Supabase calls will fail until VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY are set');
+}
+
 // Create Supabase client with optimized configuration
-const supabase: SupabaseClient = createClient(SUPABASE_URL!, SUPABASE_ANON_KEY!, {
+const supabase: SupabaseClient = createClient(SUPABASE_URL || 'http://localhost:54321', SUPABASE_ANON_KEY || 'missing-anon-key', {
   auth: {
     persistSession: true,
     autoRefreshToken: true,
@@ -7,6 +7,8 @@ export interface FamilyMember {
   nickname?: string; // Optional nickname
   dob?: string;      // Optional Date of Birth (YYYY-MM-DD)
   points: number;    // **FIXED: Added missing points field**
+  userId?: string;   // Account linked to this member, if any
+  updatedAt?: string; // Row version; an update based on an older one is a conflict
 }
 
 export interface ChoreType {
@@ -16,16 +18,93 @@ export interface ChoreType {
   icon: string; // Emoji or icon representation
 }
 
+// 'any' = one assignee completing finishes the chore, 'each' = every assignee must complete it
+export type ChoreCompletionMode = 'any' | 'each';
+
+// 'split' = points divided between assignees, 'duplicate' = each credited assignee earns the full points
+export type ChorePointsMode = 'split' | 'duplicate';
+
+export interface ChoreAssignment {
+  memberId: string;
+  completedAt: string | null; // ISO timestamp, null while outstanding
+  pointsAwarded?: number; // Points credited for this chore, reversed on un-complete
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+// RFC 5545-style recurrence rule (the supported subset); stored as an RRULE string
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number; // Every N days/weeks/months
+  byWeekday?: number[]; // Weekly only: 0 = Sunday ... 6 = Saturday (defaults to the start date's weekday)
+  byMonthDay?: number; // Monthly only: 1-31, clamped to the month's last day
+  until?: string | null; // Last possible date, YYYY-MM-DD
+  count?: number | null; // Total number of occurrences
+}
+
+// 'this' = only the selected occurrence, 'future' = it and every later occurrence in the series
+export type RecurrenceEditScope = 'this' | 'future';
+
 export interface Chore {
   id: string; // String to maintain compatibility (converted from numbers)
   title: string;
-  assignedTo: string[]; // Names of assigned FamilyMembers
+  assignedTo: string[]; // IDs of assigned FamilyMembers
   completed: boolean;
   points: number;
   dueDate: string; // YYYY-MM-DD
   icon?: string; // Optional icon from ChoreType
   choreTypeId?: string | null; // **FIXED: Made properly nullable**
   status?: string; // Added to match DB schema
+  completionMode?: ChoreCompletionMode; // Defaults to 'any'
+  pointsMode?: ChorePointsMode; // Defaults to 'duplicate'
+  assignments?: ChoreAssignment[]; // Per-assignee completion state
+  seriesId?: string | null; // Set on occurrences generated from a recurring chore series
+  occurrenceDate?: string | null; // The series date this occurrence was generated for (YYYY-MM-DD)
+  recurrence?: RecurrenceRule | null; // The series rule; when creating a chore, makes it recurring
+  reminders?: number[]; // Minutes before the reminder hour on the due date
+  updatedAt?: string; // Row version the edit is based on
+}
+
+// Template that recurring chore occurrences are generated from
+export interface ChoreSeries {
+  id: string;
+  title: string;
+  assignedTo: string[];
+  points: number;
+  icon?: string;
+  choreTypeId?: string | null;
+  completionMode?: ChoreCompletionMode;
+  pointsMode?: ChorePointsMode;
+  recurrence: RecurrenceRule;
+  startDate: string; // YYYY-MM-DD
+  generatedUntil?: string | null; // Occurrences have been generated up to this date
+  reminders?: number[]; // Copied to each occurrence
+}
+
+export interface ChorePointsAward {
+  memberId: string;
+  points: number; // Negative when a completion is reversed
+}
+
+export type PointSource = 'chore' | 'routine' | 'reward_redemption' | 'manual_adjustment';
+
+// One entry in the points ledger; member balances are the sum of their entries
+export interface PointTransaction {
+  id: string;
+  memberId: string;
+  amount: number; // Positive for credits, negative for debits
+  source: PointSource;
+  reason: string;
+  referenceId?: string | null; // Chore, routine or redemption the entry came from
+  actorUserId?: string | null; // Signed-in user who caused it, when known
+  createdAt: string;
+}
+
+// Outcome of completing or un-completing a chore
+export interface ChoreCompletionResult {
+  chore: Chore;
+  awards: ChorePointsAward[];
+  alreadyApplied: boolean; // True when the call changed nothing (e.g. a repeated tap)
 }
 
 export interface EventItem {
@@ -34,7 +113,29 @@ export interface EventItem {
   date: string; // ISO string, e.g., "2024-06-10T14:00:00Z"
   color: string;
   attendees: string[]; // Array of FamilyMember IDs
-  endTime?: string; // Optional end time in HH:mm format
+  endTime?: string; // Legacy end time in HH:mm format on the start day; superseded by endDate
+  endDate?: string | null; // End timestamp (ISO); for all-day events, midnight after the last day
+  allDay?: boolean; // Runs whole days from the local midnight in `date`
+  recurrence?: RecurrenceRule | null; // Repeats from `date` when set
+  exceptions?: EventException[]; // Skipped or moved occurrences of a recurring event
+  icalUid?: string | null; // UID of the iCalendar event this was imported from
+  reminders?: number[]; // Minutes before the start (all-day events: before the reminder hour)
+  seriesId?: string | null; // Set on expanded occurrences: the recurring event they belong to
+  occurrenceDate?: string | null; // Set on expanded occurrences: the series date (YYYY-MM-DD)
+  updatedAt?: string; // Row version the edit is based on
+}
+
+// Changes to one occurrence of a recurring event, keyed by the date it would normally fall on
+export interface EventException {
+  originalDate: string; // YYYY-MM-DD
+  skipped?: boolean;
+  date?: string; // Moved start (ISO string)
+  endDate?: string; // Moved end (ISO string)
+  endTime?: string; // Legacy HH:mm end, from before endDate
+  title?: string;
+  color?: string;
+  attendees?: string[];
+  reminders?: number[];
 }
 
 export interface Reward {
@@ -45,6 +146,31 @@ export interface Reward {
   available?: boolean; // Added to match DB schema
 }
 
+export type RedemptionStatus = 'pending' | 'approved' | 'denied';
+
+export interface RewardRedemption {
+  id: string;
+  rewardId: string | null; // Null once the reward itself is deleted
+  memberId: string;
+  rewardTitle: string; // Snapshot taken when requested
+  cost: number;
+  status: RedemptionStatus;
+  requestedAt: string;
+  decidedAt?: string | null;
+  decisionNote?: string | null;
+}
+
+// A signed-in account asking to be linked to a family member; a parent confirms it
+export interface MemberClaim {
+  id: string;
+  memberId: string;
+  userId: string;
+  requesterName: string;
+  status: 'pending' | 'approved' | 'denied';
+  requestedAt: string;
+  decidedAt?: string | null;
+}
+
 export interface FamilyDetails {
   id: string; // String to maintain compatibility (converted from numbers)
   name: string;
@@ -56,6 +182,17 @@ export interface FamilyDetails {
   updatedAt: string; // ISO timestamp
 }
 
+// Signed-in account's role in the family (family_memberships.role), not a FamilyMember's label
+export type FamilyRole = 'parent' | 'child' | 'other';
+
+// A signed-in account's place in the family; joining by invite starts it as a child
+export interface FamilyMembership {
+  id: string;
+  userId: string;
+  role: FamilyRole;
+  joinedAt: string;
+}
+
 export type TabId = 'family' | 'calendar' | 'chores' | 'routines';
 
 export interface NavigationItem {
@@ -69,13 +206,16 @@ export interface RoutineStep {
   id: string; // e.g., 'brush-teeth'
   title: string;
   icon: string; // Emoji
+  optional?: boolean; // Not needed to complete the routine
+  estimatedMinutes?: number;
+  points?: number; // Credited when checked, on top of the routine's completion points
 }
 
 export interface Routine {
   id: string; // String to maintain compatibility
   name: string; // e.g., "Morning Checklist"
   appliesToMemberIds: string[]; // Array of member IDs
-  steps: RoutineStep[];
+  steps: RoutineStep[]; // In display order
   completionPoints: number;
 }
 
@@ -85,6 +225,14 @@ export interface DailyRoutineProgress {
   date: string; // YYYY-MM-DD
   completedStepIds: string[];
   isFullyCompleted: boolean; // True if all steps for this routine by this member on this date are done
+  pointsAwarded?: number; // Step and completion points credited for this date; reversed when steps are un-checked
+}
+
+// Outcome of checking or un-checking a routine step
+export interface RoutineStepResult {
+  progress: DailyRoutineProgress;
+  pointsDelta: number; // Completion points credited (negative when reversed)
+  alreadyApplied: boolean; // True when the call changed nothing
 }
 
 // **NEW: Type aliases for creating new entities**
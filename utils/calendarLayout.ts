@@ -0,0 +1,191 @@
+/**
+ * Calendar layout helpers
+ * Shared by the week, day, month and agenda views: which days are shown, where timed events
+ * sit in a day's time grid, and how all-day/multi-day bars stack.
+ */
+import { EventItem } from '../types';
+import { getLocalDateString } from './recurrence';
+import { expandEvents, getEventDate, getEventEnd, getEventLastDate, isSpanningEvent } from './eventUtils';
+
+export interface EventWithPosition extends EventItem {
+  position: {
+    top: string;
+    height: string;
+    left: string;
+    width: string;
+  };
+}
+
+/** Hours shown in a time grid, e.g. 7 to 22 for 7am-10pm */
+export interface HourRange {
+  start: number;
+  end: number;
+}
+
+export const WEEK_HOURS: HourRange = { start: 7, end: 22 };
+export const FULL_DAY_HOURS: HourRange = { start: 0, end: 24 };
+
+export interface WeekDayInfo {
+  dayName: string;
+  date: string;
+  fullDate: Date;
+  isCurrentDay: boolean;
+}
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const getDayInfo = (date: Date): WeekDayInfo => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return {
+    dayName: DAY_NAMES[day.getDay()],
+    date: day.getDate().toString(),
+    fullDate: day,
+    isCurrentDay: getLocalDateString(day) === getLocalDateString(new Date())
+  };
+};
+
+// Monday on or before the date
+const getMonday = (date: Date) => {
+  const monday = new Date(date);
+  const dayOfWeek = monday.getDay();
+  monday.setDate(monday.getDate() + (dayOfWeek === 0 ? -6 : 1 - dayOfWeek));
+  monday.setHours(0, 0, 0, 0);
+  return monday;
+};
+
+const getDaysFrom = (first: Date, count: number): WeekDayInfo[] =>
+  Array.from({ length: count }, (_, i) => {
+    const day = new Date(first);
+    day.setDate(first.getDate() + i);
+    return getDayInfo(day);
+  });
+
+export const getWeekDays = (currentReferenceDate: Date): WeekDayInfo[] => getDaysFrom(getMonday(currentReferenceDate), 7);
+
+/** Whole Monday-start weeks covering the reference date's month */
+export const getMonthDays = (currentReferenceDate: Date): WeekDayInfo[] => {
+  const firstOfMonth = new Date(currentReferenceDate.getFullYear(), currentReferenceDate.getMonth(), 1);
+  const lastOfMonth = new Date(currentReferenceDate.getFullYear(), currentReferenceDate.getMonth() + 1, 0);
+  const monday = getMonday(firstOfMonth);
+  const days = Math.round((lastOfMonth.getTime() - monday.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+  return getDaysFrom(monday, Math.ceil(days / 7) * 7);
+};
+
+// The part of an event that falls on one day, in minutes from midnight
+interface DaySegment {
+  event: EventItem;
+  start: number;
+  end: number;
+}
+
+const getDaySegment = (event: EventItem, dayDate: Date): DaySegment => {
+  const dayStart = new Date(dayDate);
+  dayStart.setHours(0, 0, 0, 0);
+  const toMinutes = (date: Date) => Math.round((date.getTime() - dayStart.getTime()) / 60000);
+  // Events running over midnight are clipped to the day
+  return {
+    event,
+    start: Math.max(0, toMinutes(new Date(event.date))),
+    end: Math.min(24 * 60, toMinutes(getEventEnd(event)))
+  };
+};
+
+// Function to check if two events overlap on the same day
+const segmentsOverlap = (a: DaySegment, b: DaySegment): boolean => a.start < b.end && b.start < a.end;
+
+// Function to process events and calculate their positions for one day's time grid
+export const processEvents = (events: EventItem[], dayDate: Date, hours: HourRange = WEEK_HOURS): EventWithPosition[] => {
+  // Expand recurring events into this day's occurrences; all-day and multi-day events go in the all-day lane
+  const day = getLocalDateString(dayDate);
+  const dayEvents = expandEvents(events, day, day).filter(event => !isSpanningEvent(event));
+  if (dayEvents.length === 0) return [];
+
+  // Sort events by start time
+  const sortedSegments = dayEvents
+    .map(event => getDaySegment(event, dayDate))
+    .sort((a, b) => a.start - b.start);
+
+  // Create columns for non-overlapping events
+  const columns: DaySegment[][] = [];
+  
+  // Assign each event to the first column where it doesn't overlap with ANY event in that column
+  sortedSegments.forEach(segment => {
+    let placed = false;
+    for (const column of columns) {
+      const hasOverlapInColumn = column.some(existing => segmentsOverlap(existing, segment));
+      if (!hasOverlapInColumn) {
+        column.push(segment);
+        placed = true;
+        break;
+      }
+    }
+    if (!placed) {
+      columns.push([segment]);
+    }
+  });
+
+  // Calculate positions for each event
+  const result: EventWithPosition[] = [];
+  const columnWidth = 100 / columns.length;
+  const rowHeightPercent = 100 / (hours.end - hours.start);
+  const windowStart = hours.start * 60;
+  const windowEnd = hours.end * 60;
+  const windowLength = windowEnd - windowStart;
+
+  columns.forEach((column, columnIndex) => {
+    column.forEach(({ event, start, end }) => {
+      // Events outside the visible hours are pinned to its edges
+      const adjustedStart = Math.min(windowLength, Math.max(windowStart, start) - windowStart);
+      const adjustedEnd = Math.max(adjustedStart, Math.min(windowEnd, end) - windowStart);
+      let top = (adjustedStart / windowLength) * 100 - rowHeightPercent / 2;
+      if (top < 0) top = 0;
+      const height = ((adjustedEnd - adjustedStart) / windowLength) * 100;
+      const left = columnIndex * columnWidth;
+      result.push({
+        ...event,
+        position: {
+          top: `${top}%`,
+          height: `${height}%`,
+          left: `${left}%`,
+          width: `${columnWidth}%`
+        }
+      });
+    });
+  });
+  return result;
+};
+
+// An all-day or multi-day event placed in the week's all-day lane
+export interface LaneEvent {
+  event: EventItem;
+  row: number;
+  firstDay: number; // Index into the week's days
+  lastDay: number;
+}
+
+// Stack spanning events into rows so bars that share a day don't overlap
+export const layoutAllDayLane = (events: EventItem[], weekDays: WeekDayInfo[]): LaneEvent[] => {
+  const dates = weekDays.map(day => getLocalDateString(day.fullDate));
+  const weekEvents = expandEvents(events, dates[0], dates[dates.length - 1])
+    .filter(isSpanningEvent)
+    .map(event => ({
+      event,
+      firstDay: Math.max(0, dates.indexOf(getEventDate(event))),
+      lastDay: dates.indexOf(getEventLastDate(event)) < 0 ? dates.length - 1 : dates.indexOf(getEventLastDate(event))
+    }))
+    // Earlier and longer bars first, so they get the top rows
+    .sort((a, b) => a.firstDay - b.firstDay || (b.lastDay - b.firstDay) - (a.lastDay - a.firstDay));
+
+  const rows: LaneEvent[][] = [];
+  return weekEvents.map(item => {
+    let row = rows.findIndex(placed => placed.every(other => other.lastDay < item.firstDay || other.firstDay > item.lastDay));
+    if (row < 0) {
+      rows.push([]);
+      row = rows.length - 1;
+    }
+    const laneEvent = { ...item, row };
+    rows[row].push(laneEvent);
+    return laneEvent;
+  });
+};
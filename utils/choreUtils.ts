@@ -0,0 +1,201 @@
+/**
+ * Multi-assignee chore helpers
+ * Centralises completion and points rules so the service layer and UI agree
+ */
+import {
+  Chore,
+  NewChore,
+  ChoreAssignment,
+  ChorePointsAward,
+  ChoreCompletionResult,
+  ChoreSeries,
+  RecurrenceRule
+} from '../types';
+import { addDays, expandOccurrences, getFirstOccurrence, getLocalDateString, RECURRENCE_WINDOW_DAYS } from './recurrence';
+
+export const getCompletionMode = (chore: Chore) => chore.completionMode ?? 'any';
+export const getPointsMode = (chore: Chore) => chore.pointsMode ?? 'duplicate';
+
+/** Assignments for every assignee, filling in rows missing from older data */
+export function getChoreAssignments(chore: Chore): ChoreAssignment[] {
+  const existing = chore.assignments ?? [];
+  return chore.assignedTo.map(memberId =>
+    existing.find(a => a.memberId === memberId) ?? { memberId, completedAt: null }
+  );
+}
+
+export function isAssignmentComplete(chore: Chore, memberId: string): boolean {
+  if (getCompletionMode(chore) === 'any') return chore.completed;
+  return !!getChoreAssignments(chore).find(a => a.memberId === memberId)?.completedAt;
+}
+
+/** Points one assignee earns for their share of the chore */
+export function getMemberShare(chore: Chore, memberId: string): number {
+  const assignees = chore.assignedTo;
+  if (getPointsMode(chore) === 'duplicate' || assignees.length <= 1) return chore.points;
+
+  // Split evenly; the remainder goes to the earliest assignees so the total is preserved
+  const base = Math.floor(chore.points / assignees.length);
+  const remainder = chore.points % assignees.length;
+  const index = assignees.indexOf(memberId);
+  return index >= 0 && index < remainder ? base + 1 : base;
+}
+
+/**
+ * Points handed out when `memberId` completes the chore.
+ * 'any' + 'duplicate' credits only the completer; 'any' + 'split' shares the points with
+ * every assignee; 'each' credits the completer with their share.
+ */
+export function getCompletionAwards(chore: Chore, memberId: string): ChorePointsAward[] {
+  if (getCompletionMode(chore) === 'any' && getPointsMode(chore) === 'split') {
+    return chore.assignedTo.map(id => ({ memberId: id, points: getMemberShare(chore, id) }));
+  }
+  return [{ memberId, points: getMemberShare(chore, memberId) }];
+}
+
+/** Points earned so far by a member from a chore */
+export function getEarnedPoints(chore: Chore, memberId: string): number {
+  if (!chore.assignedTo.includes(memberId)) return 0;
+
+  // Prefer what was actually credited; older chores fall back to the configured rules
+  const recorded = getChoreAssignments(chore).find(a => a.memberId === memberId)?.pointsAwarded;
+  if (recorded) return recorded;
+
+  if (getCompletionMode(chore) === 'each') {
+    return isAssignmentComplete(chore, memberId) ? getMemberShare(chore, memberId) : 0;
+  }
+  if (!chore.completed) return 0;
+  if (getPointsMode(chore) === 'split') return getMemberShare(chore, memberId);
+
+  // 'any' + 'duplicate': only whoever completed it is credited (legacy rows credit the first assignee)
+  const completer = getChoreAssignments(chore).find(a => a.completedAt) ?? { memberId: chore.assignedTo[0] };
+  return completer.memberId === memberId ? chore.points : 0;
+}
+
+/** The first assignee still to finish; who a plain "Mark done" completes the chore as */
+export const getNextAssignee = (chore: Chore): string | undefined =>
+  chore.assignedTo.find(id => !isAssignmentComplete(chore, id)) ?? chore.assignedTo[0];
+
+/**
+ * Apply a completion by `memberId`, mirroring the complete_chore RPC.
+ * 'any' finishes the chore outright; 'each' finishes it once every assignment is complete.
+ * Credited points are recorded on the assignments so they can be reversed later.
+ */
+export function completeChoreFor(chore: Chore, memberId?: string, completedAt: string = new Date().toISOString()): ChoreCompletionResult {
+  if (chore.assignedTo.length === 0) {
+    return { chore: { ...chore, completed: true }, awards: [], alreadyApplied: chore.completed };
+  }
+  // 'each' chores need to know who finished; shared 'any' chores default to the next assignee
+  if (!memberId && getCompletionMode(chore) === 'each') {
+    throw new Error('Choose which assignee completed this chore');
+  }
+  memberId = memberId ?? getNextAssignee(chore) as string;
+  if (!chore.assignedTo.includes(memberId)) {
+    throw new Error('Member is not assigned to this chore');
+  }
+  if (isAssignmentComplete(chore, memberId)) {
+    return { chore, awards: [], alreadyApplied: true };
+  }
+
+  const awards = getCompletionAwards(chore, memberId);
+  const assignments = getChoreAssignments(chore).map(a => {
+    const award = awards.find(aw => aw.memberId === a.memberId);
+    return {
+      ...a,
+      completedAt: a.memberId === memberId ? completedAt : a.completedAt,
+      pointsAwarded: (a.pointsAwarded ?? 0) + (award?.points ?? 0)
+    };
+  });
+  const completed = getCompletionMode(chore) === 'any' || assignments.every(a => a.completedAt);
+  return { chore: { ...chore, assignments, completed }, awards, alreadyApplied: false };
+}
+
+/**
+ * Reverse a completion, mirroring the uncomplete_chore RPC.
+ * 'each' chores reopen just `memberId`'s assignment when given; otherwise the whole chore reopens.
+ */
+export function uncompleteChoreFor(chore: Chore, memberId?: string): ChoreCompletionResult {
+  const reopensAll = !memberId || getCompletionMode(chore) === 'any';
+  const isReopened = (a: ChoreAssignment) =>
+    (reopensAll || a.memberId === memberId) && (!!a.completedAt || !!a.pointsAwarded);
+
+  const current = getChoreAssignments(chore);
+  if (!chore.completed && !current.some(isReopened)) {
+    return { chore, awards: [], alreadyApplied: true };
+  }
+
+  const awards: ChorePointsAward[] = current
+    .filter(a => isReopened(a) && a.pointsAwarded)
+    .map(a => ({ memberId: a.memberId, points: -(a.pointsAwarded ?? 0) }));
+  const assignments = current.map(a => (isReopened(a) ? { ...a, completedAt: null, pointsAwarded: 0 } : a));
+  return { chore: { ...chore, assignments, completed: false }, awards, alreadyApplied: false };
+}
+
+/** True once anyone has made progress on the chore (such occurrences are kept when a series changes) */
+export const hasChoreProgress = (chore: Chore) =>
+  chore.completed || getChoreAssignments(chore).some(a => a.completedAt || a.pointsAwarded);
+
+const getSeriesDate = (chore: Chore) => chore.occurrenceDate ?? chore.dueDate;
+
+/** Occurrences replaced by an "all future" edit or delete: `from` onward, skipping any with progress */
+export function getFutureOccurrences(chores: Chore[], from: Chore): Chore[] {
+  if (!from.seriesId) return [];
+  const fromDate = getSeriesDate(from);
+  return chores.filter(chore =>
+    chore.seriesId === from.seriesId && getSeriesDate(chore) >= fromDate && !hasChoreProgress(chore)
+  );
+}
+
+/** Series template for a recurring chore, starting at `startDate` */
+export function createSeriesFromChore(
+  chore: Chore | NewChore,
+  recurrence: RecurrenceRule,
+  startDate: string = chore.dueDate
+): Omit<ChoreSeries, 'id'> {
+  return {
+    title: chore.title,
+    assignedTo: [...chore.assignedTo],
+    points: chore.points,
+    icon: chore.icon,
+    choreTypeId: chore.choreTypeId ?? null,
+    completionMode: chore.completionMode,
+    pointsMode: chore.pointsMode,
+    recurrence,
+    startDate,
+    generatedUntil: null,
+    reminders: chore.reminders ? [...chore.reminders] : []
+  };
+}
+
+/** Occurrences of a series due between `fromDate` and `untilDate` (inclusive) */
+export function buildSeriesOccurrences(series: ChoreSeries, fromDate: string, untilDate: string): NewChore[] {
+  return expandOccurrences(series.recurrence, series.startDate, fromDate, untilDate).map(date => ({
+    title: series.title,
+    assignedTo: [...series.assignedTo],
+    completed: false,
+    points: series.points,
+    dueDate: date,
+    icon: series.icon,
+    choreTypeId: series.choreTypeId ?? null,
+    completionMode: series.completionMode,
+    pointsMode: series.pointsMode,
+    assignments: series.assignedTo.map(memberId => ({ memberId, completedAt: null })),
+    seriesId: series.id,
+    occurrenceDate: date,
+    recurrence: series.recurrence,
+    reminders: series.reminders ? [...series.reminders] : []
+  }));
+}
+
+/** Date range still to generate for a series, or null when it's already generated through `untilDate` */
+export function getPendingSeriesRange(series: ChoreSeries, untilDate: string): { fromDate: string; untilDate: string } | null {
+  const fromDate = series.generatedUntil ? addDays(series.generatedUntil, 1) : series.startDate;
+  return fromDate > untilDate ? null : { fromDate, untilDate };
+}
+
+/** Where a new series is first generated to: the rolling window, stretched to include its first occurrence */
+export function getSeriesWindowEnd(series: Pick<ChoreSeries, 'recurrence' | 'startDate'>, today: string = getLocalDateString()): string {
+  const windowEnd = addDays(today, RECURRENCE_WINDOW_DAYS);
+  const first = getFirstOccurrence(series.recurrence, series.startDate);
+  return first && first > windowEnd ? first : windowEnd;
+}
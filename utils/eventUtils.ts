@@ -0,0 +1,197 @@
+/**
+ * Event timing and recurring event helpers
+ * Recurring events are stored once with their rule and exceptions; occurrences only exist
+ * once expanded for a date range, and edits to them are folded back into the stored event.
+ */
+import { EventItem, EventException, RecurrenceRule, RecurrenceEditScope } from '../types';
+import { addDays, endRecurrence, expandOccurrences, getFirstOccurrence, getLocalDateString } from './recurrence';
+
+type EventFields = Omit<EventItem, 'id'>;
+
+// Fields an occurrence can override
+const OVERRIDE_FIELDS = ['date', 'endDate', 'title', 'color', 'attendees', 'reminders'] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_DURATION_MINUTES = 60; // Events without an end are drawn an hour long
+
+/** Local calendar date (YYYY-MM-DD) an event starts on */
+export const getEventDate = (event: Pick<EventItem, 'date'>) => getLocalDateString(new Date(event.date));
+
+/** Local midnight at the start of a YYYY-MM-DD date */
+export const startOfLocalDay = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// The series' start time of day on another date
+const atDate = (isoDate: string, date: string) => {
+  const start = new Date(isoDate);
+  const day = startOfLocalDay(date);
+  day.setHours(start.getHours(), start.getMinutes());
+  return day.toISOString();
+};
+
+/** HH:mm in local time */
+export const toTimeString = (date: Date) =>
+  `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+
+/**
+ * When the event ends. Uses endDate, then the legacy same-day endTime, then a default:
+ * the end of the day for all-day events, an hour for timed ones.
+ */
+export function getEventEnd(event: Pick<EventItem, 'date' | 'endDate' | 'endTime' | 'allDay'>): Date {
+  const start = new Date(event.date);
+  if (event.endDate) {
+    const end = new Date(event.endDate);
+    if (end > start) return end;
+  }
+  if (event.allDay) return startOfLocalDay(addDays(getEventDate(event), 1));
+  if (event.endTime) {
+    const [hours, minutes] = event.endTime.split(':').map(Number);
+    const end = new Date(start);
+    end.setHours(hours || 0, minutes || 0, 0, 0);
+    if (end > start) return end;
+  }
+  return new Date(start.getTime() + DEFAULT_DURATION_MINUTES * 60 * 1000);
+}
+
+/** Local date of the last day the event covers (its end is exclusive) */
+export const getEventLastDate = (event: EventItem) =>
+  getLocalDateString(new Date(getEventEnd(event).getTime() - 1));
+
+/** All-day events and anything lasting a day or more are drawn as bars rather than in the time grid */
+export const isSpanningEvent = (event: EventItem) =>
+  !!event.allDay || getEventEnd(event).getTime() - new Date(event.date).getTime() >= DAY_MS;
+
+/** True if the event covers any part of [fromDate, toDate] (YYYY-MM-DD) */
+export const eventOverlapsRange = (event: EventItem, fromDate: string, toDate: string) =>
+  getEventDate(event) <= toDate && getEventEnd(event) > startOfLocalDay(fromDate);
+
+// Keep an occurrence's length when its start moves; all-day events keep their number of days
+function moveEnd(event: EventItem, start: string): string | null | undefined {
+  if (!event.endDate && !event.allDay) return event.endDate; // Legacy endTime still applies
+  if (event.allDay) {
+    const days = Math.max(1, Math.round((getEventEnd(event).getTime() - new Date(event.date).getTime()) / DAY_MS));
+    return startOfLocalDay(addDays(getEventDate({ date: start }), days)).toISOString();
+  }
+  return new Date(new Date(start).getTime() + getEventEnd(event).getTime() - new Date(event.date).getTime()).toISOString();
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/** One occurrence of a recurring event, with its exception applied if there is one */
+export function buildOccurrence(event: EventItem, date: string, exception?: EventException): EventItem {
+  const start = exception?.date ?? atDate(event.date, date);
+  return {
+    ...event,
+    id: `${event.id}_${date}`,
+    date: start,
+    // Exceptions from before endDate only have an endTime, which getEventEnd falls back to
+    endDate: exception?.endDate ?? (exception?.endTime ? null : moveEnd(event, start)),
+    endTime: exception?.endTime ?? event.endTime,
+    title: exception?.title ?? event.title,
+    color: exception?.color ?? event.color,
+    attendees: exception?.attendees ?? event.attendees,
+    reminders: exception?.reminders ?? event.reminders,
+    exceptions: undefined,
+    seriesId: event.id,
+    occurrenceDate: date
+  };
+}
+
+/**
+ * Events covering any part of [fromDate, toDate] (YYYY-MM-DD), with recurring events expanded
+ * into occurrences. Multi-day events are included on every day they cover.
+ */
+export function expandEvents(events: EventItem[], fromDate: string, toDate: string): EventItem[] {
+  return events.flatMap(event => {
+    if (!event.recurrence) return eventOverlapsRange(event, fromDate, toDate) ? [event] : [];
+    const exceptions = event.exceptions ?? [];
+    // Occurrences that start before the range can still run into it
+    const spanDays = Math.ceil((getEventEnd(event).getTime() - new Date(event.date).getTime()) / DAY_MS);
+    const dates = new Set(expandOccurrences(event.recurrence, getEventDate(event), addDays(fromDate, -spanDays), toDate));
+    // A moved occurrence can land in the range from a date outside it
+    exceptions.forEach(exception => {
+      if (exception.date) dates.add(exception.originalDate);
+    });
+
+    return [...dates].flatMap(date => {
+      const exception = exceptions.find(e => e.originalDate === date);
+      if (exception?.skipped) return [];
+      const occurrence = buildOccurrence(event, date, exception);
+      return eventOverlapsRange(occurrence, fromDate, toDate) ? [occurrence] : [];
+    });
+  });
+}
+
+const withException = (series: EventItem, exception: EventException): EventItem => ({
+  ...series,
+  exceptions: [...(series.exceptions ?? []).filter(e => e.originalDate !== exception.originalDate), exception]
+});
+
+/** The series with one occurrence left out */
+export const skipOccurrence = (series: EventItem, occurrenceDate: string): EventItem =>
+  withException(series, { originalDate: occurrenceDate, skipped: true });
+
+// A COUNT rule continued from a split point only has the occurrences the original had left
+function continueRule(rule: RecurrenceRule, startDate: string, splitDate: string): RecurrenceRule {
+  if (!rule.count) return rule;
+  const used = expandOccurrences(rule, startDate, startDate, addDays(splitDate, -1)).length;
+  return { ...rule, count: Math.max(1, rule.count - used) };
+}
+
+/**
+ * Fold an edited occurrence back into its series.
+ * 'this' records the changes as an exception for that date. 'future' applies them to the
+ * occurrence and everything after it: the whole series when it's the first occurrence,
+ * otherwise the series is ended the day before and `created` continues it from there.
+ */
+export function applyOccurrenceEdit(
+  series: EventItem,
+  occurrence: EventItem,
+  scope: RecurrenceEditScope
+): { updated: EventItem; created?: EventFields } {
+  const occurrenceDate = occurrence.occurrenceDate ?? getEventDate(occurrence);
+
+  if (scope === 'this') {
+    const original = buildOccurrence(series, occurrenceDate);
+    const exception: EventException = { originalDate: occurrenceDate };
+    OVERRIDE_FIELDS.forEach(field => {
+      if (!sameValue(occurrence[field], original[field])) {
+        (exception as unknown as Record<string, unknown>)[field] = occurrence[field];
+      }
+    });
+    return { updated: withException(series, exception) };
+  }
+
+  const { id: _id, seriesId: _seriesId, occurrenceDate: _date, exceptions: _exceptions, ...fields } = occurrence;
+  const startDate = getEventDate(series);
+  const exceptions = series.exceptions ?? [];
+  const ruleChanged = !sameValue(occurrence.recurrence, series.recurrence);
+  // Exceptions are tied to the old dates, so a new rule or start day drops them
+  const datesChanged = ruleChanged || getEventDate(occurrence) !== occurrenceDate;
+
+  const firstDate = series.recurrence ? getFirstOccurrence(series.recurrence, startDate) ?? startDate : startDate;
+  if (occurrenceDate <= firstDate || !series.recurrence) {
+    return {
+      updated: { ...series, ...fields, exceptions: datesChanged ? [] : exceptions.filter(e => e.originalDate !== occurrenceDate) }
+    };
+  }
+
+  const recurrence = occurrence.recurrence && !ruleChanged
+    ? continueRule(occurrence.recurrence, startDate, occurrenceDate)
+    : occurrence.recurrence;
+  return {
+    updated: {
+      ...series,
+      recurrence: endRecurrence(series.recurrence, addDays(occurrenceDate, -1)),
+      exceptions: exceptions.filter(e => e.originalDate < occurrenceDate)
+    },
+    created: {
+      ...fields,
+      icalUid: null, // The imported UID stays with the original series
+      recurrence,
+      exceptions: datesChanged ? [] : exceptions.filter(e => e.originalDate > occurrenceDate)
+    }
+  };
+}
@@ -0,0 +1,444 @@
+/**
+ * iCalendar (RFC 5545) export and import
+ * Export turns family events into a VCALENDAR other calendar apps can import. Recurring events
+ * keep their RRULE, skipped dates become EXDATEs and edited occurrences are exported as overrides.
+ * Import reads VEVENTs back into the same shape, for the subset of rules the app supports.
+ */
+import { EventItem, EventException, FamilyMember, RecurrenceRule } from '../types';
+import { buildOccurrence, getEventDate, getEventEnd, startOfLocalDay, toTimeString } from './eventUtils';
+import { addDays, formatRRule, getLocalDateString, parseRRule } from './recurrence';
+
+const PRODUCT_ID = '-//Family Tide//Family Calendar//EN';
+const UID_DOMAIN = 'family-tide';
+
+export interface ICalendarExportOptions {
+  calendarName?: string;
+  memberId?: string | null; // Only events this member attends
+}
+
+// Escape TEXT values (RFC 5545 3.3.11)
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/** UTC DATE-TIME value, e.g. 20261013T050000Z */
+export const formatICalDateTime = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// YYYYMMDDTHHMMSS in local time, for values with a TZID
+const formatLocalDateTime = (date: Date) =>
+  [date.getFullYear(), date.getMonth() + 1, date.getDate()].map((n, i) => String(n).padStart(i ? 2 : 4, '0')).join('') +
+  'T' + [date.getHours(), date.getMinutes(), date.getSeconds()].map(n => String(n).padStart(2, '0')).join('');
+
+/**
+ * A date-time property. Recurring events use local time with a TZID, because BYDAY and
+ * friends are evaluated in DTSTART's time zone and a UTC start can fall on a different weekday.
+ */
+function formatTimeProperty(name: string, dates: Date[], timeZone?: string): string {
+  return timeZone
+    ? `${name};TZID=${timeZone}:${dates.map(formatLocalDateTime).join(',')}`
+    : `${name}:${dates.map(formatICalDateTime).join(',')}`;
+}
+
+// All-day values are plain dates (VALUE=DATE), with no time or zone
+const formatDateProperty = (name: string, dates: string[]) =>
+  `${name};VALUE=DATE:${dates.map(date => date.replace(/-/g, '')).join(',')}`;
+
+/** Category name for a Tailwind color class, e.g. bg-sky-300 -> Sky */
+export function colorToCategory(color: string): string {
+  const name = color.match(/^(?:bg-)?([a-z]+)-\d{2,3}$/)?.[1] ?? color;
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+// UNTIL has to match DTSTART's value type, so for timed events a date-only limit becomes the
+// end of that local day
+function formatEventRRule(rule: RecurrenceRule, allDay: boolean): string {
+  const value = formatRRule({ ...rule, until: null });
+  if (!rule.until) return value;
+  if (allDay) return `${value};UNTIL=${rule.until.replace(/-/g, '')}`;
+  const [year, month, day] = rule.until.split('-').map(Number);
+  return `${value};UNTIL=${formatICalDateTime(new Date(year, month - 1, day, 23, 59, 59))}`;
+}
+
+function buildEventLines(
+  event: EventItem,
+  uid: string,
+  members: FamilyMember[],
+  stamp: string,
+  extra: string[] = [],
+  timeZone?: string
+): string[] {
+  const attendees = event.attendees
+    .map(id => members.find(member => member.id === id))
+    .filter((member): member is FamilyMember => !!member);
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    ...extra,
+    ...(event.allDay
+      ? [formatDateProperty('DTSTART', [getEventDate(event)]), formatDateProperty('DTEND', [getLocalDateString(getEventEnd(event))])]
+      : [formatTimeProperty('DTSTART', [new Date(event.date)], timeZone), formatTimeProperty('DTEND', [getEventEnd(event)], timeZone)]),
+    `SUMMARY:${escapeText(event.title)}`,
+    ...(event.color ? [`CATEGORIES:${escapeText(colorToCategory(event.color))}`] : []),
+    ...attendees.map(member => `ATTENDEE;CN="${member.name.replace(/"/g, "'")}";CUTYPE=INDIVIDUAL:urn:uuid:${member.id}`),
+    // Not every app shows ATTENDEE, so the names are repeated in the description
+    ...(attendees.length > 0 ? [`DESCRIPTION:${escapeText(`Attendees: ${attendees.map(m => m.name).join(', ')}`)}`] : []),
+    'END:VEVENT'
+  ];
+}
+
+/** Build an .ics document for the given events */
+export function buildICalendar(events: EventItem[], members: FamilyMember[], options: ICalendarExportOptions = {}): string {
+  const stamp = formatICalDateTime(new Date());
+  const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone || undefined;
+  const selected = options.memberId
+    ? events.filter(event => event.attendees.includes(options.memberId as string))
+    : events;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(options.calendarName ? [`X-WR-CALNAME:${escapeText(options.calendarName)}`] : [])
+  ];
+
+  selected.forEach(event => {
+    const uid = event.icalUid || `${event.id}@${UID_DOMAIN}`;
+    if (!event.recurrence) {
+      lines.push(...buildEventLines(event, uid, members, stamp));
+      return;
+    }
+
+    const exceptions = event.exceptions ?? [];
+    // EXDATE and RECURRENCE-ID name the original start of an occurrence
+    const originalStarts = (name: string, dates: string[]) => event.allDay
+      ? formatDateProperty(name, dates)
+      : formatTimeProperty(name, dates.map(date => new Date(buildOccurrence(event, date).date)), timeZone);
+    const skipped = exceptions.filter(exception => exception.skipped);
+    lines.push(...buildEventLines(event, uid, members, stamp, [
+      `RRULE:${formatEventRRule(event.recurrence, !!event.allDay)}`,
+      ...(skipped.length > 0 ? [originalStarts('EXDATE', skipped.map(exception => exception.originalDate))] : [])
+    ], timeZone));
+
+    // Edited occurrences override the series instance they replace
+    exceptions.filter(exception => !exception.skipped).forEach(exception => {
+      const occurrence = buildOccurrence(event, exception.originalDate, exception);
+      lines.push(...buildEventLines(
+        occurrence, uid, members, stamp, [originalStarts('RECURRENCE-ID', [exception.originalDate])], timeZone
+      ));
+    });
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// --- Import ---
+
+/** A VEVENT read from an .ics file, ready to become an EventItem */
+export interface ParsedICalEvent {
+  uid: string;
+  title: string;
+  date: string; // ISO string
+  endDate?: string; // ISO string
+  endTime?: string; // HH:mm, when the event ends on the day it starts
+  allDay?: boolean;
+  recurrence?: RecurrenceRule | null;
+  exceptions: EventException[];
+  attendeeNames: string[];
+  category?: string;
+  warnings: string[]; // Parts of the event that couldn't be imported as-is
+}
+
+export interface ICalendarParseResult {
+  events: ParsedICalEvent[];
+  warnings: string[];
+}
+
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// RRULE parts the app can represent; anything else is imported as a single event
+const SUPPORTED_RRULE_PARTS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'UNTIL', 'COUNT', 'WKST'];
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\,;nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Undo line folding, then split each line into name, parameters and value
+function parseProperties(content: string): ICalProperty[] {
+  const lines = content.split(/\r?\n/).reduce<string[]>((unfolded, line) => {
+    if (/^[ \t]/.test(line) && unfolded.length > 0) {
+      unfolded[unfolded.length - 1] += line.slice(1);
+    } else if (line.trim()) {
+      unfolded.push(line);
+    }
+    return unfolded;
+  }, []);
+
+  return lines.map(line => {
+    // The value starts at the first colon outside a quoted parameter
+    let inQuotes = false;
+    let split = -1;
+    for (let i = 0; i < line.length && split < 0; i++) {
+      if (line[i] === '"') inQuotes = !inQuotes;
+      else if (line[i] === ':' && !inQuotes) split = i;
+    }
+    const head = split >= 0 ? line.slice(0, split) : line;
+    const [name, ...paramParts] = head.match(/(?:[^;"]|"[^"]*")+/g) ?? [head];
+    const params: Record<string, string> = {};
+    paramParts.forEach(part => {
+      const [key, ...rest] = part.split('=');
+      params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+    });
+    return { name: name.toUpperCase(), params, value: split >= 0 ? line.slice(split + 1) : '' };
+  });
+}
+
+// Offset of a time zone from UTC at the given instant, in milliseconds
+function getTimeZoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - instant;
+}
+
+/**
+ * Read a DATE or DATE-TIME property. UTC values end in Z, TZID values are converted from their
+ * zone, and floating values are taken as local time. Unknown zones (e.g. Windows names) also
+ * fall back to local time and are reported.
+ */
+function parseICalDate(property: ICalProperty, warnings: string[]): { date: Date; allDay: boolean; wallDate: string } | null {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?/);
+  if (!match) return null;
+  const [, year, month, day, hours = '00', minutes = '00', seconds = '00', utc] = match;
+  const fields = [Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds)] as const;
+  const allDay = property.params.VALUE === 'DATE' || match[4] === undefined;
+  const wallDate = `${year}-${month}-${day}`; // The date as written, in the value's own zone
+
+  if (utc) return { date: new Date(Date.UTC(...fields)), allDay, wallDate };
+  const timeZone = property.params.TZID;
+  if (timeZone && !allDay) {
+    try {
+      const guess = Date.UTC(...fields);
+      // Offsets change across DST, so check the offset again at the corrected instant
+      const first = guess - getTimeZoneOffset(guess, timeZone);
+      return { date: new Date(guess - getTimeZoneOffset(first, timeZone)), allDay, wallDate };
+    } catch {
+      warnings.push(`Unknown time zone "${timeZone}", used local time`);
+    }
+  }
+  return { date: new Date(...fields), allDay, wallDate };
+}
+
+// DURATION values like PT1H30M or P1D
+function parseDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks = '0', days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  const total = ((Number(weeks) * 7 + Number(days)) * 24 * 60 * 60 + Number(hours) * 60 * 60 + Number(minutes) * 60 + Number(seconds)) * 1000;
+  return sign === '-' ? -total : total;
+}
+
+function parseRecurrence(value: string, warnings: string[]): RecurrenceRule | null {
+  const parts = value.split(';').map(part => part.split('=')[0].toUpperCase());
+  const unsupported = parts.filter(part => !SUPPORTED_RRULE_PARTS.includes(part));
+  const rule = parseRRule(value);
+  // Monthly "2nd Tuesday" style rules can't be represented
+  const ordinalDays = /BYDAY=[^;]*[0-9]/i.test(value) || (rule?.freq === 'monthly' && /BYDAY=/i.test(value));
+  if (!rule || unsupported.length > 0 || ordinalDays || /BYMONTHDAY=[^;]*(,|-)/i.test(value)) {
+    warnings.push('Repeat rule not supported, imported the first date only');
+    return null;
+  }
+  return rule;
+}
+
+// Start and end shared by events and their overrides
+function readTiming(properties: ICalProperty[], warnings: string[]) {
+  const find = (name: string) => properties.find(property => property.name === name);
+  const startProperty = find('DTSTART');
+  const start = startProperty ? parseICalDate(startProperty, warnings) : null;
+  if (!start) return null;
+
+  const endProperty = find('DTEND');
+  const durationProperty = find('DURATION');
+  const duration = durationProperty ? parseDuration(durationProperty.value) : null;
+  let end = endProperty
+    ? parseICalDate(endProperty, warnings)?.date
+    : duration !== null ? new Date(start.date.getTime() + duration) : undefined;
+
+  if (start.allDay) {
+    // All-day events run from local midnight to the midnight after their last day (one day by default)
+    const startDate = getLocalDateString(start.date);
+    const days = end && end > start.date ? Math.max(1, Math.round((end.getTime() - start.date.getTime()) / (24 * 60 * 60 * 1000))) : 1;
+    end = startOfLocalDay(addDays(startDate, days));
+  }
+  const validEnd = end && end > start.date ? end : undefined;
+  return {
+    date: start.date.toISOString(),
+    endDate: validEnd?.toISOString(),
+    // Same-day ends are also kept in the legacy HH:mm field
+    endTime: validEnd && !start.allDay && getLocalDateString(validEnd) === getLocalDateString(start.date) ? toTimeString(validEnd) : undefined,
+    allDay: start.allDay,
+    wallDate: start.wallDate
+  };
+}
+
+/**
+ * Rules are evaluated in the start's own zone, but the app expands them in local time. When the
+ * start falls on another local day (e.g. a US evening event seen from Australia), move the
+ * rule's days by the same amount.
+ */
+function shiftRule(rule: RecurrenceRule, wallDate: string, localDate: string, warnings: string[]): RecurrenceRule {
+  const days = (Date.parse(localDate) - Date.parse(wallDate)) / (24 * 60 * 60 * 1000);
+  if (!days) return rule;
+  const shifted = { ...rule, byWeekday: rule.byWeekday?.map(day => (day + days + 7) % 7) };
+  if (rule.byMonthDay) {
+    const monthDay = rule.byMonthDay + days;
+    if (monthDay >= 1 && monthDay <= 31) shifted.byMonthDay = monthDay;
+    else warnings.push('Monthly day falls in another month locally, check the dates');
+  }
+  return shifted;
+}
+
+/** Parse the VEVENTs in an .ics document. Overrides are folded into their series' exceptions */
+export function parseICalendar(content: string): ICalendarParseResult {
+  const warnings: string[] = [];
+  const properties = parseProperties(content);
+  if (!properties.some(property => property.name === 'BEGIN' && property.value.toUpperCase() === 'VCALENDAR')) {
+    return { events: [], warnings: ['Not an iCalendar file'] };
+  }
+
+  // Group each VEVENT's own properties, skipping nested components such as VALARM
+  const components: ICalProperty[][] = [];
+  let current: ICalProperty[] | null = null;
+  let depth = 0;
+  properties.forEach(property => {
+    const value = property.value.toUpperCase();
+    if (property.name === 'BEGIN' && value === 'VEVENT') {
+      current = [];
+      depth = 0;
+    } else if (property.name === 'END' && value === 'VEVENT') {
+      if (current) components.push(current);
+      current = null;
+    } else if (current) {
+      if (property.name === 'BEGIN') depth += 1;
+      else if (property.name === 'END') depth -= 1;
+      else if (depth === 0) current.push(property);
+    }
+  });
+
+  const events = new Map<string, ParsedICalEvent>();
+  const overrides: { uid: string; properties: ICalProperty[] }[] = [];
+
+  components.forEach((component, index) => {
+    const find = (name: string) => component.find(property => property.name === name);
+    const uid = find('UID')?.value || `import-${index}`;
+    if (find('STATUS')?.value.toUpperCase() === 'CANCELLED' && !find('RECURRENCE-ID')) return;
+    if (find('RECURRENCE-ID')) {
+      overrides.push({ uid, properties: component });
+      return;
+    }
+    if (events.has(uid)) return; // Duplicate UIDs in one file keep the first event
+
+    const eventWarnings: string[] = [];
+    const timing = readTiming(component, eventWarnings);
+    if (!timing) {
+      warnings.push(`Skipped "${unescapeText(find('SUMMARY')?.value ?? uid)}": no start date`);
+      return;
+    }
+    const rrule = find('RRULE');
+    const startTime = new Date(timing.date);
+    const rule = rrule ? parseRecurrence(rrule.value, eventWarnings) : null;
+    const recurrence = rule ? shiftRule(rule, timing.wallDate, getLocalDateString(startTime), eventWarnings) : null;
+
+    // EXDATEs become skipped occurrences, keyed by their local date
+    const exceptions: EventException[] = recurrence
+      ? component
+          .filter(property => property.name === 'EXDATE')
+          .flatMap(property => property.value.split(',').map(value => parseICalDate({ ...property, value }, eventWarnings)))
+          .filter((parsed): parsed is NonNullable<typeof parsed> => !!parsed)
+          .map(parsed => ({ originalDate: getLocalDateString(parsed.date), skipped: true }))
+      : [];
+
+    events.set(uid, {
+      uid,
+      title: unescapeText(find('SUMMARY')?.value ?? '').trim() || 'Untitled event',
+      date: startTime.toISOString(),
+      endDate: timing.endDate,
+      endTime: timing.endTime,
+      allDay: timing.allDay,
+      recurrence,
+      exceptions,
+      attendeeNames: component
+        .filter(property => property.name === 'ATTENDEE')
+        .map(property => property.params.CN || property.value.replace(/^mailto:/i, ''))
+        .filter(Boolean),
+      category: find('CATEGORIES')?.value.split(',')[0]?.trim() || undefined,
+      warnings: eventWarnings
+    });
+  });
+
+  // Overrides replace single occurrences of a series that was imported with its rule
+  overrides.forEach(({ uid, properties: component }) => {
+    const series = events.get(uid);
+    const recurrenceId = component.find(property => property.name === 'RECURRENCE-ID');
+    const original = recurrenceId ? parseICalDate(recurrenceId, series?.warnings ?? warnings) : null;
+    if (!series?.recurrence || !original) return;
+
+    const originalDate = getLocalDateString(original.date);
+    const exception: EventException = { originalDate };
+    if (component.find(property => property.name === 'STATUS')?.value.toUpperCase() === 'CANCELLED') {
+      exception.skipped = true;
+    } else {
+      const timing = readTiming(component, series.warnings);
+      if (timing && timing.date !== original.date.toISOString()) exception.date = timing.date;
+      if (timing?.endDate) exception.endDate = timing.endDate;
+      const title = component.find(property => property.name === 'SUMMARY');
+      if (title && unescapeText(title.value).trim() !== series.title) exception.title = unescapeText(title.value).trim();
+    }
+    series.exceptions = [...series.exceptions.filter(e => e.originalDate !== originalDate), exception];
+  });
+
+  return { events: [...events.values()], warnings };
+}
+
+/** The EventItem fields for a parsed event, with the attendees and color chosen on import */
+export function toEventFields(parsed: ParsedICalEvent, attendees: string[], color: string): Omit<EventItem, 'id'> {
+  return {
+    title: parsed.title,
+    date: parsed.date,
+    endDate: parsed.endDate ?? null,
+    endTime: parsed.endTime,
+    allDay: !!parsed.allDay,
+    color,
+    attendees,
+    recurrence: parsed.recurrence ?? null,
+    exceptions: parsed.exceptions,
+    icalUid: parsed.uid
+  };
+}
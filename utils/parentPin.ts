@@ -0,0 +1,33 @@
+/**
+ * Parent PIN helpers
+ * The Supabase backend hashes PINs with bcrypt (migration 31); the local backend keeps a salted
+ * SHA-256 so the PIN itself never lands in localStorage
+ */
+
+export const PIN_MIN_LENGTH = 4;
+export const PIN_MAX_LENGTH = 8;
+
+// How long kid mode stays unlocked without a tap or key press
+export const PARENT_UNLOCK_TIMEOUT_MS = 2 * 60 * 1000;
+
+export const isValidPin = (pin: string) =>
+  new RegExp(`^[0-9]{${PIN_MIN_LENGTH},${PIN_MAX_LENGTH}}$`).test(pin);
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+const digest = async (salt: string, pin: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${salt}:${pin}`)));
+
+// Stored as "salt:hash"
+export const hashPin = async (pin: string): Promise<string> => {
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  return `${salt}:${await digest(salt, pin)}`;
+};
+
+export const pinMatches = async (pin: string, stored: string): Promise<boolean> => {
+  const [salt, hash] = stored.split(':');
+  return !!salt && !!hash && (await digest(salt, pin)) === hash;
+};
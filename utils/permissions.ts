@@ -0,0 +1,50 @@
+/**
+ * Family permissions
+ * Which membership roles may perform each action. The RLS policies in migration 30 enforce the
+ * same table; here it decides which controls the UI offers.
+ */
+import { FamilyRole } from '../types';
+
+const EVERYONE: readonly FamilyRole[] = ['parent', 'child', 'other'];
+const ADULTS: readonly FamilyRole[] = ['parent', 'other'];
+const PARENTS: readonly FamilyRole[] = ['parent'];
+
+export const PERMISSIONS = {
+  'familyDetails.edit': PARENTS,
+  'familyMember.create': PARENTS,
+  'familyMember.edit': PARENTS,
+  'familyMember.delete': PARENTS,
+  'points.adjust': PARENTS,
+  'parentPin.manage': PARENTS,
+  'memberClaim.approve': PARENTS,
+  'membership.role': PARENTS,
+  'chore.create': ADULTS,
+  'chore.edit': ADULTS,
+  'chore.delete': ADULTS,
+  'chore.complete': EVERYONE,
+  'choreType.manage': PARENTS,
+  'event.create': ADULTS,
+  'event.edit': ADULTS,
+  'event.delete': ADULTS,
+  'reward.manage': PARENTS,
+  'reward.request': EVERYONE,
+  'reward.approve': PARENTS,
+  'routine.manage': PARENTS,
+  'routine.complete': EVERYONE
+} satisfies Record<string, readonly FamilyRole[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const hasPermission = (role: FamilyRole | null, permission: Permission): boolean =>
+  role !== null && PERMISSIONS[permission].includes(role);
+
+// Mirrors user_can_act_for_member (migration 32): a child with a linked profile only acts for it
+export const canActForMember = (
+  role: FamilyRole | null,
+  linkedMemberId: string | null,
+  memberId: string
+): boolean => {
+  if (role === null) return false;
+  if (ADULTS.includes(role)) return true;
+  return linkedMemberId === null || linkedMemberId === memberId;
+};
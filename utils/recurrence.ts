@@ -0,0 +1,143 @@
+/**
+ * Recurrence rule helpers
+ * Supports the RFC 5545 subset the app needs (daily, weekly on chosen weekdays, every N days,
+ * monthly) and works on plain YYYY-MM-DD dates so occurrences don't shift across time zones
+ */
+import { RecurrenceRule } from '../types';
+
+// How far ahead recurring items are generated
+export const RECURRENCE_WINDOW_DAYS = 14;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MAX_ITERATIONS = 5000; // Guards against rules that never reach the window
+
+const parseDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const formatDate = (date: Date) => date.toISOString().split('T')[0];
+
+const daysInMonth = (year: number, monthIndex: number) => new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+
+/** Today (or `date`) as YYYY-MM-DD in the local time zone */
+export const getLocalDateString = (date: Date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export function addDays(date: string, days: number): string {
+  const result = parseDate(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return formatDate(result);
+}
+
+export const getWeekday = (date: string) => parseDate(date).getUTCDay();
+
+/** Serialise a rule as an RRULE value, e.g. FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`, `INTERVAL=${Math.max(1, rule.interval || 1)}`];
+  if (rule.freq === 'weekly' && rule.byWeekday?.length) {
+    parts.push(`BYDAY=${[...rule.byWeekday].sort().map(day => WEEKDAY_CODES[day]).join(',')}`);
+  }
+  if (rule.freq === 'monthly' && rule.byMonthDay) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  }
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+}
+
+/** Parse an RRULE value; returns null for frequencies the app doesn't support */
+export function parseRRule(value: string | null | undefined): RecurrenceRule | null {
+  if (!value) return null;
+  const fields = new Map(
+    value.replace(/^RRULE:/i, '').split(';').map(part => {
+      const [key, val = ''] = part.split('=');
+      return [key.toUpperCase(), val] as [string, string];
+    })
+  );
+
+  const freq = fields.get('FREQ')?.toLowerCase();
+  if (freq !== 'daily' && freq !== 'weekly' && freq !== 'monthly') return null;
+
+  const rule: RecurrenceRule = { freq, interval: Math.max(1, parseInt(fields.get('INTERVAL') || '1', 10) || 1) };
+  const byDay = fields.get('BYDAY');
+  if (byDay) {
+    // Ordinal prefixes (e.g. 2MO) aren't supported - keep just the weekday
+    rule.byWeekday = byDay.split(',')
+      .map(code => WEEKDAY_CODES.indexOf(code.slice(-2).toUpperCase()))
+      .filter(day => day >= 0);
+  }
+  const byMonthDay = parseInt(fields.get('BYMONTHDAY') || '', 10);
+  if (byMonthDay > 0) rule.byMonthDay = byMonthDay;
+  const until = fields.get('UNTIL');
+  if (until) rule.until = `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`;
+  const count = parseInt(fields.get('COUNT') || '', 10);
+  if (count > 0) rule.count = count;
+  return rule;
+}
+
+/**
+ * Occurrence dates of a rule starting at `startDate`, limited to [fromDate, toDate].
+ * COUNT is counted from the start of the series, not from `fromDate`.
+ */
+export function expandOccurrences(rule: RecurrenceRule, startDate: string, fromDate: string, toDate: string): string[] {
+  const interval = Math.max(1, rule.interval || 1);
+  const lastDate = rule.until && rule.until < toDate ? rule.until : toDate;
+  const occurrences: string[] = [];
+  let counted = 0;
+
+  // Returns false once the series is exhausted
+  const visit = (date: string): boolean => {
+    if (date < startDate) return true;
+    if (date > lastDate) return false;
+    counted += 1;
+    if (rule.count && counted > rule.count) return false;
+    if (date >= fromDate) occurrences.push(date);
+    return true;
+  };
+
+  const start = parseDate(startDate);
+  for (let step = 0; step < MAX_ITERATIONS; step++) {
+    if (rule.freq === 'daily') {
+      if (!visit(addDays(startDate, step * interval))) break;
+    } else if (rule.freq === 'weekly') {
+      const weekdays = rule.byWeekday?.length ? [...rule.byWeekday].sort() : [start.getUTCDay()];
+      const weekStart = addDays(startDate, step * interval * 7 - start.getUTCDay());
+      if (!weekdays.every(day => visit(addDays(weekStart, day)))) break;
+    } else {
+      const monthIndex = start.getUTCMonth() + step * interval;
+      const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = monthIndex % 12;
+      // Months without the day (e.g. the 31st) use their last day
+      const day = Math.min(rule.byMonthDay ?? start.getUTCDate(), daysInMonth(year, month));
+      if (!visit(formatDate(new Date(Date.UTC(year, month, day))))) break;
+    }
+  }
+  return occurrences;
+}
+
+/** First occurrence on or after `startDate`, if the rule produces one within a year */
+export const getFirstOccurrence = (rule: RecurrenceRule, startDate: string): string | undefined =>
+  expandOccurrences(rule, startDate, startDate, addDays(startDate, 366))[0];
+
+/** A copy of the rule that stops after `lastDate` (used to split a series) */
+export function endRecurrence(rule: RecurrenceRule, lastDate: string): RecurrenceRule {
+  return { ...rule, until: rule.until && rule.until < lastDate ? rule.until : lastDate };
+}
+
+/** Short human description, e.g. "Every 2 weeks on Mon, Thu" */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = Math.max(1, rule.interval || 1);
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.freq];
+  let text = interval === 1 ? `Every ${unit}` : `Every ${interval} ${unit}s`;
+  if (rule.freq === 'weekly' && rule.byWeekday?.length) {
+    text += ` on ${[...rule.byWeekday].sort().map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+  }
+  if (rule.freq === 'monthly' && rule.byMonthDay) {
+    text += ` on day ${rule.byMonthDay}`;
+  }
+  if (rule.until) text += ` until ${rule.until}`;
+  if (rule.count) text += `, ${rule.count} times`;
+  return text;
+}
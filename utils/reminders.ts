@@ -0,0 +1,137 @@
+/**
+ * Reminder timing for events and chores
+ * Items carry reminder offsets in minutes. Timed events count back from their start; chores and
+ * all-day events only have a date, so they count back from REMINDER_HOUR on that day.
+ * Everything here is pure so the scheduler can run it against any clock.
+ */
+import { Chore, EventItem } from '../types';
+import { addDays, getLocalDateString } from './recurrence';
+import { expandEvents, getEventDate, startOfLocalDay } from './eventUtils';
+
+export const REMINDER_HOUR = 9; // 9am on the day for chores and all-day events
+
+export interface Reminder {
+  key: string; // Item and fire time; a moved item gets new keys so its reminders fire again
+  kind: 'event' | 'chore';
+  itemId: string; // Event or chore id (occurrence id for recurring events)
+  title: string;
+  body: string;
+  fireAt: Date;
+  dueAt: Date;
+  memberIds: string[];
+}
+
+export interface ReminderOption {
+  value: number;
+  label: string;
+}
+
+export const EVENT_REMINDER_OPTIONS: ReminderOption[] = [
+  { value: 0, label: 'At the time' },
+  { value: 5, label: '5 min before' },
+  { value: 15, label: '15 min before' },
+  { value: 30, label: '30 min before' },
+  { value: 60, label: '1 hour before' },
+  { value: 120, label: '2 hours before' },
+  { value: 1440, label: '1 day before' }
+];
+
+export const CHORE_REMINDER_OPTIONS: ReminderOption[] = [
+  { value: 0, label: 'Morning of' },
+  { value: 1440, label: 'Day before' },
+  { value: 2880, label: '2 days before' }
+];
+
+const MINUTE_MS = 60 * 1000;
+
+const atReminderHour = (date: string) => {
+  const day = startOfLocalDay(date);
+  day.setHours(REMINDER_HOUR, 0, 0, 0);
+  return day;
+};
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+// "today", "tomorrow" or the weekday and date, relative to when the reminder fires
+function describeDay(due: Date, fireAt: Date): string {
+  const dueDate = getLocalDateString(due);
+  const fireDate = getLocalDateString(fireAt);
+  if (dueDate === fireDate) return 'today';
+  if (dueDate === addDays(fireDate, 1)) return 'tomorrow';
+  return `on ${due.toLocaleDateString([], { weekday: 'long', day: 'numeric', month: 'short' })}`;
+}
+
+const getOffsets = (item: { reminders?: number[] }) => [...new Set(item.reminders ?? [])];
+
+/** When an event's reminders count back from */
+export const getEventReminderBase = (event: EventItem) =>
+  event.allDay ? atReminderHour(getEventDate(event)) : new Date(event.date);
+
+/** When a chore's reminders count back from */
+export const getChoreReminderBase = (chore: Pick<Chore, 'dueDate'>) => atReminderHour(chore.dueDate);
+
+function getEventReminders(events: EventItem[], from: Date, to: Date): Reminder[] {
+  const withReminders = events.filter(event => getOffsets(event).length > 0);
+  if (withReminders.length === 0) return [];
+  // Only events starting up to the largest offset after the window can have a reminder in it
+  const maxOffset = Math.max(...withReminders.flatMap(getOffsets));
+  const fromDate = getLocalDateString(from);
+  const toDate = getLocalDateString(new Date(to.getTime() + maxOffset * MINUTE_MS));
+
+  return expandEvents(withReminders, fromDate, toDate).flatMap(event => {
+    const dueAt = getEventReminderBase(event);
+    return getOffsets(event).map(offset => {
+      const fireAt = new Date(dueAt.getTime() - offset * MINUTE_MS);
+      const when = event.allDay
+        ? `All day ${describeDay(dueAt, fireAt)}`
+        : `Starts ${describeDay(dueAt, fireAt)} at ${formatTime(new Date(event.date))}`;
+      return {
+        key: `event:${event.id}:${fireAt.toISOString()}`,
+        kind: 'event' as const,
+        itemId: event.id,
+        title: event.title,
+        body: when,
+        fireAt,
+        dueAt,
+        memberIds: event.attendees
+      };
+    });
+  });
+}
+
+function getChoreReminders(chores: Chore[]): Reminder[] {
+  return chores
+    .filter(chore => !chore.completed)
+    .flatMap(chore => {
+      const dueAt = getChoreReminderBase(chore);
+      return getOffsets(chore).map(offset => {
+        const fireAt = new Date(dueAt.getTime() - offset * MINUTE_MS);
+        return {
+          key: `chore:${chore.id}:${fireAt.toISOString()}`,
+          kind: 'chore' as const,
+          itemId: chore.id,
+          title: chore.title,
+          body: `Chore due ${describeDay(dueAt, fireAt)}`,
+          fireAt,
+          dueAt,
+          memberIds: chore.assignedTo
+        };
+      });
+    });
+}
+
+/** Reminders that fire within [from, to], earliest first */
+export function getRemindersBetween(events: EventItem[], chores: Chore[], from: Date, to: Date): Reminder[] {
+  return [...getEventReminders(events, from, to), ...getChoreReminders(chores)]
+    .filter(reminder => reminder.fireAt >= from && reminder.fireAt <= to)
+    .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime());
+}
+
+/** Label for an offset, e.g. "15 min before" */
+export function describeReminderOffset(offset: number, options: ReminderOption[] = EVENT_REMINDER_OPTIONS): string {
+  const option = options.find(o => o.value === offset);
+  if (option) return option.label;
+  if (offset % 1440 === 0) return `${offset / 1440} days before`;
+  if (offset % 60 === 0) return `${offset / 60} hours before`;
+  return `${offset} min before`;
+}
@@ -0,0 +1,70 @@
+/**
+ * Routine progress helpers
+ * Mirrors the set_routine_step RPC so offline and local toggles award points the same way
+ */
+import { Routine, RoutineStep, DailyRoutineProgress, RoutineStepResult } from '../types';
+
+/** True once every required step is checked; a routine of only optional steps needs any one */
+export function isRoutineComplete(routine: Routine, completedStepIds: string[]): boolean {
+  const required = routine.steps.filter(step => !step.optional);
+  return required.length > 0
+    ? required.every(step => completedStepIds.includes(step.id))
+    : routine.steps.some(step => completedStepIds.includes(step.id));
+}
+
+/** Points for a day's progress: the checked steps' own points, plus the completion points once complete */
+export function getRoutinePointsEarned(routine: Routine, completedStepIds: string[]): number {
+  const stepPoints = routine.steps
+    .filter(step => completedStepIds.includes(step.id))
+    .reduce((sum, step) => sum + (step.points ?? 0), 0);
+  return stepPoints + (isRoutineComplete(routine, completedStepIds) ? routine.completionPoints || 0 : 0);
+}
+
+/**
+ * How many of the given current steps are checked. Progress rows can still list steps that
+ * were removed from the routine since; those are kept for history but not counted.
+ */
+export function countCompletedSteps(steps: RoutineStep[], completedStepIds: string[]): number {
+  return steps.filter(step => completedStepIds.includes(step.id)).length;
+}
+
+/**
+ * Check or un-check a step. The points credited for the member/routine/date are moved to what
+ * the checked steps are worth now, so step and completion points are each earned once a day.
+ */
+export function setRoutineStepFor(
+  routine: Routine,
+  progress: DailyRoutineProgress | undefined,
+  memberId: string,
+  date: string,
+  stepId: string,
+  done: boolean
+): RoutineStepResult {
+  const current: DailyRoutineProgress = progress ?? {
+    memberId,
+    routineId: routine.id,
+    date,
+    completedStepIds: [],
+    isFullyCompleted: false,
+    pointsAwarded: 0
+  };
+  const pointsAwarded = current.pointsAwarded ?? 0;
+
+  const hasStep = current.completedStepIds.includes(stepId);
+  const completedStepIds = done
+    ? (hasStep ? current.completedStepIds : [...current.completedStepIds, stepId])
+    : current.completedStepIds.filter(id => id !== stepId);
+  const isFullyCompleted = isRoutineComplete(routine, completedStepIds);
+
+  const pointsDelta = getRoutinePointsEarned(routine, completedStepIds) - pointsAwarded;
+
+  if (done === hasStep && isFullyCompleted === current.isFullyCompleted && pointsDelta === 0) {
+    return { progress: current, pointsDelta: 0, alreadyApplied: true };
+  }
+
+  return {
+    progress: { ...current, completedStepIds, isFullyCompleted, pointsAwarded: pointsAwarded + pointsDelta },
+    pointsDelta,
+    alreadyApplied: false
+  };
+}